@@ -1,10 +1,21 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, euint128, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { PredictionTally } from "./PredictionTally.sol";
+
+// Read surface of the governance tokens batches are weighted or gated by: ERC20 balances, or
+// ERC20Votes checkpoints
+interface IWeightToken {
+    function balanceOf(address account) external view returns (uint256);
+
+    function getPastVotes(address account, uint256 timepoint) external view returns (uint256);
+}
 
 contract DAOPredictMarketFHE is SepoliaConfig {
     using FHE for euint32;
+    using FHE for euint64;
+    using FHE for euint128;
     using FHE for ebool;
 
     error NotOwner();
@@ -16,7 +27,19 @@ contract DAOPredictMarketFHE is SepoliaConfig {
     error InvalidArgument();
     error ReplayDetected();
     error StateMismatch();
-    error DecryptionFailed();
+    error AlreadyResolved();
+    error NotResolved();
+    error AlreadyClaimed();
+    error NothingToClaim();
+    error TransferFailed();
+    error MissingRole(bytes32 role, address account);
+    error NotBatchCreator(uint256 batchId, address account);
+    error NotEligible(uint256 batchId, address account);
+    error AlreadyPredicted(uint256 batchId, address account);
+    error NoPrediction(uint256 batchId, address account);
+    error BatchNotStarted(uint256 batchId);
+    error BatchExpired(uint256 batchId);
+    error DecryptionPending(uint256 batchId, uint256 requestId);
 
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
@@ -25,13 +48,182 @@ contract DAOPredictMarketFHE is SepoliaConfig {
     event BatchOpened(uint256 indexed batchId);
     event BatchClosed(uint256 indexed batchId);
     event PredictionSubmitted(address indexed user, uint256 indexed batchId, uint256 encryptedPrediction);
+    event PredictionUpdated(address indexed user, uint256 indexed batchId, uint256 encryptedPrediction);
+    event PredictionRevoked(address indexed user, uint256 indexed batchId, uint256 refund);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId);
     event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 totalYes, uint256 totalNo);
+    // The amount is left out: it adds nothing to the public msg.value, and events are where indexers look first
+    event StakePlaced(address indexed user, uint256 indexed batchId);
+    event MarketResolved(uint256 indexed batchId, bool outcomeYes);
+    event WinningPoolRequested(uint256 indexed requestId, uint256 indexed batchId);
+    event WinningPoolRevealed(uint256 indexed batchId, uint256 winningPool);
+    event ClaimRequested(uint256 indexed requestId, uint256 indexed batchId, address indexed claimant);
+    event PayoutClaimed(uint256 indexed batchId, address indexed claimant, uint256 amount);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event MarketCanceled(uint256 indexed batchId, address indexed canceledBy);
+    event OutcomesDeclared(uint256 indexed batchId, uint8 outcomeCount);
+    event OutcomeTalliesDecrypted(uint256 indexed requestId, uint256 indexed batchId, uint256[] tallies);
+    event MarketResolvedToOutcome(uint256 indexed batchId, uint8 winningOutcome);
+    event ScalarRangeDeclared(uint256 indexed batchId, uint32 lowerBound, uint32 upperBound, uint8 bucketCount);
+    event ScalarResultsDecrypted(uint256 indexed requestId, uint256 indexed batchId, uint256 sum, uint256[] histogram);
+    event MarketResolvedToValue(uint256 indexed batchId, uint32 value);
+    event WeightingConfigured(
+        uint256 indexed batchId,
+        WeightSource source,
+        address indexed token,
+        uint256 snapshot,
+        uint256 unit
+    );
+    event ParticipationPolicySet(
+        uint256 indexed batchId,
+        Participation mode,
+        address token,
+        uint256 minBalance,
+        bytes32 allowlistRoot
+    );
+    event WeightedTalliesDecrypted(uint256 indexed requestId, uint256 indexed batchId, uint256[] weights);
+    event BatchScheduled(uint256 indexed batchId, uint64 startTime, uint64 endTime);
+    event DecryptionRequestExpired(uint256 indexed requestId, uint256 indexed batchId);
+    event BatchMetadataSet(
+        uint256 indexed batchId,
+        bytes32 indexed dao,
+        uint256 proposalChainId,
+        address governor,
+        uint256 proposalId,
+        bytes32 snapshotId,
+        bytes32 questionHash,
+        string metadataURI
+    );
+
+    // The owner implicitly holds every role and is the only one who can appoint DAO admins.
+    // DAO admins manage the creator and resolver roles and can act on any batch.
+    bytes32 public constant DAO_ADMIN_ROLE = keccak256("DAO_ADMIN_ROLE");
+    bytes32 public constant CREATOR_ROLE = keccak256("CREATOR_ROLE");
+    bytes32 public constant RESOLVER_ROLE = keccak256("RESOLVER_ROLE");
+
+    uint8 public constant MAX_OUTCOMES = 8;
+    uint8 public constant MAX_SCALAR_BUCKETS = 8;
+    // How long the oracle has to answer a tally decryption before it may be requested again
+    uint64 public constant DECRYPTION_TIMEOUT = 1 hours;
+
+    enum Outcome {
+        Unresolved,
+        Yes,
+        No,
+        Canceled,
+        // Multi-outcome batch settled on winningOutcomes[batchId]
+        Option,
+        // Scalar batch settled on resolvedValues[batchId]
+        Value
+    }
+
+    enum WeightSource {
+        None,
+        // Retired: a live ERC20 balance could be moved on and counted again from another wallet.
+        // Kept so the enum values stay stable; configureWeighting rejects it.
+        TokenBalance,
+        // ERC20Votes voting power at the snapshot timepoint
+        PastVotes
+    }
+
+    enum Participation {
+        // Whitelisted providers only, each free to submit repeatedly (the default)
+        ProvidersOnly,
+        // Any address
+        Open,
+        // Holders of at least minBalance of token
+        TokenGated,
+        // Addresses in the Merkle tree committed to by allowlistRoot
+        Allowlist
+    }
+
+    // Every mode but ProvidersOnly also limits each address to one prediction per batch
+    struct ParticipationPolicy {
+        Participation mode;
+        address token;
+        uint256 minBalance;
+        bytes32 allowlistRoot;
+    }
+
+    // Weights are token amounts divided by `unit` (1e18 counts whole tokens of an 18-decimal token)
+    struct Weighting {
+        WeightSource source;
+        address token;
+        uint256 snapshot;
+        uint256 unit;
+    }
 
     struct DecryptionContext {
         uint256 batchId;
         bytes32 stateHash;
         bool processed;
+        uint64 expiresAt;
+    }
+
+    struct Position {
+        euint128 yesStake;
+        euint128 noStake;
+        uint256 deposit;
+        bool claimed;
+    }
+
+    // Estimates are clamped to [lowerBound, upperBound] and counted in bucketCount equal-width
+    // buckets; the last bucket also takes the remainder of the range.
+    struct ScalarRange {
+        uint32 lowerBound;
+        uint32 upperBound;
+        uint8 bucketCount;
+    }
+
+    // Chain timestamps bounding when predictions are accepted: from startTime, until before endTime.
+    // Batches without a schedule take predictions until they are closed.
+    struct Schedule {
+        uint64 startTime;
+        uint64 endTime;
+    }
+
+    // The DAO proposal a batch predicts on. `dao` is a short identifier such as an ENS name or Snapshot
+    // space, packed like ethers' encodeBytes32String. Governor proposals are referenced by governor and
+    // proposalId on proposalChainId, Snapshot proposals by snapshotId. `questionHash` is the keccak256
+    // of the question text, which is published at `metadataURI` with the rest of the description.
+    struct BatchMetadata {
+        bytes32 dao;
+        uint256 proposalChainId;
+        address governor;
+        uint256 proposalId;
+        bytes32 snapshotId;
+        bytes32 questionHash;
+        string metadataURI;
+    }
+
+    // Cleartexts of the batch's latest completed decryption, kept so clients can read results
+    // without scanning logs
+    struct BatchResult {
+        bool revealed;
+        uint256 requestId;
+        // Yes then no, one count per declared outcome, or the histogram buckets of a scalar batch
+        uint256[] tallies;
+        // Weighted totals in the same order as the counts, empty on unweighted batches
+        uint256[] weights;
+        uint256 scalarSum;
+    }
+
+    // The prediction an address currently counts with, kept so it can be replaced or withdrawn
+    // while the batch is open. Providers submitting repeatedly can only change their latest one.
+    struct Ballot {
+        euint32 prediction;
+        uint64 weight;
+        uint128 stake;
+        bool active;
+    }
+
+    struct ClaimRequest {
+        uint256 batchId;
+        address claimant;
+        bool processed;
+        // Chain timestamp from which the claimant may request again, as for tally decryptions
+        uint64 expiresAt;
     }
 
     mapping(address => bool) public isProvider;
@@ -40,8 +232,49 @@ contract DAOPredictMarketFHE is SepoliaConfig {
     mapping(uint256 => bool) public isBatchOpen;
     mapping(uint256 => euint32) public encryptedYesCounts;
     mapping(uint256 => euint32) public encryptedNoCounts;
+    // Predictions currently counted; revoked ones are subtracted again
     mapping(uint256 => uint256) public submissionsInBatch;
+    // Set by the first prediction and never cleared, so revoking every prediction does not reopen
+    // the batch's configuration once tallies exist
+    mapping(uint256 => bool) public hasReceivedPredictions;
     mapping(uint256 => DecryptionContext) public decryptionContexts;
+    mapping(uint256 => euint128) public encryptedYesStakes;
+    mapping(uint256 => euint128) public encryptedNoStakes;
+    mapping(uint256 => uint256) public batchPools;
+    mapping(uint256 => mapping(address => Position)) public positions;
+    mapping(uint256 => Outcome) public batchOutcomes;
+    mapping(uint256 => uint256) public winningPools;
+    mapping(uint256 => bool) public winningPoolRevealed;
+    mapping(uint256 => uint256) public winningPoolRequests;
+    mapping(uint256 => ClaimRequest) public claimRequests;
+    // Only a claimant's latest claim request pays out; earlier ones were left to expire
+    mapping(uint256 => mapping(address => uint256)) public latestClaimRequests;
+    mapping(bytes32 => mapping(address => bool)) public hasRole;
+    mapping(uint256 => address) public batchCreators;
+    // Zero for binary yes/no batches; otherwise predictions are outcome indexes in [0, count)
+    mapping(uint256 => uint8) public batchOutcomeCounts;
+    mapping(uint256 => uint8) public winningOutcomes;
+    mapping(uint256 => euint32[]) private _outcomeCounts;
+    mapping(uint256 => euint128[]) private _outcomeStakes;
+    mapping(uint256 => mapping(address => euint128[])) private _positionOutcomeStakes;
+    // bucketCount is zero unless the batch collects numeric estimates
+    mapping(uint256 => ScalarRange) public scalarRanges;
+    mapping(uint256 => uint32) public resolvedValues;
+    mapping(uint256 => euint64) private _scalarSums;
+    mapping(uint256 => euint32[]) private _scalarHistograms;
+    // Weighted tallies sit next to the one-per-prediction counts of weighted batches
+    mapping(uint256 => Weighting) public batchWeightings;
+    mapping(uint256 => euint64) public encryptedYesWeights;
+    mapping(uint256 => euint64) public encryptedNoWeights;
+    mapping(uint256 => euint64[]) private _outcomeWeights;
+    mapping(uint256 => ParticipationPolicy) public participationPolicies;
+    mapping(uint256 => mapping(address => bool)) public hasPredicted;
+    mapping(uint256 => mapping(address => Ballot)) private _ballots;
+    mapping(uint256 => Schedule) public batchSchedules;
+    mapping(uint256 => BatchResult) private _batchResults;
+    mapping(uint256 => BatchMetadata) private _batchMetadata;
+    // Only the latest tally decryption of a batch counts; earlier ones were left to expire
+    mapping(uint256 => uint256) public latestDecryptionRequests;
 
     address public owner;
     bool public paused;
@@ -53,6 +286,16 @@ contract DAOPredictMarketFHE is SepoliaConfig {
         _;
     }
 
+    modifier onlyRoleOrAdmin(bytes32 role) {
+        if (!isAdmin(msg.sender) && !hasRole[role][msg.sender]) revert MissingRole(role, msg.sender);
+        _;
+    }
+
+    modifier onlyBatchManager(uint256 batchId) {
+        _checkBatchManager(batchId, false);
+        _;
+    }
+
     modifier onlyProvider() {
         if (!isProvider[msg.sender]) revert NotProvider();
         _;
@@ -87,6 +330,24 @@ contract DAOPredictMarketFHE is SepoliaConfig {
         emit ProviderRemoved(provider);
     }
 
+    function grantRole(bytes32 role, address account) external {
+        _checkRoleAdmin(role);
+        if (account == address(0) || hasRole[role][account]) revert InvalidArgument();
+        hasRole[role][account] = true;
+        emit RoleGranted(role, account, msg.sender);
+    }
+
+    function revokeRole(bytes32 role, address account) external {
+        _checkRoleAdmin(role);
+        if (!hasRole[role][account]) revert InvalidArgument();
+        delete hasRole[role][account];
+        emit RoleRevoked(role, account, msg.sender);
+    }
+
+    function isAdmin(address account) public view returns (bool) {
+        return account == owner || hasRole[DAO_ADMIN_ROLE][account];
+    }
+
     function setCooldownSeconds(uint256 newCooldownSeconds) external onlyOwner {
         uint256 oldCooldownSeconds = cooldownSeconds;
         if (newCooldownSeconds == oldCooldownSeconds) revert InvalidArgument();
@@ -100,48 +361,234 @@ contract DAOPredictMarketFHE is SepoliaConfig {
         emit PausedSet(shouldPause);
     }
 
-    function openBatch() external onlyOwner whenNotPaused {
-        uint256 currentBatchId = nextBatchId;
-        if (isBatchOpen[currentBatchId]) revert InvalidArgument(); // Should not happen with nextBatchId logic
+    function openBatch() external onlyRoleOrAdmin(CREATOR_ROLE) whenNotPaused {
+        _openBatch();
+    }
 
-        isBatchOpen[currentBatchId] = true;
-        submissionsInBatch[currentBatchId] = 0;
-        // FHE types are initialized on first use, no explicit initialization needed here for encryptedYesCounts/NoCounts
+    /// @notice Opens a batch whose predictions pick one of `outcomeCount` options by index.
+    function openMultiOutcomeBatch(uint8 outcomeCount) external onlyRoleOrAdmin(CREATOR_ROLE) whenNotPaused {
+        if (outcomeCount < 2 || outcomeCount > MAX_OUTCOMES) revert InvalidArgument();
+        uint256 batchId = _openBatch();
+        batchOutcomeCounts[batchId] = outcomeCount;
+        emit OutcomesDeclared(batchId, outcomeCount);
+    }
 
-        nextBatchId++;
-        emit BatchOpened(currentBatchId);
+    /// @notice Opens a batch whose predictions are encrypted numeric estimates in [lowerBound, upperBound].
+    /// Estimates are summed and bucketed without being decrypted; stakes are not accepted.
+    function openScalarBatch(uint32 lowerBound, uint32 upperBound, uint8 bucketCount)
+        external
+        onlyRoleOrAdmin(CREATOR_ROLE)
+        whenNotPaused
+    {
+        if (lowerBound >= upperBound) revert InvalidArgument();
+        if (bucketCount < 2 || bucketCount > MAX_SCALAR_BUCKETS) revert InvalidArgument();
+        if (uint256(upperBound) - lowerBound + 1 < bucketCount) revert InvalidArgument(); // Buckets would be empty
+        uint256 batchId = _openBatch();
+        scalarRanges[batchId] = ScalarRange({ lowerBound: lowerBound, upperBound: upperBound, bucketCount: bucketCount });
+        emit ScalarRangeDeclared(batchId, lowerBound, upperBound, bucketCount);
+    }
+
+    /// @notice Sets who may predict in the batch. Must be set while the batch is open and before
+    /// its first prediction; batches without a policy stay provider-only.
+    function setParticipationPolicy(
+        uint256 batchId,
+        Participation mode,
+        address token,
+        uint256 minBalance,
+        bytes32 allowlistRoot
+    ) external onlyBatchManager(batchId) {
+        _checkConfigurable(batchId);
+        if (mode == Participation.TokenGated && (token == address(0) || minBalance == 0)) revert InvalidArgument();
+        if (mode == Participation.Allowlist && allowlistRoot == bytes32(0)) revert InvalidArgument();
+
+        // Only the fields the mode reads are kept
+        participationPolicies[batchId] = ParticipationPolicy({
+            mode: mode,
+            token: mode == Participation.TokenGated ? token : address(0),
+            minBalance: mode == Participation.TokenGated ? minBalance : 0,
+            allowlistRoot: mode == Participation.Allowlist ? allowlistRoot : bytes32(0)
+        });
+        ParticipationPolicy storage policy = participationPolicies[batchId];
+        emit ParticipationPolicySet(batchId, mode, policy.token, policy.minBalance, policy.allowlistRoot);
+    }
+
+    /// @notice Weights the batch's predictions by the submitter's ERC20Votes voting power in `token`,
+    /// the only accepted source. Must be set while the batch is open and before its first prediction;
+    /// scalar batches cannot be weighted.
+    /// @param snapshot Timepoint, in the token's clock, at which voting power is read
+    function configureWeighting(uint256 batchId, WeightSource source, address token, uint256 snapshot, uint256 unit)
+        external
+        onlyBatchManager(batchId)
+    {
+        _checkConfigurable(batchId);
+        if (_isWeighted(batchId) || _isScalar(batchId)) revert InvalidArgument();
+        if (source != WeightSource.PastVotes || token == address(0) || unit == 0) revert InvalidArgument();
+
+        // Probe the token so a non-votes token or a future snapshot fails here rather than on every submission
+        try IWeightToken(token).getPastVotes(address(this), snapshot) returns (uint256) {} catch {
+            revert InvalidArgument();
+        }
+
+        batchWeightings[batchId] = Weighting({ source: source, token: token, snapshot: snapshot, unit: unit });
+        emit WeightingConfigured(batchId, source, token, snapshot, unit);
+    }
+
+    /// @notice Limits predictions to chain time [startTime, endTime); a zero startTime opens them
+    /// right away. Must be set while the batch is open and before its first prediction.
+    function setBatchSchedule(uint256 batchId, uint64 startTime, uint64 endTime) external onlyBatchManager(batchId) {
+        _checkConfigurable(batchId);
+        if (startTime >= endTime || endTime <= block.timestamp) revert InvalidArgument();
+
+        batchSchedules[batchId] = Schedule({ startTime: startTime, endTime: endTime });
+        emit BatchScheduled(batchId, startTime, endTime);
+    }
+
+    /// @notice Links the batch to the proposal it predicts on, with either a Governor or a Snapshot
+    /// reference. Must be set while the batch is open and before its first prediction.
+    function setBatchMetadata(uint256 batchId, BatchMetadata calldata metadata) external onlyBatchManager(batchId) {
+        _checkConfigurable(batchId);
+        if (metadata.dao == bytes32(0) || metadata.questionHash == bytes32(0)) revert InvalidArgument();
+        if ((metadata.governor == address(0)) == (metadata.snapshotId == bytes32(0))) revert InvalidArgument();
+
+        _batchMetadata[batchId] = metadata;
+        emit BatchMetadataSet(
+            batchId,
+            metadata.dao,
+            metadata.proposalChainId,
+            metadata.governor,
+            metadata.proposalId,
+            metadata.snapshotId,
+            metadata.questionHash,
+            metadata.metadataURI
+        );
     }
 
-    function closeBatch(uint256 batchId) external onlyOwner {
+    /// @notice Closes the batch. Once a scheduled batch has passed its end time anyone may close it.
+    function closeBatch(uint256 batchId) external {
+        // Resolvers may close any batch, so the resolver service can settle proposals on time
+        if (!_hasExpired(batchId)) _checkBatchManager(batchId, true);
         if (!isBatchOpen[batchId]) revert BatchNotOpen();
         isBatchOpen[batchId] = false;
         emit BatchClosed(batchId);
     }
 
-    function submitPrediction(uint256 batchId, euint32 encryptedPrediction)
+    /// @notice Submits an encrypted prediction. Any ETH sent is staked on the encrypted side, so the
+    /// per-outcome stake totals stay hidden until the market is resolved.
+    /// @dev Stakes are plain ETH: each stake's size is public through msg.value and the position's
+    /// deposit, only the side it backs is encrypted. Claims reveal that side too, since claim()
+    /// publicly decrypts the claimant's winning stake and pays it out in ETH: a payout below the
+    /// deposit, or none, shows the claimant backed a losing side.
+    function submitPrediction(uint256 batchId, externalEuint32 encryptedPrediction, bytes calldata inputProof)
+        external
+        payable
+    {
+        _submitPrediction(batchId, encryptedPrediction, inputProof, new bytes32[](0));
+    }
+
+    /// @notice submitPrediction for allowlist batches, with the caller's Merkle proof of membership.
+    function submitPredictionWithProof(
+        uint256 batchId,
+        externalEuint32 encryptedPrediction,
+        bytes calldata inputProof,
+        bytes32[] calldata allowlistProof
+    ) external payable {
+        _submitPrediction(batchId, encryptedPrediction, inputProof, allowlistProof);
+    }
+
+    /// @notice Whether `account` may predict in the batch now, given its allowlist proof if any.
+    function canPredict(uint256 batchId, address account, bytes32[] calldata allowlistProof) external view returns (bool) {
+        ParticipationPolicy storage policy = participationPolicies[batchId];
+        if (!isBatchOpen[batchId] || block.timestamp < batchSchedules[batchId].startTime || _hasExpired(batchId)) {
+            return false;
+        }
+        if (policy.mode != Participation.ProvidersOnly && hasPredicted[batchId][account]) return false;
+        return _isEligible(policy, account, allowlistProof);
+    }
+
+    function _submitPrediction(
+        uint256 batchId,
+        externalEuint32 encryptedPrediction,
+        bytes calldata inputProof,
+        bytes32[] memory allowlistProof
+    ) internal whenNotPaused respectCooldown(msg.sender, lastSubmissionTime) {
+        _checkAcceptingPredictions(batchId);
+        ParticipationPolicy storage policy = participationPolicies[batchId];
+        if (policy.mode == Participation.ProvidersOnly) {
+            if (!isProvider[msg.sender]) revert NotProvider();
+        } else {
+            if (hasPredicted[batchId][msg.sender]) revert AlreadyPredicted(batchId, msg.sender);
+            if (!_isEligible(policy, msg.sender, allowlistProof)) revert NotEligible(batchId, msg.sender);
+        }
+        hasPredicted[batchId][msg.sender] = true;
+
+        euint32 prediction = FHE.fromExternal(encryptedPrediction, inputProof);
+        if (!prediction.isInitialized()) revert InvalidArgument();
+        if (msg.value > type(uint128).max) revert InvalidArgument();
+        if (msg.value > 0 && _isScalar(batchId)) revert InvalidArgument(); // Scalar markets carry no payout rule
+
+        _castBallot(batchId, prediction, uint128(msg.value), false);
+        if (msg.value > 0) {
+            positions[batchId][msg.sender].deposit += msg.value;
+            batchPools[batchId] += msg.value;
+            emit StakePlaced(msg.sender, batchId);
+        }
+
+        submissionsInBatch[batchId]++;
+        hasReceivedPredictions[batchId] = true;
+        lastSubmissionTime[msg.sender] = block.timestamp;
+        emit PredictionSubmitted(msg.sender, batchId, uint256(prediction.toBytes32()));
+    }
+
+    /// @notice Replaces the caller's current prediction while the batch is open. The old choice is
+    /// subtracted from the encrypted tallies and the new one added; its stake moves along with it.
+    function updatePrediction(uint256 batchId, externalEuint32 encryptedPrediction, bytes calldata inputProof)
         external
-        onlyProvider
         whenNotPaused
         respectCooldown(msg.sender, lastSubmissionTime)
     {
-        if (!isBatchOpen[batchId]) revert BatchClosedOrDoesNotExist();
-        if (!encryptedPrediction.isInitialized()) revert InvalidArgument();
+        Ballot storage ballot = _activeBallot(batchId, msg.sender);
+        euint32 prediction = FHE.fromExternal(encryptedPrediction, inputProof);
+        if (!prediction.isInitialized()) revert InvalidArgument();
 
-        // Initialize encrypted counters if this is the first submission for the batch
-        _initIfNeeded(encryptedYesCounts[batchId]);
-        _initIfNeeded(encryptedNoCounts[batchId]);
+        _castBallot(batchId, prediction, ballot.stake, true);
 
-        // For simplicity, prediction 1 means YES, 0 means NO.
-        // A real system might have more complex prediction encoding.
-        ebool isYesVote = encryptedPrediction.ge(FHE.asEuint32(1));
+        lastSubmissionTime[msg.sender] = block.timestamp;
+        emit PredictionUpdated(msg.sender, batchId, uint256(prediction.toBytes32()));
+    }
 
-        // Aggregate votes
-        encryptedYesCounts[batchId] = encryptedYesCounts[batchId].add(isYesVote.select(FHE.asEuint32(1), FHE.asEuint32(0)));
-        encryptedNoCounts[batchId] = encryptedNoCounts[batchId].add(isYesVote.select(FHE.asEuint32(0), FHE.asEuint32(1)));
-        
-        submissionsInBatch[batchId]++;
+    /// @notice Withdraws the caller's current prediction while the batch is open and refunds the
+    /// stake sent with it. The caller may submit again afterwards.
+    function revokePrediction(uint256 batchId) external whenNotPaused respectCooldown(msg.sender, lastSubmissionTime) {
+        uint128 refund = _activeBallot(batchId, msg.sender).stake;
+        _castBallot(batchId, euint32.wrap(0), 0, true);
+        hasPredicted[batchId][msg.sender] = false;
+        submissionsInBatch[batchId]--;
         lastSubmissionTime[msg.sender] = block.timestamp;
-        emit PredictionSubmitted(msg.sender, batchId, encryptedPrediction.toBytes32());
+        if (refund > 0) {
+            positions[batchId][msg.sender].deposit -= refund;
+            batchPools[batchId] -= refund;
+        }
+        emit PredictionRevoked(msg.sender, batchId, refund);
+
+        if (refund > 0) {
+            (bool sent, ) = msg.sender.call{ value: refund }("");
+            if (!sent) revert TransferFailed();
+        }
+    }
+
+    /// @notice Decrypted tallies of the batch; `revealed` stays false until a decryption completes.
+    function getBatchResult(uint256 batchId) external view returns (BatchResult memory) {
+        return _batchResults[batchId];
+    }
+
+    /// @notice Proposal the batch predicts on; `dao` is zero when none was set.
+    function getBatchMetadata(uint256 batchId) external view returns (BatchMetadata memory) {
+        return _batchMetadata[batchId];
+    }
+
+    /// @notice Handle of the prediction `account` currently counts with, zero when it has none.
+    function getCurrentPrediction(uint256 batchId, address account) external view returns (euint32) {
+        return _ballots[batchId][account].prediction;
     }
 
     function requestBatchResultDecryption(uint256 batchId)
@@ -153,21 +600,27 @@ contract DAOPredictMarketFHE is SepoliaConfig {
         if (isBatchOpen[batchId]) revert BatchNotOpen(); // Batch must be closed
         if (submissionsInBatch[batchId] == 0) revert InvalidArgument(); // Nothing to decrypt
 
-        euint32 finalEncryptedYesCount = encryptedYesCounts[batchId];
-        euint32 finalEncryptedNoCount = encryptedNoCounts[batchId];
+        bytes32[] memory cts = _tallyCiphertexts(batchId);
+        if (cts.length == 0) revert InvalidArgument(); // Should have been initialized if submissions > 0
 
-        if (!finalEncryptedYesCount.isInitialized() || !finalEncryptedNoCount.isInitialized()) {
-            revert InvalidArgument(); // Should have been initialized if submissions > 0
+        // An unanswered request blocks new ones until it expires, then the new one replaces it
+        uint256 previousId = latestDecryptionRequests[batchId];
+        DecryptionContext storage previous = decryptionContexts[previousId];
+        if (previous.batchId == batchId && !previous.processed) {
+            if (block.timestamp < previous.expiresAt) revert DecryptionPending(batchId, previousId);
+            emit DecryptionRequestExpired(previousId, batchId);
         }
-        
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = finalEncryptedYesCount.toBytes32();
-        cts[1] = finalEncryptedNoCount.toBytes32();
 
         bytes32 stateHash = _hashCiphertexts(cts);
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
 
-        decryptionContexts[requestId] = DecryptionContext({ batchId: batchId, stateHash: stateHash, processed: false });
+        decryptionContexts[requestId] = DecryptionContext({
+            batchId: batchId,
+            stateHash: stateHash,
+            processed: false,
+            expiresAt: uint64(block.timestamp) + DECRYPTION_TIMEOUT
+        });
+        latestDecryptionRequests[batchId] = requestId;
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
         emit DecryptionRequested(requestId, batchId);
     }
@@ -181,45 +634,451 @@ contract DAOPredictMarketFHE is SepoliaConfig {
         // State Verification: Rebuild ciphertexts from current storage and verify hash
         // This ensures that the contract state relevant to this decryption request hasn't changed
         // since the request was made.
-        euint32 currentEncryptedYesCount = encryptedYesCounts[ctx.batchId];
-        euint32 currentEncryptedNoCount = encryptedNoCounts[ctx.batchId];
+        bytes32[] memory currentCts = _tallyCiphertexts(ctx.batchId);
+        if (currentCts.length == 0) revert StateMismatch(); // Should not happen if batch had submissions
 
-        if (!currentEncryptedYesCount.isInitialized() || !currentEncryptedNoCount.isInitialized()) {
-            revert StateMismatch(); // Should not happen if batch had submissions
-        }
-
-        bytes32[] memory currentCts = new bytes32[](2);
-        currentCts[0] = currentEncryptedYesCount.toBytes32();
-        currentCts[1] = currentEncryptedNoCount.toBytes32();
-        
         bytes32 currentStateHash = _hashCiphertexts(currentCts);
         if (currentStateHash != ctx.stateHash) {
             revert StateMismatch();
         }
 
-        // Proof Verification
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) {
-            revert DecryptionFailed();
-        }
+        // Late answers to replaced requests are dropped without reverting, so the relayer doesn't retry them
+        if (latestDecryptionRequests[ctx.batchId] != requestId) return;
 
-        // Decode & Finalize
-        // cleartexts is abi.encodePacked(clearYesCount, clearNoCount)
-        // Each uin32 is 4 bytes.
-        uint256 totalYes = uint256(uint32(bytes4(cleartexts)));
-        uint256 totalNo = uint256(uint32(bytes4(cleartexts[4:])));
+        // Proof Verification (reverts on invalid KMS signatures)
+        FHE.checkSignatures(requestId, cleartexts, proof);
 
+        uint256 batchId = ctx.batchId;
         ctx.processed = true;
-        emit DecryptionCompleted(requestId, ctx.batchId, totalYes, totalNo);
+        BatchResult storage result = _batchResults[batchId];
+        result.requestId = requestId;
+        result.revealed = true;
+
+        if (_isScalar(batchId)) {
+            // cleartexts is abi.encode(sum, bucket0, bucket1, ...)
+            uint256 sum = PredictionTally.decodeWords(cleartexts, 0, 1, 64)[0];
+            uint256[] memory histogram = PredictionTally.decodeWords(cleartexts, 1, currentCts.length - 1, 32);
+            result.scalarSum = sum;
+            result.tallies = histogram;
+            emit ScalarResultsDecrypted(requestId, batchId, sum, histogram);
+            return;
+        }
+
+        // Weighted batches append one weight per count, in the same order
+        uint256 weightCount = _isWeighted(batchId) ? currentCts.length / 2 : 0;
+
+        // cleartexts is abi.encode(count0, count1, ...): yes then no, or one word per declared outcome
+        uint256[] memory tallies = PredictionTally.decodeWords(cleartexts, 0, currentCts.length - weightCount, 32);
+        result.tallies = tallies;
+        if (batchOutcomeCounts[batchId] > 0) emit OutcomeTalliesDecrypted(requestId, batchId, tallies);
+        else emit DecryptionCompleted(requestId, batchId, tallies[0], tallies[1]);
+
+        if (weightCount > 0) {
+            uint256[] memory weights = PredictionTally.decodeWords(cleartexts, currentCts.length - weightCount, weightCount, 64);
+            result.weights = weights;
+            emit WeightedTalliesDecrypted(requestId, batchId, weights);
+        }
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
-        return keccak256(abi.encode(cts, address(this)));
+    function resolveMarket(uint256 batchId, bool outcomeYes) external onlyRoleOrAdmin(RESOLVER_ROLE) {
+        _checkResolvable(batchId);
+        if (batchOutcomeCounts[batchId] > 0) revert InvalidArgument(); // Use resolveMultiOutcomeMarket
+        if (_isScalar(batchId)) revert InvalidArgument(); // Use resolveScalarMarket
+
+        batchOutcomes[batchId] = outcomeYes ? Outcome.Yes : Outcome.No;
+        emit MarketResolved(batchId, outcomeYes);
+
+        _requestWinningPool(batchId, outcomeYes ? encryptedYesStakes[batchId] : encryptedNoStakes[batchId]);
+    }
+
+    function resolveMultiOutcomeMarket(uint256 batchId, uint8 winningOutcome) external onlyRoleOrAdmin(RESOLVER_ROLE) {
+        _checkResolvable(batchId);
+        if (winningOutcome >= batchOutcomeCounts[batchId]) revert InvalidArgument(); // Also rejects binary batches
+
+        batchOutcomes[batchId] = Outcome.Option;
+        winningOutcomes[batchId] = winningOutcome;
+        emit MarketResolvedToOutcome(batchId, winningOutcome);
+
+        euint128[] storage stakes = _outcomeStakes[batchId];
+        _requestWinningPool(batchId, stakes.length > 0 ? stakes[winningOutcome] : euint128.wrap(0));
+    }
+
+    /// @notice Records the realised value of a scalar market. There is no pool to settle, so this
+    /// only fixes the value estimates are compared against.
+    function resolveScalarMarket(uint256 batchId, uint32 value) external onlyRoleOrAdmin(RESOLVER_ROLE) {
+        _checkResolvable(batchId);
+        if (!_isScalar(batchId)) revert InvalidArgument();
+
+        batchOutcomes[batchId] = Outcome.Value;
+        resolvedValues[batchId] = value;
+        emit MarketResolvedToValue(batchId, value);
+    }
+
+    function getScalarSum(uint256 batchId) external view returns (euint64) {
+        return _scalarSums[batchId];
+    }
+
+    function getScalarHistogram(uint256 batchId) external view returns (euint32[] memory) {
+        return _scalarHistograms[batchId];
     }
 
-    function _initIfNeeded(euint32 storage x) internal {
-        if (!x.isInitialized()) {
-            x = FHE.asEuint32(0);
+    /// @notice Lowest value counted in each bucket of a scalar batch; bucket i ends where bucket i + 1 starts.
+    function getScalarBucketBounds(uint256 batchId) public view returns (uint32[] memory bounds) {
+        ScalarRange memory range = scalarRanges[batchId];
+        bounds = new uint32[](range.bucketCount);
+        uint256 width = (uint256(range.upperBound) - range.lowerBound + 1) / range.bucketCount;
+        for (uint256 i = 0; i < bounds.length; i++) {
+            bounds[i] = uint32(range.lowerBound + i * width);
+        }
+    }
+
+    function getOutcomeCounts(uint256 batchId) external view returns (euint32[] memory) {
+        return _outcomeCounts[batchId];
+    }
+
+    function getOutcomeWeights(uint256 batchId) external view returns (euint64[] memory) {
+        return _outcomeWeights[batchId];
+    }
+
+    function getOutcomeStakes(uint256 batchId, address account) external view returns (euint128[] memory) {
+        return _positionOutcomeStakes[batchId][account];
+    }
+
+    function _requestWinningPool(uint256 batchId, euint128 winningStake) internal {
+        if (!winningStake.isInitialized()) {
+            // Nothing was staked on this batch
+            _revealWinningPool(batchId, 0);
+            return;
+        }
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = winningStake.toBytes32();
+        uint256 requestId = FHE.requestDecryption(cts, this.winningPoolCallback.selector);
+        winningPoolRequests[requestId] = batchId;
+        emit WinningPoolRequested(requestId, batchId);
+    }
+
+    /// @notice Cancels an unresolved market. Its batch is closed and every staker can reclaim
+    /// their deposit through claim().
+    function cancelMarket(uint256 batchId) external {
+        _checkBatchManager(batchId, true);
+        if (batchId == 0 || batchId >= nextBatchId) revert InvalidArgument();
+        if (batchOutcomes[batchId] != Outcome.Unresolved) revert AlreadyResolved();
+
+        if (isBatchOpen[batchId]) {
+            isBatchOpen[batchId] = false;
+            emit BatchClosed(batchId);
         }
+        batchOutcomes[batchId] = Outcome.Canceled;
+        emit MarketCanceled(batchId, msg.sender);
+    }
+
+    function winningPoolCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        uint256 batchId = winningPoolRequests[requestId];
+        if (batchId == 0) revert InvalidArgument();
+        if (winningPoolRevealed[batchId]) revert ReplayDetected();
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        uint128 winningPool = abi.decode(cleartexts, (uint128));
+        _revealWinningPool(batchId, winningPool);
+    }
+
+    /// @notice Claims the caller's share of a resolved batch pool. Winners are paid
+    /// `stake * pool / winningPool`; if nobody backed the outcome, deposits are refunded.
+    /// Winning stakes are decrypted first; if the oracle does not answer within DECRYPTION_TIMEOUT
+    /// the caller may claim again, and only the new request pays out.
+    /// @dev The winning stake is decrypted publicly, so claiming reveals how much of the deposit
+    /// backed the winning side.
+    function claim(uint256 batchId) external whenNotPaused {
+        bool canceled = batchOutcomes[batchId] == Outcome.Canceled;
+        if (!canceled && !winningPoolRevealed[batchId]) revert NotResolved();
+        Position storage position = positions[batchId][msg.sender];
+        if (position.claimed) revert AlreadyClaimed();
+        if (position.deposit == 0) revert NothingToClaim();
+
+        if (canceled || winningPools[batchId] == 0) {
+            position.claimed = true;
+            _payout(batchId, msg.sender, position.deposit);
+            return;
+        }
+
+        uint256 previousId = latestClaimRequests[batchId][msg.sender];
+        ClaimRequest storage previous = claimRequests[previousId];
+        if (previous.claimant == msg.sender && previous.batchId == batchId && block.timestamp < previous.expiresAt) {
+            revert DecryptionPending(batchId, previousId);
+        }
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = _winningStakeOf(batchId, msg.sender).toBytes32();
+        uint256 requestId = FHE.requestDecryption(cts, this.claimCallback.selector);
+        claimRequests[requestId] = ClaimRequest({
+            batchId: batchId,
+            claimant: msg.sender,
+            processed: false,
+            expiresAt: uint64(block.timestamp) + DECRYPTION_TIMEOUT
+        });
+        latestClaimRequests[batchId][msg.sender] = requestId;
+        emit ClaimRequested(requestId, batchId, msg.sender);
+    }
+
+    function claimCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        ClaimRequest storage request = claimRequests[requestId];
+        if (request.claimant == address(0)) revert InvalidArgument();
+        if (request.processed) revert ReplayDetected();
+        // Late answers to replaced requests are dropped without reverting, so the relayer doesn't retry them
+        if (latestClaimRequests[request.batchId][request.claimant] != requestId) return;
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        request.processed = true;
+        positions[request.batchId][request.claimant].claimed = true;
+        uint128 winningStake = abi.decode(cleartexts, (uint128));
+        uint256 amount = (uint256(winningStake) * batchPools[request.batchId]) / winningPools[request.batchId];
+        _payout(request.batchId, request.claimant, amount);
+    }
+
+    function _openBatch() internal returns (uint256 currentBatchId) {
+        currentBatchId = nextBatchId;
+        if (isBatchOpen[currentBatchId]) revert InvalidArgument(); // Should not happen with nextBatchId logic
+
+        isBatchOpen[currentBatchId] = true;
+        submissionsInBatch[currentBatchId] = 0;
+        batchCreators[currentBatchId] = msg.sender;
+        // FHE types are initialized on first use, no explicit initialization needed here for encryptedYesCounts/NoCounts
+
+        nextBatchId++;
+        emit BatchOpened(currentBatchId);
+    }
+
+    // Points the caller's ballot at `prediction`, or withdraws it when `prediction` is unset. With
+    // `replacing`, the previous ballot is first taken back out of the tallies. Token balances are
+    // read again on every change, as for a fresh submission.
+    function _castBallot(uint256 batchId, euint32 prediction, uint128 stake, bool replacing) internal {
+        Ballot storage ballot = _ballots[batchId][msg.sender];
+        if (replacing) _recordPrediction(batchId, ballot.prediction, ballot.weight, ballot.stake, true);
+        if (!prediction.isInitialized()) {
+            delete _ballots[batchId][msg.sender];
+            return;
+        }
+
+        uint64 weight = _isWeighted(batchId) ? _weightOf(batchId, msg.sender) : 0;
+        _recordPrediction(batchId, prediction, weight, stake, false);
+        // Submitters may decrypt their own prediction
+        FHE.allowThis(prediction);
+        FHE.allow(prediction, msg.sender);
+        _ballots[batchId][msg.sender] = Ballot({ prediction: prediction, weight: weight, stake: stake, active: true });
+    }
+
+    // Adds a prediction to the batch's encrypted tallies or, with `retract`, takes it back out by
+    // adding the two's complement of each contribution: encrypted arithmetic wraps around, so the
+    // totals return to what they were. Deposits and pools in the clear are left to the caller.
+    function _recordPrediction(uint256 batchId, euint32 prediction, uint64 weight, uint128 amount, bool retract)
+        internal
+    {
+        if (_isScalar(batchId)) {
+            PredictionTally.recordScalarEstimate(
+                _scalarSums,
+                _scalarHistograms,
+                batchId,
+                getScalarBucketBounds(batchId),
+                scalarRanges[batchId].upperBound,
+                prediction,
+                retract,
+                owner
+            );
+            return;
+        }
+        uint32 vote = 1;
+        if (retract) {
+            unchecked {
+                vote = 0 - vote;
+                weight = 0 - weight;
+                amount = 0 - amount;
+            }
+        }
+        if (batchOutcomeCounts[batchId] > 0) {
+            PredictionTally.recordOutcomeChoice(
+                _outcomeCounts,
+                _outcomeWeights,
+                _outcomeStakes,
+                _positionOutcomeStakes,
+                batchId,
+                batchOutcomeCounts[batchId],
+                prediction,
+                vote,
+                weight,
+                amount,
+                _isWeighted(batchId),
+                owner
+            );
+        } else {
+            (euint128 yesStake, euint128 noStake) = PredictionTally.recordYesNoChoice(
+                encryptedYesCounts,
+                encryptedNoCounts,
+                encryptedYesWeights,
+                encryptedNoWeights,
+                encryptedYesStakes,
+                encryptedNoStakes,
+                batchId,
+                prediction,
+                vote,
+                weight,
+                amount,
+                _isWeighted(batchId),
+                owner
+            );
+            if (amount > 0) _recordYesNoPosition(batchId, yesStake, noStake);
+        }
+    }
+
+    // The staker's own side of a yes/no stake; batch-wide tallies are kept by the library
+    function _recordYesNoPosition(uint256 batchId, euint128 yesStake, euint128 noStake) internal {
+        Position storage position = positions[batchId][msg.sender];
+        position.yesStake = _addStake(position.yesStake, yesStake);
+        position.noStake = _addStake(position.noStake, noStake);
+        FHE.allowThis(position.yesStake);
+        FHE.allowThis(position.noStake);
+        FHE.allow(position.yesStake, msg.sender);
+        FHE.allow(position.noStake, msg.sender);
+    }
+
+    function _addStake(euint128 total, euint128 amount) internal returns (euint128) {
+        return total.isInitialized() ? total.add(amount) : amount;
+    }
+
+    // Plaintext weight of `account`, saturating at uint64; only its split across outcomes is encrypted
+    function _weightOf(uint256 batchId, address account) internal view returns (uint64) {
+        Weighting storage weighting = batchWeightings[batchId];
+        uint256 weight = IWeightToken(weighting.token).getPastVotes(account, weighting.snapshot) / weighting.unit;
+        return weight > type(uint64).max ? type(uint64).max : uint64(weight);
+    }
+
+    function _revealWinningPool(uint256 batchId, uint256 winningPool) internal {
+        winningPools[batchId] = winningPool;
+        winningPoolRevealed[batchId] = true;
+        emit WinningPoolRevealed(batchId, winningPool);
+    }
+
+    function _checkRoleAdmin(bytes32 role) internal view {
+        if (role == DAO_ADMIN_ROLE) {
+            if (msg.sender != owner) revert NotOwner();
+        } else if (role == CREATOR_ROLE || role == RESOLVER_ROLE) {
+            if (!isAdmin(msg.sender)) revert MissingRole(DAO_ADMIN_ROLE, msg.sender);
+        } else {
+            revert InvalidArgument();
+        }
+    }
+
+    function _payout(uint256 batchId, address claimant, uint256 amount) internal {
+        if (amount > 0) {
+            (bool sent, ) = claimant.call{ value: amount }("");
+            if (!sent) revert TransferFailed();
+        }
+        emit PayoutClaimed(batchId, claimant, amount);
+    }
+
+    function _winningStakeOf(uint256 batchId, address account) internal view returns (euint128) {
+        Outcome outcome = batchOutcomes[batchId];
+        if (outcome == Outcome.Option) return _positionOutcomeStakes[batchId][account][winningOutcomes[batchId]];
+        Position storage position = positions[batchId][account];
+        return outcome == Outcome.Yes ? position.yesStake : position.noStake;
+    }
+
+    function _activeBallot(uint256 batchId, address account) internal view returns (Ballot storage ballot) {
+        _checkAcceptingPredictions(batchId);
+        ballot = _ballots[batchId][account];
+        if (!ballot.active) revert NoPrediction(batchId, account);
+    }
+
+    function _checkBatchManager(uint256 batchId, bool allowResolvers) internal view {
+        // Batch creators manage their own batches and admins any batch. Resolvers may only close or
+        // cancel other creators' batches, never reconfigure them.
+        if (
+            msg.sender != batchCreators[batchId] &&
+            !isAdmin(msg.sender) &&
+            !(allowResolvers && hasRole[RESOLVER_ROLE][msg.sender])
+        ) {
+            revert NotBatchCreator(batchId, msg.sender);
+        }
+    }
+
+    // Batch settings can only change while the batch is open and before its first prediction
+    function _checkConfigurable(uint256 batchId) internal view {
+        if (!isBatchOpen[batchId]) revert BatchNotOpen();
+        if (hasReceivedPredictions[batchId]) revert InvalidArgument();
+    }
+
+    // Resolution needs an existing, closed batch that was neither resolved nor canceled
+    function _checkResolvable(uint256 batchId) internal view {
+        if (batchId == 0 || batchId >= nextBatchId) revert InvalidArgument();
+        if (isBatchOpen[batchId]) revert BatchNotOpen(); // Batch must be closed
+        if (batchOutcomes[batchId] != Outcome.Unresolved) revert AlreadyResolved();
+    }
+
+    function _checkAcceptingPredictions(uint256 batchId) internal view {
+        if (!isBatchOpen[batchId]) revert BatchClosedOrDoesNotExist();
+        if (block.timestamp < batchSchedules[batchId].startTime) revert BatchNotStarted(batchId);
+        if (_hasExpired(batchId)) revert BatchExpired(batchId);
+    }
+
+    function _hasExpired(uint256 batchId) internal view returns (bool) {
+        uint64 endTime = batchSchedules[batchId].endTime;
+        return endTime != 0 && block.timestamp >= endTime;
+    }
+
+    function _isScalar(uint256 batchId) internal view returns (bool) {
+        return scalarRanges[batchId].bucketCount > 0;
+    }
+
+    function _isEligible(ParticipationPolicy storage policy, address account, bytes32[] memory allowlistProof)
+        internal
+        view
+        returns (bool)
+    {
+        if (policy.mode == Participation.ProvidersOnly) return isProvider[account];
+        if (policy.mode == Participation.TokenGated) {
+            return IWeightToken(policy.token).balanceOf(account) >= policy.minBalance;
+        }
+        if (policy.mode == Participation.Allowlist) {
+            // Leaves are double-hashed like OpenZeppelin's StandardMerkleTree, pairs are hashed sorted
+            bytes32 node = keccak256(bytes.concat(keccak256(abi.encode(account))));
+            for (uint256 i = 0; i < allowlistProof.length; i++) {
+                bytes32 sibling = allowlistProof[i];
+                node = node < sibling
+                    ? keccak256(abi.encodePacked(node, sibling))
+                    : keccak256(abi.encodePacked(sibling, node));
+            }
+            return node == policy.allowlistRoot;
+        }
+        return true;
+    }
+
+    function _isWeighted(uint256 batchId) internal view returns (bool) {
+        return batchWeightings[batchId].source != WeightSource.None;
+    }
+
+    // Handles of the batch's encrypted tallies, in decryption order; empty before the first submission
+    function _tallyCiphertexts(uint256 batchId) internal view returns (bytes32[] memory) {
+        return
+            PredictionTally.tallyHandles(
+                encryptedYesCounts,
+                encryptedNoCounts,
+                encryptedYesWeights,
+                encryptedNoWeights,
+                _outcomeCounts,
+                _outcomeWeights,
+                _scalarSums,
+                _scalarHistograms,
+                batchId,
+                _isScalar(batchId),
+                batchOutcomeCounts[batchId] > 0,
+                _isWeighted(batchId)
+            );
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
     }
 
     // No _requireInitialized needed as isInitialized() checks are done before use.
@@ -0,0 +1,151 @@
+pragma solidity ^0.8.24;
+
+interface IPredictMarketBatches {
+    function nextBatchId() external view returns (uint256);
+    function batchCreators(uint256 batchId) external view returns (address);
+    function isAdmin(address account) external view returns (bool);
+}
+
+contract MarketRegistry {
+    error NotOwner();
+    error NotCreator();
+    error NotBatchCreator(uint256 batchId, address account);
+    error InvalidArgument();
+    error DuplicateMarket();
+    error MarketNotFound();
+    error MigrationClosed();
+
+    event MarketRegistered(uint256 indexed marketId, uint256 indexed batchId, address indexed creator, string key);
+    event MarketDataUpdated(uint256 indexed marketId, address indexed updater);
+    event MigrationFinished(uint256 marketCount);
+
+    struct Market {
+        uint256 marketId;
+        string key;
+        address creator;
+        uint256 batchId;
+        uint64 createdAt;
+        bytes data;
+    }
+
+    IPredictMarketBatches public immutable predictMarket;
+    address public owner;
+    bool public migrationOpen = true;
+
+    Market[] private _markets;
+    // Both lookups store marketId + 1 so that zero means "not registered"
+    mapping(bytes32 => uint256) private _marketIdByKey;
+    mapping(uint256 => uint256) private _marketIdByBatch;
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    modifier onlyBatchCreator(uint256 batchId) {
+        // Only whoever opened a batch may bind it to a registry entry
+        if (msg.sender != predictMarket.batchCreators(batchId)) revert NotBatchCreator(batchId, msg.sender);
+        _;
+    }
+
+    constructor(address predictMarketAddress) {
+        if (predictMarketAddress == address(0)) revert InvalidArgument();
+        predictMarket = IPredictMarketBatches(predictMarketAddress);
+        owner = msg.sender;
+    }
+
+    function registerMarket(
+        string calldata key,
+        uint256 batchId,
+        bytes calldata data
+    ) external onlyBatchCreator(batchId) returns (uint256) {
+        return _append(key, msg.sender, batchId, data);
+    }
+
+    // One-off import of markets created before the registry existed, keeping their original creator
+    function importMarket(
+        string calldata key,
+        address creator,
+        uint256 batchId,
+        bytes calldata data
+    ) external onlyOwner returns (uint256) {
+        if (!migrationOpen) revert MigrationClosed();
+        if (creator == address(0)) revert InvalidArgument();
+        return _append(key, creator, batchId, data);
+    }
+
+    function finishMigration() external onlyOwner {
+        if (!migrationOpen) revert MigrationClosed();
+        migrationOpen = false;
+        emit MigrationFinished(_markets.length);
+    }
+
+    function updateMarketData(uint256 marketId, bytes calldata data) external {
+        if (marketId >= _markets.length) revert MarketNotFound();
+        Market storage market = _markets[marketId];
+        if (msg.sender != market.creator && msg.sender != owner && !predictMarket.isAdmin(msg.sender)) {
+            revert NotCreator();
+        }
+        market.data = data;
+        emit MarketDataUpdated(marketId, msg.sender);
+    }
+
+    function marketCount() external view returns (uint256) {
+        return _markets.length;
+    }
+
+    function getMarket(uint256 marketId) external view returns (Market memory) {
+        if (marketId >= _markets.length) revert MarketNotFound();
+        return _markets[marketId];
+    }
+
+    // Returns up to `limit` markets starting at `offset`; an offset past the end yields an empty page
+    function getMarkets(uint256 offset, uint256 limit) external view returns (Market[] memory page) {
+        uint256 count = _markets.length;
+        if (offset >= count) return new Market[](0);
+        uint256 end = offset + limit > count ? count : offset + limit;
+        page = new Market[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = _markets[i];
+        }
+    }
+
+    function marketIdByKey(string calldata key) external view returns (uint256) {
+        uint256 stored = _marketIdByKey[keccak256(bytes(key))];
+        if (stored == 0) revert MarketNotFound();
+        return stored - 1;
+    }
+
+    function isKeyRegistered(string calldata key) external view returns (bool) {
+        return _marketIdByKey[keccak256(bytes(key))] != 0;
+    }
+
+    function marketIdByBatch(uint256 batchId) external view returns (uint256) {
+        uint256 stored = _marketIdByBatch[batchId];
+        if (stored == 0) revert MarketNotFound();
+        return stored - 1;
+    }
+
+    function _append(string calldata key, address creator, uint256 batchId, bytes calldata data) private returns (uint256) {
+        if (bytes(key).length == 0) revert InvalidArgument();
+        if (batchId == 0 || batchId >= predictMarket.nextBatchId()) revert InvalidArgument();
+        bytes32 keyHash = keccak256(bytes(key));
+        if (_marketIdByKey[keyHash] != 0 || _marketIdByBatch[batchId] != 0) revert DuplicateMarket();
+
+        uint256 marketId = _markets.length;
+        _markets.push(
+            Market({
+                marketId: marketId,
+                key: key,
+                creator: creator,
+                batchId: batchId,
+                createdAt: uint64(block.timestamp),
+                data: data
+            })
+        );
+        _marketIdByKey[keyHash] = marketId + 1;
+        _marketIdByBatch[batchId] = marketId + 1;
+        emit MarketRegistered(marketId, batchId, creator, key);
+        return marketId;
+    }
+}
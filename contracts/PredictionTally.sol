@@ -0,0 +1,255 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, euint64, euint128, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+// Encrypted tally updates for every kind of batch and decoding of their decrypted totals. Linked
+// into DAOPredictMarketFHE rather than inlined to keep the market under the contract size limit; the
+// functions run through DELEGATECALL, so storage and ACL grants stay with the market contract.
+library PredictionTally {
+    using FHE for euint32;
+    using FHE for euint64;
+    using FHE for euint128;
+    using FHE for ebool;
+
+    error DecryptionFailed();
+
+    // For simplicity, prediction 1 means YES, 0 means NO. Returns the stake added to each side, for
+    // the caller to book against the staker's position.
+    function recordYesNoChoice(
+        mapping(uint256 => euint32) storage yesCounts,
+        mapping(uint256 => euint32) storage noCounts,
+        mapping(uint256 => euint64) storage yesWeights,
+        mapping(uint256 => euint64) storage noWeights,
+        mapping(uint256 => euint128) storage yesStakes,
+        mapping(uint256 => euint128) storage noStakes,
+        uint256 batchId,
+        euint32 prediction,
+        uint32 vote,
+        uint64 weight,
+        uint128 stake,
+        bool weighted,
+        address owner
+    ) public returns (euint128 yesStake, euint128 noStake) {
+        ebool isYesVote = prediction.ge(FHE.asEuint32(1));
+
+        euint32 one = FHE.asEuint32(vote);
+        euint32 zero = FHE.asEuint32(0);
+        yesCounts[batchId] = _add(yesCounts[batchId], isYesVote.select(one, zero));
+        noCounts[batchId] = _add(noCounts[batchId], isYesVote.select(zero, one));
+        FHE.allowThis(yesCounts[batchId]);
+        FHE.allowThis(noCounts[batchId]);
+        // The owner may user-decrypt running tallies
+        FHE.allow(yesCounts[batchId], owner);
+        FHE.allow(noCounts[batchId], owner);
+
+        if (weighted) {
+            euint64 amount = FHE.asEuint64(weight);
+            euint64 none = FHE.asEuint64(0);
+            yesWeights[batchId] = _add(yesWeights[batchId], isYesVote.select(amount, none));
+            noWeights[batchId] = _add(noWeights[batchId], isYesVote.select(none, amount));
+            FHE.allowThis(yesWeights[batchId]);
+            FHE.allowThis(noWeights[batchId]);
+            FHE.allow(yesWeights[batchId], owner);
+            FHE.allow(noWeights[batchId], owner);
+        }
+
+        if (stake > 0) {
+            euint128 amount = FHE.asEuint128(stake);
+            euint128 none = FHE.asEuint128(0);
+            yesStake = isYesVote.select(amount, none);
+            noStake = isYesVote.select(none, amount);
+            yesStakes[batchId] = _add(yesStakes[batchId], yesStake);
+            noStakes[batchId] = _add(noStakes[batchId], noStake);
+            FHE.allowThis(yesStakes[batchId]);
+            FHE.allowThis(noStakes[batchId]);
+        }
+    }
+
+    // An out-of-range choice is clamped to outcome 0, so every prediction counts for exactly one
+    // outcome and any stake sent with it can be won back. The clamp is applied again when the
+    // prediction is taken back out, so the same outcome is debited. `vote`, `weight` and `stake`
+    // are the amounts added to the chosen outcome, wrapped around to take a prediction back out.
+    function recordOutcomeChoice(
+        mapping(uint256 => euint32[]) storage outcomeCounts,
+        mapping(uint256 => euint64[]) storage outcomeWeights,
+        mapping(uint256 => euint128[]) storage outcomeStakes,
+        mapping(uint256 => mapping(address => euint128[])) storage positionOutcomeStakes,
+        uint256 batchId,
+        uint8 outcomeCount,
+        euint32 choice,
+        uint32 vote,
+        uint64 weight,
+        uint128 stake,
+        bool weighted,
+        address owner
+    ) public {
+        choice = choice.lt(outcomeCount).select(choice, FHE.asEuint32(0));
+        euint32[] storage counts = outcomeCounts[batchId];
+        ebool[] memory chosen = new ebool[](outcomeCount);
+        for (uint8 i = 0; i < outcomeCount; i++) {
+            chosen[i] = choice.eq(i);
+            euint32 outcomeVote = chosen[i].select(FHE.asEuint32(vote), FHE.asEuint32(0));
+            if (counts.length == i) counts.push(outcomeVote);
+            else counts[i] = counts[i].add(outcomeVote);
+            FHE.allowThis(counts[i]);
+            FHE.allow(counts[i], owner);
+        }
+
+        if (weighted) _recordOutcomeWeight(outcomeWeights[batchId], chosen, weight, owner);
+        if (stake > 0) {
+            _recordOutcomeStake(outcomeStakes[batchId], positionOutcomeStakes[batchId][msg.sender], chosen, stake);
+        }
+    }
+
+    // A bucket counts the estimate when it reaches the bucket's bound but not the next one. With
+    // `retract` the estimate is taken back out of the sum and the histogram.
+    function recordScalarEstimate(
+        mapping(uint256 => euint64) storage scalarSums,
+        mapping(uint256 => euint32[]) storage scalarHistograms,
+        uint256 batchId,
+        uint32[] memory bounds,
+        uint32 upperBound,
+        euint32 estimate,
+        bool retract,
+        address owner
+    ) public {
+        euint32 clamped = estimate.max(bounds[0]).min(upperBound);
+
+        euint64 value = FHE.asEuint64(clamped);
+        euint64 sum = scalarSums[batchId];
+        if (!sum.isInitialized()) sum = value;
+        else sum = retract ? sum.sub(value) : sum.add(value);
+        scalarSums[batchId] = sum;
+        FHE.allowThis(sum);
+        FHE.allow(sum, owner);
+
+        euint32[] storage histogram = scalarHistograms[batchId];
+
+        uint32 bucketVote = retract ? type(uint32).max : 1;
+        ebool reachesNext;
+        for (uint256 i = 0; i < bounds.length; i++) {
+            ebool reaches = i == 0 ? FHE.asEbool(true) : reachesNext;
+            ebool inBucket = reaches;
+            if (i + 1 < bounds.length) {
+                reachesNext = clamped.ge(bounds[i + 1]);
+                inBucket = reaches.and(reachesNext.not());
+            }
+            euint32 vote = inBucket.select(FHE.asEuint32(bucketVote), FHE.asEuint32(0));
+            if (histogram.length == i) histogram.push(vote);
+            else histogram[i] = histogram[i].add(vote);
+            FHE.allowThis(histogram[i]);
+            FHE.allow(histogram[i], owner);
+        }
+    }
+
+    // Handles of the batch's encrypted tallies in the order they are decrypted: the sum then the
+    // histogram of a scalar batch, otherwise the counts followed by their weights on weighted batches.
+    // Empty before the first submission.
+    function tallyHandles(
+        mapping(uint256 => euint32) storage yesCounts,
+        mapping(uint256 => euint32) storage noCounts,
+        mapping(uint256 => euint64) storage yesWeights,
+        mapping(uint256 => euint64) storage noWeights,
+        mapping(uint256 => euint32[]) storage outcomeCounts,
+        mapping(uint256 => euint64[]) storage outcomeWeights,
+        mapping(uint256 => euint64) storage scalarSums,
+        mapping(uint256 => euint32[]) storage scalarHistograms,
+        uint256 batchId,
+        bool scalar,
+        bool multiOutcome,
+        bool weighted
+    ) public view returns (bytes32[] memory cts) {
+        if (scalar) {
+            euint32[] storage histogram = scalarHistograms[batchId];
+            if (histogram.length == 0) return cts;
+            cts = new bytes32[](histogram.length + 1);
+            cts[0] = scalarSums[batchId].toBytes32();
+            for (uint256 i = 0; i < histogram.length; i++) {
+                cts[i + 1] = histogram[i].toBytes32();
+            }
+            return cts;
+        }
+        if (multiOutcome) {
+            euint32[] storage counts = outcomeCounts[batchId];
+            euint64[] storage weights = outcomeWeights[batchId];
+            cts = new bytes32[](weighted ? counts.length * 2 : counts.length);
+            for (uint256 i = 0; i < counts.length; i++) {
+                cts[i] = counts[i].toBytes32();
+                if (weighted) cts[counts.length + i] = weights[i].toBytes32();
+            }
+            return cts;
+        }
+        if (!yesCounts[batchId].isInitialized() || !noCounts[batchId].isInitialized()) return cts;
+        cts = new bytes32[](weighted ? 4 : 2);
+        cts[0] = yesCounts[batchId].toBytes32();
+        cts[1] = noCounts[batchId].toBytes32();
+        if (weighted) {
+            cts[2] = yesWeights[batchId].toBytes32();
+            cts[3] = noWeights[batchId].toBytes32();
+        }
+    }
+
+    // `count` words of decrypted cleartexts from `start`, each cut down to the `bits` of its cleartext type
+    function decodeWords(bytes memory data, uint256 start, uint256 count, uint256 bits)
+        public
+        pure
+        returns (uint256[] memory words)
+    {
+        if (data.length < (start + count) * 32) revert DecryptionFailed();
+        words = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            uint256 offset = (start + i + 1) * 32;
+            uint256 word;
+            assembly ("memory-safe") {
+                word := mload(add(data, offset))
+            }
+            words[i] = word & ((1 << bits) - 1);
+        }
+    }
+
+    function _add(euint32 total, euint32 amount) private returns (euint32) {
+        return total.isInitialized() ? total.add(amount) : amount;
+    }
+
+    function _add(euint64 total, euint64 amount) private returns (euint64) {
+        return total.isInitialized() ? total.add(amount) : amount;
+    }
+
+    function _add(euint128 total, euint128 amount) private returns (euint128) {
+        return total.isInitialized() ? total.add(amount) : amount;
+    }
+
+    function _recordOutcomeWeight(euint64[] storage weights, ebool[] memory chosen, uint64 amount, address owner)
+        private
+    {
+        euint64 weight = FHE.asEuint64(amount);
+        euint64 zero = FHE.asEuint64(0);
+        for (uint256 i = 0; i < chosen.length; i++) {
+            euint64 outcomeWeight = chosen[i].select(weight, zero);
+            if (weights.length == i) weights.push(outcomeWeight);
+            else weights[i] = weights[i].add(outcomeWeight);
+            FHE.allowThis(weights[i]);
+            FHE.allow(weights[i], owner);
+        }
+    }
+
+    function _recordOutcomeStake(
+        euint128[] storage stakes,
+        euint128[] storage positionStakes,
+        ebool[] memory chosen,
+        uint128 amount
+    ) private {
+        euint128 stake = FHE.asEuint128(amount);
+        euint128 zero = FHE.asEuint128(0);
+        for (uint256 i = 0; i < chosen.length; i++) {
+            euint128 outcomeStake = chosen[i].select(stake, zero);
+            if (stakes.length == i) stakes.push(outcomeStake);
+            else stakes[i] = stakes[i].add(outcomeStake);
+            if (positionStakes.length == i) positionStakes.push(outcomeStake);
+            else positionStakes[i] = positionStakes[i].add(outcomeStake);
+            FHE.allowThis(stakes[i]);
+            FHE.allowThis(positionStakes[i]);
+            FHE.allow(positionStakes[i], msg.sender);
+        }
+    }
+}
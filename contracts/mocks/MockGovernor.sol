@@ -0,0 +1,107 @@
+pragma solidity ^0.8.24;
+
+// Local stand-in for an OpenZeppelin Governor. Exposes the same read surface the resolver
+// uses (state, proposalVotes, proposalDeadline) with one-address-one-vote counting and a
+// timestamp-based voting period so proposals can be driven through their lifecycle in tests.
+contract MockGovernor {
+    enum ProposalState {
+        Pending,
+        Active,
+        Canceled,
+        Defeated,
+        Succeeded,
+        Queued,
+        Expired,
+        Executed
+    }
+
+    enum VoteType {
+        Against,
+        For,
+        Abstain
+    }
+
+    error GovernorNonexistentProposal(uint256 proposalId);
+    error GovernorUnexpectedProposalState(uint256 proposalId, ProposalState current);
+    error GovernorAlreadyCastVote(address voter);
+    error GovernorInvalidVoteType();
+
+    event ProposalCreated(uint256 indexed proposalId, address indexed proposer, uint256 voteEnd, string description);
+    event VoteCast(address indexed voter, uint256 indexed proposalId, uint8 support, uint256 weight);
+    event ProposalCanceled(uint256 indexed proposalId);
+    event ProposalExecuted(uint256 indexed proposalId);
+
+    struct Proposal {
+        uint256 voteEnd;
+        uint256 againstVotes;
+        uint256 forVotes;
+        uint256 abstainVotes;
+        bool canceled;
+        bool executed;
+    }
+
+    string public name;
+    mapping(uint256 => Proposal) private _proposals;
+    mapping(uint256 => mapping(address => bool)) public hasVoted;
+
+    constructor(string memory name_) {
+        name = name_;
+    }
+
+    function propose(uint256 proposalId, uint256 votingPeriod, string calldata description) external {
+        if (_proposals[proposalId].voteEnd != 0) revert GovernorUnexpectedProposalState(proposalId, state(proposalId));
+        uint256 voteEnd = block.timestamp + votingPeriod;
+        _proposals[proposalId].voteEnd = voteEnd;
+        emit ProposalCreated(proposalId, msg.sender, voteEnd, description);
+    }
+
+    function castVote(uint256 proposalId, uint8 support) external returns (uint256) {
+        ProposalState current = state(proposalId);
+        if (current != ProposalState.Active) revert GovernorUnexpectedProposalState(proposalId, current);
+        if (hasVoted[proposalId][msg.sender]) revert GovernorAlreadyCastVote(msg.sender);
+        hasVoted[proposalId][msg.sender] = true;
+
+        Proposal storage proposal = _proposals[proposalId];
+        if (support == uint8(VoteType.Against)) proposal.againstVotes += 1;
+        else if (support == uint8(VoteType.For)) proposal.forVotes += 1;
+        else if (support == uint8(VoteType.Abstain)) proposal.abstainVotes += 1;
+        else revert GovernorInvalidVoteType();
+
+        emit VoteCast(msg.sender, proposalId, support, 1);
+        return 1;
+    }
+
+    function cancel(uint256 proposalId) external {
+        ProposalState current = state(proposalId);
+        if (current != ProposalState.Active) revert GovernorUnexpectedProposalState(proposalId, current);
+        _proposals[proposalId].canceled = true;
+        emit ProposalCanceled(proposalId);
+    }
+
+    function execute(uint256 proposalId) external {
+        ProposalState current = state(proposalId);
+        if (current != ProposalState.Succeeded) revert GovernorUnexpectedProposalState(proposalId, current);
+        _proposals[proposalId].executed = true;
+        emit ProposalExecuted(proposalId);
+    }
+
+    function state(uint256 proposalId) public view returns (ProposalState) {
+        Proposal storage proposal = _proposals[proposalId];
+        if (proposal.voteEnd == 0) revert GovernorNonexistentProposal(proposalId);
+        if (proposal.executed) return ProposalState.Executed;
+        if (proposal.canceled) return ProposalState.Canceled;
+        if (block.timestamp <= proposal.voteEnd) return ProposalState.Active;
+        return proposal.forVotes > proposal.againstVotes ? ProposalState.Succeeded : ProposalState.Defeated;
+    }
+
+    function proposalDeadline(uint256 proposalId) external view returns (uint256) {
+        return _proposals[proposalId].voteEnd;
+    }
+
+    function proposalVotes(
+        uint256 proposalId
+    ) external view returns (uint256 againstVotes, uint256 forVotes, uint256 abstainVotes) {
+        Proposal storage proposal = _proposals[proposalId];
+        return (proposal.againstVotes, proposal.forVotes, proposal.abstainVotes);
+    }
+}
@@ -0,0 +1,22 @@
+pragma solidity ^0.8.24;
+
+// Key-value store with the same interface as the deployed UniversalAdapter the frontend used
+// before the market registry, so migrations can be exercised locally.
+contract MockUniversalAdapter {
+    event DataStored(address indexed sender, string key, bytes data);
+
+    mapping(string => bytes) private _data;
+
+    function isAvailable() external pure returns (bool) {
+        return true;
+    }
+
+    function getData(string calldata key) external view returns (bytes memory) {
+        return _data[key];
+    }
+
+    function setData(string calldata key, bytes calldata data) external {
+        _data[key] = data;
+        emit DataStored(msg.sender, key, data);
+    }
+}
@@ -0,0 +1,74 @@
+pragma solidity ^0.8.24;
+
+// Local stand-in for an OpenZeppelin ERC20Votes token. Balances are freely minted, every holder
+// is self-delegated, and vote checkpoints are keyed by block number so getPastVotes behaves like
+// a block-clock ERC20Votes token.
+contract MockVotesToken {
+    error ERC5805FutureLookup(uint256 timepoint, uint48 clock);
+    error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed);
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+
+    struct Checkpoint {
+        uint48 blockNumber;
+        uint208 votes;
+    }
+
+    string public name;
+    string public symbol;
+    uint8 public constant decimals = 18;
+    uint256 public totalSupply;
+    mapping(address => uint256) public balanceOf;
+    mapping(address => Checkpoint[]) private _checkpoints;
+
+    constructor(string memory name_, string memory symbol_) {
+        name = name_;
+        symbol = symbol_;
+    }
+
+    function mint(address to, uint256 amount) external {
+        totalSupply += amount;
+        balanceOf[to] += amount;
+        _writeCheckpoint(to);
+        emit Transfer(address(0), to, amount);
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        uint256 balance = balanceOf[msg.sender];
+        if (balance < amount) revert ERC20InsufficientBalance(msg.sender, balance, amount);
+        balanceOf[msg.sender] = balance - amount;
+        balanceOf[to] += amount;
+        _writeCheckpoint(msg.sender);
+        _writeCheckpoint(to);
+        emit Transfer(msg.sender, to, amount);
+        return true;
+    }
+
+    function clock() public view returns (uint48) {
+        return uint48(block.number);
+    }
+
+    function getVotes(address account) external view returns (uint256) {
+        return balanceOf[account];
+    }
+
+    function getPastVotes(address account, uint256 timepoint) external view returns (uint256) {
+        uint48 currentClock = clock();
+        if (timepoint >= currentClock) revert ERC5805FutureLookup(timepoint, currentClock);
+        Checkpoint[] storage checkpoints = _checkpoints[account];
+        for (uint256 i = checkpoints.length; i > 0; i--) {
+            if (checkpoints[i - 1].blockNumber <= timepoint) return checkpoints[i - 1].votes;
+        }
+        return 0;
+    }
+
+    function _writeCheckpoint(address account) internal {
+        Checkpoint[] storage checkpoints = _checkpoints[account];
+        uint208 votes = uint208(balanceOf[account]);
+        if (checkpoints.length > 0 && checkpoints[checkpoints.length - 1].blockNumber == block.number) {
+            checkpoints[checkpoints.length - 1].votes = votes;
+        } else {
+            checkpoints.push(Checkpoint({ blockNumber: uint48(block.number), votes: votes }));
+        }
+    }
+}
@@ -341,6 +341,28 @@ async function main() {
     const deployedAddress = (factory as any).target || (factory as any).address;
     console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
+    const TallyFactory = await hardhatEthers.getContractFactory("PredictionTally", wallet);
+    const tally = await TallyFactory.deploy();
+    await tally.waitForDeployment();
+    console.log("PredictionTally library deployed at:", await tally.getAddress());
+
+    const PredictMarketFactory = await hardhatEthers.getContractFactory("DAOPredictMarketFHE", {
+      signer: wallet,
+      libraries: { PredictionTally: await tally.getAddress() }
+    });
+    const predictMarket = await PredictMarketFactory.deploy();
+    const predictMarketReceipt = await predictMarket.deploymentTransaction()!.wait();
+
+    const predictMarketAddress = await predictMarket.getAddress();
+    console.log("DAOPredictMarketFHE contract deployed at:", predictMarketAddress);
+
+    const RegistryFactory = await hardhatEthers.getContractFactory("MarketRegistry", wallet);
+    const registry = await RegistryFactory.deploy(predictMarketAddress);
+    await registry.waitForDeployment();
+
+    const registryAddress = await registry.getAddress();
+    console.log("MarketRegistry contract deployed at:", registryAddress);
+
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
       const lines = walletsContent.split("\n").filter(line => line.trim() !== "");
@@ -358,15 +380,18 @@ async function main() {
     if (!fs.existsSync(frontendConfigDir)) {
       console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
     } else {
+      const configPath = path.join(frontendConfigDir, "config.json");
+      const existingConfig = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, "utf-8")) : {};
       const config = {
+        ...existingConfig,
         network: rpc,
         contractAddress: deployedAddress,
+        predictMarketAddress,
+        registryAddress,
+        deployBlock: predictMarketReceipt!.blockNumber,
         deployer: wallet.address,
       };
-      fs.writeFileSync(
-        path.join(frontendConfigDir, "config.json"),
-        JSON.stringify(config, null, 2)
-      );
+      fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
       console.log("Wrote frontend config: frontend/web/src/config.json");
 
       try {
@@ -382,9 +407,31 @@ async function main() {
         if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
         fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
         console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
+
+        const marketArtifactPath = path.join(
+          __dirname,
+          "..",
+          "artifacts",
+          "contracts",
+          "DAO_Predict_Market.sol",
+          "DAOPredictMarketFHE.json"
+        );
+        fs.copyFileSync(marketArtifactPath, path.join(targetAbiPath, "DAOPredictMarketFHE.json"));
+        console.log("Copied ABI to frontend/web/src/abi/DAOPredictMarketFHE.json");
+
+        const registryArtifactPath = path.join(
+          __dirname,
+          "..",
+          "artifacts",
+          "contracts",
+          "MarketRegistry.sol",
+          "MarketRegistry.json"
+        );
+        fs.copyFileSync(registryArtifactPath, path.join(targetAbiPath, "MarketRegistry.json"));
+        console.log("Copied ABI to frontend/web/src/abi/MarketRegistry.json");
       } catch (e) {
         console.warn(
-          "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
+          "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json, DAOPredictMarketFHE.json and MarketRegistry.json manually to frontend/web/src/abi/",
           e
         );
       }
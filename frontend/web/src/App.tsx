@@ -3,221 +3,777 @@ import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { Link, Route, Routes, useMatch, useNavigate } from "react-router-dom";
+import { getMetadataStore, getPredictMarketReadOnly, getPredictMarketWithSigner, getRegistryReadOnly, getRegistryWithSigner } from "./contract";
+import {
+  BatchMetadata,
+  BatchSchedule,
+  cancelMarket as cancelBatchMarket,
+  closeBatch,
+  configureWeighting,
+  decodeDao,
+  Eligibility,
+  getBatch,
+  getChainTime,
+  getEligibility,
+  getTokenClock,
+  getWeightToken,
+  grantRole,
+  MarketRole,
+  MAX_OUTCOMES,
+  MAX_SCALAR_BUCKETS,
+  openBatch,
+  openMultiOutcomeBatch,
+  openScalarBatch,
+  Outcome,
+  ParticipationMode,
+  ParticipationPolicy,
+  questionHash,
+  resolveMarket,
+  resolveMultiOutcomeMarket,
+  resolveScalarMarket,
+  revokeRole,
+  scalarBucketBounds,
+  ScalarRange,
+  setBatchMetadata,
+  setBatchSchedule,
+  setParticipationPolicy,
+  TokenClockMode,
+  Weighting
+} from "./sdk/predictMarket";
+import { allowlistProof, allowlistRoot, parseAllowlist } from "./sdk/allowlist";
+import { decryptionStatus } from "./sdk/decryptionStatus";
+import { describeContractError } from "./sdk/errors";
+import { getFheBackend, getUserDecryptSession, userDecryptHandles } from "./sdk/fheEncryption";
+import { fetchAllIndexedBatches, IndexedBatch } from "./sdk/indexerClient";
+import { createMarketDescription, MarketDescription, publishMarketDescription } from "./sdk/marketMetadata";
+import { loadMarketRecord, MarketRecordError, MarketRecordErrorKind } from "./sdk/marketRecord";
+import { fetchAllMarkets, registerMarket } from "./sdk/marketRegistry";
+import { TimelineKind } from "./sdk/marketTimeline";
+import { predictionLabel } from "./sdk/portfolio";
+import DecryptionResults from "./components/DecryptionResults";
+import { useBatchDecryption } from "./hooks/useBatchDecryption";
+import { useChainTime } from "./hooks/useChainTime";
+import { useDocumentMeta } from "./hooks/useDocumentMeta";
+import { useMarketPosition } from "./hooks/useMarketPosition";
+import { useMarketRoles } from "./hooks/useMarketRoles";
+import { useMarketTimeline } from "./hooks/useMarketTimeline";
+import Portfolio from "./pages/Portfolio";
+import { activeNetwork, getNetwork, injectedWallet, missingContracts, NETWORKS, selectNetwork, switchWalletNetwork } from "./networks";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount } from 'wagmi';
 
-interface PredictionMarket {
+export interface PredictionMarket {
   id: string;
+  batchId: string;
+  batchOpen: boolean;
+  submissions: number;
   daoName: string;
   proposalTitle: string;
   encryptedYesVotes: string;
   encryptedNoVotes: string;
+  // Option labels of a multi-outcome market, empty for yes/no markets
+  options: string[];
+  encryptedOptionVotes: string[];
+  // Bounds of a range market, whose predictions are numeric estimates
+  range: ScalarRange | null;
+  unit: string;
+  encryptedScalarSum: string;
+  encryptedHistogram: string[];
+  weighting: Weighting | null;
+  // Symbol of the weight token, from the registry record
+  weightSymbol: string;
+  // Whether the weighting snapshot is a block number or a timestamp, from the registry record
+  weightClock: TokenClockMode;
+  encryptedWeights: string[];
+  participation: ParticipationPolicy;
+  // Allowlisted addresses, kept in the registry record so members can build their proofs
+  allowlist: string[];
+  // Symbol and decimals of the gating token, from the registry record
+  gateSymbol: string;
+  gateDecimals: number;
+  // The on-chain schedule's end when the batch has one, otherwise the registry record's
   endTime: number;
+  schedule: BatchSchedule | null;
+  // The proposal the batch is linked to on-chain, null for batches created before metadata existed
+  metadata: BatchMetadata | null;
   creator: string;
+  batchCreator: string;
   category: string;
   status: "active" | "settled" | "canceled";
+  outcome?: "yes" | "no";
+  // Set when the registry record could not be read or failed validation; the market is then shown from its batch alone
+  recordError: { kind: MarketRecordErrorKind; message: string } | null;
 }
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
+const ZERO_HANDLE = ethers.ZeroHash;
+
+const EMPTY_MARKET_FORM = {
+  daoName: "",
+  proposalTitle: "",
+  // ENS name or Snapshot space, stored on-chain as bytes32
+  daoId: "",
+  proposalSource: "governor",
+  proposalChainId: "1",
+  governor: "",
+  proposalId: "",
+  snapshotId: "",
+  metadataURI: "",
+  endTime: 7,
+  category: "Governance",
+  marketType: "binary",
+  options: ["", ""],
+  lowerBound: 0,
+  upperBound: 100,
+  bucketCount: 4,
+  unit: "",
+  weightSource: "none",
+  weightToken: "",
+  // Blank uses the token clock's last timepoint before market creation
+  weightSnapshot: "",
+  participation: "open",
+  gateToken: "",
+  // In whole tokens
+  gateMinBalance: "",
+  allowlist: ""
+};
+
+// The on-chain outcome is authoritative; the stored status only matters for markets migrated without one
+const marketStatus = (outcome: Outcome, storedStatus?: string): PredictionMarket["status"] => {
+  if (outcome === "yes" || outcome === "no" || outcome === "option" || outcome === "value") return "settled";
+  if (outcome === "canceled") return "canceled";
+  return storedStatus === "settled" || storedStatus === "canceled" ? storedStatus : "active";
+};
+
+// Labels come from the registry record; batches registered without them fall back to numbered options
+const optionLabels = (description: MarketDescription | undefined, outcomeCount: number): string[] =>
+  Array.from({ length: outcomeCount }, (_, i) => description?.outcomes?.[i] || `Option ${i + 1}`);
+
+const RECORD_ERROR_LABELS: Record<MarketRecordErrorKind, string> = {
+  unavailable: "description unavailable",
+  "cid-mismatch": "tampered description",
+  malformed: "corrupted record",
+  "unknown-schema": "unknown record",
+  "unsupported-version": "newer record version",
+  "invalid-field": "invalid record"
 };
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
+const PARTICIPATION_LABELS: Record<ParticipationMode, string> = {
+  providers: "Registered prediction providers",
+  open: "Any wallet, one prediction each",
+  token: "Token holders, one prediction each",
+  allowlist: "Allowlisted addresses, one prediction each"
 };
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+// Compact time left until a chain timestamp, e.g. "2d 5h" or "14m 30s"
+const formatCountdown = (seconds: number): string => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds % 60}s`;
+};
+
+const TIMELINE_LABELS: Record<TimelineKind, string> = {
+  opened: "Batch opened",
+  "metadata-set": "Proposal linked",
+  scheduled: "Prediction window set",
+  closed: "Batch closed",
+  "decryption-requested": "Tally decryption requested",
+  "decryption-expired": "Decryption request expired",
+  "decryption-completed": "Tallies decrypted",
+  resolved: "Market resolved",
+  canceled: "Market canceled",
+  "winning-pool-revealed": "Winning pool revealed"
+};
+
+const bucketLabel = (range: ScalarRange, bounds: number[], index: number): string =>
+  `${bounds[index]}–${index + 1 < bounds.length ? bounds[index + 1] - 1 : range.upperBound}`;
 
 const App: React.FC = () => {
-  const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { address, isConnected, chainId } = useAccount();
   const [loading, setLoading] = useState(true);
   const [markets, setMarkets] = useState<PredictionMarket[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newMarketData, setNewMarketData] = useState({ daoName: "", proposalTitle: "", yesVotes: 0, noVotes: 0, endTime: 7, category: "Governance" });
+  const [newMarketData, setNewMarketData] = useState(EMPTY_MARKET_FORM);
+  // Clock of the votes token entered in the create form; null until it has been read
+  const [weightClock, setWeightClock] = useState<TokenClockMode | null>(null);
   const [selectedMarket, setSelectedMarket] = useState<PredictionMarket | null>(null);
   const [decryptedYes, setDecryptedYes] = useState<number | null>(null);
   const [decryptedNo, setDecryptedNo] = useState<number | null>(null);
+  const [decryptedOptions, setDecryptedOptions] = useState<Record<number, number>>({});
+  const [decryptedWeights, setDecryptedWeights] = useState<Record<number, number>>({});
+  // The owner's own decryption of the running scalar tallies, shown until the oracle publishes results
+  const [decryptedScalar, setDecryptedScalar] = useState<{ sum: bigint; histogram: bigint[] } | null>(null);
+  const [estimate, setEstimate] = useState("");
+  const [resolvedValueInput, setResolvedValueInput] = useState("");
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
+  const [stakeAmount, setStakeAmount] = useState("");
   const [searchTerm, setSearchTerm] = useState("");
   const [filterCategory, setFilterCategory] = useState("all");
-  const [userHistory, setUserHistory] = useState<string[]>([]);
+  const [eligibility, setEligibility] = useState<Eligibility | null>(null);
+  // While set, the predict buttons replace the wallet's active prediction instead of adding one
+  const [changingPrediction, setChangingPrediction] = useState(false);
+  const marketPosition = useMarketPosition(selectedMarket?.batchId ?? null);
+  const batchDecryption = useBatchDecryption(selectedMarket?.batchId ?? null);
+  const marketTimeline = useMarketTimeline(
+    selectedMarket?.batchId ?? null,
+    selectedMarket?.options ?? [],
+    `${selectedMarket?.status}:${selectedMarket?.batchOpen}:${batchDecryption.decryptions.length}:${batchDecryption.latest?.completedBlock}`
+  );
+  const marketRoles = useMarketRoles();
+  const chainTime = useChainTime();
+  const [roleForm, setRoleForm] = useState<{ account: string; role: MarketRole }>({ account: "", role: "creator" });
+  const navigate = useNavigate();
+  const routedMarketId = useMatch("/markets/:id")?.params.id ?? null;
 
   const activeCount = markets.filter(m => m.status === "active").length;
   const settledCount = markets.filter(m => m.status === "settled").length;
   const canceledCount = markets.filter(m => m.status === "canceled").length;
+  const unconfiguredContracts = missingContracts(activeNetwork);
 
   useEffect(() => {
     loadMarkets().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
   }, []);
 
   const loadMarkets = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) return;
-      const keysBytes = await contract.getData("market_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
+      const registry = await getRegistryReadOnly();
+      if (!registry) return;
+      const market = await getPredictMarketReadOnly();
+      if (!market) return;
+      const entries = await fetchAllMarkets(registry);
+      // One indexer round-trip replaces a getBatch call per market when an indexer is configured
+      let indexed: Map<string, IndexedBatch> | null = null;
+      if (activeNetwork.indexerUrl) {
         try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing market keys:", e); }
+          indexed = new Map((await fetchAllIndexedBatches(activeNetwork.indexerUrl)).map(b => [String(b.batchId), b]));
+        } catch (e) { console.error("Indexer unavailable, reading batches from chain:", e); }
       }
-      const list: PredictionMarket[] = [];
-      for (const key of keys) {
+      const metadataStore = getMetadataStore();
+      // Entries load side by side; one that fails is logged and left out rather than failing the list
+      const loadEntry = async (entry: (typeof entries)[number]): Promise<PredictionMarket | null> => {
         try {
-          const marketBytes = await contract.getData(`market_${key}`);
-          if (marketBytes.length > 0) {
-            try {
-              const marketData = JSON.parse(ethers.toUtf8String(marketBytes));
-              list.push({ 
-                id: key, 
-                daoName: marketData.daoName, 
-                proposalTitle: marketData.proposalTitle, 
-                encryptedYesVotes: marketData.encryptedYesVotes, 
-                encryptedNoVotes: marketData.encryptedNoVotes,
-                endTime: marketData.endTime, 
-                creator: marketData.creator, 
-                category: marketData.category || "Governance",
-                status: marketData.status || "active"
-              });
-            } catch (e) { console.error(`Error parsing market data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading market ${key}:`, e); }
-      }
+          let recordError: PredictionMarket["recordError"] = null;
+          const loadRecord = loadMarketRecord(metadataStore, entry).catch(e => {
+            if (!(e instanceof MarketRecordError)) throw e;
+            recordError = { kind: e.kind, message: e.message };
+            return null;
+          });
+          const indexedBatch = indexed?.get(entry.batchId.toString());
+          const loadBatch = indexedBatch
+            ? {
+                creator: indexedBatch.creator ?? entry.creator,
+                isOpen: indexedBatch.isOpen,
+                outcome: indexedBatch.outcome,
+                submissions: indexedBatch.submissions,
+                encryptedYes: "",
+                encryptedNo: "",
+                outcomeCount: indexedBatch.outcomeCount,
+                encryptedOutcomeCounts: [] as string[],
+                scalarRange: indexedBatch.scalarRange,
+                encryptedScalarSum: "",
+                encryptedHistogram: [] as string[],
+                weighting: indexedBatch.weighting && {
+                  ...indexedBatch.weighting,
+                  snapshot: BigInt(indexedBatch.weighting.snapshot),
+                  unit: BigInt(indexedBatch.weighting.unit)
+                },
+                encryptedWeights: [] as string[],
+                participation: {
+                  mode: indexedBatch.participation.mode,
+                  token: indexedBatch.participation.token ?? ethers.ZeroAddress,
+                  minBalance: BigInt(indexedBatch.participation.minBalance ?? 0),
+                  allowlistRoot: indexedBatch.participation.allowlistRoot ?? ethers.ZeroHash
+                },
+                schedule: indexedBatch.schedule,
+                metadata: indexedBatch.metadata && {
+                  ...indexedBatch.metadata,
+                  dao: decodeDao(indexedBatch.metadata.dao),
+                  proposalChainId: Number(indexedBatch.metadata.proposalChainId),
+                  proposalId: indexedBatch.metadata.proposalId === null ? null : BigInt(indexedBatch.metadata.proposalId)
+                }
+              }
+            : getBatch(market, entry.batchId);
+          const [record, batch] = await Promise.all([loadRecord, loadBatch]);
+          const marketData = record?.description;
+          return { 
+            id: entry.marketId.toString(), 
+            batchId: entry.batchId.toString(),
+            batchOpen: batch.isOpen,
+            submissions: Number(batch.submissions),
+            daoName: marketData?.daoName ?? "Unknown DAO",
+            proposalTitle: marketData?.proposalTitle ?? `Market ${entry.key}`,
+            encryptedYesVotes: batch.encryptedYes, 
+            encryptedNoVotes: batch.encryptedNo,
+            options: optionLabels(marketData, batch.outcomeCount),
+            encryptedOptionVotes: batch.encryptedOutcomeCounts,
+            range: batch.scalarRange,
+            unit: marketData?.unit ?? "",
+            encryptedScalarSum: batch.encryptedScalarSum,
+            encryptedHistogram: batch.encryptedHistogram,
+            weighting: batch.weighting,
+            weightSymbol: marketData?.weightSymbol ?? "",
+            weightClock: marketData?.weightClock ?? "blocknumber",
+            encryptedWeights: batch.encryptedWeights,
+            participation: batch.participation,
+            allowlist: marketData?.allowlist ?? [],
+            gateSymbol: marketData?.gateSymbol ?? "",
+            gateDecimals: marketData?.gateDecimals ?? 18,
+            endTime: batch.schedule?.endTime ?? marketData?.endTime ?? 0,
+            schedule: batch.schedule,
+            metadata: batch.metadata,
+            creator: entry.creator, 
+            batchCreator: batch.creator,
+            category: marketData?.category ?? "Unknown",
+            status: marketStatus(batch.outcome, record?.legacyStatus),
+            outcome: batch.outcome === "yes" || batch.outcome === "no" ? batch.outcome : record?.legacyOutcome,
+            recordError
+          };
+        } catch (e) {
+          console.error(`Error loading market ${entry.marketId}:`, e);
+          return null;
+        }
+      };
+      const list = (await Promise.all(entries.map(loadEntry))).filter((m): m is PredictionMarket => m !== null);
       list.sort((a, b) => b.endTime - a.endTime);
       setMarkets(list);
     } catch (e) { console.error("Error loading markets:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
 
+  const openMarketDetail = (market: PredictionMarket) => navigate(`/markets/${market.id}`);
+
+  const copyMarketLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setTransactionStatus({ visible: true, status: "success", message: "Market link copied" });
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: "Could not copy the link" });
+    }
+    setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+  };
+
+  const loadMarketDetail = async (market: PredictionMarket) => {
+    setSelectedMarket(market);
+    try {
+      const contract = await getPredictMarketReadOnly();
+      if (!contract) return;
+      const batch = await getBatch(contract, BigInt(market.batchId));
+      setSelectedMarket(current => current?.id === market.id ? {
+        ...current,
+        batchOpen: batch.isOpen,
+        submissions: Number(batch.submissions),
+        encryptedYesVotes: batch.encryptedYes,
+        encryptedNoVotes: batch.encryptedNo,
+        encryptedOptionVotes: batch.encryptedOutcomeCounts,
+        encryptedScalarSum: batch.encryptedScalarSum,
+        encryptedHistogram: batch.encryptedHistogram,
+        encryptedWeights: batch.encryptedWeights,
+        participation: batch.participation,
+        endTime: batch.schedule?.endTime ?? current.endTime,
+        schedule: batch.schedule,
+        metadata: batch.metadata
+      } : current);
+    } catch (e) { console.error(`Error refreshing batch ${market.batchId}:`, e); }
+  };
+
+  // Proof of the connected wallet on allowlist markets, null when it is not listed
+  const proofFor = (market: PredictionMarket): string[] | null | undefined =>
+    market.participation.mode !== "allowlist" || !address ? undefined : allowlistProof(market.allowlist, address);
+
+  const refreshEligibility = async (market: PredictionMarket) => {
+    if (!address) { setEligibility(null); return; }
+    const contract = await getPredictMarketReadOnly();
+    if (!contract) return;
+    const proof = proofFor(market);
+    const checked = await getEligibility(contract, BigInt(market.batchId), address, proof ?? []);
+    setEligibility(proof === null ? { ...checked, canPredict: false } : checked);
+  };
+
+  useEffect(() => {
+    setEligibility(null);
+    if (selectedMarket?.batchOpen) refreshEligibility(selectedMarket).catch(e => console.error("Failed to check eligibility:", e));
+  }, [selectedMarket?.id, selectedMarket?.batchOpen, selectedMarket?.participation.mode, address]);
+
+  // Votes tokens on a timestamp clock take a timestamp snapshot, so the form follows the entered token
+  useEffect(() => {
+    setWeightClock(null);
+    if (newMarketData.weightSource !== "votes" || !ethers.isAddress(newMarketData.weightToken)) return;
+    let current = true;
+    getPredictMarketReadOnly()
+      .then(market => market && getTokenClock(market.runner!.provider!, newMarketData.weightToken))
+      .then(clock => { if (current && clock) setWeightClock(clock.mode); })
+      .catch(e => console.error("Failed to read the token clock:", e));
+    return () => { current = false; };
+  }, [newMarketData.weightSource, newMarketData.weightToken]);
+
+  // Outside its schedule a batch rejects new, changed and withdrawn predictions alike
+  const scheduleBlockedReason = (market: PredictionMarket): string | null => {
+    if (!market.schedule) return null;
+    if (chainTime.now < market.schedule.startTime) return `Predictions open in ${formatCountdown(market.schedule.startTime - chainTime.now)}`;
+    if (chainTime.now >= market.schedule.endTime) return "The prediction window has ended";
+    return null;
+  };
+
+  // Why the connected wallet cannot predict, or null when it can (or eligibility is still loading)
+  const predictBlockedReason = (market: PredictionMarket): string | null => {
+    const scheduleReason = scheduleBlockedReason(market);
+    if (scheduleReason) return scheduleReason;
+    if (!eligibility || eligibility.canPredict) return null;
+    if (eligibility.hasPredicted && market.participation.mode !== "providers") return "You have already predicted in this market";
+    switch (market.participation.mode) {
+      case "providers":
+        return "Only registered prediction providers can predict in this market";
+      case "token":
+        return `Hold at least ${ethers.formatUnits(market.participation.minBalance, market.gateDecimals)} ${market.gateSymbol || "tokens"} to predict`;
+      case "allowlist":
+        return "Your address is not on this market's allowlist";
+      default:
+        return null;
+    }
+  };
+
+  const resetMarketDetail = () => {
+    setSelectedMarket(null);
+    setDecryptedYes(null);
+    setDecryptedNo(null);
+    setDecryptedOptions({});
+    setDecryptedWeights({});
+    setDecryptedScalar(null);
+    setEstimate("");
+    setResolvedValueInput("");
+    setChangingPrediction(false);
+  };
+
+  // The detail page follows the URL, so a market can be linked to and left with the browser's back
+  // button. Reloaded markets are picked up again so the page shows their new state.
+  useEffect(() => {
+    const market = routedMarketId === null ? undefined : markets.find(m => m.id === routedMarketId);
+    if (market?.id !== selectedMarket?.id) resetMarketDetail();
+    if (market) loadMarketDetail(market);
+  }, [routedMarketId, markets]);
+
+  useDocumentMeta(selectedMarket && {
+    title: `${selectedMarket.proposalTitle} · ${selectedMarket.daoName} · DAO Predict Market`,
+    description: `Encrypted prediction market on ${selectedMarket.daoName}: ${selectedMarket.proposalTitle}. ${selectedMarket.submissions} predictions, ${selectedMarket.batchOpen ? "open" : "closed"}.`
+  });
+
+  const changeNetwork = async (key: string) => {
+    const ethereum = window.ethereum;
+    if (isConnected && ethereum) {
+      try { await switchWalletNetwork(ethereum, getNetwork(key)); }
+      catch (e) { console.error("Wallet did not switch network:", e); }
+    }
+    selectNetwork(key);
+  };
+
   const createMarket = async () => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
+    const options = newMarketData.marketType === "multi" ? newMarketData.options.map(o => o.trim()).filter(o => o !== "") : [];
+    if (newMarketData.marketType === "multi" && options.length < 2) { alert("Add at least two options"); return; }
+    const range: ScalarRange | null = newMarketData.marketType === "scalar"
+      ? { lowerBound: newMarketData.lowerBound, upperBound: newMarketData.upperBound, bucketCount: newMarketData.bucketCount }
+      : null;
+    if (range && (range.lowerBound >= range.upperBound || range.upperBound - range.lowerBound + 1 < range.bucketCount)) {
+      alert("The range must be wider than its number of buckets"); return;
+    }
+    const weighted = !range && newMarketData.weightSource !== "none";
+    if (weighted && !ethers.isAddress(newMarketData.weightToken)) { alert("Enter the weight token address"); return; }
+    const participation = newMarketData.participation as ParticipationMode;
+    if (participation === "token" && (!ethers.isAddress(newMarketData.gateToken) || !(Number(newMarketData.gateMinBalance) > 0))) {
+      alert("Enter the gating token address and a minimum balance"); return;
+    }
+    const daoId = newMarketData.daoId.trim();
+    if (daoId === "" || ethers.toUtf8Bytes(daoId).length > 31) { alert("Enter a DAO ID of at most 31 bytes"); return; }
+    const governed = newMarketData.proposalSource === "governor";
+    if (governed && (!ethers.isAddress(newMarketData.governor) || !/^\d+$/.test(newMarketData.proposalId.trim()))) {
+      alert("Enter the governor address and the proposal ID"); return;
+    }
+    if (!governed && !ethers.isHexString(newMarketData.snapshotId.trim(), 32)) { alert("Enter the Snapshot proposal ID (0x followed by 64 hex digits)"); return; }
+    let allowlist: string[] = [];
+    if (participation === "allowlist") {
+      try { allowlist = parseAllowlist(newMarketData.allowlist); }
+      catch (e: any) { alert(e.message); return; }
+      if (allowlist.length === 0) { alert("Add at least one address to the allowlist"); return; }
+    }
     setCreating(true);
-    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting prediction data with Zama FHE..." });
+    setTransactionStatus({ visible: true, status: "pending", message: "Opening encrypted prediction batch on-chain..." });
     try {
-      const encryptedYes = FHEEncryptNumber(newMarketData.yesVotes);
-      const encryptedNo = FHEEncryptNumber(newMarketData.noVotes);
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      const marketId = `${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
-      const endTimestamp = Math.floor(Date.now() / 1000) + (newMarketData.endTime * 24 * 60 * 60);
-      const marketData = { 
+      const market = await getPredictMarketWithSigner();
+      const batchId = range
+        ? await openScalarBatch(market, range)
+        : options.length > 0 ? await openMultiOutcomeBatch(market, options.length) : await openBatch(market);
+      let weightSymbol = "";
+      let snapshotClock: TokenClockMode | null = null;
+      if (weighted) {
+        setTransactionStatus({ visible: true, status: "pending", message: "Configuring token-weighted predictions..." });
+        const runner = market.runner!.provider!;
+        const token = await getWeightToken(runner, newMarketData.weightToken);
+        // Past votes can only be read for timepoints the token's clock has already passed
+        let snapshot = 0n;
+        if (newMarketData.weightSource === "votes") {
+          const clock = await getTokenClock(runner, newMarketData.weightToken);
+          snapshot = newMarketData.weightSnapshot.trim() === "" ? clock.now - 1n : BigInt(newMarketData.weightSnapshot);
+          snapshotClock = clock.mode;
+        }
+        await configureWeighting(market, batchId, {
+          source: newMarketData.weightSource as Weighting["source"],
+          token: newMarketData.weightToken,
+          snapshot,
+          unit: 10n ** BigInt(token.decimals)
+        });
+        weightSymbol = token.symbol;
+      }
+      let gateToken: { symbol: string; decimals: number } | null = null;
+      if (participation !== "providers") {
+        setTransactionStatus({ visible: true, status: "pending", message: "Setting who can predict..." });
+        if (participation === "token") gateToken = await getWeightToken(market.runner!.provider!, newMarketData.gateToken);
+        await setParticipationPolicy(market, batchId, {
+          mode: participation,
+          token: gateToken ? newMarketData.gateToken : ethers.ZeroAddress,
+          minBalance: gateToken ? ethers.parseUnits(newMarketData.gateMinBalance, gateToken.decimals) : 0n,
+          allowlistRoot: allowlist.length > 0 ? allowlistRoot(allowlist) : ethers.ZeroHash
+        });
+      }
+      // Scheduled in chain time, which is what the contract enforces the end against
+      setTransactionStatus({ visible: true, status: "pending", message: "Scheduling the prediction window..." });
+      const endTimestamp = (await getChainTime(market.runner!.provider!)) + (newMarketData.endTime * 24 * 60 * 60);
+      await setBatchSchedule(market, batchId, { startTime: 0, endTime: endTimestamp });
+      setTransactionStatus({ visible: true, status: "pending", message: "Publishing the market description..." });
+      const cid = await publishMarketDescription(getMetadataStore(), createMarketDescription({
         daoName: newMarketData.daoName,
         proposalTitle: newMarketData.proposalTitle,
-        encryptedYesVotes: encryptedYes,
-        encryptedNoVotes: encryptedNo,
-        endTime: endTimestamp,
-        creator: address,
         category: newMarketData.category,
-        status: "active"
-      };
-      await contract.setData(`market_${marketId}`, ethers.toUtf8Bytes(JSON.stringify(marketData)));
-      const keysBytes = await contract.getData("market_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(marketId);
-      await contract.setData("market_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+        creator: address!,
+        batchId: batchId.toString(),
+        endTime: endTimestamp,
+        ...(options.length > 0 ? { outcomes: options } : {}),
+        ...(range ? { unit: newMarketData.unit.trim() } : {}),
+        ...(weighted ? { weightSymbol } : {}),
+        ...(snapshotClock ? { weightClock: snapshotClock } : {}),
+        ...(gateToken ? { gateSymbol: gateToken.symbol, gateDecimals: gateToken.decimals } : {}),
+        ...(allowlist.length > 0 ? { allowlist } : {})
+      }));
+      setTransactionStatus({ visible: true, status: "pending", message: "Linking the batch to the proposal..." });
+      await setBatchMetadata(market, batchId, {
+        dao: daoId,
+        proposalChainId: Number(newMarketData.proposalChainId),
+        governor: governed ? newMarketData.governor : null,
+        proposalId: governed ? BigInt(newMarketData.proposalId.trim()) : null,
+        snapshotId: governed ? null : newMarketData.snapshotId.trim(),
+        questionHash: questionHash(newMarketData.proposalTitle),
+        metadataURI: newMarketData.metadataURI.trim() || `ipfs://${cid}`
+      });
+      const marketKey = `${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
+      const marketId = await registerMarket(await getRegistryWithSigner(), marketKey, batchId, cid);
       setTransactionStatus({ visible: true, status: "success", message: "Prediction market created with FHE encryption!" });
       await loadMarkets();
-      setUserHistory(prev => [...prev, `Created market ${marketId}`]);
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewMarketData({ daoName: "", proposalTitle: "", yesVotes: 0, noVotes: 0, endTime: 7, category: "Governance" });
+        setNewMarketData(EMPTY_MARKET_FORM);
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") ? "Transaction rejected by user" : "Creation failed: " + (e.message || "Unknown error");
-      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTransactionStatus({ visible: true, status: "error", message: "Creation failed: " + describeContractError(e) });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { setCreating(false); }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
+  // Sequential on purpose: the decryption session is shared across handles
+  const decryptScalarTallies = async (market: PredictionMarket) => {
+    const sum = await decryptWithSignature(market.encryptedScalarSum);
+    if (sum === null) return;
+    const histogram: bigint[] = [];
+    for (const handle of market.encryptedHistogram) {
+      const count = await decryptWithSignature(handle);
+      if (count === null) return;
+      histogram.push(BigInt(count));
+    }
+    setDecryptedScalar({ sum: BigInt(sum), histogram });
+  };
+
+  const decryptWithSignature = async (handle: string): Promise<number | null> => {
     if (!isConnected) { alert("Please connect wallet first"); return null; }
+    if (handle === ZERO_HANDLE) return 0;
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
+      const market = await getPredictMarketWithSigner();
+      const marketAddress = await market.getAddress();
+      const backend = await getFheBackend();
+      const signer = await new ethers.BrowserProvider(injectedWallet()).getSigner();
+      const session = await getUserDecryptSession(backend, signer, [marketAddress]);
+      const clear = await userDecryptHandles(backend, session, marketAddress, [handle]);
+      return Number(clear[handle]);
     } catch (e) { console.error("Decryption failed:", e); return null; } 
     finally { setIsDecrypting(false); }
   };
 
-  const settleMarket = async (marketId: string) => {
+  // choice is 0/1 for no/yes, the option index on multi-outcome markets, or the estimate on range markets
+  const submitEncryptedPrediction = async (market: PredictionMarket, choice: number) => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    const proof = proofFor(market);
+    if (proof === null) { alert("Your address is not on this market's allowlist"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting and submitting prediction with Zama FHE..." });
+    try {
+      await marketPosition.stake(choice, market.range ? "" : stakeAmount, proof);
+      setStakeAmount("");
+      setEstimate("");
+      setTransactionStatus({ visible: true, status: "success", message: "Encrypted prediction submitted!" });
+      await refreshEligibility(market);
+      await loadMarkets();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Prediction failed: " + describeContractError(e) });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const changeEncryptedPrediction = async (market: PredictionMarket, choice: number) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting and replacing your prediction with Zama FHE..." });
+    try {
+      await marketPosition.change(choice);
+      setEstimate("");
+      setChangingPrediction(false);
+      setTransactionStatus({ visible: true, status: "success", message: "Prediction changed!" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Change failed: " + describeContractError(e) });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const withdrawPrediction = async (market: PredictionMarket) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Withdrawing your prediction..." });
+    try {
+      const refund = await marketPosition.revoke();
+      setChangingPrediction(false);
+      const message = refund > 0n ? `Prediction withdrawn, ${ethers.formatEther(refund)} ETH refunded` : "Prediction withdrawn";
+      setTransactionStatus({ visible: true, status: "success", message });
+      await refreshEligibility(market);
+      await loadMarkets();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Withdrawal failed: " + describeContractError(e) });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Changing a prediction skips the participation checks, which only apply to new ones
+  const predictDisabled = (market: PredictionMarket) =>
+    marketPosition.busy || !!scheduleBlockedReason(market) || (!changingPrediction && !!predictBlockedReason(market));
+
+  const predictWith = (market: PredictionMarket, choice: number) =>
+    changingPrediction ? changeEncryptedPrediction(market, choice) : submitEncryptedPrediction(market, choice);
+
+  const claimWinnings = async () => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Claiming payout..." });
+    try {
+      const requestId = await marketPosition.claim();
+      const message = requestId === null ? "Deposit refunded!" : "Claim submitted, payout follows once your stake is decrypted";
+      setTransactionStatus({ visible: true, status: "success", message });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Claim failed: " + describeContractError(e) });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const closeOpenBatch = async (batchId: string) => {
+    const market = await getPredictMarketWithSigner();
+    if (await market.isBatchOpen(BigInt(batchId))) await closeBatch(market, BigInt(batchId));
+  };
+
+  const requestDecryption = async (market: PredictionMarket) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Requesting decryption of the batch tallies..." });
+    try {
+      const requestId = await batchDecryption.request();
+      setTransactionStatus({ visible: true, status: "success", message: `Decryption request #${requestId} sent to the oracle` });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Decryption request failed: " + describeContractError(e) });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const resultLabels = (market: PredictionMarket): string[] => {
+    if (market.range) {
+      const range = market.range;
+      const bounds = scalarBucketBounds(range);
+      return bounds.map((_, index) => `${bucketLabel(range, bounds, index)} ${market.unit}`.trim());
+    }
+    return market.options.length > 0 ? market.options : ["Yes", "No"];
+  };
+
+  // Any wallet may close a batch whose schedule has run out
+  const closeExpiredBatch = async (market: PredictionMarket) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Closing the prediction batch..." });
+    try {
+      await closeOpenBatch(market.batchId);
+      setTransactionStatus({ visible: true, status: "success", message: "Prediction batch closed" });
+      setSelectedMarket(current => current?.id === market.id ? { ...current, batchOpen: false } : current);
+      await loadMarkets();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Closing failed: " + describeContractError(e) });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // winner is the yes/no outcome, the winning option index on multi-outcome markets, or the realised value on range markets
+  const settleMarket = async (market: PredictionMarket, winner: boolean | number) => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
     setTransactionStatus({ visible: true, status: "pending", message: "Processing encrypted votes with FHE..." });
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      const marketBytes = await contract.getData(`market_${marketId}`);
-      if (marketBytes.length === 0) throw new Error("Market not found");
-      const marketData = JSON.parse(ethers.toUtf8String(marketBytes));
-      const updatedMarket = { ...marketData, status: "settled" };
-      await contract.setData(`market_${marketId}`, ethers.toUtf8Bytes(JSON.stringify(updatedMarket)));
+      await closeOpenBatch(market.batchId);
+      const contract = await getPredictMarketWithSigner();
+      if (market.range) await resolveScalarMarket(contract, BigInt(market.batchId), Number(winner));
+      else if (typeof winner === "number") await resolveMultiOutcomeMarket(contract, BigInt(market.batchId), winner);
+      else await resolveMarket(contract, BigInt(market.batchId), winner);
       setTransactionStatus({ visible: true, status: "success", message: "Market settled successfully!" });
-      setUserHistory(prev => [...prev, `Settled market ${marketId}`]);
       await loadMarkets();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Settlement failed: " + (e.message || "Unknown error") });
+      setTransactionStatus({ visible: true, status: "error", message: "Settlement failed: " + describeContractError(e) });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
-  const cancelMarket = async (marketId: string) => {
+  const cancelMarket = async (market: PredictionMarket) => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
     setTransactionStatus({ visible: true, status: "pending", message: "Processing market cancellation..." });
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      const marketBytes = await contract.getData(`market_${marketId}`);
-      if (marketBytes.length === 0) throw new Error("Market not found");
-      const marketData = JSON.parse(ethers.toUtf8String(marketBytes));
-      const updatedMarket = { ...marketData, status: "canceled" };
-      await contract.setData(`market_${marketId}`, ethers.toUtf8Bytes(JSON.stringify(updatedMarket)));
-      setTransactionStatus({ visible: true, status: "success", message: "Market canceled successfully!" });
-      setUserHistory(prev => [...prev, `Canceled market ${marketId}`]);
+      await cancelBatchMarket(await getPredictMarketWithSigner(), BigInt(market.batchId));
+      setTransactionStatus({ visible: true, status: "success", message: "Market canceled, stakers can reclaim their deposits" });
       await loadMarkets();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Cancellation failed: " + (e.message || "Unknown error") });
+      setTransactionStatus({ visible: true, status: "error", message: "Cancellation failed: " + describeContractError(e) });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
-  const isCreator = (marketAddress: string) => address?.toLowerCase() === marketAddress.toLowerCase();
+  const updateRole = async (grant: boolean) => {
+    if (!ethers.isAddress(roleForm.account)) { alert("Enter a valid address"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: `${grant ? "Granting" : "Revoking"} ${roleForm.role} role...` });
+    try {
+      const market = await getPredictMarketWithSigner();
+      await (grant ? grantRole : revokeRole)(market, roleForm.role, roleForm.account);
+      setTransactionStatus({ visible: true, status: "success", message: `Role ${grant ? "granted" : "revoked"}` });
+      await marketRoles.refresh();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Role update failed: " + describeContractError(e) });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
 
   const filteredMarkets = markets.filter(market => {
     const matchesSearch = market.daoName.toLowerCase().includes(searchTerm.toLowerCase()) || 
@@ -249,6 +805,596 @@ const App: React.FC = () => {
     );
   };
 
+  const renderWeightedTotals = (market: PredictionMarket) => {
+    const labels = market.options.length > 0 ? market.options : ["Yes", "No"];
+    return (
+      <div className="vote-section">
+        <h4>Encrypted Weighted Totals</h4>
+        <div className="vote-cards">
+          {labels.map((label, index) => {
+            const handle = market.encryptedWeights[index] ?? ZERO_HANDLE;
+            return (
+              <div key={index} className="vote-card">
+                <h5>{label} ({market.weightSymbol || "weight"})</h5>
+                <div className="encrypted-data">
+                  {handle.substring(0, 30)}...
+                </div>
+                <button 
+                  className="decrypt-btn"
+                  onClick={async () => {
+                    if (decryptedWeights[index] !== undefined) {
+                      const { [index]: _hidden, ...rest } = decryptedWeights;
+                      setDecryptedWeights(rest);
+                    } else {
+                      const decrypted = await decryptWithSignature(handle);
+                      if (decrypted !== null) setDecryptedWeights(prev => ({ ...prev, [index]: decrypted }));
+                    }
+                  }}
+                  disabled={isDecrypting}
+                >
+                  {isDecrypting ? "Decrypting..." : decryptedWeights[index] !== undefined ? "Hide Value" : "Decrypt"}
+                </button>
+                {decryptedWeights[index] !== undefined && (
+                  <div className="decrypted-value">
+                    Decrypted: {decryptedWeights[index]}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  // The on-chain proposal link; the registry's title is only trusted when it hashes to the stored question
+  const renderProposalRows = (market: PredictionMarket, metadata: BatchMetadata) => (
+    <>
+      <div className="info-row">
+        <span>DAO ID:</span>
+        <span>{metadata.dao}</span>
+      </div>
+      <div className="info-row">
+        <span>Proposal:</span>
+        <span>
+          {metadata.governor
+            ? `Governor ${metadata.governor.substring(0, 8)}... #${metadata.proposalId} on chain ${metadata.proposalChainId}`
+            : `Snapshot ${metadata.snapshotId!.substring(0, 10)}...`}
+        </span>
+      </div>
+      <div className="info-row">
+        <span>Question:</span>
+        {questionHash(market.proposalTitle) === metadata.questionHash ? (
+          <span className="status-badge question-verified">Matches on-chain hash</span>
+        ) : (
+          <span className="status-badge question-mismatch">Does not match the on-chain hash</span>
+        )}
+      </div>
+      {metadata.metadataURI && (
+        <div className="info-row">
+          <span>Metadata:</span>
+          <span>{metadata.metadataURI}</span>
+        </div>
+      )}
+    </>
+  );
+
+  // Oracle decryption of the closed batch's tallies; a request the oracle never answered can be sent again
+  const renderDecryptionResults = (market: PredictionMarket) => {
+    const latest = batchDecryption.latest;
+    const status = latest ? decryptionStatus(latest, chainTime.now) : null;
+    return (
+      <DecryptionResults
+        decryption={latest}
+        status={status}
+        result={batchDecryption.result}
+        labels={resultLabels(market)}
+        unit={market.range ? market.unit : undefined}
+        weightLabel={market.weightSymbol}
+        canRequest={isConnected && market.submissions > 0 && (status === null || status === "failed")}
+        busy={batchDecryption.busy}
+        onRequest={() => requestDecryption(market)}
+      />
+    );
+  };
+
+  const renderScalarResults = (market: PredictionMarket, range: ScalarRange) => {
+    const bounds = scalarBucketBounds(range);
+    const published = batchDecryption.result;
+    const scalarResult = published
+      ? { sum: published.scalarSum, histogram: published.tallies, published: true }
+      : decryptedScalar && { ...decryptedScalar, published: false };
+    const total = scalarResult ? scalarResult.histogram.reduce((a, b) => a + b, 0n) : 0n;
+    const largest = scalarResult ? scalarResult.histogram.reduce((a, b) => (b > a ? b : a), 0n) : 0n;
+    return (
+      <div className="vote-section scalar-results">
+        <h4>Range Results</h4>
+        {scalarResult ? (
+          <>
+            <div className="info-row">
+              <span>Mean Estimate:</span>
+              <span>{total > 0n ? (Number(scalarResult.sum) / Number(total)).toFixed(2) : "-"} {market.unit}</span>
+            </div>
+            <div className="histogram">
+              {bounds.map((_, index) => {
+                const count = scalarResult.histogram[index] ?? 0n;
+                return (
+                  <div key={index} className="histogram-row">
+                    <span className="histogram-label">{bucketLabel(range, bounds, index)}</span>
+                    <div className="histogram-track">
+                      <div className="histogram-bar" style={{ width: largest > 0n ? `${(Number(count) * 100) / Number(largest)}%` : "0%" }} />
+                    </div>
+                    <span className="histogram-count">{count.toString()}</span>
+                  </div>
+                );
+              })}
+            </div>
+            {!scalarResult.published && <p className="histogram-note">Decrypted privately from the running tallies</p>}
+          </>
+        ) : (
+          <>
+            <div className="encrypted-data">
+              {market.encryptedScalarSum.substring(0, 30)}...
+            </div>
+            <button 
+              className="decrypt-btn" 
+              disabled={isDecrypting || market.encryptedHistogram.length === 0} 
+              onClick={() => decryptScalarTallies(market)}
+            >
+              {isDecrypting ? "Decrypting..." : "Decrypt Sum & Histogram"}
+            </button>
+          </>
+        )}
+        {market.status === "active" && marketRoles.canResolve && (
+          <div className="predict-section">
+            <input 
+              type="number" 
+              min="0" 
+              step="1" 
+              placeholder={`Realised value (${market.unit || "number"})`} 
+              value={resolvedValueInput} 
+              onChange={(e) => setResolvedValueInput(e.target.value)}
+            />
+            <button 
+              className="action-btn settle" 
+              disabled={resolvedValueInput === ""} 
+              onClick={() => settleMarket(market, Math.max(0, Math.round(Number(resolvedValueInput))))}
+            >
+              Settle at Value
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // The ciphertext handles of every running tally, in full so they can be checked against the contract
+  const renderTallyHandles = (market: PredictionMarket) => {
+    const labels = resultLabels(market);
+    const handles: [string, string][] = market.range
+      ? [["Sum of estimates", market.encryptedScalarSum], ...labels.map((label, index): [string, string] => [label, market.encryptedHistogram[index] ?? ZERO_HANDLE])]
+      : market.options.length > 0
+        ? labels.map((label, index) => [label, market.encryptedOptionVotes[index] ?? ZERO_HANDLE])
+        : [["Yes", market.encryptedYesVotes], ["No", market.encryptedNoVotes]];
+    if (market.weighting) {
+      const weightLabels = market.options.length > 0 ? market.options : ["Yes", "No"];
+      weightLabels.forEach((label, index) => handles.push([`${label} (${market.weightSymbol || "weight"})`, market.encryptedWeights[index] ?? ZERO_HANDLE]));
+    }
+    return (
+      <div className="vote-section">
+        <h4>Encrypted Tally Handles</h4>
+        <div className="tally-handles">
+          {handles.map(([label, handle], index) => (
+            <div key={index} className="tally-handle">
+              <span>{label}</span>
+              <code>{handle}</code>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderTimeline = (market: PredictionMarket) => (
+    <div className="vote-section">
+      <h4>Timeline</h4>
+      {marketTimeline.events.length === 0 ? (
+        <p className="histogram-note">{marketTimeline.loading ? "Loading events..." : "No events found"}</p>
+      ) : (
+        <ol className="timeline">
+          {marketTimeline.events.map(event => (
+            <li key={`${event.transactionHash}:${event.logIndex}`} className={`timeline-event ${event.kind}`}>
+              <span className="timeline-time">{new Date(event.timestamp * 1000).toLocaleString()}</span>
+              <span className="timeline-label">{TIMELINE_LABELS[event.kind]}</span>
+              {event.detail && <span className="timeline-detail">{event.detail}</span>}
+            </li>
+          ))}
+          {market.batchOpen && market.schedule && market.schedule.endTime > chainTime.now && (
+            <li className="timeline-event upcoming">
+              <span className="timeline-time">{new Date(market.schedule.endTime * 1000).toLocaleString()}</span>
+              <span className="timeline-label">Prediction window ends</span>
+              <span className="timeline-detail">in {formatCountdown(market.schedule.endTime - chainTime.now)}</span>
+            </li>
+          )}
+        </ol>
+      )}
+    </div>
+  );
+
+  // Full page of one market at /markets/:id
+  const renderMarketPage = () => {
+    if (!selectedMarket) return (
+      <section className="market-page">
+        <Link to="/" className="back-link">&larr; All markets</Link>
+        <div className="no-markets">
+          <p>Market #{routedMarketId} was not found on {activeNetwork.name}</p>
+        </div>
+      </section>
+    );
+    return (
+      <section className="market-page">
+        <Link to="/" className="back-link">&larr; All markets</Link>
+        <div className="market-page-header">
+          <h2>{selectedMarket.proposalTitle}</h2>
+          <button className="action-btn" onClick={copyMarketLink}>Copy link</button>
+        </div>
+        <div className="market-page-body">
+          <div className="market-info">
+            <div className="info-row">
+              <span>DAO:</span>
+              <span>{selectedMarket.daoName}</span>
+            </div>
+            <div className="info-row">
+              <span>Proposal:</span>
+              <span>{selectedMarket.proposalTitle}</span>
+            </div>
+            <div className="info-row">
+              <span>Status:</span>
+              <span className={`status-badge ${selectedMarket.status}`}>{selectedMarket.status}</span>
+            </div>
+            {selectedMarket.recordError && (
+              <div className="info-row">
+                <span>Record:</span>
+                <span>
+                  <span className="status-badge record-error">{RECORD_ERROR_LABELS[selectedMarket.recordError.kind]}</span>{" "}
+                  {selectedMarket.recordError.message}
+                </span>
+              </div>
+            )}
+            <div className="info-row">
+              <span>End Time:</span>
+              <span>
+                {new Date(selectedMarket.endTime * 1000).toLocaleString()}
+                {selectedMarket.schedule && selectedMarket.endTime > chainTime.now && ` (in ${formatCountdown(selectedMarket.endTime - chainTime.now)})`}
+              </span>
+            </div>
+            <div className="info-row">
+              <span>Batch:</span>
+              <span>#{selectedMarket.batchId} ({selectedMarket.batchOpen ? "open" : "closed"})</span>
+            </div>
+            <div className="info-row">
+              <span>Participants:</span>
+              <span>{selectedMarket.submissions} {selectedMarket.submissions === 1 ? "prediction" : "predictions"}</span>
+            </div>
+            {selectedMarket.metadata && renderProposalRows(selectedMarket, selectedMarket.metadata)}
+            {selectedMarket.options.length > 0 && (
+              <div className="info-row">
+                <span>Options:</span>
+                <span>{selectedMarket.options.join(", ")}</span>
+              </div>
+            )}
+            {selectedMarket.range && (
+              <div className="info-row">
+                <span>Range:</span>
+                <span>{selectedMarket.range.lowerBound}–{selectedMarket.range.upperBound} {selectedMarket.unit}</span>
+              </div>
+            )}
+            {selectedMarket.weighting && (
+              <div className="info-row">
+                <span>Weighting:</span>
+                <span>
+                  {selectedMarket.weighting.source === "votes"
+                    ? `${selectedMarket.weightSymbol || "Token"} voting power at ${selectedMarket.weightClock === "timestamp"
+                      ? new Date(Number(selectedMarket.weighting.snapshot) * 1000).toLocaleString()
+                      : `block ${selectedMarket.weighting.snapshot}`}`
+                    : `${selectedMarket.weightSymbol || "Token"} balance when predicting`}
+                </span>
+              </div>
+            )}
+            <div className="info-row">
+              <span>Who Can Predict:</span>
+              <span>
+                {selectedMarket.participation.mode === "token"
+                  ? `Holders of ${ethers.formatUnits(selectedMarket.participation.minBalance, selectedMarket.gateDecimals)}+ ${selectedMarket.gateSymbol || "tokens"}, one prediction each`
+                  : PARTICIPATION_LABELS[selectedMarket.participation.mode]}
+              </span>
+            </div>
+            {marketPosition.settlement?.resolvedValue != null && (
+              <div className="info-row">
+                <span>Resolved Value:</span>
+                <span>{marketPosition.settlement.resolvedValue} {selectedMarket.unit}</span>
+              </div>
+            )}
+            {marketPosition.settlement?.winningOutcome != null && (
+              <div className="info-row">
+                <span>Winning Option:</span>
+                <span>{selectedMarket.options[marketPosition.settlement.winningOutcome]}</span>
+              </div>
+            )}
+            <div className="info-row">
+              <span>Creator:</span>
+              <span>{selectedMarket.creator.substring(0, 6)}...{selectedMarket.creator.substring(38)}</span>
+            </div>
+          </div>
+
+          {selectedMarket.batchOpen && selectedMarket.schedule && chainTime.now >= selectedMarket.schedule.endTime && (
+            <div className="predict-section">
+              <h4>Prediction Window Ended</h4>
+              <p className="eligibility-note">This batch is past its end time and can be closed by anyone.</p>
+              <div className="market-actions">
+                <button className="action-btn settle" onClick={() => closeExpiredBatch(selectedMarket)}>
+                  Close batch
+                </button>
+              </div>
+            </div>
+          )}
+
+          {selectedMarket.batchOpen && selectedMarket.range && (
+            <div className="predict-section">
+              <h4>{changingPrediction ? "Change Your Estimate" : "Submit Encrypted Estimate"}</h4>
+              {!changingPrediction && predictBlockedReason(selectedMarket) && <p className="eligibility-note">{predictBlockedReason(selectedMarket)}</p>}
+              <input 
+                type="number" 
+                min={selectedMarket.range.lowerBound} 
+                max={selectedMarket.range.upperBound} 
+                step="1" 
+                placeholder={`${selectedMarket.range.lowerBound}–${selectedMarket.range.upperBound} ${selectedMarket.unit}`} 
+                value={estimate} 
+                onChange={(e) => setEstimate(e.target.value)}
+              />
+              <div className="market-actions">
+                <button 
+                  className="action-btn settle" 
+                  disabled={estimate === "" || predictDisabled(selectedMarket)} 
+                  onClick={() => predictWith(selectedMarket, Math.max(0, Math.round(Number(estimate))))}
+                >
+                  {changingPrediction ? "Replace Estimate" : "Submit Estimate"}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {selectedMarket.batchOpen && !selectedMarket.range && (
+            <div className="predict-section">
+              <h4>{changingPrediction ? "Change Your Prediction" : "Submit Encrypted Prediction"}</h4>
+              {changingPrediction ? (
+                <p className="eligibility-note">Your stake moves to the new choice</p>
+              ) : (
+                <>
+                  {predictBlockedReason(selectedMarket) && <p className="eligibility-note">{predictBlockedReason(selectedMarket)}</p>}
+                  <p className="eligibility-note">
+                    Stakes are public ETH: the amount is visible to everyone, only the side it backs is encrypted.
+                    Claiming a payout reveals how much of it backed the winning side.
+                  </p>
+                  <input 
+                    type="number" 
+                    min="0" 
+                    step="0.01" 
+                    placeholder="Stake (ETH, optional)" 
+                    value={stakeAmount} 
+                    onChange={(e) => setStakeAmount(e.target.value)}
+                  />
+                </>
+              )}
+              {selectedMarket.options.length > 0 ? (
+                <div className="market-actions option-actions">
+                  {selectedMarket.options.map((option, index) => (
+                    <button key={index} className="action-btn settle" disabled={predictDisabled(selectedMarket)} onClick={() => predictWith(selectedMarket, index)}>
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <div className="market-actions">
+                  <button className="action-btn settle" disabled={predictDisabled(selectedMarket)} onClick={() => predictWith(selectedMarket, 1)}>
+                    Predict Yes
+                  </button>
+                  <button className="action-btn cancel" disabled={predictDisabled(selectedMarket)} onClick={() => predictWith(selectedMarket, 0)}>
+                    Predict No
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {selectedMarket.batchOpen && marketPosition.position && marketPosition.position.encryptedPrediction !== ZERO_HANDLE && (
+            <div className="position-section">
+              <h4>Your Prediction</h4>
+              {marketPosition.revealed?.prediction != null ? (
+                <div className="info-row">
+                  <span>Current:</span>
+                  <span>{predictionLabel(selectedMarket, marketPosition.revealed.prediction)}</span>
+                </div>
+              ) : (
+                <button className="decrypt-btn" disabled={marketPosition.busy} onClick={() => marketPosition.reveal().catch(e => console.error("Decryption failed:", e))}>
+                  Decrypt My Prediction
+                </button>
+              )}
+              <div className="market-actions">
+                <button className="action-btn settle" disabled={marketPosition.busy || !!scheduleBlockedReason(selectedMarket)} onClick={() => setChangingPrediction(!changingPrediction)}>
+                  {changingPrediction ? "Keep my prediction" : "Change my prediction"}
+                </button>
+                <button className="action-btn cancel" disabled={marketPosition.busy || !!scheduleBlockedReason(selectedMarket)} onClick={() => withdrawPrediction(selectedMarket)}>
+                  Withdraw prediction
+                </button>
+              </div>
+            </div>
+          )}
+
+          {marketPosition.position && marketPosition.position.deposit > 0n && (
+            <div className="position-section">
+              <h4>Your Position</h4>
+              <div className="info-row">
+                <span>Deposit:</span>
+                <span>{ethers.formatEther(marketPosition.position.deposit)} ETH</span>
+              </div>
+              {marketPosition.revealed ? (
+                <div className="info-row">
+                  <span>Stakes:</span>
+                  {selectedMarket.options.length > 0 ? (
+                    <span>
+                      {selectedMarket.options.map((option, index) => `${option} ${ethers.formatEther(marketPosition.revealed!.options[index] ?? 0n)}`).join(" / ")} ETH
+                    </span>
+                  ) : (
+                    <span>Yes {ethers.formatEther(marketPosition.revealed.yes)} / No {ethers.formatEther(marketPosition.revealed.no)} ETH</span>
+                  )}
+                </div>
+              ) : (
+                <button className="decrypt-btn" disabled={marketPosition.busy} onClick={() => marketPosition.reveal().catch(e => console.error("Decryption failed:", e))}>
+                  Decrypt My Stakes
+                </button>
+              )}
+              {marketPosition.settlement && marketPosition.settlement.outcome !== "unresolved" && (
+                <div className="info-row">
+                  <span>Outcome:</span>
+                  <span>{marketPosition.settlement.winningOutcome != null ? selectedMarket.options[marketPosition.settlement.winningOutcome] : marketPosition.settlement.outcome} (pool {ethers.formatEther(marketPosition.settlement.pool)} ETH)</span>
+                </div>
+              )}
+              {marketPosition.position.claimed ? (
+                <div className="decrypted-value">Claimed</div>
+              ) : marketPosition.position.claimPendingUntil !== null && chainTime.now < marketPosition.position.claimPendingUntil ? (
+                <div className="decrypted-value">
+                  Claim waiting for the decryption oracle; it can be sent again in {formatCountdown(marketPosition.position.claimPendingUntil - chainTime.now)}
+                </div>
+              ) : marketPosition.canClaim && (
+                <button className="action-btn settle" disabled={marketPosition.busy} onClick={claimWinnings}>
+                  {marketPosition.position.claimPendingUntil !== null ? "Claim again" : "Claim"}
+                </button>
+              )}
+            </div>
+          )}
+
+          {selectedMarket.weighting && selectedMarket.encryptedWeights.length > 0 && renderWeightedTotals(selectedMarket)}
+
+          {selectedMarket.range ? renderScalarResults(selectedMarket, selectedMarket.range) : (
+            <div className="vote-section">
+              <h4>Encrypted Votes</h4>
+              {selectedMarket.options.length > 0 ? (
+                <div className="vote-cards">
+                  {selectedMarket.options.map((option, index) => {
+                    const handle = selectedMarket.encryptedOptionVotes[index] ?? ZERO_HANDLE;
+                    return (
+                      <div key={index} className="vote-card">
+                        <h5>{option}</h5>
+                        <div className="encrypted-data">
+                          {handle.substring(0, 30)}...
+                        </div>
+                        <button 
+                          className="decrypt-btn"
+                          onClick={async () => {
+                            if (decryptedOptions[index] !== undefined) {
+                              const { [index]: _hidden, ...rest } = decryptedOptions;
+                              setDecryptedOptions(rest);
+                            } else {
+                              const decrypted = await decryptWithSignature(handle);
+                              if (decrypted !== null) setDecryptedOptions(prev => ({ ...prev, [index]: decrypted }));
+                            }
+                          }}
+                          disabled={isDecrypting}
+                        >
+                          {isDecrypting ? "Decrypting..." : decryptedOptions[index] !== undefined ? "Hide Value" : "Decrypt"}
+                        </button>
+                        {decryptedOptions[index] !== undefined && (
+                          <div className="decrypted-value">
+                            Decrypted: {decryptedOptions[index]}
+                          </div>
+                        )}
+                        {selectedMarket.status === "active" && marketRoles.canResolve && (
+                          <button className="action-btn settle" onClick={() => settleMarket(selectedMarket, index)}>
+                            Settle on {option}
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="vote-cards">
+                  <div className="vote-card">
+                    <h5>Yes Votes</h5>
+                    <div className="encrypted-data">
+                      {selectedMarket.encryptedYesVotes.substring(0, 30)}...
+                    </div>
+                    <button 
+                      className="decrypt-btn"
+                      onClick={async () => {
+                        if (decryptedYes !== null) {
+                          setDecryptedYes(null);
+                        } else {
+                          const decrypted = await decryptWithSignature(selectedMarket.encryptedYesVotes);
+                          setDecryptedYes(decrypted);
+                        }
+                      }}
+                      disabled={isDecrypting}
+                    >
+                      {isDecrypting ? "Decrypting..." : decryptedYes !== null ? "Hide Value" : "Decrypt"}
+                    </button>
+                    {decryptedYes !== null && (
+                      <div className="decrypted-value">
+                        Decrypted: {decryptedYes}
+                      </div>
+                    )}
+                    {selectedMarket.status === "active" && marketRoles.canResolve && (
+                      <button className="action-btn settle" onClick={() => settleMarket(selectedMarket, true)}>
+                        Settle Yes
+                      </button>
+                    )}
+                  </div>
+                  <div className="vote-card">
+                    <h5>No Votes</h5>
+                    <div className="encrypted-data">
+                      {selectedMarket.encryptedNoVotes.substring(0, 30)}...
+                    </div>
+                    <button 
+                      className="decrypt-btn"
+                      onClick={async () => {
+                        if (decryptedNo !== null) {
+                          setDecryptedNo(null);
+                        } else {
+                          const decrypted = await decryptWithSignature(selectedMarket.encryptedNoVotes);
+                          setDecryptedNo(decrypted);
+                        }
+                      }}
+                      disabled={isDecrypting}
+                    >
+                      {isDecrypting ? "Decrypting..." : decryptedNo !== null ? "Hide Value" : "Decrypt"}
+                    </button>
+                    {decryptedNo !== null && (
+                      <div className="decrypted-value">
+                        Decrypted: {decryptedNo}
+                      </div>
+                    )}
+                    {selectedMarket.status === "active" && marketRoles.canResolve && (
+                      <button className="action-btn settle" onClick={() => settleMarket(selectedMarket, false)}>
+                        Settle No
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {!selectedMarket.batchOpen && renderDecryptionResults(selectedMarket)}
+
+          {renderTallyHandles(selectedMarket)}
+
+          {renderTimeline(selectedMarket)}
+        </div>
+      </section>
+    );
+  };
+
   if (loading) return (
     <div className="loading-screen">
       <div className="spinner"></div>
@@ -260,10 +1406,29 @@ const App: React.FC = () => {
     <div className="app-container dark-theme">
       <header className="app-header">
         <div className="logo">
-          <h1>DAO<span>Predict</span>Market</h1>
+          <Link to="/"><h1>DAO<span>Predict</span>Market</h1></Link>
         </div>
         <div className="header-actions">
-          <button onClick={() => setShowCreateModal(true)} className="create-btn">
+          <select
+            className="network-select"
+            aria-label="Network"
+            value={activeNetwork.key}
+            onChange={(e) => changeNetwork(e.target.value)}
+          >
+            {NETWORKS.map(network => <option key={network.key} value={network.key}>{network.name}</option>)}
+          </select>
+          {isConnected && chainId !== activeNetwork.chainId && (
+            <button className="network-mismatch-btn" onClick={() => switchWalletNetwork().catch(e => console.error("Wallet did not switch network:", e))}>
+              Switch wallet to {activeNetwork.name}
+            </button>
+          )}
+          {isConnected && <Link to="/portfolio" className="nav-link">Portfolio</Link>}
+          <button 
+            onClick={() => setShowCreateModal(true)} 
+            className="create-btn" 
+            disabled={isConnected && !marketRoles.canCreate}
+            title={isConnected && !marketRoles.canCreate ? "Your account needs the creator role to open markets" : undefined}
+          >
             + Create Market
           </button>
           <div className="wallet-connect-wrapper">
@@ -273,116 +1438,168 @@ const App: React.FC = () => {
       </header>
 
       <main className="main-content">
-        <section className="intro-section">
-          <h2>FHE-Powered DAO Prediction Markets</h2>
-          <p>
-            Privately predict DAO governance outcomes using Zama's Fully Homomorphic Encryption. 
-            All predictions are encrypted end-to-end, providing market signals while preserving voter privacy.
-          </p>
-          <div className="fhe-badge">
-            <span>Powered by Zama FHE</span>
+        {unconfiguredContracts.length > 0 && (
+          <div className="network-error">
+            The {activeNetwork.name} config has no {unconfiguredContracts.join(", ")} address, so markets cannot be loaded.
+            Deploy the contracts to {activeNetwork.name}, or run dev-stack and pick Localhost.
           </div>
-        </section>
+        )}
+        <Routes>
+          <Route path="/portfolio" element={<Portfolio markets={markets} />} />
+          <Route path="/markets/:id" element={renderMarketPage()} />
+          <Route path="*" element={
+            <>
+              <section className="intro-section">
+                <h2>FHE-Powered DAO Prediction Markets</h2>
+                <p>
+                  Privately predict DAO governance outcomes using Zama's Fully Homomorphic Encryption. 
+                  All predictions are encrypted end-to-end, providing market signals while preserving voter privacy.
+                </p>
+                <div className="fhe-badge">
+                  <span>Powered by Zama FHE</span>
+                </div>
+              </section>
 
-        <section className="stats-section">
-          <h3>Market Statistics</h3>
-          {renderStats()}
-        </section>
+              <section className="stats-section">
+                <h3>Market Statistics</h3>
+                {renderStats()}
+              </section>
 
-        <section className="search-section">
-          <div className="search-container">
-            <input 
-              type="text" 
-              placeholder="Search markets..." 
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="search-input"
-            />
-            <select 
-              value={filterCategory}
-              onChange={(e) => setFilterCategory(e.target.value)}
-              className="filter-select"
-            >
-              <option value="all">All Categories</option>
-              <option value="Governance">Governance</option>
-              <option value="Treasury">Treasury</option>
-              <option value="Protocol">Protocol</option>
-              <option value="Community">Community</option>
-            </select>
-            <button onClick={loadMarkets} className="refresh-btn" disabled={isRefreshing}>
-              {isRefreshing ? "Refreshing..." : "Refresh"}
-            </button>
-          </div>
-        </section>
-
-        <section className="markets-section">
-          <h3>Active Prediction Markets</h3>
-          <div className="markets-grid">
-            {filteredMarkets.length === 0 ? (
-              <div className="no-markets">
-                <p>No prediction markets found</p>
-                <button onClick={() => setShowCreateModal(true)} className="create-btn">
-                  Create First Market
-                </button>
-              </div>
-            ) : (
-              filteredMarkets.map(market => (
-                <div 
-                  key={market.id} 
-                  className={`market-card ${market.status}`}
-                  onClick={() => setSelectedMarket(market)}
-                >
-                  <div className="market-header">
-                    <span className="dao-name">{market.daoName}</span>
-                    <span className={`status-badge ${market.status}`}>{market.status}</span>
-                  </div>
-                  <h4 className="proposal-title">{market.proposalTitle}</h4>
-                  <div className="market-details">
-                    <div className="detail-item">
-                      <span>Ends:</span>
-                      <span>{new Date(market.endTime * 1000).toLocaleDateString()}</span>
-                    </div>
-                    <div className="detail-item">
-                      <span>Category:</span>
-                      <span>{market.category}</span>
+              <section className="search-section">
+                <div className="search-container">
+                  <input 
+                    type="text" 
+                    placeholder="Search markets..." 
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="search-input"
+                  />
+                  <select 
+                    value={filterCategory}
+                    onChange={(e) => setFilterCategory(e.target.value)}
+                    className="filter-select"
+                  >
+                    <option value="all">All Categories</option>
+                    <option value="Governance">Governance</option>
+                    <option value="Treasury">Treasury</option>
+                    <option value="Protocol">Protocol</option>
+                    <option value="Community">Community</option>
+                  </select>
+                  <button onClick={loadMarkets} className="refresh-btn" disabled={isRefreshing}>
+                    {isRefreshing ? "Refreshing..." : "Refresh"}
+                  </button>
+                </div>
+              </section>
+
+              <section className="markets-section">
+                <h3>Active Prediction Markets</h3>
+                <div className="markets-grid">
+                  {filteredMarkets.length === 0 ? (
+                    <div className="no-markets">
+                      <p>No prediction markets found</p>
+                      <button onClick={() => setShowCreateModal(true)} className="create-btn">
+                        Create First Market
+                      </button>
                     </div>
+                  ) : (
+                    filteredMarkets.map(market => (
+                      <div 
+                        key={market.id} 
+                        className={`market-card ${market.status}`}
+                        onClick={() => openMarketDetail(market)}
+                      >
+                        <div className="market-header">
+                          <span className="dao-name">{market.daoName}</span>
+                          {market.recordError && (
+                            <span className="status-badge record-error" title={market.recordError.message}>
+                              {RECORD_ERROR_LABELS[market.recordError.kind]}
+                            </span>
+                          )}
+                          <span className={`status-badge ${market.status}`}>{market.status}</span>
+                        </div>
+                        <h4 className="proposal-title">{market.proposalTitle}</h4>
+                        <div className="market-details">
+                          <div className="detail-item">
+                            <span>Ends:</span>
+                            <span title={new Date(market.endTime * 1000).toLocaleString()}>
+                              {market.endTime > chainTime.now ? `in ${formatCountdown(market.endTime - chainTime.now)}` : "Ended"}
+                            </span>
+                          </div>
+                          <div className="detail-item">
+                            <span>Category:</span>
+                            <span>{market.category}</span>
+                          </div>
+                          {market.options.length > 0 && (
+                            <div className="detail-item">
+                              <span>Options:</span>
+                              <span>{market.options.length}</span>
+                            </div>
+                          )}
+                          {market.range && (
+                            <div className="detail-item">
+                              <span>Range:</span>
+                              <span>{market.range.lowerBound}–{market.range.upperBound} {market.unit}</span>
+                            </div>
+                          )}
+                        </div>
+                        <div className="market-actions">
+                          {market.status === "active" && marketRoles.canResolve && market.options.length === 0 && !market.range && (
+                            <>
+                              <button 
+                                className="action-btn settle" 
+                                onClick={(e) => { e.stopPropagation(); settleMarket(market, true); }}
+                              >
+                                Settle Yes
+                              </button>
+                              <button 
+                                className="action-btn settle" 
+                                onClick={(e) => { e.stopPropagation(); settleMarket(market, false); }}
+                              >
+                                Settle No
+                              </button>
+                            </>
+                          )}
+                          {market.status === "active" && marketRoles.canCancel(market.batchCreator) && (
+                            <button 
+                              className="action-btn cancel" 
+                              onClick={(e) => { e.stopPropagation(); cancelMarket(market); }}
+                            >
+                              Cancel
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </section>
+
+              {marketRoles.roles.isAdmin && (
+                <section className="roles-section">
+                  <h3>Market Roles</h3>
+                  <p>Creators open and cancel their own markets, resolvers settle any market, DAO admins do both and manage roles.</p>
+                  <div className="form-group">
+                    <input 
+                      type="text" 
+                      placeholder="0x account address" 
+                      value={roleForm.account} 
+                      onChange={(e) => setRoleForm({ ...roleForm, account: e.target.value })}
+                    />
+                    <select value={roleForm.role} onChange={(e) => setRoleForm({ ...roleForm, role: e.target.value as MarketRole })}>
+                      <option value="creator">Creator</option>
+                      <option value="resolver">Resolver</option>
+                      {marketRoles.roles.isOwner && <option value="admin">DAO admin</option>}
+                    </select>
                   </div>
                   <div className="market-actions">
-                    {isCreator(market.creator) && market.status === "active" && (
-                      <>
-                        <button 
-                          className="action-btn settle" 
-                          onClick={(e) => { e.stopPropagation(); settleMarket(market.id); }}
-                        >
-                          Settle
-                        </button>
-                        <button 
-                          className="action-btn cancel" 
-                          onClick={(e) => { e.stopPropagation(); cancelMarket(market.id); }}
-                        >
-                          Cancel
-                        </button>
-                      </>
-                    )}
+                    <button className="action-btn settle" onClick={() => updateRole(true)}>Grant</button>
+                    <button className="action-btn cancel" onClick={() => updateRole(false)}>Revoke</button>
                   </div>
-                </div>
-              ))
-            )}
-          </div>
-        </section>
-
-        <section className="history-section">
-          <h3>Your Activity History</h3>
-          {userHistory.length === 0 ? (
-            <p>No activity history yet</p>
-          ) : (
-            <ul className="history-list">
-              {userHistory.map((item, index) => (
-                <li key={index}>{item}</li>
-              ))}
-            </ul>
-          )}
-        </section>
+                </section>
+              )}
+            </>
+          } />
+        </Routes>
       </main>
 
       {showCreateModal && (
@@ -415,6 +1632,79 @@ const App: React.FC = () => {
                   placeholder="Short description of the proposal"
                 />
               </div>
+              <div className="form-group">
+                <label>DAO ID *</label>
+                <input
+                  type="text"
+                  name="daoId"
+                  value={newMarketData.daoId}
+                  onChange={(e) => setNewMarketData({...newMarketData, daoId: e.target.value})}
+                  placeholder="ENS name or Snapshot space, e.g. uniswap.eth"
+                />
+              </div>
+              <div className="form-row">
+                <div className="form-group">
+                  <label>Proposal Source</label>
+                  <select
+                    name="proposalSource"
+                    value={newMarketData.proposalSource}
+                    onChange={(e) => setNewMarketData({...newMarketData, proposalSource: e.target.value})}
+                  >
+                    <option value="governor">On-chain Governor</option>
+                    <option value="snapshot">Snapshot</option>
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label>Proposal Chain ID</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={newMarketData.proposalChainId}
+                    onChange={(e) => setNewMarketData({...newMarketData, proposalChainId: e.target.value})}
+                  />
+                </div>
+              </div>
+              {newMarketData.proposalSource === "governor" ? (
+                <div className="form-row">
+                  <div className="form-group">
+                    <label>Governor Address *</label>
+                    <input
+                      type="text"
+                      value={newMarketData.governor}
+                      onChange={(e) => setNewMarketData({...newMarketData, governor: e.target.value})}
+                      placeholder="0x..."
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label>Proposal ID *</label>
+                    <input
+                      type="text"
+                      value={newMarketData.proposalId}
+                      onChange={(e) => setNewMarketData({...newMarketData, proposalId: e.target.value})}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="form-group">
+                  <label>Snapshot Proposal ID *</label>
+                  <input
+                    type="text"
+                    value={newMarketData.snapshotId}
+                    onChange={(e) => setNewMarketData({...newMarketData, snapshotId: e.target.value})}
+                    placeholder="0x..."
+                  />
+                </div>
+              )}
+              <div className="form-group">
+                <label>Metadata URI</label>
+                <input
+                  type="text"
+                  name="metadataURI"
+                  value={newMarketData.metadataURI}
+                  onChange={(e) => setNewMarketData({...newMarketData, metadataURI: e.target.value})}
+                  placeholder="ipfs://... (defaults to the market description)"
+                />
+              </div>
               <div className="form-group">
                 <label>Category</label>
                 <select
@@ -428,28 +1718,175 @@ const App: React.FC = () => {
                   <option value="Community">Community</option>
                 </select>
               </div>
-              <div className="form-row">
+              <div className="form-group">
+                <label>Market Type</label>
+                <select
+                  name="marketType"
+                  value={newMarketData.marketType}
+                  onChange={(e) => setNewMarketData({...newMarketData, marketType: e.target.value})}
+                >
+                  <option value="binary">Yes / No</option>
+                  <option value="multi">Multiple options</option>
+                  <option value="scalar">Numeric range</option>
+                </select>
+              </div>
+              {newMarketData.marketType === "scalar" && (
+                <div className="form-row">
+                  <div className="form-group">
+                    <label>Lower Bound</label>
+                    <input 
+                      type="number" 
+                      min="0" 
+                      value={newMarketData.lowerBound}
+                      onChange={(e) => setNewMarketData({...newMarketData, lowerBound: Math.max(0, parseInt(e.target.value) || 0)})}
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label>Upper Bound</label>
+                    <input 
+                      type="number" 
+                      min="1" 
+                      value={newMarketData.upperBound}
+                      onChange={(e) => setNewMarketData({...newMarketData, upperBound: Math.max(0, parseInt(e.target.value) || 0)})}
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label>Buckets</label>
+                    <input 
+                      type="number" 
+                      min="2" 
+                      max={MAX_SCALAR_BUCKETS} 
+                      value={newMarketData.bucketCount}
+                      onChange={(e) => setNewMarketData({...newMarketData, bucketCount: Math.min(MAX_SCALAR_BUCKETS, Math.max(2, parseInt(e.target.value) || 2))})}
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label>Unit</label>
+                    <input 
+                      type="text" 
+                      value={newMarketData.unit}
+                      onChange={(e) => setNewMarketData({...newMarketData, unit: e.target.value})}
+                      placeholder="e.g. %, ETH"
+                    />
+                  </div>
+                </div>
+              )}
+              {newMarketData.marketType === "multi" && (
+                <div className="form-group option-inputs">
+                  <label>Options (2-{MAX_OUTCOMES})</label>
+                  {newMarketData.options.map((option, index) => (
+                    <div key={index} className="option-input">
+                      <input 
+                        type="text" 
+                        value={option}
+                        onChange={(e) => setNewMarketData({...newMarketData, options: newMarketData.options.map((o, i) => i === index ? e.target.value : o)})}
+                        placeholder={`Option ${index + 1}`}
+                      />
+                      {newMarketData.options.length > 2 && (
+                        <button 
+                          className="remove-option-btn" 
+                          onClick={() => setNewMarketData({...newMarketData, options: newMarketData.options.filter((_, i) => i !== index)})}
+                        >
+                          &times;
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {newMarketData.options.length < MAX_OUTCOMES && (
+                    <button 
+                      className="add-option-btn" 
+                      onClick={() => setNewMarketData({...newMarketData, options: [...newMarketData.options, ""]})}
+                    >
+                      + Add Option
+                    </button>
+                  )}
+                </div>
+              )}
+              {newMarketData.marketType !== "scalar" && (
                 <div className="form-group">
-                  <label>Initial Yes Votes (FHE Encrypted)</label>
-                  <input 
-                    type="number" 
-                    name="yesVotes" 
-                    value={newMarketData.yesVotes}
-                    onChange={(e) => setNewMarketData({...newMarketData, yesVotes: parseInt(e.target.value) || 0})}
-                    min="0"
-                  />
+                  <label>Prediction Weighting</label>
+                  <select
+                    name="weightSource"
+                    value={newMarketData.weightSource}
+                    onChange={(e) => setNewMarketData({...newMarketData, weightSource: e.target.value})}
+                  >
+                    <option value="none">One prediction, one vote</option>
+                    <option value="votes">ERC20Votes voting power at a snapshot</option>
+                  </select>
+                </div>
+              )}
+              {newMarketData.marketType !== "scalar" && newMarketData.weightSource !== "none" && (
+                <div className="form-row">
+                  <div className="form-group">
+                    <label>Token Address</label>
+                    <input 
+                      type="text" 
+                      value={newMarketData.weightToken}
+                      onChange={(e) => setNewMarketData({...newMarketData, weightToken: e.target.value})}
+                      placeholder="0x governance token"
+                    />
+                  </div>
+                  {newMarketData.weightSource === "votes" && (
+                    <div className="form-group">
+                      <label>{weightClock === "timestamp" ? "Snapshot Timestamp (unix seconds)" : "Snapshot Block"}</label>
+                      <input 
+                        type="number" 
+                        min="0" 
+                        value={newMarketData.weightSnapshot}
+                        onChange={(e) => setNewMarketData({...newMarketData, weightSnapshot: e.target.value})}
+                        placeholder="Latest"
+                      />
+                    </div>
+                  )}
                 </div>
+              )}
+              <div className="form-group">
+                <label>Who Can Predict</label>
+                <select
+                  name="participation"
+                  value={newMarketData.participation}
+                  onChange={(e) => setNewMarketData({...newMarketData, participation: e.target.value})}
+                >
+                  {(Object.keys(PARTICIPATION_LABELS) as ParticipationMode[]).map(mode => (
+                    <option key={mode} value={mode}>{PARTICIPATION_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </div>
+              {newMarketData.participation === "token" && (
+                <div className="form-row">
+                  <div className="form-group">
+                    <label>Gating Token Address</label>
+                    <input 
+                      type="text" 
+                      value={newMarketData.gateToken}
+                      onChange={(e) => setNewMarketData({...newMarketData, gateToken: e.target.value})}
+                      placeholder="0x governance token"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label>Minimum Balance</label>
+                    <input 
+                      type="number" 
+                      min="0" 
+                      value={newMarketData.gateMinBalance}
+                      onChange={(e) => setNewMarketData({...newMarketData, gateMinBalance: e.target.value})}
+                      placeholder="Whole tokens"
+                    />
+                  </div>
+                </div>
+              )}
+              {newMarketData.participation === "allowlist" && (
                 <div className="form-group">
-                  <label>Initial No Votes (FHE Encrypted)</label>
-                  <input 
-                    type="number" 
-                    name="noVotes" 
-                    value={newMarketData.noVotes}
-                    onChange={(e) => setNewMarketData({...newMarketData, noVotes: parseInt(e.target.value) || 0})}
-                    min="0"
+                  <label>Allowlisted Addresses</label>
+                  <textarea 
+                    className="allowlist-input"
+                    rows={4}
+                    value={newMarketData.allowlist}
+                    onChange={(e) => setNewMarketData({...newMarketData, allowlist: e.target.value})}
+                    placeholder="One address per line"
                   />
                 </div>
-              </div>
+              )}
               <div className="form-group">
                 <label>Market Duration (Days)</label>
                 <input 
@@ -462,7 +1899,7 @@ const App: React.FC = () => {
                 />
               </div>
               <div className="fhe-notice">
-                <p>All vote counts will be encrypted with Zama FHE before being stored on-chain</p>
+                <p>Creating a market opens a new batch on-chain; predictions are tallied with Zama FHE and stay encrypted until the batch is decrypted</p>
               </div>
             </div>
             <div className="modal-footer">
@@ -471,7 +1908,7 @@ const App: React.FC = () => {
               </button>
               <button 
                 onClick={createMarket} 
-                disabled={creating || !newMarketData.daoName || !newMarketData.proposalTitle}
+                disabled={creating || !newMarketData.daoName || !newMarketData.proposalTitle || !newMarketData.daoId}
                 className="submit-btn"
               >
                 {creating ? "Creating..." : "Create Market"}
@@ -481,99 +1918,6 @@ const App: React.FC = () => {
         </div>
       )}
 
-      {selectedMarket && (
-        <div className="modal-overlay">
-          <div className="detail-modal">
-            <div className="modal-header">
-              <h3>Market Details</h3>
-              <button onClick={() => { setSelectedMarket(null); setDecryptedYes(null); setDecryptedNo(null); }} className="close-btn">
-                &times;
-              </button>
-            </div>
-            <div className="modal-body">
-              <div className="market-info">
-                <div className="info-row">
-                  <span>DAO:</span>
-                  <span>{selectedMarket.daoName}</span>
-                </div>
-                <div className="info-row">
-                  <span>Proposal:</span>
-                  <span>{selectedMarket.proposalTitle}</span>
-                </div>
-                <div className="info-row">
-                  <span>Status:</span>
-                  <span className={`status-badge ${selectedMarket.status}`}>{selectedMarket.status}</span>
-                </div>
-                <div className="info-row">
-                  <span>End Time:</span>
-                  <span>{new Date(selectedMarket.endTime * 1000).toLocaleString()}</span>
-                </div>
-                <div className="info-row">
-                  <span>Creator:</span>
-                  <span>{selectedMarket.creator.substring(0, 6)}...{selectedMarket.creator.substring(38)}</span>
-                </div>
-              </div>
-
-              <div className="vote-section">
-                <h4>Encrypted Votes</h4>
-                <div className="vote-cards">
-                  <div className="vote-card">
-                    <h5>Yes Votes</h5>
-                    <div className="encrypted-data">
-                      {selectedMarket.encryptedYesVotes.substring(0, 30)}...
-                    </div>
-                    <button 
-                      className="decrypt-btn"
-                      onClick={async () => {
-                        if (decryptedYes !== null) {
-                          setDecryptedYes(null);
-                        } else {
-                          const decrypted = await decryptWithSignature(selectedMarket.encryptedYesVotes);
-                          setDecryptedYes(decrypted);
-                        }
-                      }}
-                      disabled={isDecrypting}
-                    >
-                      {isDecrypting ? "Decrypting..." : decryptedYes !== null ? "Hide Value" : "Decrypt"}
-                    </button>
-                    {decryptedYes !== null && (
-                      <div className="decrypted-value">
-                        Decrypted: {decryptedYes}
-                      </div>
-                    )}
-                  </div>
-                  <div className="vote-card">
-                    <h5>No Votes</h5>
-                    <div className="encrypted-data">
-                      {selectedMarket.encryptedNoVotes.substring(0, 30)}...
-                    </div>
-                    <button 
-                      className="decrypt-btn"
-                      onClick={async () => {
-                        if (decryptedNo !== null) {
-                          setDecryptedNo(null);
-                        } else {
-                          const decrypted = await decryptWithSignature(selectedMarket.encryptedNoVotes);
-                          setDecryptedNo(decrypted);
-                        }
-                      }}
-                      disabled={isDecrypting}
-                    >
-                      {isDecrypting ? "Decrypting..." : decryptedNo !== null ? "Hide Value" : "Decrypt"}
-                    </button>
-                    {decryptedNo !== null && (
-                      <div className="decrypted-value">
-                        Decrypted: {decryptedNo}
-                      </div>
-                    )}
-                  </div>
-                </div>
-              </div>
-            </div>
-          </div>
-        </div>
-      )}
-
       {transactionStatus.visible && (
         <div className="transaction-modal">
           <div className="transaction-content">
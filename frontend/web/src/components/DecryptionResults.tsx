@@ -0,0 +1,104 @@
+import React from 'react';
+import { Bar } from 'react-chartjs-2';
+import { BarElement, CategoryScale, Chart as ChartJS, Legend, LinearScale, Tooltip } from 'chart.js';
+import { BatchDecryption, BatchResult, DecryptionStatus, tallyShares } from '../sdk/decryptionStatus';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend);
+
+interface DecryptionResultsProps {
+  decryption: BatchDecryption | null;
+  status: DecryptionStatus | null;
+  // Tallies read back from the contract; shown whenever present, whatever the latest request did
+  result: BatchResult | null;
+  // "Yes"/"No", the option labels, or the bucket ranges of a scalar batch
+  labels: string[];
+  // Set on scalar batches to show the mean estimate
+  unit?: string;
+  // Symbol of the weight token on weighted batches
+  weightLabel?: string;
+  canRequest: boolean;
+  busy: boolean;
+  onRequest: () => void;
+}
+
+const STATUS_TEXT: Record<DecryptionStatus, string> = {
+  pending: 'Waiting for the decryption oracle',
+  complete: 'Tallies revealed',
+  failed: 'The oracle did not answer in time; the request expired and can be sent again'
+};
+
+export default function DecryptionResults({ decryption, status, result, labels, unit, weightLabel, canRequest, busy, onRequest }: DecryptionResultsProps) {
+  const counts = result ? result.tallies : [];
+  const shares = tallyShares(counts);
+  const weightShares = result ? tallyShares(result.weights) : [];
+  const total = counts.reduce((sum, count) => sum + count, 0n);
+
+  const datasets = [{ label: 'Predictions', data: counts.map(Number), backgroundColor: '#e63946' }];
+  if (result && result.weights.length > 0) {
+    datasets.push({ label: `Weight (${weightLabel || 'tokens'})`, data: result.weights.map(Number), backgroundColor: '#f4a261' });
+  }
+
+  return (
+    <div className="vote-section decryption-results">
+      <h4>Decryption Results</h4>
+      <div className="info-row">
+        <span>Status:</span>
+        {status ? (
+          <span className={`status-badge decryption-${status}`}>{status}</span>
+        ) : (
+          <span>Not requested</span>
+        )}
+      </div>
+      {decryption && (
+        <div className="info-row">
+          <span>Request:</span>
+          <span>#{decryption.requestId.toString()} at block {decryption.requestedBlock}</span>
+        </div>
+      )}
+      {decryption && status === 'pending' && (
+        <div className="info-row">
+          <span>Expires:</span>
+          <span>{new Date(decryption.expiresAt * 1000).toLocaleString()}</span>
+        </div>
+      )}
+      {status && <p className="histogram-note">{STATUS_TEXT[status]}</p>}
+
+      {result && (
+        <>
+          {unit !== undefined && (
+            <div className="info-row">
+              <span>Mean Estimate:</span>
+              <span>{total > 0n ? (Number(result.scalarSum) / Number(total)).toFixed(2) : '-'} {unit}</span>
+            </div>
+          )}
+          <div className="histogram">
+            {labels.map((label, index) => (
+              <div key={index} className="histogram-row">
+                <span className="histogram-label">{label}</span>
+                <div className="histogram-track">
+                  <div className="histogram-bar" style={{ width: `${shares[index] ?? 0}%` }} />
+                </div>
+                <span className="histogram-count">
+                  {(counts[index] ?? 0n).toString()} ({(shares[index] ?? 0).toFixed(1)}%
+                  {weightShares.length > 0 && `, ${(weightShares[index] ?? 0).toFixed(1)}% of weight`})
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="results-chart">
+            <Bar
+              data={{ labels, datasets }}
+              options={{ responsive: true, plugins: { legend: { display: datasets.length > 1 } }, scales: { y: { beginAtZero: true } } }}
+            />
+          </div>
+        </>
+      )}
+
+      {canRequest && (
+        <button className="action-btn settle" disabled={busy} onClick={onRequest}>
+          {busy ? 'Requesting...' : status === 'failed' ? 'Request decryption again' : 'Request decryption'}
+        </button>
+      )}
+    </div>
+  );
+}
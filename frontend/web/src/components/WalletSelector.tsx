@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { activeNetwork, switchWalletNetwork } from '../networks';
 
 interface WalletInfo {
   name: string;
-  provider: any;
+  provider: InjectedWallet | null;
   icon: string;
   isInstalled: boolean;
 }
@@ -273,10 +274,10 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     };
 
     // MetaMask
-    if (typeof (window as any).ethereum !== 'undefined' && (window as any).ethereum.isMetaMask) {
+    if (window.ethereum?.isMetaMask) {
       wallets.push({
         name: 'MetaMask',
-        provider: (window as any).ethereum,
+        provider: window.ethereum,
         icon: walletIcons['MetaMask'],
         isInstalled: true
       });
@@ -290,10 +291,10 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
 
     // OKX Wallet
-    if (typeof (window as any).okxwallet !== 'undefined') {
+    if (window.okxwallet) {
       wallets.push({
         name: 'OKX Wallet',
-        provider: (window as any).okxwallet,
+        provider: window.okxwallet,
         icon: walletIcons['OKX Wallet'],
         isInstalled: true
       });
@@ -307,10 +308,10 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
 
     // Binance Wallet
-    if (typeof (window as any).BinanceChain !== 'undefined') {
+    if (window.BinanceChain) {
       wallets.push({
         name: 'Binance Wallet',
-        provider: (window as any).BinanceChain,
+        provider: window.BinanceChain,
         icon: walletIcons['Binance Wallet'],
         isInstalled: true
       });
@@ -339,7 +340,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
       return;
     }
 
-    if (!wallet.isInstalled) {
+    if (!wallet.isInstalled || !wallet.provider) {
       // Open wallet download page
       const walletUrls: { [key: string]: string } = {
         'MetaMask': 'https://metamask.io/',
@@ -355,8 +356,8 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
 
     try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
+      // Auto-switch to the network selected in the header
+      await switchToActiveNetwork(wallet.provider);
       onWalletSelect(wallet);
     } catch (error) {
       console.error('Error switching network:', error);
@@ -365,37 +366,12 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
   };
 
-  const switchToSepolia = async (provider: any) => {
+  const switchToActiveNetwork = async (provider: Eip1193Provider) => {
     try {
-      await provider.request({
-        method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
-      });
-    } catch (switchError: any) {
-      if (switchError.code === 4902) {
-        try {
-          await provider.request({
-            method: 'wallet_addEthereumChain',
-            params: [{
-              chainId: '0xaa36a7',
-              chainName: 'Sepolia',
-              nativeCurrency: {
-                name: 'Sepolia Ether',
-                symbol: 'SEP',
-                decimals: 18
-              },
-              rpcUrls: [
-                'https://rpc.sepolia.org',
-                'https://eth-sepolia.public.blastapi.io',
-              ],
-              blockExplorerUrls: ['https://sepolia.etherscan.io/']
-            }]
-          });
-        } catch (addError) {
-          console.error('Error adding Sepolia network:', addError);
-          // Don't throw, let the main app handle it
-        }
-      }
+      await switchWalletNetwork(provider, activeNetwork);
+    } catch (switchError) {
+      console.error(`Error switching to ${activeNetwork.name}:`, switchError);
+      // Don't throw, let the main app handle it
     }
   };
 
@@ -708,7 +684,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           border: '1px solid var(--border-color)'
         }}>
           <div style={{ marginBottom: '6px' }}>
-            Wallet will automatically switch to Sepolia testnet
+            Wallet will automatically switch to {activeNetwork.name}
           </div>
         </div>
       </div>
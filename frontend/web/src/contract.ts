@@ -1,10 +1,17 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import marketAbiJson from "./abi/DAOPredictMarketFHE.json";
+import registryAbiJson from "./abi/MarketRegistry.json";
+import { activeNetwork, injectedWallet, NetworkContracts } from "./networks";
+import { createHttpStore, createIpfsStore, MetadataStore } from "./sdk/marketMetadata";
+import type { DAOPredictMarketFHE, MarketRegistry } from "../../../types";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const MARKET_ABI = (marketAbiJson as any).abi || marketAbiJson;
+export const REGISTRY_ABI = (registryAbiJson as any).abi || registryAbiJson;
+
+export { activeNetwork };
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,48 +25,72 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
+// Probed once per page load, since switching networks reloads the app. A failed probe is forgotten
+// so the next getter tries the RPCs again.
+let testnetProvider: Promise<ethers.JsonRpcProvider> | null = null;
+// Addresses already found to hold code; missing contracts are checked again in case they get deployed
+const deployedContracts = new Set<string>();
+
+const probeTestnetProvider = async () => {
+  const failures: string[] = [];
+  for (const url of activeNetwork.rpcUrls) {
+    const provider = new ethers.JsonRpcProvider(url, {
+      name: activeNetwork.key,
+      chainId: activeNetwork.chainId
+    }, { staticNetwork: true });
     try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
+      await Promise.race([
         provider.getBlockNumber(),
         new Promise((_, reject) => 
           setTimeout(() => reject(new Error("RPC timeout")), 10000)
         )
       ]);
-      
       return provider;
     } catch (error) {
+      provider.destroy();
+      console.warn(`${activeNetwork.name} RPC ${url} failed:`, error);
+      failures.push(`${url}: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
   
-  throw new Error("All RPC providers failed");
+  throw new Error(`All ${activeNetwork.name} RPC providers failed (${failures.join("; ")})`);
+};
+
+// An empty address in the config is a deployment mistake, not an undeployed contract, so it throws
+// instead of reading as "no markets"
+const contractAddress = (name: keyof NetworkContracts): string => {
+  const address = activeNetwork.contracts[name];
+  if (!ethers.isAddress(address)) {
+    throw new Error(`The ${activeNetwork.name} config has no ${name} address; deploy the contracts or run dev-stack first`);
+  }
+  return address;
+};
+
+const getTestnetProvider = (): Promise<ethers.JsonRpcProvider> => {
+  testnetProvider ??= probeTestnetProvider().catch(error => {
+    testnetProvider = null;
+    throw error;
+  });
+  return testnetProvider;
+};
+
+const isDeployed = async (provider: ethers.Provider, address: string): Promise<boolean> => {
+  if (deployedContracts.has(address)) return true;
+  const code = await retry(() => provider.getCode(address));
+  if (code === "0x") return false;
+  deployedContracts.add(address);
+  return true;
 };
 
 export async function getContractReadOnly() {
+  const address = contractAddress("adapter");
   try {
     const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
+    if (!(await isDeployed(provider, address))) {
       return null;
     }
     
-    return contract;
+    return new ethers.Contract(address, ABI, provider);
   } catch (error) {
     console.error("Failed to create read-only contract:", error);
     return null;
@@ -67,13 +98,11 @@ export async function getContractReadOnly() {
 }
 
 export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
-  }
+  const address = contractAddress("adapter");
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const provider = new ethers.BrowserProvider(injectedWallet());
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = new ethers.Contract(address, ABI, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -81,6 +110,65 @@ export async function getContractWithSigner() {
   }
 }
 
+export async function getPredictMarketReadOnly(): Promise<DAOPredictMarketFHE | null> {
+  const address = contractAddress("predictMarket");
+  try {
+    const provider = await getTestnetProvider();
+    if (!(await isDeployed(provider, address))) {
+      return null;
+    }
+
+    return new ethers.Contract(address, MARKET_ABI, provider) as unknown as DAOPredictMarketFHE;
+  } catch (error) {
+    console.error("Failed to create read-only prediction market:", error);
+    return null;
+  }
+}
+
+export async function getPredictMarketWithSigner(): Promise<DAOPredictMarketFHE> {
+  const address = contractAddress("predictMarket");
+  try {
+    const provider = new ethers.BrowserProvider(injectedWallet());
+    const signer = await provider.getSigner();
+    return new ethers.Contract(address, MARKET_ABI, signer) as unknown as DAOPredictMarketFHE;
+  } catch (error) {
+    console.error("Failed to create prediction market with signer:", error);
+    throw error;
+  }
+}
+
+export async function getRegistryReadOnly(): Promise<MarketRegistry | null> {
+  const address = contractAddress("registry");
+  try {
+    const provider = await getTestnetProvider();
+    if (!(await isDeployed(provider, address))) {
+      return null;
+    }
+
+    return new ethers.Contract(address, REGISTRY_ABI, provider) as unknown as MarketRegistry;
+  } catch (error) {
+    console.error("Failed to create read-only market registry:", error);
+    return null;
+  }
+}
+
+export async function getRegistryWithSigner(): Promise<MarketRegistry> {
+  const address = contractAddress("registry");
+  try {
+    const provider = new ethers.BrowserProvider(injectedWallet());
+    const signer = await provider.getSigner();
+    return new ethers.Contract(address, REGISTRY_ABI, signer) as unknown as MarketRegistry;
+  } catch (error) {
+    console.error("Failed to create market registry with signer:", error);
+    throw error;
+  }
+}
+
+export function getMetadataStore(): MetadataStore {
+  const { backend, url, apiUrl } = activeNetwork.metadata;
+  return backend === "http" ? createHttpStore(url) : createIpfsStore(url, apiUrl);
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
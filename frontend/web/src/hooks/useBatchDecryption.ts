@@ -0,0 +1,56 @@
+// hooks/useBatchDecryption.ts
+import { useCallback, useEffect, useState } from "react";
+import { getPredictMarketReadOnly, getPredictMarketWithSigner } from "../contract";
+import { activeNetwork } from "../networks";
+import { BatchDecryption, BatchResult, fetchBatchDecryptions, fetchBatchResult } from "../sdk/decryptionStatus";
+import { requestBatchResultDecryption } from "../sdk/predictMarket";
+
+// How often an unanswered request is checked for the oracle's callback
+const PENDING_POLL_MS = 10_000;
+
+export function useBatchDecryption(batchId: string | null) {
+  const [decryptions, setDecryptions] = useState<BatchDecryption[]>([]);
+  // What the contract stored from the latest completed decryption, for every batch type
+  const [result, setResult] = useState<BatchResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!batchId) return;
+    const market = await getPredictMarketReadOnly();
+    if (!market) return;
+    const [requests, stored] = await Promise.all([
+      fetchBatchDecryptions(market, BigInt(batchId), activeNetwork.deployBlock),
+      fetchBatchResult(market, BigInt(batchId), activeNetwork.deployBlock)
+    ]);
+    setDecryptions(requests);
+    setResult(stored);
+  }, [batchId]);
+
+  useEffect(() => {
+    setDecryptions([]);
+    setResult(null);
+    refresh().catch(e => console.error("Failed to load decryption requests:", e));
+  }, [refresh]);
+
+  const latest = decryptions.length > 0 ? decryptions[decryptions.length - 1] : null;
+  const awaitingOracle = !!latest && latest.completedBlock === null;
+
+  useEffect(() => {
+    if (!awaitingOracle) return;
+    const timer = setInterval(() => refresh().catch(e => console.error("Failed to poll decryption:", e)), PENDING_POLL_MS);
+    return () => clearInterval(timer);
+  }, [awaitingOracle, refresh]);
+
+  // Providers only; the batch must be closed and have predictions
+  const request = async () => {
+    if (!batchId) return null;
+    setBusy(true);
+    try {
+      const requestId = await requestBatchResultDecryption(await getPredictMarketWithSigner(), BigInt(batchId));
+      await refresh();
+      return requestId;
+    } finally { setBusy(false); }
+  };
+
+  return { decryptions, latest, result, busy, refresh, request };
+}
@@ -0,0 +1,32 @@
+// hooks/useChainTime.ts
+import { useCallback, useEffect, useState } from "react";
+import { getPredictMarketReadOnly } from "../contract";
+import { getChainTime } from "../sdk/predictMarket";
+
+// The contract checks schedules against block timestamps, which can drift from the local clock
+// (and jump on local dev chains), so the offset is re-read from the latest block every minute
+const RESYNC_MS = 60_000;
+
+// Current chain time in seconds, ticking once a second. Falls back to the local clock until
+// the first block has been read.
+export function useChainTime() {
+  const [offset, setOffset] = useState(0);
+  const [localNow, setLocalNow] = useState(() => Date.now());
+
+  const refresh = useCallback(async () => {
+    const market = await getPredictMarketReadOnly();
+    if (!market) return;
+    const chainTime = await getChainTime(market.runner!.provider!);
+    setOffset(chainTime - Math.floor(Date.now() / 1000));
+  }, []);
+
+  useEffect(() => {
+    const sync = () => refresh().catch(e => console.error("Failed to read chain time:", e));
+    sync();
+    const resync = setInterval(sync, RESYNC_MS);
+    const tick = setInterval(() => setLocalNow(Date.now()), 1000);
+    return () => { clearInterval(resync); clearInterval(tick); };
+  }, [refresh]);
+
+  return { now: Math.floor(localNow / 1000) + offset, refresh };
+}
@@ -0,0 +1,49 @@
+// hooks/useDocumentMeta.ts
+import { useEffect } from "react";
+
+export interface DocumentMeta {
+  title: string;
+  description: string;
+}
+
+// Meta tags link previews in forums and chats are built from; index.html holds the site-wide defaults
+const META_TAGS: Record<string, (meta: DocumentMeta) => string> = {
+  description: meta => meta.description,
+  "og:title": meta => meta.title,
+  "og:description": meta => meta.description,
+  "og:url": () => window.location.href,
+  "twitter:title": meta => meta.title,
+  "twitter:description": meta => meta.description
+};
+
+const findTag = (name: string): HTMLMetaElement => {
+  const attribute = name.startsWith("og:") ? "property" : "name";
+  let tag = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${name}"]`);
+  if (!tag) {
+    tag = document.createElement("meta");
+    tag.setAttribute(attribute, name);
+    document.head.appendChild(tag);
+  }
+  return tag;
+};
+
+// Sets the page title and its sharing tags while the calling page is shown, restoring the previous
+// ones when it goes away. Pass null to leave the defaults in place.
+export function useDocumentMeta(meta: DocumentMeta | null) {
+  const title = meta?.title;
+  const description = meta?.description;
+
+  useEffect(() => {
+    if (title === undefined || description === undefined) return;
+    const previousTitle = document.title;
+    const previous = Object.keys(META_TAGS).map(name => [name, findTag(name).content] as const);
+
+    document.title = title;
+    for (const [name, value] of Object.entries(META_TAGS)) findTag(name).content = value({ title, description });
+
+    return () => {
+      document.title = previousTitle;
+      for (const [name, content] of previous) findTag(name).content = content;
+    };
+  }, [title, description]);
+}
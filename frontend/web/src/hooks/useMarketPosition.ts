@@ -0,0 +1,126 @@
+// hooks/useMarketPosition.ts
+import { useCallback, useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { useAccount } from "wagmi";
+import { getPredictMarketReadOnly, getPredictMarketWithSigner } from "../contract";
+import { injectedWallet } from "../networks";
+import { encryptUint32, getFheBackend, getUserDecryptSession, userDecryptHandles } from "../sdk/fheEncryption";
+import {
+  claimPayout,
+  getPosition,
+  getSettlement,
+  Position,
+  revokePrediction,
+  Settlement,
+  submitPrediction,
+  updatePrediction
+} from "../sdk/predictMarket";
+
+export interface RevealedStakes {
+  // The active prediction's choice, null when there is none
+  prediction: bigint | null;
+  yes: bigint;
+  no: bigint;
+  // Per-option stakes on multi-outcome batches
+  options: bigint[];
+}
+
+export function useMarketPosition(batchId: string | null) {
+  const { address } = useAccount();
+  const [position, setPosition] = useState<Position | null>(null);
+  const [settlement, setSettlement] = useState<Settlement | null>(null);
+  const [revealed, setRevealed] = useState<RevealedStakes | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!batchId) return;
+    const market = await getPredictMarketReadOnly();
+    if (!market) return;
+    setSettlement(await getSettlement(market, BigInt(batchId)));
+    setPosition(address ? await getPosition(market, BigInt(batchId), address) : null);
+  }, [batchId, address]);
+
+  useEffect(() => {
+    setPosition(null);
+    setSettlement(null);
+    setRevealed(null);
+    refresh().catch(e => console.error("Failed to load position:", e));
+  }, [refresh]);
+
+  // 0/1 for no/yes, or the option index on multi-outcome batches; allowlist batches need the proof
+  const stake = async (choice: number, amountEth: string, allowlistProof?: string[]) => {
+    if (!batchId || !address) throw new Error("Please connect wallet first");
+    setBusy(true);
+    try {
+      const market = await getPredictMarketWithSigner();
+      const encrypted = await encryptUint32(await getFheBackend(), await market.getAddress(), address, choice);
+      const stakeWei = amountEth.trim() === "" ? 0n : ethers.parseEther(amountEth);
+      await submitPrediction(market, BigInt(batchId), encrypted, stakeWei, allowlistProof);
+      setRevealed(null);
+      await refresh();
+    } finally { setBusy(false); }
+  };
+
+  const change = async (choice: number) => {
+    if (!batchId || !address) throw new Error("Please connect wallet first");
+    setBusy(true);
+    try {
+      const market = await getPredictMarketWithSigner();
+      const encrypted = await encryptUint32(await getFheBackend(), await market.getAddress(), address, choice);
+      await updatePrediction(market, BigInt(batchId), encrypted);
+      setRevealed(null);
+      await refresh();
+    } finally { setBusy(false); }
+  };
+
+  // Resolves to the refunded stake in wei
+  const revoke = async () => {
+    if (!batchId) return 0n;
+    setBusy(true);
+    try {
+      const refund = await revokePrediction(await getPredictMarketWithSigner(), BigInt(batchId));
+      setRevealed(null);
+      await refresh();
+      return refund;
+    } finally { setBusy(false); }
+  };
+
+  const claim = async () => {
+    if (!batchId) return null;
+    setBusy(true);
+    try {
+      const requestId = await claimPayout(await getPredictMarketWithSigner(), BigInt(batchId));
+      await refresh();
+      return requestId;
+    } finally { setBusy(false); }
+  };
+
+  const reveal = async () => {
+    if (!position || !address) return;
+    setBusy(true);
+    try {
+      const market = await getPredictMarketWithSigner();
+      const marketAddress = await market.getAddress();
+      const backend = await getFheBackend();
+      const signer = await new ethers.BrowserProvider(injectedWallet()).getSigner();
+      const session = await getUserDecryptSession(backend, signer, [marketAddress]);
+      const handles = [
+        position.encryptedPrediction,
+        position.encryptedYesStake,
+        position.encryptedNoStake,
+        ...position.encryptedOutcomeStakes
+      ].filter(h => h !== ethers.ZeroHash);
+      const clear = handles.length > 0 ? await userDecryptHandles(backend, session, marketAddress, handles) : {};
+      setRevealed({
+        prediction: clear[position.encryptedPrediction] ?? null,
+        yes: clear[position.encryptedYesStake] ?? 0n,
+        no: clear[position.encryptedNoStake] ?? 0n,
+        options: position.encryptedOutcomeStakes.map(h => clear[h] ?? 0n)
+      });
+    } finally { setBusy(false); }
+  };
+
+  const canClaim = !!position && !!settlement && settlement.winningPoolRevealed && position.deposit > 0n && !position.claimed;
+
+  return { position, settlement, revealed, busy, canClaim, refresh, stake, change, revoke, claim, reveal };
+}
@@ -0,0 +1,29 @@
+// hooks/useMarketRoles.ts
+import { useCallback, useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import { getPredictMarketReadOnly } from "../contract";
+import { AccountRoles, getAccountRoles } from "../sdk/predictMarket";
+
+const NO_ROLES: AccountRoles = { isOwner: false, isAdmin: false, isCreator: false, isResolver: false };
+
+export function useMarketRoles() {
+  const { address } = useAccount();
+  const [roles, setRoles] = useState<AccountRoles>(NO_ROLES);
+
+  const refresh = useCallback(async () => {
+    if (!address) { setRoles(NO_ROLES); return; }
+    const market = await getPredictMarketReadOnly();
+    if (!market) return;
+    setRoles(await getAccountRoles(market, address));
+  }, [address]);
+
+  useEffect(() => {
+    refresh().catch(e => console.error("Failed to load roles:", e));
+  }, [refresh]);
+
+  // Mirrors the contract: batch creators manage their own batches, admins and resolvers manage all of them
+  const canCancel = (batchCreator: string) =>
+    roles.isAdmin || roles.isResolver || (!!address && batchCreator.toLowerCase() === address.toLowerCase());
+
+  return { roles, refresh, canCancel, canResolve: roles.isResolver, canCreate: roles.isCreator };
+}
@@ -0,0 +1,34 @@
+// hooks/useMarketTimeline.ts
+import { useCallback, useEffect, useState } from "react";
+import { getPredictMarketReadOnly } from "../contract";
+import { activeNetwork } from "../networks";
+import { fetchBatchTimeline, TimelineEvent } from "../sdk/marketTimeline";
+
+// `revision` should change whenever the batch may have moved on (closed, decrypted, resolved), so the
+// new events are picked up without refetching on every render
+export function useMarketTimeline(batchId: string | null, options: string[], revision = "") {
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  // The market's option list is rebuilt on every refresh, so it is compared by content
+  const optionKey = options.join("\n");
+
+  const refresh = useCallback(async () => {
+    if (!batchId) return;
+    const market = await getPredictMarketReadOnly();
+    if (!market) return;
+    setLoading(true);
+    try {
+      setEvents(await fetchBatchTimeline(market, BigInt(batchId), activeNetwork.deployBlock, optionKey ? optionKey.split("\n") : []));
+    } finally { setLoading(false); }
+  }, [batchId, optionKey]);
+
+  useEffect(() => {
+    setEvents([]);
+  }, [batchId]);
+
+  useEffect(() => {
+    refresh().catch(e => console.error("Failed to load market timeline:", e));
+  }, [refresh, revision]);
+
+  return { events, loading, refresh };
+}
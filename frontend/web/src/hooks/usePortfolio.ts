@@ -0,0 +1,75 @@
+// hooks/usePortfolio.ts
+import { useCallback, useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { useAccount } from "wagmi";
+import { getPredictMarketReadOnly, getPredictMarketWithSigner } from "../contract";
+import { activeNetwork, injectedWallet } from "../networks";
+import { getFheBackend, getUserDecryptSession, userDecryptHandles } from "../sdk/fheEncryption";
+import { fetchPortfolio, PortfolioPosition } from "../sdk/portfolio";
+import { claimPayout } from "../sdk/predictMarket";
+import type { RevealedStakes } from "./useMarketPosition";
+
+export function usePortfolio() {
+  const { address } = useAccount();
+  const [positions, setPositions] = useState<PortfolioPosition[]>([]);
+  // Keyed by batch id; revealed values stay in memory only
+  const [revealed, setRevealed] = useState<Record<string, RevealedStakes>>({});
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!address) return;
+    const market = await getPredictMarketReadOnly();
+    if (!market) return;
+    setLoading(true);
+    try {
+      setPositions(await fetchPortfolio(market, address, activeNetwork.deployBlock));
+    } finally { setLoading(false); }
+  }, [address]);
+
+  useEffect(() => {
+    setPositions([]);
+    setRevealed({});
+    refresh().catch(e => console.error("Failed to load portfolio:", e));
+  }, [refresh]);
+
+  // Decrypts the account's predictions and stakes on every listed batch with a single signed session
+  const reveal = async () => {
+    if (!address || positions.length === 0) return;
+    setBusy(true);
+    try {
+      const market = await getPredictMarketWithSigner();
+      const marketAddress = await market.getAddress();
+      const backend = await getFheBackend();
+      const signer = await new ethers.BrowserProvider(injectedWallet()).getSigner();
+      const session = await getUserDecryptSession(backend, signer, [marketAddress]);
+      const handles: string[] = positions
+        .flatMap(({ position }) => [
+          position.encryptedPrediction,
+          position.encryptedYesStake,
+          position.encryptedNoStake,
+          ...position.encryptedOutcomeStakes
+        ])
+        .filter(h => h !== ethers.ZeroHash);
+      const clear = handles.length > 0 ? await userDecryptHandles(backend, session, marketAddress, [...new Set(handles)]) : {};
+      setRevealed(Object.fromEntries(positions.map(({ batchId, position }) => [batchId.toString(), {
+        prediction: clear[position.encryptedPrediction] ?? null,
+        yes: clear[position.encryptedYesStake] ?? 0n,
+        no: clear[position.encryptedNoStake] ?? 0n,
+        options: position.encryptedOutcomeStakes.map(h => clear[h] ?? 0n)
+      }])));
+    } finally { setBusy(false); }
+  };
+
+  // Resolves to the claim's decryption request, or null when the deposit was refunded straight away
+  const claim = async (batchId: bigint) => {
+    setBusy(true);
+    try {
+      const requestId = await claimPayout(await getPredictMarketWithSigner(), batchId);
+      await refresh();
+      return requestId;
+    } finally { setBusy(false); }
+  };
+
+  return { address, positions, revealed, loading, busy, refresh, reveal, claim };
+}
@@ -5,15 +5,26 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { defineChain } from 'viem';
 import { BrowserRouter } from 'react-router-dom';
+import { activeNetwork, NETWORKS, NetworkConfig } from './networks';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+const toChain = (network: NetworkConfig) => defineChain({
+  id: network.chainId,
+  name: network.name,
+  nativeCurrency: network.nativeCurrency,
+  rpcUrls: { default: { http: network.rpcUrls } },
+  blockExplorers: network.explorerUrl ? { default: { name: network.name, url: network.explorerUrl } } : undefined,
+  testnet: true,
+});
+
+// The active network goes first so wallets connect to it by default
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains: [toChain(activeNetwork), ...NETWORKS.filter(network => network.key !== activeNetwork.key).map(toChain)],
 });
 
 const queryClient = new QueryClient();
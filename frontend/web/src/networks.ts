@@ -0,0 +1,143 @@
+// networks.ts
+import { ethers } from "ethers";
+import sepoliaConfigJson from "./config.json";
+
+export type FheBackendKind = "relayer" | "hardhat-mock";
+
+export type MetadataBackendKind = "http" | "ipfs";
+
+export interface NetworkContracts {
+  // Legacy UniversalAdapter key-value store
+  adapter: string;
+  predictMarket: string;
+  registry: string;
+}
+
+export interface FheEndpoints {
+  backend: FheBackendKind;
+  // Zama relayer, unused by the hardhat mock
+  relayerUrl: string;
+  gatewayChainId: number;
+}
+
+export interface MetadataEndpoints {
+  backend: MetadataBackendKind;
+  // Gateway, or the dev-stack's stand-in server, that serves /ipfs/<cid>
+  url: string;
+  // IPFS RPC API that pins new descriptions; unused by the stand-in
+  apiUrl: string;
+}
+
+export interface NetworkConfig {
+  key: string;
+  name: string;
+  chainId: number;
+  // Read-only RPCs, tried in order
+  rpcUrls: string[];
+  explorerUrl: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  contracts: NetworkContracts;
+  // Block the market was deployed in; event scans start here, as public RPCs reject ranges from genesis
+  deployBlock: number;
+  fhe: FheEndpoints;
+  indexerUrl: string;
+  metadata: MetadataEndpoints;
+  deployer: string;
+}
+
+// Flat shape written by deploy/deploy.ts and the dev-stack task
+type NetworkConfigJson = typeof sepoliaConfigJson;
+
+const NETWORK_STORAGE_KEY = "daoPredictMarket.network";
+
+const fromConfigJson = (json: NetworkConfigJson): NetworkConfig => ({
+  key: json.networkName,
+  name: json.displayName,
+  chainId: json.chainId,
+  rpcUrls: json.rpcUrls.length > 0 ? json.rpcUrls : [json.network],
+  explorerUrl: json.explorerUrl,
+  nativeCurrency: json.nativeCurrency,
+  contracts: {
+    adapter: json.contractAddress,
+    predictMarket: json.predictMarketAddress,
+    registry: json.registryAddress
+  },
+  deployBlock: json.deployBlock,
+  fhe: {
+    backend: json.fheBackend as FheBackendKind,
+    relayerUrl: json.relayerUrl,
+    gatewayChainId: json.gatewayChainId
+  },
+  indexerUrl: json.indexerUrl,
+  metadata: {
+    backend: json.metadataBackend as MetadataBackendKind,
+    url: json.metadataUrl,
+    apiUrl: json.metadataApiUrl
+  },
+  deployer: json.deployer
+});
+
+// config.<name>.json files are written by deploy runs and the dev-stack task and are not committed,
+// so only the networks that have been deployed to on this checkout are listed
+const generatedConfigJsons = Object.entries(
+  import.meta.glob<NetworkConfigJson>("./config.*.json", { eager: true, import: "default" })
+).sort(([a], [b]) => a.localeCompare(b)).map(([, json]) => json);
+
+export const NETWORKS: NetworkConfig[] = [sepoliaConfigJson, ...generatedConfigJsons].map(fromConfigJson);
+
+export const DEFAULT_NETWORK_KEY = "sepolia";
+
+export function getNetwork(key: string): NetworkConfig | undefined {
+  return NETWORKS.find(network => network.key === key);
+}
+
+export function getNetworkByChainId(chainId: number): NetworkConfig | undefined {
+  return NETWORKS.find(network => network.chainId === chainId);
+}
+
+// The header switcher's choice wins over the VITE_NETWORK build default
+function selectedNetworkKey(): string {
+  const stored = typeof localStorage !== "undefined" ? localStorage.getItem(NETWORK_STORAGE_KEY) : null;
+  if (stored && getNetwork(stored)) return stored;
+  return process.env.VITE_NETWORK || DEFAULT_NETWORK_KEY;
+}
+
+export const activeNetwork: NetworkConfig = getNetwork(selectedNetworkKey()) ?? getNetwork(DEFAULT_NETWORK_KEY)!;
+
+// Contracts the network's config has no valid address for, e.g. before anything was deployed to it
+export function missingContracts(network: NetworkConfig): (keyof NetworkContracts)[] {
+  return (Object.keys(network.contracts) as (keyof NetworkContracts)[]).filter(name => !ethers.isAddress(network.contracts[name]));
+}
+
+// Contract handles and the FHE backend are module singletons, so switching reloads the app
+export function selectNetwork(key: string) {
+  if (!getNetwork(key)) throw new Error(`Unknown network "${key}"`);
+  localStorage.setItem(NETWORK_STORAGE_KEY, key);
+  window.location.reload();
+}
+
+// The browser wallet's EIP-1193 provider
+export function injectedWallet(): InjectedWallet {
+  if (!window.ethereum) throw new Error("No injected wallet");
+  return window.ethereum;
+}
+
+// Asks an EIP-1193 wallet, the injected one by default, to switch to the network, adding it first if the wallet doesn't know it
+export async function switchWalletNetwork(provider: Eip1193Provider = injectedWallet(), network: NetworkConfig = activeNetwork) {
+  const chainId = `0x${network.chainId.toString(16)}`;
+  try {
+    await provider.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] });
+  } catch (switchError) {
+    if ((switchError as Eip1193ProviderError).code !== 4902) throw switchError;
+    await provider.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId,
+        chainName: network.name,
+        nativeCurrency: network.nativeCurrency,
+        rpcUrls: network.rpcUrls,
+        blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined
+      }]
+    });
+  }
+}
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ethers } from 'ethers';
+import type { PredictionMarket } from '../App';
+import { usePortfolio } from '../hooks/usePortfolio';
+import { describeContractError } from '../sdk/errors';
+import { ActivityKind, expectedPayout, PortfolioPosition, PositionStatus, predictionLabel, predictionResult } from '../sdk/portfolio';
+
+interface PortfolioProps {
+  // Registry markets, to name the batches; batches missing from the registry are listed by id
+  markets: PredictionMarket[];
+}
+
+const ACTIVITY_TEXT: Record<ActivityKind, string> = {
+  submitted: 'Predicted',
+  updated: 'Changed prediction',
+  revoked: 'Withdrew prediction',
+  staked: 'Staked',
+  'claim-requested': 'Claimed, payout pending decryption',
+  paid: 'Paid out'
+};
+
+const STATUS_TEXT: Record<PositionStatus, string> = {
+  open: 'open',
+  pending: 'awaiting resolution',
+  resolved: 'resolved',
+  canceled: 'canceled',
+  withdrawn: 'withdrawn'
+};
+
+const formatEth = (wei: bigint) => `${ethers.formatEther(wei)} ETH`;
+
+export default function Portfolio({ markets }: PortfolioProps) {
+  const portfolio = usePortfolio();
+  const [message, setMessage] = useState('');
+  const marketFor = (batchId: bigint) => markets.find(market => market.batchId === batchId.toString());
+
+  const open = portfolio.positions.filter(p => p.status === 'open' || p.status === 'pending');
+  const settled = portfolio.positions.filter(p => p.status === 'resolved' || p.status === 'canceled');
+  const withdrawn = portfolio.positions.filter(p => p.status === 'withdrawn');
+  const staked = portfolio.positions.reduce((sum, p) => sum + (p.position.claimed ? 0n : p.position.deposit), 0n);
+  const paidOut = portfolio.positions.reduce((sum, p) => sum + p.paidOut, 0n);
+
+  const reveal = async () => {
+    setMessage('');
+    try { await portfolio.reveal(); }
+    catch (e: any) { setMessage('Decryption failed: ' + describeContractError(e)); }
+  };
+
+  const claim = async (batchId: bigint) => {
+    setMessage('');
+    try {
+      const requestId = await portfolio.claim(batchId);
+      setMessage(requestId === null ? 'Deposit refunded' : 'Claim submitted, the payout follows once your stake is decrypted');
+    } catch (e: any) { setMessage('Claim failed: ' + describeContractError(e)); }
+  };
+
+  const renderPosition = (entry: PortfolioPosition) => {
+    const market = marketFor(entry.batchId);
+    const revealed = portfolio.revealed[entry.batchId.toString()];
+    const result = revealed?.prediction != null ? predictionResult(entry.settlement, revealed.prediction) : null;
+    const payout = revealed ? expectedPayout(entry.position, entry.settlement, revealed) : null;
+    return (
+      <div key={entry.batchId.toString()} className="market-card portfolio-card">
+        <div className="market-header">
+          <span className="dao-name">{market ? market.daoName : `Batch #${entry.batchId}`}</span>
+          {result && <span className={`status-badge result-${result}`}>{result}</span>}
+          <span className={`status-badge position-${entry.status}`}>{STATUS_TEXT[entry.status]}</span>
+        </div>
+        <h4 className="proposal-title">{market ? market.proposalTitle : 'Not listed in the market registry'}</h4>
+        <div className="market-details">
+          <div className="detail-item">
+            <span>Prediction:</span>
+            <span>
+              {entry.status === 'withdrawn' ? '-'
+                : revealed?.prediction != null ? (market ? predictionLabel(market, revealed.prediction) : revealed.prediction.toString())
+                : 'Encrypted'}
+            </span>
+          </div>
+          <div className="detail-item">
+            <span>Deposit:</span>
+            <span>{formatEth(entry.position.deposit)}{entry.position.claimed && ' (claimed)'}</span>
+          </div>
+          {payout !== null && !entry.position.claimed && entry.position.deposit > 0n && (
+            <div className="detail-item">
+              <span>Payout:</span>
+              <span>{formatEth(payout)}</span>
+            </div>
+          )}
+          {entry.paidOut > 0n && (
+            <div className="detail-item">
+              <span>Paid out:</span>
+              <span>{formatEth(entry.paidOut)}</span>
+            </div>
+          )}
+        </div>
+        <details className="portfolio-activity">
+          <summary>Activity ({entry.activity.length})</summary>
+          <ul className="history-list">
+            {entry.activity.map((activity, index) => (
+              <li key={index}>
+                {ACTIVITY_TEXT[activity.kind]}
+                {activity.amount !== null && activity.amount > 0n && ` ${formatEth(activity.amount)}`} at block {activity.blockNumber}
+              </li>
+            ))}
+          </ul>
+        </details>
+        <div className="market-actions">
+          {market && <Link to={`/markets/${market.id}`} className="action-btn">View market</Link>}
+          {entry.claimable && result !== 'lost' && (
+            <button className="action-btn settle" disabled={portfolio.busy} onClick={() => claim(entry.batchId)}>
+              {entry.settlement.outcome === 'canceled' ? 'Reclaim deposit' : 'Claim payout'}
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderGroup = (title: string, entries: PortfolioPosition[]) => entries.length > 0 && (
+    <section className="markets-section portfolio-group">
+      <h3>{title}</h3>
+      <div className="markets-grid">{entries.map(renderPosition)}</div>
+    </section>
+  );
+
+  if (!portfolio.address) {
+    return (
+      <section className="portfolio-section">
+        <h2>Portfolio</h2>
+        <p>Connect your wallet to see your predictions.</p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="portfolio-section">
+      <div className="portfolio-header">
+        <h2>Portfolio</h2>
+        <Link to="/" className="action-btn">Back to markets</Link>
+      </div>
+      <div className="stats-container">
+        <div className="stat-card">
+          <div className="stat-value">{open.length}</div>
+          <div className="stat-label">Open positions</div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-value">{ethers.formatEther(staked)}</div>
+          <div className="stat-label">ETH at stake</div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-value">{portfolio.positions.filter(p => p.claimable).length}</div>
+          <div className="stat-label">Claimable</div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-value">{ethers.formatEther(paidOut)}</div>
+          <div className="stat-label">ETH paid out</div>
+        </div>
+      </div>
+      <div className="market-actions">
+        <button className="action-btn" disabled={portfolio.busy || portfolio.positions.length === 0} onClick={reveal}>
+          {portfolio.busy ? 'Working...' : 'Decrypt my predictions'}
+        </button>
+        <button className="action-btn" disabled={portfolio.loading} onClick={() => portfolio.refresh().catch(e => setMessage(describeContractError(e)))}>
+          {portfolio.loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+      {message && <p className="histogram-note">{message}</p>}
+      {!portfolio.loading && portfolio.positions.length === 0 && <p>You have not predicted on any market yet.</p>}
+      {renderGroup('Open Positions', open)}
+      {renderGroup('Settled', settled)}
+      {renderGroup('Withdrawn', withdrawn)}
+    </section>
+  );
+}
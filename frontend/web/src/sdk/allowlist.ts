@@ -0,0 +1,52 @@
+// sdk/allowlist.ts
+import { ethers } from "ethers";
+
+// Merkle tree in the layout the market verifies: leaves are the double keccak of the ABI-encoded
+// address, and every pair is hashed in sorted order so proofs carry no left/right flags
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+const leafOf = (account: string) => ethers.keccak256(ethers.keccak256(coder.encode(["address"], [account])));
+
+const hashPair = (a: string, b: string) => ethers.solidityPackedKeccak256(["bytes32", "bytes32"], a < b ? [a, b] : [b, a]);
+
+const buildLayers = (accounts: string[]): string[][] => {
+  const layers = [accounts.map(leafOf)];
+  while (layers[layers.length - 1].length > 1) {
+    const level = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    layers.push(next);
+  }
+  return layers;
+};
+
+// Addresses separated by commas or whitespace, checksummed and deduplicated in their original order
+export function parseAllowlist(text: string): string[] {
+  const accounts: string[] = [];
+  for (const entry of text.split(/[\s,]+/).filter(e => e !== "")) {
+    if (!ethers.isAddress(entry)) throw new Error(`Not an address: ${entry}`);
+    const account = ethers.getAddress(entry);
+    if (!accounts.includes(account)) accounts.push(account);
+  }
+  return accounts;
+}
+
+export function allowlistRoot(accounts: string[]): string {
+  if (accounts.length === 0) throw new Error("The allowlist is empty");
+  const layers = buildLayers(accounts);
+  return layers[layers.length - 1][0];
+}
+
+// Null when the account is not on the list
+export function allowlistProof(accounts: string[], account: string): string[] | null {
+  const layers = buildLayers(accounts);
+  let index = layers[0].indexOf(leafOf(account));
+  if (index < 0) return null;
+  const proof: string[] = [];
+  for (const level of layers.slice(0, -1)) {
+    const sibling = index ^ 1;
+    if (sibling < level.length) proof.push(level[sibling]);
+    index >>= 1;
+  }
+  return proof;
+}
@@ -0,0 +1,143 @@
+// sdk/decryptionStatus.ts
+// Maps batches to their oracle decryption requests and what each one revealed
+import { ethers } from "ethers";
+import type { DAOPredictMarketFHE } from "../../../../types";
+
+// "failed" requests were not answered by the oracle before they expired and may be sent again
+export type DecryptionStatus = "pending" | "complete" | "failed";
+
+export interface BatchDecryption {
+  requestId: bigint;
+  batchId: bigint;
+  requestedBlock: number;
+  // Chain timestamp of the request
+  requestedAt: number;
+  requestTx: string;
+  // Chain timestamp from which a new request may replace this one
+  expiresAt: number;
+  // Set once a new request replaced this one
+  replaced: boolean;
+  completedBlock: number | null;
+  completedTx: string | null;
+  // Yes/no totals, one count per option, or the histogram buckets of a scalar batch; empty until complete
+  tallies: bigint[];
+  // Sum of all estimates on scalar batches
+  scalarSum: bigint | null;
+  // Weighted totals in the same order as the tallies, empty on unweighted batches
+  weights: bigint[];
+}
+
+export interface BatchResult {
+  requestId: bigint;
+  tallies: bigint[];
+  weights: bigint[];
+  // Zero unless the batch is a scalar one
+  scalarSum: bigint;
+  // "storage" when read through getBatchResult, "logs" when rebuilt from the callback events
+  source: "storage" | "logs";
+}
+
+// The contract's DECRYPTION_TIMEOUT: how long the oracle has to answer before the request expires
+export const DECRYPTION_TIMEOUT_SECONDS = 60 * 60;
+
+export function decryptionStatus(decryption: BatchDecryption, chainTime: number): DecryptionStatus {
+  if (decryption.completedBlock !== null) return "complete";
+  return decryption.replaced || chainTime >= decryption.expiresAt ? "failed" : "pending";
+}
+
+// Every decryption request of the batch, oldest first, joined with the events its callback emitted
+export async function fetchBatchDecryptions(
+  market: DAOPredictMarketFHE,
+  batchId: bigint,
+  fromBlock: number
+): Promise<BatchDecryption[]> {
+  const [requested, expired, yesNo, outcomes, scalar, weighted] = await Promise.all([
+    market.queryFilter(market.filters.DecryptionRequested(undefined, batchId), fromBlock),
+    market.queryFilter(market.filters.DecryptionRequestExpired(undefined, batchId), fromBlock),
+    market.queryFilter(market.filters.DecryptionCompleted(undefined, batchId), fromBlock),
+    market.queryFilter(market.filters.OutcomeTalliesDecrypted(undefined, batchId), fromBlock),
+    market.queryFilter(market.filters.ScalarResultsDecrypted(undefined, batchId), fromBlock),
+    market.queryFilter(market.filters.WeightedTalliesDecrypted(undefined, batchId), fromBlock)
+  ]);
+
+  const decryptions = new Map<bigint, BatchDecryption>();
+  const provider = market.runner!.provider!;
+  for (const log of requested) {
+    const block = await provider.getBlock(log.blockNumber);
+    decryptions.set(log.args.requestId, {
+      requestId: log.args.requestId,
+      batchId,
+      requestedBlock: log.blockNumber,
+      requestedAt: block!.timestamp,
+      requestTx: log.transactionHash,
+      expiresAt: block!.timestamp + DECRYPTION_TIMEOUT_SECONDS,
+      replaced: false,
+      completedBlock: null,
+      completedTx: null,
+      tallies: [],
+      scalarSum: null,
+      weights: []
+    });
+  }
+
+  const complete = (log: ethers.EventLog | ethers.Log, requestId: bigint, tallies: bigint[], scalarSum: bigint | null = null) => {
+    const decryption = decryptions.get(requestId);
+    if (!decryption) return;
+    decryption.completedBlock = log.blockNumber;
+    decryption.completedTx = log.transactionHash;
+    decryption.tallies = tallies;
+    decryption.scalarSum = scalarSum;
+  };
+  for (const log of yesNo) complete(log, log.args.requestId, [log.args.totalYes, log.args.totalNo]);
+  for (const log of outcomes) complete(log, log.args.requestId, [...log.args.tallies]);
+  for (const log of scalar) complete(log, log.args.requestId, [...log.args.histogram], log.args.sum);
+  for (const log of expired) {
+    const decryption = decryptions.get(log.args.requestId);
+    if (decryption) decryption.replaced = true;
+  }
+  for (const log of weighted) {
+    const decryption = decryptions.get(log.args.requestId);
+    if (decryption) decryption.weights = [...log.args.weights];
+  }
+
+  return [...decryptions.values()].sort((a, b) => a.requestedBlock - b.requestedBlock);
+}
+
+// Tallies of the batch's latest completed decryption, null before one completes. Markets deployed
+// before results were stored on-chain have no getBatchResult, so theirs are rebuilt from the logs.
+export async function fetchBatchResult(
+  market: DAOPredictMarketFHE,
+  batchId: bigint,
+  fromBlock: number
+): Promise<BatchResult | null> {
+  let stored;
+  try {
+    stored = await market.getBatchResult(batchId);
+  } catch (e: any) {
+    if (e?.code !== "BAD_DATA" && e?.code !== "CALL_EXCEPTION") throw e;
+    const completed = (await fetchBatchDecryptions(market, batchId, fromBlock)).filter(d => d.completedBlock !== null);
+    const latest = completed[completed.length - 1];
+    if (!latest) return null;
+    return {
+      requestId: latest.requestId,
+      tallies: latest.tallies,
+      weights: latest.weights,
+      scalarSum: latest.scalarSum ?? 0n,
+      source: "logs"
+    };
+  }
+  if (!stored.revealed) return null;
+  return {
+    requestId: stored.requestId,
+    tallies: [...stored.tallies],
+    weights: [...stored.weights],
+    scalarSum: stored.scalarSum,
+    source: "storage"
+  };
+}
+
+// Share of each tally in percent, zeros when nothing was counted
+export function tallyShares(tallies: bigint[]): number[] {
+  const total = tallies.reduce((sum, tally) => sum + tally, 0n);
+  return tallies.map(tally => (total > 0n ? (Number(tally) * 100) / Number(total) : 0));
+}
@@ -0,0 +1,69 @@
+// sdk/errors.ts
+import { ethers } from "ethers";
+import { MARKET_ABI, REGISTRY_ABI } from "../contract";
+import { MarketRole, ROLE_IDS } from "./predictMarket";
+
+const ROLE_LABELS: Record<string, string> = Object.fromEntries(
+  (Object.entries(ROLE_IDS) as [MarketRole, string][]).map(([role, id]) => [id, role === "admin" ? "DAO admin" : role])
+);
+
+const interfaces = [new ethers.Interface(MARKET_ABI), new ethers.Interface(REGISTRY_ABI)];
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(38)}`;
+
+const decodeRevert = (e: any): { name: string; args: ethers.Result | any[] } | null => {
+  if (e?.revert?.name) return e.revert;
+  const data = e?.data ?? e?.info?.error?.data ?? e?.error?.data;
+  if (typeof data !== "string" || data.length < 10) return null;
+  for (const iface of interfaces) {
+    try {
+      const parsed = iface.parseError(data);
+      if (parsed) return parsed;
+    } catch (err) {
+    }
+  }
+  return null;
+};
+
+// Turns wallet and contract failures, permission reverts in particular, into messages fit for the UI
+export function describeContractError(e: any): string {
+  if (e?.code === "ACTION_REJECTED" || e?.message?.includes("user rejected transaction")) return "Transaction rejected by user";
+  const revert = decodeRevert(e);
+  if (!revert) return e?.shortMessage || e?.message || "Unknown error";
+
+  const args = revert.args;
+  switch (revert.name) {
+    case "NotOwner":
+      return "Permission denied: only the contract owner can do this";
+    case "MissingRole":
+      return `Permission denied: ${shortAddress(args[1])} does not have the ${ROLE_LABELS[args[0]] ?? "required"} role`;
+    case "NotBatchCreator":
+      return `Permission denied: only the creator of batch #${args[0]}, a resolver or a DAO admin can do this`;
+    case "NotCreator":
+      return "Permission denied: only the market creator or a DAO admin can edit this market";
+    case "NotProvider":
+      return "Permission denied: your account is not a registered prediction provider";
+    case "NotEligible":
+      return "Permission denied: your account does not meet this market's participation requirements";
+    case "AlreadyPredicted":
+      return "You have already submitted a prediction to this market";
+    case "NoPrediction":
+      return "You have no prediction in this market to change";
+    case "AlreadyResolved":
+      return "This market has already been settled or canceled";
+    case "BatchNotOpen":
+      return "The prediction batch is not in the right open/closed state for this action";
+    case "BatchNotStarted":
+      return "This market does not accept predictions yet";
+    case "BatchExpired":
+      return "This market's prediction window has ended";
+    case "DecryptionPending":
+      return "The oracle has not answered the last decryption request yet; it can be sent again once that request expires";
+    case "Paused":
+      return "The market contract is paused";
+    case "CooldownActive":
+      return "Please wait for the cooldown period before trying again";
+    default:
+      return `Transaction reverted: ${revert.name}`;
+  }
+}
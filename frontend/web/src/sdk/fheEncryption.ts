@@ -0,0 +1,153 @@
+// sdk/fheEncryption.ts
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { activeNetwork, FheBackendKind, injectedWallet, NetworkConfig } from "../networks";
+
+export type { FheBackendKind };
+
+// Both the relayer SDK instance and the hardhat mock instance satisfy this shape.
+export type FheBackend = Pick<FhevmInstance, "createEncryptedInput" | "generateKeypair" | "createEIP712" | "userDecrypt">;
+
+export interface EncryptedInput {
+  handle: string;
+  inputProof: string;
+}
+
+export interface UserDecryptSession {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  userAddress: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+}
+
+// Gateway-side contracts the hardhat FHEVM mock signs with (see @fhevm/hardhat-plugin constants)
+const HARDHAT_MOCK_GATEWAY = {
+  verifyingContractAddressDecryption: "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64",
+  verifyingContractAddressInputVerification: "0x812b06e1CDCE800494b79fFE4f925A504a9A9810"
+};
+
+export async function createRelayerBackend(
+  eip1193: ethers.Eip1193Provider,
+  network: NetworkConfig = activeNetwork
+): Promise<FheBackend> {
+  const { initSDK, createInstance, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/web");
+  await initSDK();
+  return createInstance({
+    ...SepoliaConfig,
+    chainId: network.chainId,
+    gatewayChainId: network.fhe.gatewayChainId,
+    relayerUrl: network.fhe.relayerUrl,
+    network: eip1193
+  });
+}
+
+export async function createHardhatMockBackend(network: NetworkConfig = activeNetwork): Promise<FheBackend> {
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const provider = new ethers.JsonRpcProvider(network.rpcUrls[0]);
+  const [chain, metadata] = await Promise.all([
+    provider.getNetwork(),
+    provider.send("fhevm_relayer_metadata", [])
+  ]);
+  return MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    chainId: Number(chain.chainId),
+    gatewayChainId: network.fhe.gatewayChainId,
+    verifyingContractAddressDecryption: HARDHAT_MOCK_GATEWAY.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: HARDHAT_MOCK_GATEWAY.verifyingContractAddressInputVerification
+  });
+}
+
+let backendPromise: Promise<FheBackend> | null = null;
+
+export function getFheBackend(kind: FheBackendKind = activeNetwork.fhe.backend): Promise<FheBackend> {
+  if (!backendPromise) {
+    backendPromise = kind === "hardhat-mock"
+      ? createHardhatMockBackend()
+      : createRelayerBackend(injectedWallet());
+    backendPromise.catch(() => { backendPromise = null; });
+  }
+  return backendPromise;
+}
+
+export async function encryptUint32(
+  backend: FheBackend,
+  contractAddress: string,
+  userAddress: string,
+  value: number | bigint
+): Promise<EncryptedInput> {
+  const input = backend.createEncryptedInput(contractAddress, userAddress);
+  input.add32(value);
+  const { handles, inputProof } = await input.encrypt();
+  return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+}
+
+export async function createUserDecryptSession(
+  backend: FheBackend,
+  signer: ethers.Signer,
+  contractAddresses: string[],
+  durationDays = 1
+): Promise<UserDecryptSession> {
+  const { publicKey, privateKey } = backend.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = backend.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+  return {
+    publicKey,
+    privateKey,
+    signature,
+    userAddress: await signer.getAddress(),
+    contractAddresses,
+    startTimestamp,
+    durationDays
+  };
+}
+
+export function isSessionExpired(session: UserDecryptSession): boolean {
+  return Math.floor(Date.now() / 1000) >= session.startTimestamp + session.durationDays * 24 * 60 * 60;
+}
+
+const sessionCache = new Map<string, UserDecryptSession>();
+
+// Reuses a still-valid signed session so users sign once per contract set
+export async function getUserDecryptSession(
+  backend: FheBackend,
+  signer: ethers.Signer,
+  contractAddresses: string[]
+): Promise<UserDecryptSession> {
+  const key = `${(await signer.getAddress()).toLowerCase()}:${contractAddresses.map(a => a.toLowerCase()).sort().join(",")}`;
+  const cached = sessionCache.get(key);
+  if (cached && !isSessionExpired(cached)) return cached;
+  const session = await createUserDecryptSession(backend, signer, contractAddresses);
+  sessionCache.set(key, session);
+  return session;
+}
+
+export async function userDecryptHandles(
+  backend: FheBackend,
+  session: UserDecryptSession,
+  contractAddress: string,
+  handles: string[]
+): Promise<Record<string, bigint>> {
+  const results = await backend.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    session.privateKey,
+    session.publicKey,
+    session.signature.replace("0x", ""),
+    session.contractAddresses,
+    session.userAddress,
+    session.startTimestamp,
+    session.durationDays
+  );
+  const clear: Record<string, bigint> = {};
+  for (const handle of handles) clear[handle] = BigInt(results[handle] as bigint | string);
+  return clear;
+}
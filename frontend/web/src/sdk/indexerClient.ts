@@ -0,0 +1,115 @@
+// sdk/indexerClient.ts
+// Client for the HTTP API served by the market indexer (src/indexer in the contracts package)
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export interface IndexedDecryption {
+  requestId: string;
+  batchId: number;
+  requestedBlock: number;
+  requestedTx: string;
+  completedBlock: number | null;
+  completedTx: string | null;
+  totalYes: string | null;
+  totalNo: string | null;
+  // Per-option tallies of a multi-outcome batch, or the bucket counts of a scalar batch
+  tallies: string[] | null;
+  scalarSum: string | null;
+  // Weighted totals of a weighted batch, in the same order as the counts
+  weights: string[] | null;
+  // Block of the request that replaced this one after the oracle let it expire
+  expiredBlock: number | null;
+}
+
+export interface IndexedBatch {
+  batchId: number;
+  creator: string | null;
+  isOpen: boolean;
+  outcome: "unresolved" | "yes" | "no" | "canceled" | "option" | "value";
+  outcomeCount: number;
+  winningOutcome: number | null;
+  scalarRange: { lowerBound: number; upperBound: number; bucketCount: number } | null;
+  resolvedValue: number | null;
+  weighting: { source: "balance" | "votes"; token: string; snapshot: string; unit: string } | null;
+  participation: {
+    mode: "providers" | "open" | "token" | "allowlist";
+    token: string | null;
+    minBalance: string | null;
+    allowlistRoot: string | null;
+  };
+  schedule: { startTime: number; endTime: number } | null;
+  // dao is the bytes32 identifier as stored on-chain, decode it with decodeDao
+  metadata: {
+    dao: string;
+    proposalChainId: string;
+    governor: string | null;
+    proposalId: string | null;
+    snapshotId: string | null;
+    questionHash: string;
+    metadataURI: string;
+  } | null;
+  submissions: number;
+  openedBlock: number;
+  openedTx: string;
+  closedBlock: number | null;
+  closedTx: string | null;
+  latestDecryption: IndexedDecryption | null;
+}
+
+export interface IndexedPrediction {
+  batchId: number;
+  user: string;
+  // Updates replace the user's earlier prediction; revocations carry a zero handle
+  kind: "submitted" | "updated" | "revoked";
+  encryptedPrediction: string;
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+}
+
+const MAX_PAGE_SIZE = 200;
+
+const getJson = async <T>(baseUrl: string, path: string, params: Record<string, string | number | undefined> = {}): Promise<T> => {
+  const url = new URL(path, baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) url.searchParams.set(key, String(value));
+  }
+  const response = await fetch(url);
+  const body = await response.json();
+  if (!response.ok) throw new Error(`Indexer ${response.status}: ${body.error || response.statusText}`);
+  return body as T;
+};
+
+export function fetchIndexedBatches(
+  baseUrl: string,
+  offset = 0,
+  limit = MAX_PAGE_SIZE,
+  status?: "open" | "closed"
+): Promise<Page<IndexedBatch>> {
+  return getJson(baseUrl, "batches", { offset, limit, status });
+}
+
+export async function fetchAllIndexedBatches(baseUrl: string): Promise<IndexedBatch[]> {
+  const batches: IndexedBatch[] = [];
+  for (let offset = 0; ; offset += MAX_PAGE_SIZE) {
+    const page = await fetchIndexedBatches(baseUrl, offset);
+    batches.push(...page.items);
+    if (offset + page.items.length >= page.total || page.items.length === 0) return batches;
+  }
+}
+
+export function fetchIndexedBatch(baseUrl: string, batchId: number | bigint): Promise<IndexedBatch> {
+  return getJson(baseUrl, `batches/${batchId}`);
+}
+
+export function fetchIndexedPredictions(
+  baseUrl: string,
+  query: { batchId?: number; user?: string; offset?: number; limit?: number } = {}
+): Promise<Page<IndexedPrediction>> {
+  return getJson(baseUrl, "predictions", query);
+}
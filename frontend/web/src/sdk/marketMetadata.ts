@@ -0,0 +1,143 @@
+// sdk/marketMetadata.ts
+// Market descriptions addressed by CID; mirrors the encoding in src/metadata of the contracts package.
+// Stored records are validated and upgraded by marketRecord.ts.
+import { ethers } from "ethers";
+
+export const DESCRIPTION_SCHEMA = "dao-predict-market/market-description";
+export const DESCRIPTION_VERSION = 1;
+
+// Content above one block is chunked by `ipfs add`, which would give it a different CID
+export const MAX_CONTENT_BYTES = 256 * 1024;
+
+export interface MarketDescription {
+  schema: typeof DESCRIPTION_SCHEMA;
+  version: number;
+  daoName: string;
+  proposalTitle: string;
+  category: string;
+  creator: string;
+  batchId: string;
+  // End of the prediction window when published; the on-chain schedule takes precedence
+  endTime: number;
+  outcomes?: string[];
+  unit?: string;
+  weightSymbol?: string;
+  // Whether the weighting snapshot is a block number or a timestamp
+  weightClock?: "blocknumber" | "timestamp";
+  gateSymbol?: string;
+  gateDecimals?: number;
+  allowlist?: string[];
+}
+
+export interface MetadataStore {
+  // Stores the content and returns its CID
+  put(content: Uint8Array): Promise<string>;
+  // Content stored under the CID, which the caller still has to verify
+  get(cid: string): Promise<Uint8Array>;
+}
+
+// CIDv1 + raw codec + sha2-256 multihash of 32 bytes
+const CID_PREFIX = new Uint8Array([0x01, 0x55, 0x12, 0x20]);
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+const base32 = (bytes: Uint8Array): string => {
+  let out = "b";
+  let value = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      out += BASE32_ALPHABET[(value >>> bits) & 31];
+    }
+    value &= (1 << bits) - 1;
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+};
+
+// The CID `ipfs add --cid-version 1 --raw-leaves` reports for the same bytes
+export function computeCid(content: Uint8Array): string {
+  if (content.length > MAX_CONTENT_BYTES) throw new Error(`Market description is over ${MAX_CONTENT_BYTES} bytes`);
+  return base32(ethers.getBytes(ethers.concat([CID_PREFIX, ethers.sha256(content)])));
+}
+
+export function isCid(value: string): boolean {
+  return /^bafkrei[a-z2-7]{52}$/.test(value);
+}
+
+// Keys sorted, no whitespace and undefined fields dropped, so equal descriptions always share a CID
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(item => canonicalJson(item ?? null)).join(",")}]`;
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`).join(",")}}`;
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) throw new Error(`${value} has no JSON representation`);
+  return JSON.stringify(value);
+}
+
+export function createMarketDescription(fields: Omit<MarketDescription, "schema" | "version">): MarketDescription {
+  return { schema: DESCRIPTION_SCHEMA, version: DESCRIPTION_VERSION, ...fields };
+}
+
+const checkCid = (cid: string) => {
+  if (!isCid(cid)) throw new Error(`"${cid}" is not a raw sha2-256 CIDv1`);
+};
+
+const verifyCid = (cid: string, content: Uint8Array) => {
+  if (content.length > MAX_CONTENT_BYTES || computeCid(content) !== cid) throw new Error(`Content does not match CID ${cid}`);
+};
+
+const readFromGateway = async (gatewayUrl: string, cid: string): Promise<Uint8Array> => {
+  checkCid(cid);
+  // The raw format stops gateways from wrapping the block in a directory listing or a redirect
+  const res = await fetch(`${gatewayUrl}/ipfs/${cid}?format=raw`);
+  if (!res.ok) throw new Error(`Metadata gateway answered ${res.status} for ${cid}`);
+  return new Uint8Array(await res.arrayBuffer());
+};
+
+// The local stand-in served by the dev-stack task (src/metadata/server.ts)
+export function createHttpStore(baseUrl: string): MetadataStore {
+  const base = baseUrl.replace(/\/+$/, "");
+  return {
+    async put(content) {
+      const res = await fetch(`${base}/ipfs`, {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: new Uint8Array(content)
+      });
+      if (!res.ok) throw new Error(`Metadata store answered ${res.status}`);
+      const { cid } = (await res.json()) as { cid: string };
+      verifyCid(cid, content);
+      return cid;
+    },
+    get: cid => readFromGateway(base, cid)
+  };
+}
+
+// Reads through a public gateway; pinning needs an IPFS RPC API (Kubo or a pinning service exposing it)
+export function createIpfsStore(gatewayUrl: string, apiUrl: string): MetadataStore {
+  const gateway = gatewayUrl.replace(/\/+$/, "");
+  const api = apiUrl.replace(/\/+$/, "");
+  return {
+    async put(content) {
+      if (!api) throw new Error("No IPFS API is configured to pin market descriptions on this network");
+      const form = new FormData();
+      form.append("file", new Blob([new Uint8Array(content)]));
+      const res = await fetch(`${api}/api/v0/add?cid-version=1&raw-leaves=true&pin=true`, { method: "POST", body: form });
+      if (!res.ok) throw new Error(`IPFS API answered ${res.status}`);
+      const { Hash } = (await res.json()) as { Hash: string };
+      verifyCid(Hash, content);
+      return Hash;
+    },
+    get: cid => readFromGateway(gateway, cid)
+  };
+}
+
+export async function publishMarketDescription(store: MetadataStore, description: MarketDescription): Promise<string> {
+  return store.put(ethers.toUtf8Bytes(canonicalJson(description)));
+}
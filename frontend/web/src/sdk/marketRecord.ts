@@ -0,0 +1,178 @@
+// sdk/marketRecord.ts
+// Versioned market records: what a registry entry points at, validated at runtime and upgraded to the current version
+import { ethers } from "ethers";
+import {
+  computeCid,
+  DESCRIPTION_SCHEMA,
+  DESCRIPTION_VERSION,
+  isCid,
+  MarketDescription,
+  MAX_CONTENT_BYTES,
+  MetadataStore
+} from "./marketMetadata";
+import type { RegistryMarket } from "./marketRegistry";
+
+// Version 0 is the inline JSON the registry (and the UniversalAdapter before it) stored before descriptions
+// moved off-chain. It has no schema tag. Version 1 is the first published MarketDescription.
+export const LEGACY_RECORD_VERSION = 0;
+
+export type MarketRecordErrorKind =
+  // The metadata store could not serve the CID
+  | "unavailable"
+  // The store served content that doesn't hash to the CID
+  | "cid-mismatch"
+  // Not a UTF-8 JSON object
+  | "malformed"
+  | "unknown-schema"
+  // Written by a newer frontend than this one
+  | "unsupported-version"
+  | "invalid-field";
+
+export class MarketRecordError extends Error {
+  constructor(public readonly kind: MarketRecordErrorKind, message: string, public readonly field?: string) {
+    super(message);
+    this.name = "MarketRecordError";
+  }
+}
+
+export interface MarketRecord {
+  // Upgraded to DESCRIPTION_VERSION whatever version was stored
+  description: MarketDescription;
+  storedVersion: number;
+  // Null for inline version 0 records
+  cid: string | null;
+  // Settlement written into version 0 records before outcomes were kept on-chain
+  legacyStatus?: "settled" | "canceled";
+  legacyOutcome?: "yes" | "no";
+}
+
+type Fields = Record<string, unknown>;
+
+const MAX_OUTCOMES = 8;
+
+const invalid = (field: string, expected: string) =>
+  new MarketRecordError("invalid-field", `${field} must be ${expected}`, field);
+
+const isText = (value: unknown): value is string => typeof value === "string" && value.trim() !== "";
+const isUint = (value: unknown): value is number => typeof value === "number" && Number.isSafeInteger(value) && value >= 0;
+
+// Optional fields may be absent, but not null or of another type
+const DESCRIPTION_FIELDS: Record<keyof MarketDescription, { required: boolean; check: (value: unknown) => boolean; expected: string }> = {
+  schema: { required: true, check: value => value === DESCRIPTION_SCHEMA, expected: `"${DESCRIPTION_SCHEMA}"` },
+  version: { required: true, check: value => value === DESCRIPTION_VERSION, expected: `${DESCRIPTION_VERSION}` },
+  daoName: { required: true, check: isText, expected: "a non-empty string" },
+  proposalTitle: { required: true, check: isText, expected: "a non-empty string" },
+  category: { required: true, check: isText, expected: "a non-empty string" },
+  creator: { required: true, check: value => typeof value === "string" && ethers.isAddress(value), expected: "an address" },
+  batchId: { required: true, check: value => typeof value === "string" && /^[1-9]\d*$/.test(value), expected: "a batch id in decimal" },
+  endTime: { required: true, check: isUint, expected: "a unix timestamp in seconds" },
+  outcomes: {
+    required: false,
+    check: value => Array.isArray(value) && value.length >= 2 && value.length <= MAX_OUTCOMES && value.every(isText),
+    expected: `a list of 2 to ${MAX_OUTCOMES} option labels`
+  },
+  unit: { required: false, check: value => typeof value === "string", expected: "a string" },
+  weightSymbol: { required: false, check: value => typeof value === "string", expected: "a string" },
+  weightClock: { required: false, check: value => value === "blocknumber" || value === "timestamp", expected: `"blocknumber" or "timestamp"` },
+  gateSymbol: { required: false, check: value => typeof value === "string", expected: "a string" },
+  gateDecimals: { required: false, check: value => isUint(value) && value <= 255, expected: "an integer from 0 to 255" },
+  allowlist: {
+    required: false,
+    check: value => Array.isArray(value) && value.every(item => typeof item === "string" && ethers.isAddress(item)),
+    expected: "a list of addresses"
+  }
+};
+
+// Rejects missing, mistyped and unknown fields, so a description that passes renders without fallbacks
+export function validateMarketDescription(value: unknown): MarketDescription {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    throw new MarketRecordError("malformed", "Market description is not a JSON object");
+  }
+  const fields = value as Fields;
+  for (const [field, rule] of Object.entries(DESCRIPTION_FIELDS)) {
+    if (fields[field] === undefined) {
+      if (rule.required) throw new MarketRecordError("invalid-field", `${field} is missing`, field);
+    } else if (!rule.check(fields[field])) {
+      throw invalid(field, rule.expected);
+    }
+  }
+  const unknown = Object.keys(fields).find(field => !(field in DESCRIPTION_FIELDS));
+  if (unknown !== undefined) throw new MarketRecordError("invalid-field", `${unknown} is not part of the schema`, unknown);
+  return fields as unknown as MarketDescription;
+}
+
+// Lifts a record from the version it is keyed by to the next one; every version below DESCRIPTION_VERSION needs one
+const UPGRADES: Record<number, (fields: Fields) => Fields> = {
+  // Adds the schema tag and drops the settlement fields, which now come from the batch, and the stand-in
+  // ciphertexts of the first adapter-based frontend. Records from before categories were required get the
+  // category the create form defaulted to.
+  0: ({ status, outcome, encryptedYesVotes, encryptedNoVotes, ...fields }) => ({
+    ...fields,
+    schema: DESCRIPTION_SCHEMA,
+    category: fields.category ?? "Governance",
+    batchId: typeof fields.batchId === "number" ? String(fields.batchId) : fields.batchId
+  })
+};
+
+// Settlement the adapter-based frontend wrote into version 0 records, before outcomes were kept on-chain
+const legacySettlement = (fields: Fields): Pick<MarketRecord, "legacyStatus" | "legacyOutcome"> => {
+  const { status, outcome } = fields;
+  if (status !== undefined && status !== "active" && status !== "settled" && status !== "canceled") {
+    throw invalid("status", "active, settled or canceled");
+  }
+  if (outcome !== undefined && outcome !== "yes" && outcome !== "no") throw invalid("outcome", "yes or no");
+  return { legacyStatus: status === "active" ? undefined : status, legacyOutcome: outcome };
+};
+
+export function upgradeMarketRecord(value: unknown, cid: string | null): MarketRecord {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    throw new MarketRecordError("malformed", "Market record is not a JSON object");
+  }
+  let fields = value as Fields;
+  let storedVersion = LEGACY_RECORD_VERSION;
+  if (fields.schema !== undefined) {
+    if (fields.schema !== DESCRIPTION_SCHEMA) {
+      throw new MarketRecordError("unknown-schema", `Unknown record schema ${JSON.stringify(fields.schema)}`, "schema");
+    }
+    if (!isUint(fields.version) || fields.version === LEGACY_RECORD_VERSION) throw invalid("version", "a positive integer");
+    storedVersion = fields.version;
+  }
+  if (storedVersion > DESCRIPTION_VERSION) {
+    throw new MarketRecordError(
+      "unsupported-version",
+      `Record version ${storedVersion} is newer than the supported version ${DESCRIPTION_VERSION}`,
+      "version"
+    );
+  }
+  const legacy = storedVersion === LEGACY_RECORD_VERSION ? legacySettlement(fields) : {};
+  for (let version = storedVersion; version < DESCRIPTION_VERSION; version++) {
+    fields = { ...UPGRADES[version](fields), version: version + 1 };
+  }
+  return { description: validateMarketDescription(fields), storedVersion, cid, ...legacy };
+}
+
+export function decodeMarketRecord(content: Uint8Array, cid: string | null): MarketRecord {
+  let value: unknown;
+  try {
+    value = JSON.parse(ethers.toUtf8String(content));
+  } catch (e) {
+    throw new MarketRecordError("malformed", "Market record is not UTF-8 JSON");
+  }
+  return upgradeMarketRecord(value, cid);
+}
+
+// Fetches the description behind the entry's CID, checked against it, or decodes the inline JSON of older entries
+export async function loadMarketRecord(store: MetadataStore, market: RegistryMarket): Promise<MarketRecord> {
+  const data = ethers.getBytes(market.data);
+  const text = ethers.toUtf8String(data, ethers.Utf8ErrorFuncs.replace);
+  if (!isCid(text)) return decodeMarketRecord(data, null);
+
+  let content: Uint8Array;
+  try {
+    content = await store.get(text);
+  } catch (e: any) {
+    throw new MarketRecordError("unavailable", `Description ${text} could not be fetched: ${e?.message ?? e}`);
+  }
+  if (content.length > MAX_CONTENT_BYTES || computeCid(content) !== text) throw new MarketRecordError("cid-mismatch", `Content served for ${text} does not match the CID`);
+  return decodeMarketRecord(content, text);
+}
@@ -0,0 +1,60 @@
+// sdk/marketRegistry.ts
+import { ethers } from "ethers";
+import type { MarketRegistry } from "../../../../types";
+
+export interface RegistryMarket {
+  marketId: bigint;
+  key: string;
+  creator: string;
+  batchId: bigint;
+  createdAt: number;
+  // UTF-8 CID of the market description; markets registered before descriptions moved off-chain hold the JSON itself
+  data: string;
+}
+
+const PAGE_SIZE = 100;
+
+const toRegistryMarket = (market: MarketRegistry.MarketStructOutput): RegistryMarket => ({
+  marketId: market.marketId,
+  key: market.key,
+  creator: market.creator,
+  batchId: market.batchId,
+  createdAt: Number(market.createdAt),
+  data: market.data
+});
+
+// The description must already be published under the CID
+export async function registerMarket(
+  registry: MarketRegistry,
+  key: string,
+  batchId: bigint,
+  cid: string
+): Promise<bigint> {
+  const tx = await registry.registerMarket(key, batchId, ethers.toUtf8Bytes(cid));
+  const receipt = await tx.wait();
+  for (const log of receipt?.logs ?? []) {
+    const parsed = registry.interface.parseLog(log);
+    if (parsed?.name === "MarketRegistered") return parsed.args.marketId as bigint;
+  }
+  throw new Error(`MarketRegistered event not found in receipt ${receipt?.hash}`);
+}
+
+export async function updateMarketRecord(registry: MarketRegistry, marketId: bigint, cid: string): Promise<void> {
+  const tx = await registry.updateMarketData(marketId, ethers.toUtf8Bytes(cid));
+  await tx.wait();
+}
+
+export async function getRegistryMarket(registry: MarketRegistry, marketId: bigint): Promise<RegistryMarket> {
+  return toRegistryMarket(await registry.getMarket(marketId));
+}
+
+export async function fetchMarketPage(registry: MarketRegistry, offset: number, limit = PAGE_SIZE): Promise<RegistryMarket[]> {
+  return (await registry.getMarkets(offset, limit)).map(toRegistryMarket);
+}
+
+export async function fetchAllMarkets(registry: MarketRegistry): Promise<RegistryMarket[]> {
+  const count = Number(await registry.marketCount());
+  const pages: Promise<RegistryMarket[]>[] = [];
+  for (let offset = 0; offset < count; offset += PAGE_SIZE) pages.push(fetchMarketPage(registry, offset));
+  return (await Promise.all(pages)).flat();
+}
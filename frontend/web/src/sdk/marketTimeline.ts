@@ -0,0 +1,106 @@
+// sdk/marketTimeline.ts
+// A batch's lifecycle, from opening to resolution, rebuilt from the market's events
+import { ethers } from "ethers";
+import type { DAOPredictMarketFHE } from "../../../../types";
+
+export type TimelineKind =
+  | "opened"
+  | "metadata-set"
+  | "scheduled"
+  | "closed"
+  | "decryption-requested"
+  | "decryption-expired"
+  | "decryption-completed"
+  | "resolved"
+  | "canceled"
+  | "winning-pool-revealed";
+
+export interface TimelineEvent {
+  kind: TimelineKind;
+  blockNumber: number;
+  // Chain timestamp of the block
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+  // What the event recorded, e.g. the resolved side or the request id; empty when there is nothing to add
+  detail: string;
+}
+
+// Every lifecycle event of the batch, oldest first. Predictions are left out: they would reveal who
+// predicted when, and the count is already public through submissionsInBatch. `options` names the
+// winning outcome of multi-outcome batches.
+export async function fetchBatchTimeline(
+  market: DAOPredictMarketFHE,
+  batchId: bigint,
+  fromBlock: number,
+  options: string[] = []
+): Promise<TimelineEvent[]> {
+  const [
+    opened,
+    metadata,
+    scheduled,
+    closed,
+    requested,
+    expired,
+    yesNo,
+    outcomes,
+    scalar,
+    resolved,
+    resolvedToOutcome,
+    resolvedToValue,
+    canceled,
+    winningPool
+  ] = await Promise.all([
+    market.queryFilter(market.filters.BatchOpened(batchId), fromBlock),
+    market.queryFilter(market.filters.BatchMetadataSet(batchId), fromBlock),
+    market.queryFilter(market.filters.BatchScheduled(batchId), fromBlock),
+    market.queryFilter(market.filters.BatchClosed(batchId), fromBlock),
+    market.queryFilter(market.filters.DecryptionRequested(undefined, batchId), fromBlock),
+    market.queryFilter(market.filters.DecryptionRequestExpired(undefined, batchId), fromBlock),
+    market.queryFilter(market.filters.DecryptionCompleted(undefined, batchId), fromBlock),
+    market.queryFilter(market.filters.OutcomeTalliesDecrypted(undefined, batchId), fromBlock),
+    market.queryFilter(market.filters.ScalarResultsDecrypted(undefined, batchId), fromBlock),
+    market.queryFilter(market.filters.MarketResolved(batchId), fromBlock),
+    market.queryFilter(market.filters.MarketResolvedToOutcome(batchId), fromBlock),
+    market.queryFilter(market.filters.MarketResolvedToValue(batchId), fromBlock),
+    market.queryFilter(market.filters.MarketCanceled(batchId), fromBlock),
+    market.queryFilter(market.filters.WinningPoolRevealed(batchId), fromBlock)
+  ]);
+
+  const events: Omit<TimelineEvent, "timestamp">[] = [];
+  const add = (kind: TimelineKind, log: ethers.EventLog | ethers.Log, detail = "") =>
+    events.push({ kind, blockNumber: log.blockNumber, transactionHash: log.transactionHash, logIndex: log.index, detail });
+
+  for (const log of opened) add("opened", log);
+  for (const log of metadata) add("metadata-set", log, log.args.metadataURI);
+  const formatTime = (seconds: bigint) => new Date(Number(seconds) * 1000).toLocaleString();
+  for (const log of scheduled) {
+    // A zero start time lets predictions in right away
+    const until = `until ${formatTime(log.args.endTime)}`;
+    add("scheduled", log, log.args.startTime === 0n ? until : `from ${formatTime(log.args.startTime)} ${until}`);
+  }
+  for (const log of closed) add("closed", log);
+  for (const log of requested) add("decryption-requested", log, `request #${log.args.requestId}`);
+  for (const log of expired) add("decryption-expired", log, `request #${log.args.requestId}`);
+  for (const log of [...yesNo, ...outcomes, ...scalar]) add("decryption-completed", log, `request #${log.args.requestId}`);
+  for (const log of resolved) add("resolved", log, log.args.outcomeYes ? "Yes" : "No");
+  for (const log of resolvedToOutcome) {
+    const index = Number(log.args.winningOutcome);
+    add("resolved", log, options[index] ?? `option #${index}`);
+  }
+  for (const log of resolvedToValue) add("resolved", log, `value ${log.args.value}`);
+  for (const log of canceled) add("canceled", log, `by ${log.args.canceledBy}`);
+  for (const log of winningPool) add("winning-pool-revealed", log, `${ethers.formatEther(log.args.winningPool)} ETH`);
+
+  // Several events share a block, so each block is only fetched once
+  const provider = market.runner!.provider!;
+  const timestamps = new Map<number, number>();
+  for (const blockNumber of new Set(events.map(e => e.blockNumber))) {
+    const block = await provider.getBlock(blockNumber);
+    timestamps.set(blockNumber, block!.timestamp);
+  }
+
+  return events
+    .map(e => ({ ...e, timestamp: timestamps.get(e.blockNumber)! }))
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
@@ -0,0 +1,140 @@
+// sdk/portfolio.ts
+// An account's predictions, stakes and payouts across batches, rebuilt from the market's events
+import { ethers } from "ethers";
+import type { DAOPredictMarketFHE } from "../../../../types";
+import { getPosition, getSettlement, Position, ScalarRange, Settlement } from "./predictMarket";
+
+export type ActivityKind = "submitted" | "updated" | "revoked" | "staked" | "claim-requested" | "paid";
+
+export interface PortfolioActivity {
+  kind: ActivityKind;
+  batchId: bigint;
+  blockNumber: number;
+  transactionHash: string;
+  // Wei staked, refunded on withdrawal or paid out; null for steps that move no funds
+  amount: bigint | null;
+}
+
+// open: the batch takes predictions; pending: closed and waiting to be resolved; withdrawn: the account's
+// prediction was revoked and not replaced
+export type PositionStatus = "open" | "pending" | "resolved" | "canceled" | "withdrawn";
+
+export interface PortfolioPosition {
+  batchId: bigint;
+  isOpen: boolean;
+  status: PositionStatus;
+  position: Position;
+  settlement: Settlement;
+  // Oldest first
+  activity: PortfolioActivity[];
+  // Wei paid by claim(), refunds of canceled batches included
+  paidOut: bigint;
+  claimable: boolean;
+}
+
+export type PredictionResult = "won" | "lost";
+
+// The revealed stakes of a position, in wei
+export interface ClearStakes {
+  yes: bigint;
+  no: bigint;
+  options: bigint[];
+}
+
+// choice is 0/1 for no/yes, the option index on multi-outcome markets, or the estimate on range markets
+export function predictionLabel(market: { options: string[]; range: ScalarRange | null; unit: string }, choice: bigint): string {
+  if (market.range) return `${choice} ${market.unit}`;
+  if (market.options.length > 0) return market.options[Number(choice)] ?? "No listed option";
+  return choice >= 1n ? "Yes" : "No";
+}
+
+// Null until the batch is resolved, on canceled batches, and on scalar batches, which have no winning side
+export function predictionResult(settlement: Settlement, prediction: bigint): PredictionResult | null {
+  switch (settlement.outcome) {
+    case "yes":
+      return prediction >= 1n ? "won" : "lost";
+    case "no":
+      return prediction === 0n ? "won" : "lost";
+    case "option":
+      return prediction === BigInt(settlement.winningOutcome!) ? "won" : "lost";
+    default:
+      return null;
+  }
+}
+
+// What claim() pays: the deposit on canceled batches and when nobody backed the outcome, otherwise the
+// stake on the winning side's share of the pool. Null until the winning pool is revealed.
+export function expectedPayout(position: Position, settlement: Settlement, stakes: ClearStakes): bigint | null {
+  if (settlement.outcome === "canceled") return position.deposit;
+  if (!settlement.winningPoolRevealed) return null;
+  if (settlement.winningPool === 0n) return position.deposit;
+  const winningStake =
+    settlement.outcome === "yes" ? stakes.yes
+    : settlement.outcome === "no" ? stakes.no
+    : stakes.options[settlement.winningOutcome ?? -1] ?? 0n;
+  return (winningStake * settlement.pool) / settlement.winningPool;
+}
+
+const positionStatus = (isOpen: boolean, position: Position, settlement: Settlement): PositionStatus => {
+  if (position.encryptedPrediction === ethers.ZeroHash) return "withdrawn";
+  if (settlement.outcome === "canceled") return "canceled";
+  if (settlement.outcome === "unresolved") return isOpen ? "open" : "pending";
+  return "resolved";
+};
+
+// Every batch the account predicted on, most recently active first
+export async function fetchPortfolio(
+  market: DAOPredictMarketFHE,
+  account: string,
+  fromBlock: number
+): Promise<PortfolioPosition[]> {
+  const [submitted, updated, revoked, staked, claimRequested, paid] = await Promise.all([
+    market.queryFilter(market.filters.PredictionSubmitted(account), fromBlock),
+    market.queryFilter(market.filters.PredictionUpdated(account), fromBlock),
+    market.queryFilter(market.filters.PredictionRevoked(account), fromBlock),
+    market.queryFilter(market.filters.StakePlaced(account), fromBlock),
+    market.queryFilter(market.filters.ClaimRequested(undefined, undefined, account), fromBlock),
+    market.queryFilter(market.filters.PayoutClaimed(undefined, account), fromBlock)
+  ]);
+
+  const logs: { log: ethers.Log; activity: PortfolioActivity }[] = [];
+  const add = (kind: ActivityKind, log: ethers.Log, batchId: bigint, amount: bigint | null = null) =>
+    logs.push({ log, activity: { kind, batchId, blockNumber: log.blockNumber, transactionHash: log.transactionHash, amount } });
+  for (const log of submitted) add("submitted", log, log.args.batchId);
+  for (const log of updated) add("updated", log, log.args.batchId);
+  for (const log of revoked) add("revoked", log, log.args.batchId, log.args.refund);
+  // StakePlaced leaves the amount out; it is the value of the submitting transaction
+  const stakeTxs = await Promise.all(staked.map(log => log.getTransaction()));
+  staked.forEach((log, index) => add("staked", log, log.args.batchId, stakeTxs[index].value));
+  for (const log of claimRequested) add("claim-requested", log, log.args.batchId);
+  for (const log of paid) add("paid", log, log.args.batchId, log.args.amount);
+  logs.sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.index - b.log.index);
+
+  const activityByBatch = new Map<bigint, PortfolioActivity[]>();
+  for (const { activity } of logs) {
+    activityByBatch.set(activity.batchId, [...(activityByBatch.get(activity.batchId) ?? []), activity]);
+  }
+
+  const positions = await Promise.all(
+    [...activityByBatch.entries()].map(async ([batchId, activity]): Promise<PortfolioPosition> => {
+      const [isOpen, position, settlement] = await Promise.all([
+        market.isBatchOpen(batchId),
+        getPosition(market, batchId, account),
+        getSettlement(market, batchId)
+      ]);
+      return {
+        batchId,
+        isOpen,
+        status: positionStatus(isOpen, position, settlement),
+        position,
+        settlement,
+        activity,
+        paidOut: activity.filter(a => a.kind === "paid").reduce((sum, a) => sum + a.amount!, 0n),
+        claimable: position.deposit > 0n && !position.claimed &&
+          (settlement.outcome === "canceled" || settlement.winningPoolRevealed)
+      };
+    })
+  );
+  const lastBlock = (p: PortfolioPosition) => p.activity[p.activity.length - 1].blockNumber;
+  return positions.sort((a, b) => lastBlock(b) - lastBlock(a));
+}
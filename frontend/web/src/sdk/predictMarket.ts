@@ -0,0 +1,623 @@
+// sdk/predictMarket.ts
+import { ethers } from "ethers";
+import type { DAOPredictMarketFHE } from "../../../../types";
+import type { EncryptedInput } from "./fheEncryption";
+
+// "option" settles a multi-outcome batch on winningOutcome, "value" a scalar batch on resolvedValue
+export type Outcome = "unresolved" | "yes" | "no" | "canceled" | "option" | "value";
+
+export interface ScalarRange {
+  lowerBound: number;
+  upperBound: number;
+  bucketCount: number;
+}
+
+// "votes" reads ERC20Votes power at the snapshot. "balance" (the live ERC20 balance at submission)
+// is no longer accepted by configureWeighting and only describes batches weighted before that
+export type WeightSource = "balance" | "votes";
+
+export interface Weighting {
+  source: WeightSource;
+  token: string;
+  snapshot: bigint;
+  // Token amount that counts as a weight of 1
+  unit: bigint;
+}
+
+// ERC-6372 clock a votes token keys its checkpoints by; tokens without CLOCK_MODE() count blocks
+export type TokenClockMode = "blocknumber" | "timestamp";
+
+export interface WeightToken {
+  symbol: string;
+  decimals: number;
+}
+
+export interface TokenClock {
+  mode: TokenClockMode;
+  // Current timepoint of the token's clock
+  now: bigint;
+}
+
+// "providers" admits registered providers only; every other mode admits one prediction per address
+export type ParticipationMode = "providers" | "open" | "token" | "allowlist";
+
+export interface ParticipationPolicy {
+  mode: ParticipationMode;
+  // Token-gated batches admit holders of at least minBalance of token
+  token: string;
+  minBalance: bigint;
+  // Allowlist batches admit the addresses of this Merkle root, see sdk/allowlist
+  allowlistRoot: string;
+}
+
+// Unix timestamps in chain time; a zero start accepts predictions as soon as the batch opens
+export interface BatchSchedule {
+  startTime: number;
+  endTime: number;
+}
+
+// The DAO proposal a batch predicts on. Governor proposals set governor and proposalId, Snapshot
+// proposals snapshotId; the question text itself lives at metadataURI and is checked against questionHash.
+export interface BatchMetadata {
+  // Short identifier such as an ENS name or Snapshot space, at most 31 bytes
+  dao: string;
+  proposalChainId: number;
+  governor: string | null;
+  proposalId: bigint | null;
+  snapshotId: string | null;
+  questionHash: string;
+  metadataURI: string;
+}
+
+export interface Eligibility {
+  hasPredicted: boolean;
+  canPredict: boolean;
+}
+
+export interface BatchState {
+  batchId: bigint;
+  creator: string;
+  isOpen: boolean;
+  outcome: Outcome;
+  submissions: bigint;
+  encryptedYes: string;
+  encryptedNo: string;
+  // Zero for yes/no batches
+  outcomeCount: number;
+  encryptedOutcomeCounts: string[];
+  // Null unless the batch collects numeric estimates
+  scalarRange: ScalarRange | null;
+  encryptedScalarSum: string;
+  encryptedHistogram: string[];
+  // Null when every prediction counts once
+  weighting: Weighting | null;
+  // Yes/no weights, or one per option, in the same order as the counts
+  encryptedWeights: string[];
+  participation: ParticipationPolicy;
+  // Null when the batch stays open until its creator closes it
+  schedule: BatchSchedule | null;
+  // Null until the batch is linked to a proposal
+  metadata: BatchMetadata | null;
+}
+
+export interface Position {
+  // The prediction the user currently counts with; zero hash when none is active
+  encryptedPrediction: string;
+  encryptedYesStake: string;
+  encryptedNoStake: string;
+  // One handle per option on multi-outcome batches, empty otherwise
+  encryptedOutcomeStakes: string[];
+  deposit: bigint;
+  claimed: boolean;
+  // Chain timestamp until which the latest claim awaits the oracle and blocks a new one; null when
+  // no claim is waiting
+  claimPendingUntil: number | null;
+}
+
+export interface Settlement {
+  outcome: Outcome;
+  winningOutcome: number | null;
+  resolvedValue: number | null;
+  pool: bigint;
+  winningPool: bigint;
+  winningPoolRevealed: boolean;
+}
+
+export type MarketRole = "admin" | "creator" | "resolver";
+
+export interface AccountRoles {
+  isOwner: boolean;
+  isAdmin: boolean;
+  isCreator: boolean;
+  isResolver: boolean;
+}
+
+export interface ScalarResult {
+  requestId: bigint;
+  batchId: bigint;
+  sum: bigint;
+  histogram: bigint[];
+  blockNumber: number;
+}
+
+export interface DecryptionResult {
+  requestId: bigint;
+  batchId: bigint;
+  totalYes: bigint;
+  totalNo: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+// Mirror MAX_OUTCOMES and MAX_SCALAR_BUCKETS in the contract
+export const MAX_OUTCOMES = 8;
+export const MAX_SCALAR_BUCKETS = 8;
+
+// Index order of the WeightSource enum in the contract, after None
+const WEIGHT_SOURCES: WeightSource[] = ["balance", "votes"];
+
+const WEIGHT_TOKEN_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function CLOCK_MODE() view returns (string)",
+  "function clock() view returns (uint48)"
+];
+
+const PARTICIPATION_MODES: ParticipationMode[] = ["providers", "open", "token", "allowlist"];
+
+const OUTCOMES: Outcome[] = ["unresolved", "yes", "no", "canceled", "option", "value"];
+
+// Same ids as the DAO_ADMIN_ROLE / CREATOR_ROLE / RESOLVER_ROLE constants in the contract
+export const ROLE_IDS: Record<MarketRole, string> = {
+  admin: ethers.id("DAO_ADMIN_ROLE"),
+  creator: ethers.id("CREATOR_ROLE"),
+  resolver: ethers.id("RESOLVER_ROLE")
+};
+
+const parseEvent = (
+  market: DAOPredictMarketFHE,
+  receipt: ethers.TransactionReceipt | null,
+  eventName: string
+): ethers.LogDescription | null => {
+  if (!receipt) throw new Error(`Transaction dropped before ${eventName} was emitted`);
+  // Logs of other contracts, such as the FHE coprocessor's, are skipped rather than decoded with the market's ABI
+  const address = (market.target as string).toLowerCase();
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== address) continue;
+    const parsed = market.interface.parseLog(log);
+    if (parsed && parsed.name === eventName) return parsed;
+  }
+  return null;
+};
+
+const findEvent = (
+  market: DAOPredictMarketFHE,
+  receipt: ethers.TransactionReceipt | null,
+  eventName: string
+): ethers.LogDescription => {
+  const parsed = parseEvent(market, receipt, eventName);
+  if (!parsed) throw new Error(`${eventName} event not found in receipt ${receipt!.hash}`);
+  return parsed;
+};
+
+export async function openBatch(market: DAOPredictMarketFHE): Promise<bigint> {
+  const tx = await market.openBatch();
+  const receipt = await tx.wait();
+  return findEvent(market, receipt, "BatchOpened").args.batchId as bigint;
+}
+
+export async function openMultiOutcomeBatch(market: DAOPredictMarketFHE, outcomeCount: number): Promise<bigint> {
+  const tx = await market.openMultiOutcomeBatch(outcomeCount);
+  const receipt = await tx.wait();
+  return findEvent(market, receipt, "BatchOpened").args.batchId as bigint;
+}
+
+export async function openScalarBatch(market: DAOPredictMarketFHE, range: ScalarRange): Promise<bigint> {
+  const tx = await market.openScalarBatch(range.lowerBound, range.upperBound, range.bucketCount);
+  const receipt = await tx.wait();
+  return findEvent(market, receipt, "BatchOpened").args.batchId as bigint;
+}
+
+// Lowest value counted in each bucket, same arithmetic as getScalarBucketBounds in the contract
+export function scalarBucketBounds(range: ScalarRange): number[] {
+  const width = Math.floor((range.upperBound - range.lowerBound + 1) / range.bucketCount);
+  return Array.from({ length: range.bucketCount }, (_, i) => range.lowerBound + i * width);
+}
+
+export async function configureWeighting(market: DAOPredictMarketFHE, batchId: bigint, weighting: Weighting): Promise<void> {
+  const tx = await market.configureWeighting(
+    batchId,
+    WEIGHT_SOURCES.indexOf(weighting.source) + 1,
+    weighting.token,
+    weighting.snapshot,
+    weighting.unit
+  );
+  const receipt = await tx.wait();
+  findEvent(market, receipt, "WeightingConfigured");
+}
+
+export async function setParticipationPolicy(
+  market: DAOPredictMarketFHE,
+  batchId: bigint,
+  policy: ParticipationPolicy
+): Promise<void> {
+  const tx = await market.setParticipationPolicy(
+    batchId,
+    PARTICIPATION_MODES.indexOf(policy.mode),
+    policy.token,
+    policy.minBalance,
+    policy.allowlistRoot
+  );
+  const receipt = await tx.wait();
+  findEvent(market, receipt, "ParticipationPolicySet");
+}
+
+// Must be set before the first prediction; once endTime passes anyone may close the batch
+export async function setBatchSchedule(market: DAOPredictMarketFHE, batchId: bigint, schedule: BatchSchedule): Promise<void> {
+  const tx = await market.setBatchSchedule(batchId, schedule.startTime, schedule.endTime);
+  const receipt = await tx.wait();
+  findEvent(market, receipt, "BatchScheduled");
+}
+
+// The hash setBatchMetadata stores for a question
+export function questionHash(question: string): string {
+  return ethers.id(question);
+}
+
+// DAO identifiers are stored as bytes32 strings; anything else is shown as raw hex
+export function decodeDao(dao: string): string {
+  try {
+    return ethers.decodeBytes32String(dao);
+  } catch (e) {
+    return dao;
+  }
+}
+
+// Must be set before the first prediction; dao longer than 31 bytes is rejected before sending
+export async function setBatchMetadata(market: DAOPredictMarketFHE, batchId: bigint, metadata: BatchMetadata): Promise<void> {
+  const tx = await market.setBatchMetadata(batchId, {
+    dao: ethers.encodeBytes32String(metadata.dao),
+    proposalChainId: metadata.proposalChainId,
+    governor: metadata.governor ?? ethers.ZeroAddress,
+    proposalId: metadata.proposalId ?? 0n,
+    snapshotId: metadata.snapshotId ?? ethers.ZeroHash,
+    questionHash: metadata.questionHash,
+    metadataURI: metadata.metadataURI
+  });
+  const receipt = await tx.wait();
+  findEvent(market, receipt, "BatchMetadataSet");
+}
+
+// Timestamp of the latest block, which is what the contract compares schedules against
+export async function getChainTime(provider: ethers.Provider): Promise<number> {
+  const block = await provider.getBlock("latest");
+  if (!block) throw new Error("Latest block not available");
+  return block.timestamp;
+}
+
+// allowlistProof is only read on allowlist batches
+export async function getEligibility(
+  market: DAOPredictMarketFHE,
+  batchId: bigint,
+  account: string,
+  allowlistProof: string[] = []
+): Promise<Eligibility> {
+  const [hasPredicted, canPredict] = await Promise.all([
+    market.hasPredicted(batchId, account),
+    market.canPredict(batchId, account, allowlistProof)
+  ]);
+  return { hasPredicted, canPredict };
+}
+
+export async function getWeightToken(runner: ethers.ContractRunner, token: string): Promise<WeightToken> {
+  const contract = new ethers.Contract(token, WEIGHT_TOKEN_ABI, runner);
+  const [symbol, decimals] = await Promise.all([contract.symbol(), contract.decimals()]);
+  return { symbol, decimals: Number(decimals) };
+}
+
+// The timepoints getPastVotes expects: timestamps for "mode=timestamp" tokens, block numbers otherwise
+export async function getTokenClock(provider: ethers.Provider, token: string): Promise<TokenClock> {
+  const contract = new ethers.Contract(token, WEIGHT_TOKEN_ABI, provider);
+  let mode: TokenClockMode = "blocknumber";
+  try {
+    if ((await contract.CLOCK_MODE()) === "mode=timestamp") mode = "timestamp";
+  } catch {
+    // Pre-ERC-6372 tokens checkpoint by block number
+    return { mode, now: BigInt(await provider.getBlockNumber()) };
+  }
+  return { mode, now: await contract.clock() };
+}
+
+export async function closeBatch(market: DAOPredictMarketFHE, batchId: bigint): Promise<void> {
+  const tx = await market.closeBatch(batchId);
+  await tx.wait();
+}
+
+export async function submitPrediction(
+  market: DAOPredictMarketFHE,
+  batchId: bigint,
+  encryptedPrediction: EncryptedInput,
+  stakeWei: bigint = 0n,
+  allowlistProof?: string[]
+): Promise<string> {
+  const tx = allowlistProof
+    ? await market.submitPredictionWithProof(batchId, encryptedPrediction.handle, encryptedPrediction.inputProof, allowlistProof, {
+        value: stakeWei
+      })
+    : await market.submitPrediction(batchId, encryptedPrediction.handle, encryptedPrediction.inputProof, { value: stakeWei });
+  const receipt = await tx.wait();
+  findEvent(market, receipt, "PredictionSubmitted");
+  return receipt!.hash;
+}
+
+// Replaces the caller's active prediction; its stake moves along with it
+export async function updatePrediction(
+  market: DAOPredictMarketFHE,
+  batchId: bigint,
+  encryptedPrediction: EncryptedInput
+): Promise<string> {
+  const tx = await market.updatePrediction(batchId, encryptedPrediction.handle, encryptedPrediction.inputProof);
+  const receipt = await tx.wait();
+  findEvent(market, receipt, "PredictionUpdated");
+  return receipt!.hash;
+}
+
+// Withdraws the caller's active prediction and returns the refunded stake in wei
+export async function revokePrediction(market: DAOPredictMarketFHE, batchId: bigint): Promise<bigint> {
+  const tx = await market.revokePrediction(batchId);
+  const receipt = await tx.wait();
+  return findEvent(market, receipt, "PredictionRevoked").args.refund as bigint;
+}
+
+export async function requestBatchResultDecryption(market: DAOPredictMarketFHE, batchId: bigint): Promise<bigint> {
+  const tx = await market.requestBatchResultDecryption(batchId);
+  const receipt = await tx.wait();
+  return findEvent(market, receipt, "DecryptionRequested").args.requestId as bigint;
+}
+
+export async function resolveMarket(
+  market: DAOPredictMarketFHE,
+  batchId: bigint,
+  outcomeYes: boolean
+): Promise<bigint | null> {
+  const tx = await market.resolveMarket(batchId, outcomeYes);
+  const receipt = await tx.wait();
+  // Null when nothing was staked and the winning pool was revealed without a decryption request
+  return parseEvent(market, receipt, "WinningPoolRequested")?.args.requestId ?? null;
+}
+
+export async function resolveMultiOutcomeMarket(
+  market: DAOPredictMarketFHE,
+  batchId: bigint,
+  winningOutcome: number
+): Promise<bigint | null> {
+  const tx = await market.resolveMultiOutcomeMarket(batchId, winningOutcome);
+  const receipt = await tx.wait();
+  return parseEvent(market, receipt, "WinningPoolRequested")?.args.requestId ?? null;
+}
+
+export async function resolveScalarMarket(market: DAOPredictMarketFHE, batchId: bigint, value: number): Promise<void> {
+  const tx = await market.resolveScalarMarket(batchId, value);
+  const receipt = await tx.wait();
+  findEvent(market, receipt, "MarketResolvedToValue");
+}
+
+export async function cancelMarket(market: DAOPredictMarketFHE, batchId: bigint): Promise<void> {
+  const tx = await market.cancelMarket(batchId);
+  const receipt = await tx.wait();
+  findEvent(market, receipt, "MarketCanceled");
+}
+
+export async function claimPayout(market: DAOPredictMarketFHE, batchId: bigint): Promise<bigint | null> {
+  const tx = await market.claim(batchId);
+  const receipt = await tx.wait();
+  // Null when nobody backed the outcome and the deposit was refunded immediately
+  return parseEvent(market, receipt, "ClaimRequested")?.args.requestId ?? null;
+}
+
+export async function getPosition(market: DAOPredictMarketFHE, batchId: bigint, user: string): Promise<Position> {
+  const [position, outcomeStakes, prediction, claimRequestId] = await Promise.all([
+    market.positions(batchId, user),
+    market.getOutcomeStakes(batchId, user),
+    market.getCurrentPrediction(batchId, user),
+    market.latestClaimRequests(batchId, user)
+  ]);
+  const claimRequest = await market.claimRequests(claimRequestId);
+  const claimWaiting = claimRequest.claimant.toLowerCase() === user.toLowerCase() && claimRequest.batchId === batchId && !claimRequest.processed;
+  return {
+    encryptedPrediction: prediction,
+    encryptedYesStake: position.yesStake,
+    encryptedNoStake: position.noStake,
+    encryptedOutcomeStakes: [...outcomeStakes],
+    deposit: position.deposit,
+    claimed: position.claimed,
+    claimPendingUntil: claimWaiting ? Number(claimRequest.expiresAt) : null
+  };
+}
+
+export async function getSettlement(market: DAOPredictMarketFHE, batchId: bigint): Promise<Settlement> {
+  const [outcome, winningOutcome, resolvedValue, pool, winningPool, winningPoolRevealed] = await Promise.all([
+    market.batchOutcomes(batchId),
+    market.winningOutcomes(batchId),
+    market.resolvedValues(batchId),
+    market.batchPools(batchId),
+    market.winningPools(batchId),
+    market.winningPoolRevealed(batchId)
+  ]);
+  const resolved = OUTCOMES[Number(outcome)];
+  return {
+    outcome: resolved,
+    winningOutcome: resolved === "option" ? Number(winningOutcome) : null,
+    resolvedValue: resolved === "value" ? Number(resolvedValue) : null,
+    pool,
+    winningPool,
+    winningPoolRevealed
+  };
+}
+
+export async function getBatch(market: DAOPredictMarketFHE, batchId: bigint): Promise<BatchState> {
+  const [
+    creator,
+    isOpen,
+    outcome,
+    submissions,
+    encryptedYes,
+    encryptedNo,
+    outcomeCount,
+    encryptedOutcomeCounts,
+    range,
+    encryptedScalarSum,
+    encryptedHistogram,
+    weighting,
+    encryptedYesWeight,
+    encryptedNoWeight,
+    encryptedOutcomeWeights,
+    participation,
+    schedule,
+    metadata
+  ] = await Promise.all([
+    market.batchCreators(batchId),
+    market.isBatchOpen(batchId),
+    market.batchOutcomes(batchId),
+    market.submissionsInBatch(batchId),
+    market.encryptedYesCounts(batchId),
+    market.encryptedNoCounts(batchId),
+    market.batchOutcomeCounts(batchId),
+    market.getOutcomeCounts(batchId),
+    market.scalarRanges(batchId),
+    market.getScalarSum(batchId),
+    market.getScalarHistogram(batchId),
+    market.batchWeightings(batchId),
+    market.encryptedYesWeights(batchId),
+    market.encryptedNoWeights(batchId),
+    market.getOutcomeWeights(batchId),
+    market.participationPolicies(batchId),
+    market.batchSchedules(batchId),
+    market.getBatchMetadata(batchId)
+  ]);
+  const governed = metadata.governor !== ethers.ZeroAddress;
+  const weighted = weighting.source > 0n;
+  return {
+    batchId,
+    creator,
+    isOpen,
+    outcome: OUTCOMES[Number(outcome)],
+    submissions,
+    encryptedYes,
+    encryptedNo,
+    outcomeCount: Number(outcomeCount),
+    encryptedOutcomeCounts: [...encryptedOutcomeCounts],
+    scalarRange: range.bucketCount > 0n
+      ? { lowerBound: Number(range.lowerBound), upperBound: Number(range.upperBound), bucketCount: Number(range.bucketCount) }
+      : null,
+    encryptedScalarSum,
+    encryptedHistogram: [...encryptedHistogram],
+    weighting: weighted
+      ? { source: WEIGHT_SOURCES[Number(weighting.source) - 1], token: weighting.token, snapshot: weighting.snapshot, unit: weighting.unit }
+      : null,
+    encryptedWeights: !weighted ? [] : outcomeCount > 0n ? [...encryptedOutcomeWeights] : [encryptedYesWeight, encryptedNoWeight],
+    participation: {
+      mode: PARTICIPATION_MODES[Number(participation.mode)],
+      token: participation.token,
+      minBalance: participation.minBalance,
+      allowlistRoot: participation.allowlistRoot
+    },
+    schedule: schedule.endTime > 0n ? { startTime: Number(schedule.startTime), endTime: Number(schedule.endTime) } : null,
+    metadata: metadata.dao !== ethers.ZeroHash
+      ? {
+          dao: decodeDao(metadata.dao),
+          proposalChainId: Number(metadata.proposalChainId),
+          governor: governed ? metadata.governor : null,
+          proposalId: governed ? metadata.proposalId : null,
+          snapshotId: governed ? null : metadata.snapshotId,
+          questionHash: metadata.questionHash,
+          metadataURI: metadata.metadataURI
+        }
+      : null
+  };
+}
+
+export async function getAccountRoles(market: DAOPredictMarketFHE, account: string): Promise<AccountRoles> {
+  const [owner, isAdmin, isCreator, isResolver] = await Promise.all([
+    market.owner(),
+    market.isAdmin(account),
+    market.hasRole(ROLE_IDS.creator, account),
+    market.hasRole(ROLE_IDS.resolver, account)
+  ]);
+  // Admins (and the owner) may do anything a creator or resolver can
+  return {
+    isOwner: owner.toLowerCase() === account.toLowerCase(),
+    isAdmin,
+    isCreator: isAdmin || isCreator,
+    isResolver: isAdmin || isResolver
+  };
+}
+
+export async function grantRole(market: DAOPredictMarketFHE, role: MarketRole, account: string): Promise<void> {
+  const tx = await market.grantRole(ROLE_IDS[role], account);
+  await tx.wait();
+}
+
+export async function revokeRole(market: DAOPredictMarketFHE, role: MarketRole, account: string): Promise<void> {
+  const tx = await market.revokeRole(ROLE_IDS[role], account);
+  await tx.wait();
+}
+
+export async function listBatches(market: DAOPredictMarketFHE): Promise<BatchState[]> {
+  const nextBatchId = await market.nextBatchId();
+  const ids: bigint[] = [];
+  for (let id = 1n; id < nextBatchId; id++) ids.push(id);
+  return Promise.all(ids.map(id => getBatch(market, id)));
+}
+
+export function decodeDecryptionCompleted(
+  market: DAOPredictMarketFHE,
+  log: ethers.Log
+): DecryptionResult | null {
+  let parsed: ethers.LogDescription | null = null;
+  try {
+    parsed = market.interface.parseLog(log);
+  } catch (e) {
+    return null;
+  }
+  if (!parsed || parsed.name !== "DecryptionCompleted") return null;
+  return {
+    requestId: parsed.args.requestId,
+    batchId: parsed.args.batchId,
+    totalYes: parsed.args.totalYes,
+    totalNo: parsed.args.totalNo,
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash
+  };
+}
+
+// Pass the network's deployBlock as `fromBlock`: public RPCs reject log ranges from genesis
+export async function fetchDecryptionResults(
+  market: DAOPredictMarketFHE,
+  fromBlock: number,
+  batchId?: bigint
+): Promise<DecryptionResult[]> {
+  const filter = market.filters.DecryptionCompleted(undefined, batchId);
+  const logs = await market.queryFilter(filter, fromBlock);
+  return logs
+    .map(log => decodeDecryptionCompleted(market, log))
+    .filter((result): result is DecryptionResult => result !== null);
+}
+
+// Latest sum and histogram published by the oracle for a scalar batch, or null before the first decryption
+export async function fetchScalarResult(
+  market: DAOPredictMarketFHE,
+  batchId: bigint,
+  fromBlock: number
+): Promise<ScalarResult | null> {
+  const logs = await market.queryFilter(market.filters.ScalarResultsDecrypted(undefined, batchId), fromBlock);
+  const latest = logs[logs.length - 1];
+  if (!latest) return null;
+  return {
+    requestId: latest.args.requestId,
+    batchId: latest.args.batchId,
+    sum: latest.args.sum,
+    histogram: [...latest.args.histogram],
+    blockNumber: latest.blockNumber
+  };
+}
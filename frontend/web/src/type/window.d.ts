@@ -1,14 +1,32 @@
-// src/types.d.ts
+// src/type/window.d.ts
+// EIP-1193 interface of injected wallets; ethers.BrowserProvider accepts it as is
+interface Eip1193RequestArguments {
+  method: string;
+  params?: unknown[] | Record<string, unknown>;
+}
+
+interface Eip1193Provider {
+  request(args: Eip1193RequestArguments): Promise<unknown>;
+  on?(event: string, listener: (...args: unknown[]) => void): void;
+  removeListener?(event: string, listener: (...args: unknown[]) => void): void;
+}
+
+// Error a wallet rejects a request with, e.g. 4902 for a chain it does not know
+interface Eip1193ProviderError extends Error {
+  code: number;
+}
+
+interface InjectedWallet extends Eip1193Provider {
+  isMetaMask?: boolean;
+  isOkxWallet?: boolean;
+  isTrust?: boolean;
+  isCoinbaseWallet?: boolean;
+  selectedAddress?: string;
+  chainId?: string;
+}
+
 interface Window {
-  ethereum?: {
-    isMetaMask?: boolean;
-    isOkxWallet?: boolean;
-    isTrust?: boolean;
-    isCoinbaseWallet?: boolean;
-    request: (request: { method: string; params?: any[] }) => Promise<any>;
-    on: (event: string, handler: (...args: any[]) => void) => void;
-    removeListener: (event: string, handler: (...args: any[]) => void) => void;
-    selectedAddress?: string;
-    chainId?: string;
-  };
-}
\ No newline at end of file
+  ethereum?: InjectedWallet;
+  okxwallet?: InjectedWallet;
+  BinanceChain?: InjectedWallet;
+}
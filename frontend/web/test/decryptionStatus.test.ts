@@ -0,0 +1,114 @@
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import {
+  DECRYPTION_TIMEOUT_SECONDS,
+  decryptionStatus,
+  fetchBatchDecryptions,
+  fetchBatchResult
+} from "../src/sdk/decryptionStatus";
+import type { DAOPredictMarketFHE } from "../../../types";
+
+interface StubLog {
+  blockNumber: number;
+  index: number;
+  transactionHash: string;
+  args: Record<string, unknown>;
+}
+
+const GENESIS_TIME = 1_700_000_000;
+const blockTime = (blockNumber: number) => GENESIS_TIME + blockNumber * 12;
+
+const log = (blockNumber: number, args: Record<string, unknown> = {}): StubLog => ({
+  blockNumber,
+  index: 0,
+  transactionHash: ethers.id(`${blockNumber}`),
+  args
+});
+
+// Answers each event filter with the logs listed under its name from `fromBlock` on. Without
+// `stored`, getBatchResult reverts like on markets that predate it.
+const stubMarket = (logs: Record<string, StubLog[]>, stored?: Record<string, unknown>) =>
+  ({
+    filters: new Proxy({}, { get: (_, event) => () => event }),
+    queryFilter: async (event: string, fromBlock: number) =>
+      (logs[event] ?? []).filter(entry => entry.blockNumber >= fromBlock),
+    getBatchResult: async () => {
+      if (!stored) throw Object.assign(new Error("missing revert data"), { code: "CALL_EXCEPTION" });
+      return stored;
+    },
+    runner: { provider: { getBlock: async (blockNumber: number) => ({ timestamp: blockTime(blockNumber) }) } }
+  }) as unknown as DAOPredictMarketFHE;
+
+describe("Decryption status", function () {
+  const firstRequest = log(10, { requestId: 1n });
+  // A new request is accepted once the first one has expired, and replaces it
+  const retryBlock = 10 + DECRYPTION_TIMEOUT_SECONDS / 12;
+  const retry = log(retryBlock, { requestId: 2n });
+  const expiry = log(retryBlock, { requestId: 1n });
+  const completion = log(retryBlock + 2, { requestId: 2n, totalYes: 3n, totalNo: 1n });
+
+  it("is pending while the oracle may still answer, then failed", async function () {
+    const [request] = await fetchBatchDecryptions(stubMarket({ DecryptionRequested: [firstRequest] }), 1n, 0);
+
+    expect(request.requestedAt).to.eq(blockTime(10));
+    expect(request.expiresAt).to.eq(blockTime(10) + DECRYPTION_TIMEOUT_SECONDS);
+    expect(decryptionStatus(request, request.expiresAt - 1)).to.eq("pending");
+    expect(decryptionStatus(request, request.expiresAt)).to.eq("failed");
+  });
+
+  it("marks a replaced request failed and follows its replacement to completion", async function () {
+    const requested = await fetchBatchDecryptions(
+      stubMarket({ DecryptionRequested: [firstRequest, retry], DecryptionRequestExpired: [expiry] }),
+      1n,
+      0
+    );
+    expect(requested.map(d => d.requestId)).to.deep.eq([1n, 2n]);
+    expect(requested[0].replaced).to.eq(true);
+    // Replaced requests stay failed whatever the clock says
+    expect(decryptionStatus(requested[0], requested[0].requestedAt)).to.eq("failed");
+    expect(decryptionStatus(requested[1], blockTime(retryBlock))).to.eq("pending");
+
+    const completed = await fetchBatchDecryptions(
+      stubMarket({
+        DecryptionRequested: [firstRequest, retry],
+        DecryptionRequestExpired: [expiry],
+        DecryptionCompleted: [completion]
+      }),
+      1n,
+      0
+    );
+    const latest = completed[1];
+    expect(decryptionStatus(latest, latest.expiresAt + 1)).to.eq("complete");
+    expect(latest.completedBlock).to.eq(retryBlock + 2);
+    expect(latest.tallies).to.deep.eq([3n, 1n]);
+    expect(decryptionStatus(completed[0], latest.expiresAt + 1)).to.eq("failed");
+  });
+
+  it("ignores requests made before the start block", async function () {
+    const requested = await fetchBatchDecryptions(
+      stubMarket({ DecryptionRequested: [firstRequest, retry], DecryptionRequestExpired: [expiry] }),
+      1n,
+      retryBlock
+    );
+    expect(requested.map(d => d.requestId)).to.deep.eq([2n]);
+  });
+
+  it("reads the stored result, or rebuilds it from the logs on older markets", async function () {
+    const logs = {
+      DecryptionRequested: [firstRequest, retry],
+      DecryptionRequestExpired: [expiry],
+      DecryptionCompleted: [completion]
+    };
+    expect(await fetchBatchResult(stubMarket(logs), 1n, 0)).to.deep.eq({
+      requestId: 2n,
+      tallies: [3n, 1n],
+      weights: [],
+      scalarSum: 0n,
+      source: "logs"
+    });
+
+    const stored = { revealed: true, requestId: 2n, tallies: [3n, 1n], weights: [], scalarSum: 0n };
+    expect((await fetchBatchResult(stubMarket(logs, stored), 1n, 0))?.source).to.eq("storage");
+    expect(await fetchBatchResult(stubMarket({}, { ...stored, revealed: false }), 1n, 0)).to.eq(null);
+  });
+});
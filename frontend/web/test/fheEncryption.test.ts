@@ -0,0 +1,132 @@
+import { ethers } from "ethers";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { FheBackend } from "../src/sdk/fheEncryption";
+
+const relayerSdk = vi.hoisted(() => ({
+  initSDK: vi.fn(async () => true),
+  createInstance: vi.fn(async (config: Record<string, unknown>) => ({ kind: "relayer", config })),
+  SepoliaConfig: { aclContractAddress: "0x00000000000000000000000000000000000000a1" }
+}));
+const mockUtils = vi.hoisted(() => ({
+  MockFhevmInstance: { create: vi.fn(async (...args: unknown[]) => ({ kind: "hardhat-mock", args })) }
+}));
+vi.mock("@zama-fhe/relayer-sdk/web", () => relayerSdk);
+vi.mock("@fhevm/mock-utils", () => mockUtils);
+
+// The backend and session caches live at module level, so every test starts from a fresh copy
+const loadModule = async () => {
+  vi.resetModules();
+  return import("../src/sdk/fheEncryption");
+};
+
+describe("FHE backend", function () {
+  const wallet = { request: vi.fn() };
+
+  beforeEach(function () {
+    vi.stubGlobal("window", { ethereum: wallet });
+    vi.spyOn(ethers.JsonRpcProvider.prototype, "getNetwork").mockResolvedValue(new ethers.Network("localhost", 31337n));
+    vi.spyOn(ethers.JsonRpcProvider.prototype, "send").mockResolvedValue({
+      ACLAddress: "0x00000000000000000000000000000000000000b1",
+      KMSVerifierAddress: "0x00000000000000000000000000000000000000b2",
+      InputVerifierAddress: "0x00000000000000000000000000000000000000b3"
+    });
+  });
+
+  afterEach(function () {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it("builds the relayer SDK instance on the injected wallet", async function () {
+    const { getFheBackend } = await loadModule();
+
+    const backend = (await getFheBackend("relayer")) as unknown as { kind: string; config: Record<string, unknown> };
+
+    expect(backend.kind).to.eq("relayer");
+    expect(relayerSdk.initSDK).toHaveBeenCalledTimes(1);
+    expect(backend.config.network).to.eq(wallet);
+    expect(backend.config.aclContractAddress).to.eq(relayerSdk.SepoliaConfig.aclContractAddress);
+    expect(mockUtils.MockFhevmInstance.create).not.toHaveBeenCalled();
+  });
+
+  it("builds the hardhat mock from the node's relayer metadata", async function () {
+    const { getFheBackend } = await loadModule();
+
+    const backend = (await getFheBackend("hardhat-mock")) as unknown as { kind: string; args: unknown[] };
+
+    expect(backend.kind).to.eq("hardhat-mock");
+    expect(backend.args[2]).toMatchObject({
+      aclContractAddress: "0x00000000000000000000000000000000000000b1",
+      kmsContractAddress: "0x00000000000000000000000000000000000000b2",
+      inputVerifierContractAddress: "0x00000000000000000000000000000000000000b3",
+      chainId: 31337
+    });
+    expect(relayerSdk.createInstance).not.toHaveBeenCalled();
+  });
+
+  it("creates the backend once and again only after a failure", async function () {
+    const { getFheBackend } = await loadModule();
+    relayerSdk.createInstance.mockRejectedValueOnce(new Error("relayer unreachable"));
+
+    await expect(getFheBackend("relayer")).rejects.toThrow("relayer unreachable");
+    const backend = await getFheBackend("relayer");
+    expect(await getFheBackend("relayer")).to.eq(backend);
+    expect(relayerSdk.createInstance).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("User decryption sessions", function () {
+  const market = "0x00000000000000000000000000000000000000c1";
+  const registry = "0x00000000000000000000000000000000000000C2";
+
+  const fakeBackend = () =>
+    ({
+      generateKeypair: vi.fn(() => ({ publicKey: "0xpublic", privateKey: "0xprivate" })),
+      createEIP712: vi.fn(() => ({ domain: {}, types: { UserDecryptRequestVerification: [] }, message: {} }))
+    }) as unknown as FheBackend;
+
+  const fakeSigner = (address: string) => {
+    let signed = 0;
+    const signTypedData = vi.fn(async () => ethers.id(`signature ${++signed}`));
+    return { signer: { getAddress: async () => address, signTypedData } as unknown as ethers.Signer, signTypedData };
+  };
+
+  afterEach(function () {
+    vi.useRealTimers();
+  });
+
+  it("reuses a signed session for the same account and contracts", async function () {
+    const { getUserDecryptSession } = await loadModule();
+    const backend = fakeBackend();
+    const { signer, signTypedData } = fakeSigner(ethers.Wallet.createRandom().address);
+
+    const session = await getUserDecryptSession(backend, signer, [market, registry]);
+    expect(await getUserDecryptSession(backend, signer, [registry.toLowerCase(), market])).to.eq(session);
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+
+    const other = await getUserDecryptSession(backend, signer, [market]);
+    expect(other).not.to.eq(session);
+    expect(signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it("asks for a new signature once the session has expired", async function () {
+    const { getUserDecryptSession, isSessionExpired } = await loadModule();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    const backend = fakeBackend();
+    const { signer, signTypedData } = fakeSigner(ethers.Wallet.createRandom().address);
+
+    const session = await getUserDecryptSession(backend, signer, [market]);
+    vi.setSystemTime(new Date("2026-01-01T23:59:59Z"));
+    expect(isSessionExpired(session)).to.eq(false);
+    expect(await getUserDecryptSession(backend, signer, [market])).to.eq(session);
+
+    vi.setSystemTime(new Date("2026-01-02T00:00:00Z"));
+    expect(isSessionExpired(session)).to.eq(true);
+    const renewed = await getUserDecryptSession(backend, signer, [market]);
+    expect(renewed).not.to.eq(session);
+    expect(renewed.startTimestamp).to.eq(Date.parse("2026-01-02T00:00:00Z") / 1000);
+    expect(signTypedData).toHaveBeenCalledTimes(2);
+  });
+});
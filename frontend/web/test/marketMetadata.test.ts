@@ -0,0 +1,78 @@
+import fs from "fs";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { ethers } from "ethers";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  canonicalJson,
+  computeCid,
+  createHttpStore,
+  createIpfsStore,
+  createMarketDescription,
+  publishMarketDescription
+} from "../src/sdk/marketMetadata";
+import { createFileStore, createMetadataServer, computeCid as computeServerCid, encodeMarketDescription } from "../../../src/metadata";
+
+describe("Market metadata stores", function () {
+  let dir: string;
+  let server: ReturnType<typeof createMetadataServer>;
+  let base: string;
+
+  const description = createMarketDescription({
+    daoName: "Uniswap",
+    proposalTitle: "Diversify 10% of the treasury into stablecoins",
+    category: "Treasury",
+    creator: ethers.ZeroAddress,
+    batchId: "1",
+    endTime: 1700000000,
+    outcomes: ["Yes", "No", "Abstain"]
+  });
+
+  beforeEach(async function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "frontend-metadata-"));
+    server = createMetadataServer(createFileStore(dir));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async function () {
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it("computes the same CIDs as ipfs add and the contracts package", function () {
+    expect(computeCid(new Uint8Array())).to.eq("bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku");
+    expect(computeCid(ethers.toUtf8Bytes("hello world"))).to.eq(
+      "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e"
+    );
+    expect(computeCid(ethers.toUtf8Bytes(canonicalJson(description)))).to.eq(
+      computeServerCid(encodeMarketDescription(description))
+    );
+  });
+
+  it("encodes equal descriptions to the same bytes whatever their key order", function () {
+    expect(canonicalJson({ b: [2, { d: 1, c: undefined }], a: "x" })).to.eq('{"a":"x","b":[2,{"d":1}]}');
+    const reordered = Object.fromEntries(Object.entries(description).reverse());
+    expect(canonicalJson(reordered)).to.eq(canonicalJson(description));
+  });
+
+  it("publishes to the dev-stack stand-in and reads the content back", async function () {
+    const store = createHttpStore(base);
+    const cid = await publishMarketDescription(store, description);
+
+    expect(fs.existsSync(path.join(dir, cid))).to.eq(true);
+    expect(ethers.toUtf8String(await store.get(cid))).to.eq(canonicalJson(description));
+  });
+
+  it("refuses CIDs it would not be able to verify", async function () {
+    await expect(createHttpStore(base).get("../secrets")).rejects.toThrow("is not a raw sha2-256 CIDv1");
+    await expect(createHttpStore(base).get(computeCid(new Uint8Array()))).rejects.toThrow("answered 404");
+  });
+
+  it("needs an IPFS API to pin through the gateway store", async function () {
+    await expect(publishMarketDescription(createIpfsStore(base, ""), description)).rejects.toThrow(
+      "No IPFS API is configured"
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import { canonicalJson, computeCid, createMarketDescription, MetadataStore } from "../src/sdk/marketMetadata";
+import {
+  decodeMarketRecord,
+  loadMarketRecord,
+  MarketRecordError,
+  upgradeMarketRecord,
+  validateMarketDescription
+} from "../src/sdk/marketRecord";
+import type { RegistryMarket } from "../src/sdk/marketRegistry";
+
+const description = createMarketDescription({
+  daoName: "Aave",
+  proposalTitle: "Onboard a new collateral asset",
+  category: "Risk",
+  creator: "0x0000000000000000000000000000000000000001",
+  batchId: "3",
+  endTime: 1700000000,
+  weightSymbol: "AAVE",
+  weightClock: "timestamp"
+});
+
+const kindOf = (fn: () => unknown): string | undefined => {
+  try {
+    fn();
+  } catch (e) {
+    if (e instanceof MarketRecordError) return e.kind;
+    throw e;
+  }
+  return undefined;
+};
+
+const entry = (data: string): RegistryMarket => ({
+  marketId: 1n,
+  key: "aave-collateral",
+  creator: description.creator,
+  batchId: 3n,
+  createdAt: 0,
+  data: ethers.hexlify(ethers.toUtf8Bytes(data))
+});
+
+// Serves fixed content whatever the CID, so tests can hand out content that does not match
+const fixedStore = (content: Uint8Array | null): MetadataStore => ({
+  put: async () => { throw new Error("read-only"); },
+  get: async cid => {
+    if (!content) throw new Error(`${cid} not found`);
+    return content;
+  }
+});
+
+describe("Market records", function () {
+  it("accepts descriptions that follow the schema", function () {
+    expect(validateMarketDescription({ ...description })).to.deep.eq(description);
+  });
+
+  it("rejects missing, mistyped and unknown fields", function () {
+    const { daoName, ...missing } = description;
+    expect(kindOf(() => validateMarketDescription(missing))).to.eq("invalid-field");
+    expect(kindOf(() => validateMarketDescription({ ...description, weightClock: "slot" }))).to.eq("invalid-field");
+    expect(kindOf(() => validateMarketDescription({ ...description, outcomes: ["Only one"] }))).to.eq("invalid-field");
+    expect(kindOf(() => validateMarketDescription({ ...description, status: "settled" }))).to.eq("invalid-field");
+    expect(kindOf(() => validateMarketDescription([description]))).to.eq("malformed");
+  });
+
+  it("upgrades inline version 0 records and keeps their settlement", function () {
+    const record = upgradeMarketRecord(
+      {
+        daoName: "Aave",
+        proposalTitle: "Onboard a new collateral asset",
+        creator: description.creator,
+        batchId: 3,
+        endTime: 1700000000,
+        status: "settled",
+        outcome: "yes",
+        encryptedYesVotes: "0x",
+        encryptedNoVotes: "0x"
+      },
+      null
+    );
+
+    expect(record.storedVersion).to.eq(0);
+    expect(record.legacyStatus).to.eq("settled");
+    expect(record.legacyOutcome).to.eq("yes");
+    expect(record.description.category).to.eq("Governance");
+    expect(record.description.batchId).to.eq("3");
+    expect(record.description).to.not.have.property("encryptedYesVotes");
+  });
+
+  it("rejects records of other schemas and newer versions", function () {
+    expect(kindOf(() => upgradeMarketRecord({ ...description, schema: "something-else" }, null))).to.eq("unknown-schema");
+    expect(kindOf(() => upgradeMarketRecord({ ...description, version: 2 }, null))).to.eq("unsupported-version");
+    expect(kindOf(() => decodeMarketRecord(ethers.toUtf8Bytes("{not json"), null))).to.eq("malformed");
+  });
+
+  it("loads inline records and descriptions behind a CID", async function () {
+    const inline = await loadMarketRecord(fixedStore(null), entry(JSON.stringify({ ...description })));
+    expect(inline.cid).to.eq(null);
+    expect(inline.description).to.deep.eq(description);
+
+    const content = ethers.toUtf8Bytes(canonicalJson(description));
+    const cid = computeCid(content);
+    const published = await loadMarketRecord(fixedStore(content), entry(cid));
+    expect(published.cid).to.eq(cid);
+    expect(published.storedVersion).to.eq(1);
+    expect(published.description).to.deep.eq(description);
+  });
+
+  it("reports unreachable and tampered descriptions", async function () {
+    const cid = computeCid(ethers.toUtf8Bytes(canonicalJson(description)));
+    const tampered = ethers.toUtf8Bytes(canonicalJson({ ...description, daoName: "Someone else" }));
+
+    await expect(loadMarketRecord(fixedStore(null), entry(cid))).rejects.toMatchObject({ kind: "unavailable" });
+    await expect(loadMarketRecord(fixedStore(tampered), entry(cid))).rejects.toMatchObject({ kind: "cid-mismatch" });
+  });
+});
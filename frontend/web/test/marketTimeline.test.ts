@@ -0,0 +1,100 @@
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import { fetchBatchTimeline } from "../src/sdk/marketTimeline";
+import type { DAOPredictMarketFHE } from "../../../types";
+
+interface StubLog {
+  blockNumber: number;
+  index: number;
+  transactionHash: string;
+  args: Record<string, unknown>;
+}
+
+const log = (blockNumber: number, index: number, args: Record<string, unknown> = {}): StubLog => ({
+  blockNumber,
+  index,
+  transactionHash: ethers.id(`${blockNumber}:${index}`),
+  args
+});
+
+// Answers each event filter with the logs listed under its name from `fromBlock` on; blocks are 12
+// seconds apart
+const stubMarket = (logs: Record<string, StubLog[]>, fetchedBlocks: number[] = []) =>
+  ({
+    filters: new Proxy({}, { get: (_, event) => () => event }),
+    queryFilter: async (event: string, fromBlock: number) =>
+      (logs[event] ?? []).filter(entry => entry.blockNumber >= fromBlock),
+    runner: {
+      provider: {
+        getBlock: async (blockNumber: number) => {
+          fetchedBlocks.push(blockNumber);
+          return { timestamp: 1_700_000_000 + blockNumber * 12 };
+        }
+      }
+    }
+  }) as unknown as DAOPredictMarketFHE;
+
+describe("Market timeline", function () {
+  it("lists the batch's lifecycle oldest first", async function () {
+    const market = stubMarket({
+      MarketResolvedToOutcome: [log(9, 0, { winningOutcome: 1n })],
+      BatchOpened: [log(1, 0)],
+      BatchClosed: [log(5, 2)],
+      DecryptionRequested: [log(5, 3, { requestId: 7n })],
+      OutcomeTalliesDecrypted: [log(6, 0, { requestId: 7n })],
+      BatchScheduled: [log(1, 1, { startTime: 0n, endTime: 1_700_000_600n })]
+    });
+
+    const timeline = await fetchBatchTimeline(market, 1n, 0, ["Alpha", "Beta"]);
+
+    expect(timeline.map(event => event.kind)).to.deep.eq([
+      "opened",
+      "scheduled",
+      "closed",
+      "decryption-requested",
+      "decryption-completed",
+      "resolved"
+    ]);
+    expect(timeline[1].detail).to.match(/^until /);
+    expect(timeline[3].detail).to.eq("request #7");
+    expect(timeline[5].detail).to.eq("Beta");
+    expect(timeline[5].timestamp).to.eq(1_700_000_000 + 9 * 12);
+  });
+
+  it("describes yes/no, value and canceled resolutions", async function () {
+    const canceledBy = ethers.getAddress("0x00000000000000000000000000000000000000aa");
+    const [yesNo, value, canceled] = await Promise.all([
+      fetchBatchTimeline(stubMarket({ MarketResolved: [log(2, 0, { outcomeYes: false })] }), 1n, 0),
+      fetchBatchTimeline(stubMarket({ MarketResolvedToValue: [log(2, 0, { value: 42n })] }), 1n, 0),
+      fetchBatchTimeline(stubMarket({ MarketCanceled: [log(2, 0, { canceledBy })] }), 1n, 0)
+    ]);
+
+    expect(yesNo[0].detail).to.eq("No");
+    expect(value[0].detail).to.eq("value 42");
+    expect(canceled[0].detail).to.eq(`by ${canceledBy}`);
+  });
+
+  it("fetches every block once however many events it holds", async function () {
+    const fetchedBlocks: number[] = [];
+    const market = stubMarket(
+      {
+        BatchClosed: [log(4, 0)],
+        DecryptionRequested: [log(4, 1, { requestId: 1n })],
+        DecryptionRequestExpired: [log(8, 0, { requestId: 1n })]
+      },
+      fetchedBlocks
+    );
+
+    await fetchBatchTimeline(market, 1n, 0);
+
+    expect(fetchedBlocks.sort()).to.deep.eq([4, 8]);
+  });
+
+  it("starts scanning at the given block", async function () {
+    const market = stubMarket({ BatchOpened: [log(3, 0)], BatchClosed: [log(12, 0)] });
+
+    const timeline = await fetchBatchTimeline(market, 1n, 10);
+
+    expect(timeline.map(event => event.blockNumber)).to.deep.eq([12]);
+  });
+});
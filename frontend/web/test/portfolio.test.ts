@@ -0,0 +1,62 @@
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import { ClearStakes, expectedPayout, predictionLabel, predictionResult } from "../src/sdk/portfolio";
+import type { Position, Settlement } from "../src/sdk/predictMarket";
+
+const position: Position = {
+  encryptedPrediction: ethers.hexlify(ethers.randomBytes(32)),
+  encryptedYesStake: ethers.ZeroHash,
+  encryptedNoStake: ethers.ZeroHash,
+  encryptedOutcomeStakes: [],
+  deposit: ethers.parseEther("1"),
+  claimed: false,
+  claimPendingUntil: null
+};
+
+const settlement = (fields: Partial<Settlement>): Settlement => ({
+  outcome: "unresolved",
+  winningOutcome: null,
+  resolvedValue: null,
+  pool: ethers.parseEther("10"),
+  winningPool: ethers.parseEther("4"),
+  winningPoolRevealed: true,
+  ...fields
+});
+
+const stakes: ClearStakes = { yes: ethers.parseEther("1"), no: 0n, options: [0n, ethers.parseEther("2"), 0n] };
+
+describe("Portfolio", function () {
+  it("labels predictions in the batch's own terms", function () {
+    expect(predictionLabel({ options: [], range: null, unit: "" }, 1n)).to.eq("Yes");
+    expect(predictionLabel({ options: [], range: null, unit: "" }, 0n)).to.eq("No");
+    expect(predictionLabel({ options: ["A", "B"], range: null, unit: "" }, 1n)).to.eq("B");
+    expect(predictionLabel({ options: ["A", "B"], range: null, unit: "" }, 5n)).to.eq("No listed option");
+    expect(predictionLabel({ options: [], range: { lowerBound: 0, upperBound: 100, bucketCount: 4 }, unit: "%" }, 42n)).to.eq("42 %");
+  });
+
+  it("decides won and lost only once a side won", function () {
+    expect(predictionResult(settlement({ outcome: "yes" }), 1n)).to.eq("won");
+    expect(predictionResult(settlement({ outcome: "yes" }), 0n)).to.eq("lost");
+    expect(predictionResult(settlement({ outcome: "no" }), 0n)).to.eq("won");
+    expect(predictionResult(settlement({ outcome: "option", winningOutcome: 2 }), 2n)).to.eq("won");
+    expect(predictionResult(settlement({ outcome: "option", winningOutcome: 2 }), 1n)).to.eq("lost");
+    expect(predictionResult(settlement({ outcome: "unresolved" }), 1n)).to.eq(null);
+    expect(predictionResult(settlement({ outcome: "canceled" }), 1n)).to.eq(null);
+    expect(predictionResult(settlement({ outcome: "value", resolvedValue: 42 }), 42n)).to.eq(null);
+  });
+
+  it("pays the winning stake's share of the pool", function () {
+    expect(expectedPayout(position, settlement({ outcome: "yes" }), stakes)).to.eq(ethers.parseEther("2.5"));
+    expect(expectedPayout(position, settlement({ outcome: "no" }), stakes)).to.eq(0n);
+    expect(expectedPayout(position, settlement({ outcome: "option", winningOutcome: 1 }), stakes)).to.eq(ethers.parseEther("5"));
+  });
+
+  it("refunds the deposit on canceled batches and when nobody backed the outcome", function () {
+    expect(expectedPayout(position, settlement({ outcome: "canceled", winningPoolRevealed: false }), stakes)).to.eq(position.deposit);
+    expect(expectedPayout(position, settlement({ outcome: "no", winningPool: 0n }), stakes)).to.eq(position.deposit);
+  });
+
+  it("has no payout before the winning pool is revealed", function () {
+    expect(expectedPayout(position, settlement({ outcome: "yes", winningPoolRevealed: false }), stakes)).to.eq(null);
+  });
+});
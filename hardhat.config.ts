@@ -2,12 +2,18 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "./tasks/devStack";
+import "./tasks/indexer";
+import "./tasks/keeper";
+import "./tasks/migration";
+import "./tasks/resolver";
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
     hardhat: {
       chainId: 31337,
+      gas: "auto",
     },
     sepolia: {
       chainId: 11155111,
@@ -21,7 +27,8 @@ const config: HardhatUserConfig = {
       viaIR: true,
       optimizer: {
         enabled: true,
-        runs: 200,
+        // Tuned for size: DAOPredictMarketFHE sits close to the 24 KiB contract size limit
+        runs: 50,
       },
       metadata: {
         bytecodeHash: "none",
@@ -0,0 +1,45 @@
+// src/devstack/frontendConfig.ts
+import fs from "fs";
+import path from "path";
+
+// Shape of frontend/web/src/config*.json, which networks.ts turns into the frontend's network registry
+export interface FrontendNetworkConfig {
+  networkName: string;
+  displayName: string;
+  chainId: number;
+  // Primary RPC
+  network: string;
+  // Read-only RPCs tried in order
+  rpcUrls: string[];
+  explorerUrl: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  contractAddress: string;
+  predictMarketAddress: string;
+  registryAddress: string;
+  // Block the market was deployed in, where the frontend starts its event scans
+  deployBlock: number;
+  fheBackend: "relayer" | "hardhat-mock";
+  relayerUrl: string;
+  gatewayChainId: number;
+  indexerUrl: string;
+  // Where market descriptions are pinned: the local stand-in ("http") or IPFS
+  metadataBackend: "http" | "ipfs";
+  // Stand-in server or IPFS gateway that serves /ipfs/<cid>
+  metadataUrl: string;
+  // IPFS RPC API that pins new descriptions, unused by the stand-in
+  metadataApiUrl: string;
+  deployer: string;
+}
+
+export const FRONTEND_SRC_DIR = path.join(__dirname, "..", "..", "frontend", "web", "src");
+
+// Sepolia keeps the historical config.json name; every other network gets config.<name>.json
+export function frontendConfigPath(networkName: string, dir = FRONTEND_SRC_DIR): string {
+  return path.join(dir, networkName === "sepolia" ? "config.json" : `config.${networkName}.json`);
+}
+
+export function writeFrontendConfig(config: FrontendNetworkConfig, dir = FRONTEND_SRC_DIR): string {
+  const configPath = frontendConfigPath(config.networkName, dir);
+  fs.writeFileSync(configPath, JSON.stringify(config, null, 2) + "\n");
+  return configPath;
+}
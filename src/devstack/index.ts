@@ -0,0 +1,3 @@
+// src/devstack/index.ts
+export * from "./frontendConfig";
+export * from "./sampleMarkets";
@@ -0,0 +1,103 @@
+// src/devstack/sampleMarkets.ts
+import { ethers } from "ethers";
+import type { DAOPredictMarketFHE, MarketRegistry } from "../../types";
+import { createMarketDescription, MetadataStore, publishMarketDescription } from "../metadata";
+
+export interface SampleMarket {
+  key: string;
+  daoName: string;
+  // Snapshot space the batch is linked to on-chain
+  dao: string;
+  proposalTitle: string;
+  category: string;
+  // Days from seeding until the batch stops accepting predictions
+  durationDays: number;
+}
+
+export interface SeededMarket {
+  key: string;
+  marketId: bigint;
+  batchId: bigint;
+  // CID of the published description, which is all the registry stores
+  cid: string;
+}
+
+export const SAMPLE_MARKETS: SampleMarket[] = [
+  {
+    key: "dev-treasury-diversification",
+    daoName: "Uniswap",
+    dao: "uniswap.eth",
+    proposalTitle: "Diversify 10% of the treasury into stablecoins",
+    category: "Treasury",
+    durationDays: 7
+  },
+  {
+    key: "dev-fee-switch",
+    daoName: "Aave",
+    dao: "aave.eth",
+    proposalTitle: "Enable the protocol fee switch on v3 markets",
+    category: "Governance",
+    durationDays: 3
+  },
+  {
+    key: "dev-grants-round",
+    daoName: "Gitcoin",
+    dao: "gitcoindao.eth",
+    proposalTitle: "Fund a third public goods grants round",
+    category: "Grants",
+    durationDays: 14
+  }
+];
+
+// Opens one batch per sample market, publishes its description to the store and registers the CID,
+// as the frontend does. Keys already in the registry are skipped, so seeding a long-lived node twice is harmless.
+export async function seedSampleMarkets(
+  market: DAOPredictMarketFHE,
+  registry: MarketRegistry,
+  store: MetadataStore,
+  samples: SampleMarket[] = SAMPLE_MARKETS
+): Promise<SeededMarket[]> {
+  const creator = await (market.runner as ethers.Signer).getAddress();
+  const seeded: SeededMarket[] = [];
+  for (const sample of samples) {
+    if (await registry.isKeyRegistered(sample.key)) continue;
+
+    const receipt = await (await market.openBatch()).wait();
+    let batchId: bigint | null = null;
+    for (const log of receipt?.logs ?? []) {
+      const parsed = market.interface.parseLog(log);
+      if (parsed?.name === "BatchOpened") batchId = parsed.args.batchId as bigint;
+    }
+    if (batchId === null) throw new Error(`BatchOpened event not found in receipt ${receipt?.hash}`);
+
+    const block = await market.runner!.provider!.getBlock(receipt!.blockNumber);
+    const endTime = block!.timestamp + sample.durationDays * 24 * 60 * 60;
+    await (await market.setBatchSchedule(batchId, 0, endTime)).wait();
+    const cid = await publishMarketDescription(
+      store,
+      createMarketDescription({
+        daoName: sample.daoName,
+        proposalTitle: sample.proposalTitle,
+        category: sample.category,
+        creator,
+        batchId: batchId.toString(),
+        endTime
+      })
+    );
+    // Stand-in Snapshot proposal ids; the question hash is what the frontend checks the title against
+    await (
+      await market.setBatchMetadata(batchId, {
+        dao: ethers.encodeBytes32String(sample.dao),
+        proposalChainId: 1,
+        governor: ethers.ZeroAddress,
+        proposalId: 0,
+        snapshotId: ethers.id(sample.key),
+        questionHash: ethers.id(sample.proposalTitle),
+        metadataURI: `ipfs://${cid}`
+      })
+    ).wait();
+    await (await registry.registerMarket(sample.key, batchId, ethers.toUtf8Bytes(cid))).wait();
+    seeded.push({ key: sample.key, marketId: await registry.marketIdByKey(sample.key), batchId, cid });
+  }
+  return seeded;
+}
@@ -0,0 +1,92 @@
+// src/indexer/api.ts
+import http from "http";
+import type { IndexerDb } from "./db";
+import {
+  getIndexedBatch,
+  getIndexerStatus,
+  listBatches,
+  listDecryptions,
+  listPredictions,
+  PageQuery
+} from "./store";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const parseInteger = (params: URLSearchParams, name: string): number | undefined => {
+  const raw = params.get(name);
+  if (raw === null) return undefined;
+  if (!/^\d+$/.test(raw)) throw new HttpError(400, `${name} must be a non-negative integer`);
+  return Number(raw);
+};
+
+const parsePage = (params: URLSearchParams): PageQuery => {
+  const limit = parseInteger(params, "limit") ?? DEFAULT_PAGE_SIZE;
+  if (limit === 0 || limit > MAX_PAGE_SIZE) throw new HttpError(400, `limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  return { offset: parseInteger(params, "offset") ?? 0, limit };
+};
+
+const route = (db: IndexerDb, url: URL): unknown => {
+  const params = url.searchParams;
+  const parts = url.pathname.split("/").filter(Boolean);
+
+  if (parts.length === 1 && parts[0] === "status") return getIndexerStatus(db);
+
+  if (parts[0] === "batches") {
+    if (parts.length === 1) {
+      const status = params.get("status") ?? undefined;
+      if (status !== undefined && status !== "open" && status !== "closed") {
+        throw new HttpError(400, "status must be open or closed");
+      }
+      return listBatches(db, { ...parsePage(params), status });
+    }
+    if (!/^\d+$/.test(parts[1])) throw new HttpError(400, "batch id must be a non-negative integer");
+    const batchId = Number(parts[1]);
+    if (parts.length === 2) {
+      const batch = getIndexedBatch(db, batchId);
+      if (!batch) throw new HttpError(404, `batch ${batchId} not indexed`);
+      return batch;
+    }
+    if (parts.length === 3 && parts[2] === "predictions") return listPredictions(db, { ...parsePage(params), batchId });
+    if (parts.length === 3 && parts[2] === "decryptions") return listDecryptions(db, { ...parsePage(params), batchId });
+  }
+
+  if (parts.length === 1 && parts[0] === "predictions") {
+    return listPredictions(db, {
+      ...parsePage(params),
+      batchId: parseInteger(params, "batchId"),
+      user: params.get("user") ?? undefined
+    });
+  }
+
+  if (parts.length === 1 && parts[0] === "decryptions") {
+    return listDecryptions(db, { ...parsePage(params), batchId: parseInteger(params, "batchId") });
+  }
+
+  throw new HttpError(404, `no route for ${url.pathname}`);
+};
+
+export function createIndexerServer(db: IndexerDb): http.Server {
+  return http.createServer((req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Content-Type", "application/json");
+    let status = 200;
+    let body: unknown;
+    try {
+      if (req.method !== "GET") throw new HttpError(405, "only GET is supported");
+      body = route(db, new URL(req.url ?? "/", "http://indexer"));
+    } catch (e: any) {
+      status = e instanceof HttpError ? e.status : 500;
+      body = { error: e instanceof HttpError ? e.message : "internal error" };
+      if (!(e instanceof HttpError)) console.error("Indexer API error:", e);
+    }
+    res.writeHead(status);
+    res.end(JSON.stringify(body));
+  });
+}
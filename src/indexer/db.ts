@@ -0,0 +1,223 @@
+// src/indexer/db.ts
+import Database from "better-sqlite3";
+
+export type IndexerDb = Database.Database;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS batches (
+  batch_id INTEGER PRIMARY KEY,
+  opened_block INTEGER NOT NULL,
+  opened_tx TEXT NOT NULL,
+  closed_block INTEGER,
+  closed_tx TEXT,
+  creator TEXT,
+  outcome TEXT NOT NULL DEFAULT 'unresolved',
+  outcome_block INTEGER,
+  outcome_count INTEGER NOT NULL DEFAULT 0,
+  winning_outcome INTEGER,
+  scalar_lower INTEGER,
+  scalar_upper INTEGER,
+  scalar_buckets INTEGER,
+  resolved_value INTEGER,
+  weight_source TEXT,
+  weight_token TEXT,
+  weight_snapshot TEXT,
+  weight_unit TEXT,
+  participation TEXT NOT NULL DEFAULT 'providers',
+  participation_token TEXT,
+  participation_min_balance TEXT,
+  allowlist_root TEXT,
+  start_time INTEGER,
+  end_time INTEGER,
+  dao TEXT,
+  proposal_chain_id TEXT,
+  governor TEXT,
+  proposal_id TEXT,
+  snapshot_id TEXT,
+  question_hash TEXT,
+  metadata_uri TEXT
+);
+CREATE TABLE IF NOT EXISTS predictions (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  batch_id INTEGER NOT NULL,
+  user TEXT NOT NULL,
+  encrypted_prediction TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'submitted',
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS predictions_batch ON predictions (batch_id, block_number, log_index);
+CREATE INDEX IF NOT EXISTS predictions_user ON predictions (user);
+CREATE TABLE IF NOT EXISTS decryptions (
+  request_id TEXT PRIMARY KEY,
+  batch_id INTEGER NOT NULL,
+  requested_block INTEGER NOT NULL,
+  requested_tx TEXT NOT NULL,
+  completed_block INTEGER,
+  completed_tx TEXT,
+  total_yes TEXT,
+  total_no TEXT,
+  tallies TEXT,
+  scalar_sum TEXT,
+  weights TEXT,
+  expired_block INTEGER
+);
+CREATE INDEX IF NOT EXISTS decryptions_batch ON decryptions (batch_id);
+CREATE TABLE IF NOT EXISTS batch_settings (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  batch_id INTEGER NOT NULL,
+  kind TEXT NOT NULL,
+  columns TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS batch_settings_batch ON batch_settings (batch_id, kind, block_number, log_index);
+`;
+
+// Columns added after the first release; databases created before them are altered in place
+const ADDED_COLUMNS: Record<string, Record<string, string>> = {
+  batches: {
+    creator: "TEXT",
+    outcome: "TEXT NOT NULL DEFAULT 'unresolved'",
+    outcome_block: "INTEGER",
+    outcome_count: "INTEGER NOT NULL DEFAULT 0",
+    winning_outcome: "INTEGER",
+    scalar_lower: "INTEGER",
+    scalar_upper: "INTEGER",
+    scalar_buckets: "INTEGER",
+    resolved_value: "INTEGER",
+    weight_source: "TEXT",
+    weight_token: "TEXT",
+    weight_snapshot: "TEXT",
+    weight_unit: "TEXT",
+    participation: "TEXT NOT NULL DEFAULT 'providers'",
+    participation_token: "TEXT",
+    participation_min_balance: "TEXT",
+    allowlist_root: "TEXT",
+    start_time: "INTEGER",
+    end_time: "INTEGER",
+    dao: "TEXT",
+    proposal_chain_id: "TEXT",
+    governor: "TEXT",
+    proposal_id: "TEXT",
+    snapshot_id: "TEXT",
+    question_hash: "TEXT",
+    metadata_uri: "TEXT"
+  },
+  predictions: {
+    kind: "TEXT NOT NULL DEFAULT 'submitted'"
+  },
+  decryptions: {
+    tallies: "TEXT",
+    scalar_sum: "TEXT",
+    weights: "TEXT",
+    expired_block: "INTEGER"
+  }
+};
+
+export type BatchSettingKind = "weighting" | "participation" | "schedule" | "metadata";
+
+// Batch columns each configuration event sets, with their values before it was first sent
+const SETTING_COLUMNS: Record<BatchSettingKind, Record<string, string | number | null>> = {
+  weighting: { weight_source: null, weight_token: null, weight_snapshot: null, weight_unit: null },
+  participation: { participation: "providers", participation_token: null, participation_min_balance: null, allowlist_root: null },
+  schedule: { start_time: null, end_time: null },
+  metadata: {
+    dao: null,
+    proposal_chain_id: null,
+    governor: null,
+    proposal_id: null,
+    snapshot_id: null,
+    question_hash: null,
+    metadata_uri: null
+  }
+};
+
+export function openIndexerDb(filename: string): IndexerDb {
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+  for (const [table, added] of Object.entries(ADDED_COLUMNS)) {
+    const columns = new Set((db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name));
+    for (const [name, definition] of Object.entries(added)) {
+      if (!columns.has(name)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+    }
+  }
+  return db;
+}
+
+export function getMeta(db: IndexerDb, key: string): string | null {
+  const row = db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+  return row ? row.value : null;
+}
+
+export function setMeta(db: IndexerDb, key: string, value: string): void {
+  db.prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value").run(key, value);
+}
+
+function updateSettingColumns(db: IndexerDb, batchId: number, values: Record<string, string | number | null>): void {
+  const names = Object.keys(values);
+  db.prepare(`UPDATE batches SET ${names.map(name => `${name} = ?`).join(", ")} WHERE batch_id = ?`).run(
+    ...names.map(name => values[name]),
+    batchId
+  );
+}
+
+// Applies a configuration event to the batch and logs it, so a reorg can restore the values that
+// were in place before it. Settings are sent in their own transactions after the batch was opened,
+// and some can be sent again while the batch takes no predictions yet.
+export function recordBatchSetting(
+  db: IndexerDb,
+  batchId: number,
+  kind: BatchSettingKind,
+  blockNumber: number,
+  logIndex: number,
+  values: Record<string, string | number | null>
+): void {
+  db.prepare(
+    "INSERT OR IGNORE INTO batch_settings (block_number, log_index, batch_id, kind, columns) VALUES (?, ?, ?, ?, ?)"
+  ).run(blockNumber, logIndex, batchId, kind, JSON.stringify(values));
+  updateSettingColumns(db, batchId, { ...SETTING_COLUMNS[kind], ...values });
+}
+
+// Puts back the latest setting of each kind that survived a rollback, or the defaults when none did
+function restoreSettings(db: IndexerDb, blockNumber: number): void {
+  const orphaned = db
+    .prepare("SELECT DISTINCT batch_id, kind FROM batch_settings WHERE block_number > ?")
+    .all(blockNumber) as { batch_id: number; kind: BatchSettingKind }[];
+  db.prepare("DELETE FROM batch_settings WHERE block_number > ?").run(blockNumber);
+  const latest = db.prepare(
+    "SELECT columns FROM batch_settings WHERE batch_id = ? AND kind = ? ORDER BY block_number DESC, log_index DESC LIMIT 1"
+  );
+  for (const { batch_id, kind } of orphaned) {
+    const row = latest.get(batch_id, kind) as { columns: string } | undefined;
+    updateSettingColumns(db, batch_id, { ...SETTING_COLUMNS[kind], ...(row ? JSON.parse(row.columns) : {}) });
+  }
+}
+
+// Undo everything indexed above `blockNumber`, used when the chain reorganises under us
+export function rollbackAfter(db: IndexerDb, blockNumber: number): void {
+  db.transaction(() => {
+    restoreSettings(db, blockNumber);
+    db.prepare("DELETE FROM batches WHERE opened_block > ?").run(blockNumber);
+    db.prepare("UPDATE batches SET closed_block = NULL, closed_tx = NULL WHERE closed_block > ?").run(blockNumber);
+    db.prepare("UPDATE batches SET outcome = 'unresolved', outcome_block = NULL, winning_outcome = NULL, resolved_value = NULL WHERE outcome_block > ?").run(blockNumber);
+    db.prepare("DELETE FROM predictions WHERE block_number > ?").run(blockNumber);
+    db.prepare("DELETE FROM decryptions WHERE requested_block > ?").run(blockNumber);
+    db.prepare(
+      "UPDATE decryptions SET completed_block = NULL, completed_tx = NULL, total_yes = NULL, total_no = NULL, tallies = NULL, scalar_sum = NULL, weights = NULL WHERE completed_block > ?"
+    ).run(blockNumber);
+    db.prepare("UPDATE decryptions SET expired_block = NULL WHERE expired_block > ?").run(blockNumber);
+    db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+    setMeta(db, "lastBlock", String(blockNumber));
+  })();
+}
@@ -0,0 +1,5 @@
+// src/indexer/index.ts
+export * from "./db";
+export * from "./indexer";
+export * from "./store";
+export * from "./api";
@@ -0,0 +1,306 @@
+// src/indexer/indexer.ts
+import { ethers } from "ethers";
+import type { DAOPredictMarketFHE } from "../../types";
+import { getMeta, IndexerDb, recordBatchSetting, rollbackAfter, setMeta } from "./db";
+
+export interface IndexerOptions {
+  market: DAOPredictMarketFHE;
+  provider: ethers.Provider;
+  db: IndexerDb;
+  // First block to index, usually the market's deployment block
+  startBlock?: number;
+  // Blocks behind head to stay, trading latency for fewer rollbacks
+  confirmations?: number;
+  maxBlockRange?: number;
+  // How many recent block hashes are kept for reorg detection
+  reorgDepth?: number;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  // Block the index was rolled back to, when a reorg was detected
+  rolledBackTo: number | null;
+}
+
+const INDEXED_EVENTS = new Set([
+  "BatchOpened",
+  "BatchClosed",
+  "PredictionSubmitted",
+  "PredictionUpdated",
+  "PredictionRevoked",
+  "DecryptionRequested",
+  "DecryptionCompleted",
+  "DecryptionRequestExpired",
+  "MarketResolved",
+  "MarketCanceled",
+  "OutcomesDeclared",
+  "OutcomeTalliesDecrypted",
+  "MarketResolvedToOutcome",
+  "ScalarRangeDeclared",
+  "ScalarResultsDecrypted",
+  "MarketResolvedToValue",
+  "WeightingConfigured",
+  "WeightedTalliesDecrypted",
+  "ParticipationPolicySet",
+  "BatchScheduled",
+  "BatchMetadataSet"
+]);
+
+// WeightSource enum order in the contract; None is never emitted
+const WEIGHT_SOURCES = ["none", "balance", "votes"] as const;
+// Participation enum order in the contract
+const PARTICIPATION_MODES = ["providers", "open", "token", "allowlist"] as const;
+
+export function createIndexer(options: IndexerOptions) {
+  const { market, provider, db } = options;
+  const startBlock = options.startBlock ?? 0;
+  const confirmations = options.confirmations ?? 0;
+  const maxBlockRange = options.maxBlockRange ?? 2000;
+  const reorgDepth = options.reorgDepth ?? 64;
+
+  const statements = {
+    latestBlocks: db.prepare("SELECT number, hash FROM blocks ORDER BY number DESC"),
+    saveBlock: db.prepare("INSERT INTO blocks (number, hash) VALUES (?, ?) ON CONFLICT(number) DO UPDATE SET hash = excluded.hash"),
+    pruneBlocks: db.prepare("DELETE FROM blocks WHERE number < ?"),
+    openBatch: db.prepare("INSERT OR IGNORE INTO batches (batch_id, opened_block, opened_tx, creator) VALUES (?, ?, ?, ?)"),
+    closeBatch: db.prepare("UPDATE batches SET closed_block = ?, closed_tx = ? WHERE batch_id = ?"),
+    setOutcome: db.prepare("UPDATE batches SET outcome = ?, outcome_block = ? WHERE batch_id = ?"),
+    setOutcomeCount: db.prepare("UPDATE batches SET outcome_count = ? WHERE batch_id = ?"),
+    setWinningOutcome: db.prepare("UPDATE batches SET outcome = 'option', outcome_block = ?, winning_outcome = ? WHERE batch_id = ?"),
+    setScalarRange: db.prepare("UPDATE batches SET scalar_lower = ?, scalar_upper = ?, scalar_buckets = ? WHERE batch_id = ?"),
+    setResolvedValue: db.prepare("UPDATE batches SET outcome = 'value', outcome_block = ?, resolved_value = ? WHERE batch_id = ?"),
+    prediction: db.prepare(
+      "INSERT OR IGNORE INTO predictions (block_number, log_index, tx_hash, batch_id, user, encrypted_prediction, kind) VALUES (?, ?, ?, ?, ?, ?, ?)"
+    ),
+    decryptionRequested: db.prepare(
+      "INSERT OR IGNORE INTO decryptions (request_id, batch_id, requested_block, requested_tx) VALUES (?, ?, ?, ?)"
+    ),
+    decryptionCompleted: db.prepare(
+      "UPDATE decryptions SET completed_block = ?, completed_tx = ?, total_yes = ?, total_no = ? WHERE request_id = ?"
+    ),
+    talliesDecrypted: db.prepare("UPDATE decryptions SET completed_block = ?, completed_tx = ?, tallies = ? WHERE request_id = ?"),
+    weightsDecrypted: db.prepare("UPDATE decryptions SET weights = ? WHERE request_id = ?"),
+    decryptionExpired: db.prepare("UPDATE decryptions SET expired_block = ? WHERE request_id = ?"),
+    scalarDecrypted: db.prepare(
+      "UPDATE decryptions SET completed_block = ?, completed_tx = ?, scalar_sum = ?, tallies = ? WHERE request_id = ?"
+    )
+  };
+
+  const lastIndexedBlock = (): number => {
+    const value = getMeta(db, "lastBlock");
+    return value === null ? startBlock - 1 : Number(value);
+  };
+
+  // Walks stored hashes from newest to oldest until one still matches the chain
+  const findForkPoint = async (): Promise<number | null> => {
+    const stored = statements.latestBlocks.all() as { number: number; hash: string }[];
+    if (stored.length === 0) return null;
+    for (const [index, block] of stored.entries()) {
+      const onChain = await provider.getBlock(block.number);
+      if (onChain && onChain.hash === block.hash) return index === 0 ? null : block.number;
+    }
+    // Reorg deeper than the retained window: rebuild everything after the oldest hash we knew
+    return Math.max(stored[stored.length - 1].number - 1, startBlock - 1);
+  };
+
+  const applyLog = (parsed: ethers.LogDescription, log: ethers.Log, creators: Map<string, string>) => {
+    const args = parsed.args;
+    switch (parsed.name) {
+      case "BatchOpened":
+        // The creator is not part of the event, but it is the sender of the opening transaction
+        statements.openBatch.run(Number(args.batchId), log.blockNumber, log.transactionHash, creators.get(log.transactionHash) ?? null);
+        break;
+      case "BatchClosed":
+        statements.closeBatch.run(log.blockNumber, log.transactionHash, Number(args.batchId));
+        break;
+      case "MarketResolved":
+        statements.setOutcome.run(args.outcomeYes ? "yes" : "no", log.blockNumber, Number(args.batchId));
+        break;
+      case "MarketCanceled":
+        statements.setOutcome.run("canceled", log.blockNumber, Number(args.batchId));
+        break;
+      case "OutcomesDeclared":
+        statements.setOutcomeCount.run(Number(args.outcomeCount), Number(args.batchId));
+        break;
+      case "MarketResolvedToOutcome":
+        statements.setWinningOutcome.run(log.blockNumber, Number(args.winningOutcome), Number(args.batchId));
+        break;
+      case "ScalarRangeDeclared":
+        statements.setScalarRange.run(Number(args.lowerBound), Number(args.upperBound), Number(args.bucketCount), Number(args.batchId));
+        break;
+      case "WeightingConfigured":
+        recordBatchSetting(db, Number(args.batchId), "weighting", log.blockNumber, log.index, {
+          weight_source: WEIGHT_SOURCES[Number(args.source)],
+          weight_token: (args.token as string).toLowerCase(),
+          weight_snapshot: args.snapshot.toString(),
+          weight_unit: args.unit.toString()
+        });
+        break;
+      case "ParticipationPolicySet": {
+        const mode = PARTICIPATION_MODES[Number(args.mode)];
+        recordBatchSetting(db, Number(args.batchId), "participation", log.blockNumber, log.index, {
+          participation: mode,
+          participation_token: mode === "token" ? (args.token as string).toLowerCase() : null,
+          participation_min_balance: mode === "token" ? args.minBalance.toString() : null,
+          allowlist_root: mode === "allowlist" ? args.allowlistRoot : null
+        });
+        break;
+      }
+      case "BatchScheduled":
+        recordBatchSetting(db, Number(args.batchId), "schedule", log.blockNumber, log.index, {
+          start_time: Number(args.startTime),
+          end_time: Number(args.endTime)
+        });
+        break;
+      case "BatchMetadataSet": {
+        // Governor proposals leave snapshotId zero and Snapshot proposals the governor
+        const governed = args.governor !== ethers.ZeroAddress;
+        recordBatchSetting(db, Number(args.batchId), "metadata", log.blockNumber, log.index, {
+          dao: args.dao,
+          proposal_chain_id: args.proposalChainId.toString(),
+          governor: governed ? (args.governor as string).toLowerCase() : null,
+          proposal_id: governed ? args.proposalId.toString() : null,
+          snapshot_id: governed ? null : args.snapshotId,
+          question_hash: args.questionHash,
+          metadata_uri: args.metadataURI
+        });
+        break;
+      }
+      case "MarketResolvedToValue":
+        statements.setResolvedValue.run(log.blockNumber, Number(args.value), Number(args.batchId));
+        break;
+      case "PredictionSubmitted":
+      case "PredictionUpdated":
+        statements.prediction.run(
+          log.blockNumber,
+          log.index,
+          log.transactionHash,
+          Number(args.batchId),
+          (args.user as string).toLowerCase(),
+          ethers.toBeHex(args.encryptedPrediction, 32),
+          parsed.name === "PredictionSubmitted" ? "submitted" : "updated"
+        );
+        break;
+      case "PredictionRevoked":
+        statements.prediction.run(
+          log.blockNumber,
+          log.index,
+          log.transactionHash,
+          Number(args.batchId),
+          (args.user as string).toLowerCase(),
+          ethers.ZeroHash,
+          "revoked"
+        );
+        break;
+      case "DecryptionRequested":
+        statements.decryptionRequested.run(args.requestId.toString(), Number(args.batchId), log.blockNumber, log.transactionHash);
+        break;
+      case "DecryptionCompleted":
+        statements.decryptionCompleted.run(
+          log.blockNumber,
+          log.transactionHash,
+          args.totalYes.toString(),
+          args.totalNo.toString(),
+          args.requestId.toString()
+        );
+        break;
+      case "DecryptionRequestExpired":
+        statements.decryptionExpired.run(log.blockNumber, args.requestId.toString());
+        break;
+      case "OutcomeTalliesDecrypted":
+        statements.talliesDecrypted.run(
+          log.blockNumber,
+          log.transactionHash,
+          JSON.stringify((args.tallies as bigint[]).map(tally => tally.toString())),
+          args.requestId.toString()
+        );
+        break;
+      case "WeightedTalliesDecrypted":
+        // Emitted right after the counts of the same request, which set its completion block
+        statements.weightsDecrypted.run(
+          JSON.stringify((args.weights as bigint[]).map(weight => weight.toString())),
+          args.requestId.toString()
+        );
+        break;
+      case "ScalarResultsDecrypted":
+        statements.scalarDecrypted.run(
+          log.blockNumber,
+          log.transactionHash,
+          args.sum.toString(),
+          JSON.stringify((args.histogram as bigint[]).map(count => count.toString())),
+          args.requestId.toString()
+        );
+        break;
+    }
+  };
+
+  const syncOnce = async (): Promise<SyncResult> => {
+    let rolledBackTo: number | null = null;
+    const forkPoint = await findForkPoint();
+    if (forkPoint !== null) {
+      rollbackAfter(db, forkPoint);
+      rolledBackTo = forkPoint;
+    }
+
+    const head = (await provider.getBlockNumber()) - confirmations;
+    const fromBlock = lastIndexedBlock() + 1;
+    const toBlock = Math.min(head, fromBlock + maxBlockRange - 1);
+    if (toBlock < fromBlock) return { fromBlock, toBlock: fromBlock - 1, events: 0, rolledBackTo };
+
+    const address = await market.getAddress();
+    const [logs, toBlockHeader] = await Promise.all([
+      provider.getLogs({ address, fromBlock, toBlock }),
+      provider.getBlock(toBlock)
+    ]);
+    if (!toBlockHeader?.hash) throw new Error(`Block ${toBlock} not available from provider`);
+
+    const parsedLogs = logs
+      .map(log => ({ log, parsed: market.interface.parseLog(log) }))
+      .filter((entry): entry is { log: ethers.Log; parsed: ethers.LogDescription } =>
+        entry.parsed !== null && INDEXED_EVENTS.has(entry.parsed.name)
+      );
+    const creators = new Map<string, string>();
+    for (const { log, parsed } of parsedLogs) {
+      if (parsed.name !== "BatchOpened" || creators.has(log.transactionHash)) continue;
+      const tx = await provider.getTransaction(log.transactionHash);
+      if (tx) creators.set(log.transactionHash, tx.from.toLowerCase());
+    }
+
+    let events = 0;
+    db.transaction(() => {
+      for (const { log, parsed } of parsedLogs) {
+        applyLog(parsed, log, creators);
+        statements.saveBlock.run(log.blockNumber, log.blockHash);
+        events++;
+      }
+      statements.saveBlock.run(toBlock, toBlockHeader.hash);
+      statements.pruneBlocks.run(toBlock - reorgDepth);
+      setMeta(db, "lastBlock", String(toBlock));
+    })();
+
+    return { fromBlock, toBlock, events, rolledBackTo };
+  };
+
+  let running = false;
+
+  // Syncs until caught up, then polls for new blocks until stop() is called
+  const run = async (pollIntervalMs = 4000, onSync?: (result: SyncResult) => void): Promise<void> => {
+    running = true;
+    while (running) {
+      const result = await syncOnce();
+      onSync?.(result);
+      const caughtUp = result.toBlock < result.fromBlock + maxBlockRange - 1;
+      if (caughtUp && running) await new Promise(res => setTimeout(res, pollIntervalMs));
+    }
+  };
+
+  const stop = () => {
+    running = false;
+  };
+
+  return { syncOnce, run, stop, lastIndexedBlock };
+}
+
+export type MarketIndexer = ReturnType<typeof createIndexer>;
@@ -0,0 +1,305 @@
+// src/indexer/store.ts
+import { getMeta, IndexerDb } from "./db";
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export interface PageQuery {
+  offset: number;
+  limit: number;
+}
+
+export interface IndexedDecryption {
+  requestId: string;
+  batchId: number;
+  requestedBlock: number;
+  requestedTx: string;
+  completedBlock: number | null;
+  completedTx: string | null;
+  totalYes: string | null;
+  totalNo: string | null;
+  // Per-outcome totals of a multi-outcome batch, or the bucket counts of a scalar batch, in order
+  tallies: string[] | null;
+  scalarSum: string | null;
+  // Weighted totals of a weighted batch, in the same order as the counts
+  weights: string[] | null;
+  // Block of the request that replaced this one after the oracle let it expire
+  expiredBlock: number | null;
+}
+
+export type IndexedOutcome = "unresolved" | "yes" | "no" | "canceled" | "option" | "value";
+
+export interface IndexedWeighting {
+  source: "balance" | "votes";
+  token: string;
+  snapshot: string;
+  unit: string;
+}
+
+export interface IndexedParticipation {
+  mode: "providers" | "open" | "token" | "allowlist";
+  // Set for token-gated batches
+  token: string | null;
+  minBalance: string | null;
+  // Set for allowlist batches
+  allowlistRoot: string | null;
+}
+
+// Unix timestamps; a start time of zero means the batch accepts predictions as soon as it opens
+export interface IndexedSchedule {
+  startTime: number;
+  endTime: number;
+}
+
+// The proposal the batch predicts on. `dao` is the bytes32 identifier as stored on-chain; Governor
+// proposals carry governor and proposalId, Snapshot proposals snapshotId.
+export interface IndexedMetadata {
+  dao: string;
+  proposalChainId: string;
+  governor: string | null;
+  proposalId: string | null;
+  snapshotId: string | null;
+  questionHash: string;
+  metadataURI: string;
+}
+
+export interface IndexedScalarRange {
+  lowerBound: number;
+  upperBound: number;
+  bucketCount: number;
+}
+
+export interface IndexedBatch {
+  batchId: number;
+  creator: string | null;
+  isOpen: boolean;
+  outcome: IndexedOutcome;
+  // Zero for binary yes/no batches
+  outcomeCount: number;
+  winningOutcome: number | null;
+  // Null unless the batch collects numeric estimates
+  scalarRange: IndexedScalarRange | null;
+  resolvedValue: number | null;
+  // Null when every prediction counts once
+  weighting: IndexedWeighting | null;
+  participation: IndexedParticipation;
+  // Null when the batch stays open until its creator closes it
+  schedule: IndexedSchedule | null;
+  // Null until the batch is linked to a proposal
+  metadata: IndexedMetadata | null;
+  submissions: number;
+  openedBlock: number;
+  openedTx: string;
+  closedBlock: number | null;
+  closedTx: string | null;
+  latestDecryption: IndexedDecryption | null;
+}
+
+export interface IndexedPrediction {
+  batchId: number;
+  user: string;
+  // Updates replace the user's earlier prediction; revocations carry a zero handle
+  kind: "submitted" | "updated" | "revoked";
+  encryptedPrediction: string;
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+}
+
+interface BatchRow {
+  batch_id: number;
+  opened_block: number;
+  opened_tx: string;
+  closed_block: number | null;
+  closed_tx: string | null;
+  creator: string | null;
+  outcome: IndexedOutcome;
+  outcome_count: number;
+  winning_outcome: number | null;
+  scalar_lower: number | null;
+  scalar_upper: number | null;
+  scalar_buckets: number | null;
+  resolved_value: number | null;
+  weight_source: IndexedWeighting["source"] | null;
+  weight_token: string | null;
+  weight_snapshot: string | null;
+  weight_unit: string | null;
+  participation: IndexedParticipation["mode"];
+  participation_token: string | null;
+  participation_min_balance: string | null;
+  allowlist_root: string | null;
+  start_time: number | null;
+  end_time: number | null;
+  dao: string | null;
+  proposal_chain_id: string | null;
+  governor: string | null;
+  proposal_id: string | null;
+  snapshot_id: string | null;
+  question_hash: string | null;
+  metadata_uri: string | null;
+  submissions: number;
+}
+
+interface DecryptionRow {
+  request_id: string;
+  batch_id: number;
+  requested_block: number;
+  requested_tx: string;
+  completed_block: number | null;
+  completed_tx: string | null;
+  total_yes: string | null;
+  total_no: string | null;
+  tallies: string | null;
+  scalar_sum: string | null;
+  weights: string | null;
+  expired_block: number | null;
+}
+
+interface PredictionRow {
+  batch_id: number;
+  user: string;
+  kind: IndexedPrediction["kind"];
+  encrypted_prediction: string;
+  block_number: number;
+  log_index: number;
+  tx_hash: string;
+}
+
+const BATCH_COLUMNS = `b.batch_id, b.opened_block, b.opened_tx, b.closed_block, b.closed_tx, b.creator, b.outcome,
+  b.outcome_count, b.winning_outcome, b.scalar_lower, b.scalar_upper, b.scalar_buckets, b.resolved_value,
+  b.weight_source, b.weight_token, b.weight_snapshot, b.weight_unit,
+  b.participation, b.participation_token, b.participation_min_balance, b.allowlist_root,
+  b.start_time, b.end_time,
+  b.dao, b.proposal_chain_id, b.governor, b.proposal_id, b.snapshot_id, b.question_hash, b.metadata_uri,
+  (SELECT COALESCE(SUM(CASE p.kind WHEN 'submitted' THEN 1 WHEN 'revoked' THEN -1 ELSE 0 END), 0)
+    FROM predictions p WHERE p.batch_id = b.batch_id) AS submissions`;
+
+const toDecryption = (row: DecryptionRow): IndexedDecryption => ({
+  requestId: row.request_id,
+  batchId: row.batch_id,
+  requestedBlock: row.requested_block,
+  requestedTx: row.requested_tx,
+  completedBlock: row.completed_block,
+  completedTx: row.completed_tx,
+  totalYes: row.total_yes,
+  totalNo: row.total_no,
+  tallies: row.tallies === null ? null : JSON.parse(row.tallies),
+  scalarSum: row.scalar_sum,
+  weights: row.weights === null ? null : JSON.parse(row.weights),
+  expiredBlock: row.expired_block
+});
+
+const latestDecryption = (db: IndexerDb, batchId: number): IndexedDecryption | null => {
+  const row = db
+    .prepare("SELECT * FROM decryptions WHERE batch_id = ? ORDER BY requested_block DESC LIMIT 1")
+    .get(batchId) as DecryptionRow | undefined;
+  return row ? toDecryption(row) : null;
+};
+
+const toBatch = (db: IndexerDb, row: BatchRow): IndexedBatch => ({
+  batchId: row.batch_id,
+  creator: row.creator,
+  isOpen: row.closed_block === null,
+  outcome: row.outcome,
+  outcomeCount: row.outcome_count,
+  winningOutcome: row.winning_outcome,
+  scalarRange: row.scalar_buckets === null ? null : { lowerBound: row.scalar_lower!, upperBound: row.scalar_upper!, bucketCount: row.scalar_buckets },
+  resolvedValue: row.resolved_value,
+  weighting: row.weight_source === null ? null : { source: row.weight_source, token: row.weight_token!, snapshot: row.weight_snapshot!, unit: row.weight_unit! },
+  participation: {
+    mode: row.participation,
+    token: row.participation_token,
+    minBalance: row.participation_min_balance,
+    allowlistRoot: row.allowlist_root
+  },
+  schedule: row.end_time === null ? null : { startTime: row.start_time!, endTime: row.end_time },
+  metadata:
+    row.dao === null
+      ? null
+      : {
+          dao: row.dao,
+          proposalChainId: row.proposal_chain_id!,
+          governor: row.governor,
+          proposalId: row.proposal_id,
+          snapshotId: row.snapshot_id,
+          questionHash: row.question_hash!,
+          metadataURI: row.metadata_uri!
+        },
+  submissions: row.submissions,
+  openedBlock: row.opened_block,
+  openedTx: row.opened_tx,
+  closedBlock: row.closed_block,
+  closedTx: row.closed_tx,
+  latestDecryption: latestDecryption(db, row.batch_id)
+});
+
+export function listBatches(
+  db: IndexerDb,
+  query: PageQuery & { status?: "open" | "closed" }
+): Page<IndexedBatch> {
+  const where = query.status === "open" ? "WHERE b.closed_block IS NULL" : query.status === "closed" ? "WHERE b.closed_block IS NOT NULL" : "";
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM batches b ${where}`).get() as { total: number };
+  const rows = db
+    .prepare(`SELECT ${BATCH_COLUMNS} FROM batches b ${where} ORDER BY b.batch_id DESC LIMIT ? OFFSET ?`)
+    .all(query.limit, query.offset) as BatchRow[];
+  return { items: rows.map(row => toBatch(db, row)), total, offset: query.offset, limit: query.limit };
+}
+
+export function getIndexedBatch(db: IndexerDb, batchId: number): IndexedBatch | null {
+  const row = db.prepare(`SELECT ${BATCH_COLUMNS} FROM batches b WHERE b.batch_id = ?`).get(batchId) as BatchRow | undefined;
+  return row ? toBatch(db, row) : null;
+}
+
+export function listPredictions(
+  db: IndexerDb,
+  query: PageQuery & { batchId?: number; user?: string }
+): Page<IndexedPrediction> {
+  const clauses: string[] = [];
+  const params: (string | number)[] = [];
+  if (query.batchId !== undefined) {
+    clauses.push("batch_id = ?");
+    params.push(query.batchId);
+  }
+  if (query.user !== undefined) {
+    clauses.push("user = ?");
+    params.push(query.user.toLowerCase());
+  }
+  const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM predictions ${where}`).get(...params) as { total: number };
+  const rows = db
+    .prepare(`SELECT * FROM predictions ${where} ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?`)
+    .all(...params, query.limit, query.offset) as PredictionRow[];
+  return {
+    items: rows.map(row => ({
+      batchId: row.batch_id,
+      user: row.user,
+      kind: row.kind,
+      encryptedPrediction: row.encrypted_prediction,
+      blockNumber: row.block_number,
+      logIndex: row.log_index,
+      txHash: row.tx_hash
+    })),
+    total,
+    offset: query.offset,
+    limit: query.limit
+  };
+}
+
+export function listDecryptions(db: IndexerDb, query: PageQuery & { batchId?: number }): Page<IndexedDecryption> {
+  const where = query.batchId !== undefined ? "WHERE batch_id = ?" : "";
+  const params = query.batchId !== undefined ? [query.batchId] : [];
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM decryptions ${where}`).get(...params) as { total: number };
+  const rows = db
+    .prepare(`SELECT * FROM decryptions ${where} ORDER BY requested_block DESC LIMIT ? OFFSET ?`)
+    .all(...params, query.limit, query.offset) as DecryptionRow[];
+  return { items: rows.map(toDecryption), total, offset: query.offset, limit: query.limit };
+}
+
+export function getIndexerStatus(db: IndexerDb): { lastBlock: number | null } {
+  const lastBlock = getMeta(db, "lastBlock");
+  return { lastBlock: lastBlock === null ? null : Number(lastBlock) };
+}
@@ -0,0 +1,2 @@
+// src/keeper/index.ts
+export * from "./keeper";
@@ -0,0 +1,229 @@
+// src/keeper/keeper.ts
+import { ethers } from "ethers";
+import type { DAOPredictMarketFHE } from "../../types";
+
+const OUTCOME_UNRESOLVED = 0n;
+
+export type KeeperAction = "close-batch" | "request-decryption";
+
+// deferred: waiting out the decryption cooldown; failed: retried after a backoff;
+// abandoned: failed maxAttempts times and left for an operator
+export type KeeperStatus = "succeeded" | "deferred" | "failed" | "abandoned";
+
+export interface KeeperAuditEntry {
+  time: string;
+  action: KeeperAction;
+  batchId: string;
+  status: KeeperStatus;
+  attempt: number;
+  txHash: string | null;
+  requestId: string | null;
+  detail: string;
+}
+
+export interface KeeperOptions {
+  // Connected to the keeper's signer, which needs to be a registered provider to request decryption
+  market: DAOPredictMarketFHE;
+  maxAttempts?: number;
+  // Backoff after the first failure, doubled on each further one up to maxDelayMs
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onAudit?: (entry: KeeperAuditEntry) => void;
+}
+
+interface Failure {
+  attempts: number;
+  retryAt: number;
+}
+
+// Fields ethers and the RPC node may set on a failed call
+interface CallError {
+  revert?: { name?: string };
+  data?: unknown;
+  error?: { data?: unknown };
+  shortMessage?: string;
+  message?: string;
+}
+
+// Only scheduled batches are kept: once one passes its end time the keeper closes it and requests
+// the decryption of its tallies, again whenever the oracle lets a request expire. Batches without a
+// schedule are closed by hand.
+export function createKeeper(options: KeeperOptions) {
+  const { market, onAudit } = options;
+  const maxAttempts = options.maxAttempts ?? 5;
+  const baseDelayMs = options.baseDelayMs ?? 5000;
+  const maxDelayMs = options.maxDelayMs ?? 5 * 60 * 1000;
+
+  // Batches that need nothing more from the keeper
+  const finished = new Set<bigint>();
+  // Batches whose deferral was already logged, so waiting out the cooldown is audited once
+  const deferred = new Set<bigint>();
+  const failures = new Map<string, Failure>();
+  let entries: KeeperAuditEntry[] = [];
+
+  // Custom errors by name where the revert data can be decoded. parseError returns null for
+  // selectors the market does not declare, which fall through to the message.
+  const describeError = (e: unknown): string => {
+    if (typeof e !== "object" || e === null) return String(e);
+    const error = e as CallError;
+    if (error.revert?.name) return error.revert.name;
+    const data = error.data ?? error.error?.data;
+    if (typeof data === "string" && ethers.isHexString(data, true) && ethers.dataLength(data) >= 4) {
+      const parsed = market.interface.parseError(data);
+      if (parsed) return parsed.name;
+    }
+    return error.shortMessage ?? error.message ?? String(e);
+  };
+
+  const audit = (entry: Omit<KeeperAuditEntry, "time">) => {
+    const logged = { time: new Date().toISOString(), ...entry };
+    entries.push(logged);
+    onAudit?.(logged);
+  };
+
+  // Sends one step unless it is backing off or was abandoned; true once it has been mined
+  const attempt = async (
+    action: KeeperAction,
+    batchId: bigint,
+    send: () => Promise<{ txHash: string; requestId: bigint | null; detail?: string }>
+  ): Promise<boolean> => {
+    const key = `${action}:${batchId}`;
+    const failure = failures.get(key);
+    if (failure && (failure.attempts >= maxAttempts || Date.now() < failure.retryAt)) return false;
+
+    const attemptNumber = (failure?.attempts ?? 0) + 1;
+    try {
+      const { txHash, requestId, detail } = await send();
+      failures.delete(key);
+      audit({
+        action,
+        batchId: batchId.toString(),
+        status: "succeeded",
+        attempt: attemptNumber,
+        txHash,
+        requestId: requestId?.toString() ?? null,
+        detail: detail ?? ""
+      });
+      return true;
+    } catch (e) {
+      const delay = Math.min(baseDelayMs * 2 ** (attemptNumber - 1), maxDelayMs);
+      failures.set(key, { attempts: attemptNumber, retryAt: Date.now() + delay });
+      const abandoned = attemptNumber >= maxAttempts;
+      audit({
+        action,
+        batchId: batchId.toString(),
+        status: abandoned ? "abandoned" : "failed",
+        attempt: attemptNumber,
+        txHash: null,
+        requestId: null,
+        detail: abandoned ? describeError(e) : `${describeError(e)}, retrying in ${delay}ms`
+      });
+      return false;
+    }
+  };
+
+  const closeBatch = async (batchId: bigint) => {
+    const receipt = await (await market.closeBatch(batchId)).wait();
+    return { txHash: receipt!.hash, requestId: null };
+  };
+
+  const requestDecryption = async (batchId: bigint) => {
+    const receipt = await (await market.requestBatchResultDecryption(batchId)).wait();
+    let requestId: bigint | null = null;
+    let detail = "";
+    for (const log of receipt?.logs ?? []) {
+      const parsed = market.interface.parseLog(log);
+      if (parsed?.name === "DecryptionRequested") requestId = parsed.args.requestId as bigint;
+      if (parsed?.name === "DecryptionRequestExpired") detail = `replaces expired request ${parsed.args.requestId}`;
+    }
+    return { txHash: receipt!.hash, requestId, detail };
+  };
+
+  // The batch's latest decryption request while the oracle may still answer it
+  const hasLiveRequest = async (batchId: bigint, chainTime: bigint): Promise<boolean> => {
+    const context = await market.decryptionContexts(await market.latestDecryptionRequests(batchId));
+    return context.batchId === batchId && !context.processed && chainTime < context.expiresAt;
+  };
+
+  const checkBatch = async (batchId: bigint, chainTime: bigint, keeperAddress: string) => {
+    const [isOpen, schedule, outcome, submissions] = await Promise.all([
+      market.isBatchOpen(batchId),
+      market.batchSchedules(batchId),
+      market.batchOutcomes(batchId),
+      market.submissionsInBatch(batchId)
+    ]);
+    // An open batch may still be given a schedule, a closed one no longer needs the keeper
+    if (schedule.endTime === 0n) {
+      if (!isOpen) finished.add(batchId);
+      return;
+    }
+    if (isOpen) {
+      if (chainTime < schedule.endTime) return;
+      if (!(await attempt("close-batch", batchId, () => closeBatch(batchId)))) return;
+    }
+    if (outcome !== OUTCOME_UNRESOLVED || submissions === 0n || (await market.getBatchResult(batchId)).revealed) {
+      finished.add(batchId);
+      return;
+    }
+    if (await hasLiveRequest(batchId, chainTime)) return;
+
+    // Requests from one account are rate limited, so further batches wait for the next window
+    const [lastRequest, cooldown] = await Promise.all([
+      market.lastDecryptionRequestTime(keeperAddress),
+      market.cooldownSeconds()
+    ]);
+    const latest = await market.runner!.provider!.getBlock("latest");
+    if (BigInt(latest!.timestamp) < lastRequest + cooldown) {
+      if (!deferred.has(batchId)) {
+        deferred.add(batchId);
+        audit({
+          action: "request-decryption",
+          batchId: batchId.toString(),
+          status: "deferred",
+          attempt: 0,
+          txHash: null,
+          requestId: null,
+          detail: `cooldown until ${lastRequest + cooldown}`
+        });
+      }
+      return;
+    }
+    if (await attempt("request-decryption", batchId, () => requestDecryption(batchId))) deferred.delete(batchId);
+  };
+
+  // One pass over every batch; steps are sent one at a time so the keeper's transactions don't race on nonces
+  const tickOnce = async (): Promise<KeeperAuditEntry[]> => {
+    entries = [];
+    const keeperAddress = await (market.runner as ethers.Signer).getAddress();
+    const [nextBatchId, latest] = await Promise.all([market.nextBatchId(), market.runner!.provider!.getBlock("latest")]);
+    const chainTime = BigInt(latest!.timestamp);
+    for (let batchId = 1n; batchId < nextBatchId; batchId++) {
+      if (!finished.has(batchId)) await checkBatch(batchId, chainTime, keeperAddress);
+    }
+    return entries;
+  };
+
+  let running = false;
+
+  // Ticks every pollIntervalMs until stop() is called. A tick that fails to read chain state is
+  // reported and retried on the next poll.
+  const run = async (pollIntervalMs = 15000, onError?: (error: unknown) => void): Promise<void> => {
+    running = true;
+    while (running) {
+      try {
+        await tickOnce();
+      } catch (e) {
+        onError?.(e);
+      }
+      if (running) await new Promise(res => setTimeout(res, pollIntervalMs));
+    }
+  };
+
+  const stop = () => {
+    running = false;
+  };
+
+  return { tickOnce, run, stop };
+}
+
+export type MarketKeeper = ReturnType<typeof createKeeper>;
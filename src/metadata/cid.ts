@@ -0,0 +1,47 @@
+// src/metadata/cid.ts
+// Content identifiers compatible with IPFS, computed without an IPFS node
+import { ethers } from "ethers";
+
+// CIDv1 + raw codec + sha2-256 multihash of 32 bytes
+const CID_PREFIX = new Uint8Array([0x01, 0x55, 0x12, 0x20]);
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+// Content above one block is chunked by `ipfs add`, which would give it a different CID
+export const MAX_CONTENT_BYTES = 256 * 1024;
+
+// Multibase base32: lowercase RFC 4648 without padding, prefixed with "b"
+const base32 = (bytes: Uint8Array): string => {
+  let out = "b";
+  let value = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      out += BASE32_ALPHABET[(value >>> bits) & 31];
+    }
+    value &= (1 << bits) - 1;
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+};
+
+// The CID `ipfs add --cid-version 1 --raw-leaves` reports for the same bytes
+export function computeCid(content: Uint8Array): string {
+  if (content.length > MAX_CONTENT_BYTES) {
+    throw new Error(`content is ${content.length} bytes, over the ${MAX_CONTENT_BYTES} byte limit of a single block`);
+  }
+  return base32(ethers.getBytes(ethers.concat([CID_PREFIX, ethers.sha256(content)])));
+}
+
+// Only the CID form computeCid produces is accepted
+export function isCid(value: string): boolean {
+  return /^bafkrei[a-z2-7]{52}$/.test(value);
+}
+
+export function verifyCid(cid: string, content: Uint8Array): void {
+  if (content.length > MAX_CONTENT_BYTES || computeCid(content) !== cid) {
+    throw new Error(`content does not match CID ${cid}`);
+  }
+}
@@ -0,0 +1,61 @@
+// src/metadata/description.ts
+// Market descriptions as published off-chain; the registry only stores their CID
+import { ethers } from "ethers";
+
+export const DESCRIPTION_SCHEMA = "dao-predict-market/market-description";
+export const DESCRIPTION_VERSION = 1;
+
+export interface MarketDescription {
+  schema: typeof DESCRIPTION_SCHEMA;
+  version: number;
+  daoName: string;
+  proposalTitle: string;
+  category: string;
+  creator: string;
+  batchId: string;
+  // End of the prediction window when published; the on-chain schedule takes precedence
+  endTime: number;
+  // Option labels of a multi-outcome batch
+  outcomes?: string[];
+  // Unit of a scalar batch's estimates
+  unit?: string;
+  weightSymbol?: string;
+  // ERC-6372 clock of the weight token, which decides whether the snapshot is a block or a timestamp
+  weightClock?: "blocknumber" | "timestamp";
+  gateSymbol?: string;
+  gateDecimals?: number;
+  // Addresses the allowlist root was built from, so members can prove membership
+  allowlist?: string[];
+}
+
+// Keys sorted, no whitespace and undefined fields dropped, so equal descriptions always share a CID
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(item => canonicalJson(item ?? null)).join(",")}]`;
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`).join(",")}}`;
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) throw new Error(`${value} has no JSON representation`);
+  return JSON.stringify(value);
+}
+
+export function createMarketDescription(
+  fields: Omit<MarketDescription, "schema" | "version">
+): MarketDescription {
+  return { schema: DESCRIPTION_SCHEMA, version: DESCRIPTION_VERSION, ...fields };
+}
+
+export function encodeMarketDescription(description: MarketDescription): Uint8Array {
+  return ethers.toUtf8Bytes(canonicalJson(description));
+}
+
+export function decodeMarketDescription(content: Uint8Array): MarketDescription {
+  const description = JSON.parse(ethers.toUtf8String(content));
+  if (description?.schema !== DESCRIPTION_SCHEMA) throw new Error("content is not a market description");
+  if (description.version !== DESCRIPTION_VERSION) {
+    throw new Error(`unsupported market description version ${description.version}`);
+  }
+  return description;
+}
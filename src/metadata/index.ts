@@ -0,0 +1,5 @@
+// src/metadata/index.ts
+export * from "./cid";
+export * from "./description";
+export * from "./store";
+export * from "./server";
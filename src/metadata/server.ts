@@ -0,0 +1,71 @@
+// src/metadata/server.ts
+import http from "http";
+import { computeCid, isCid, MAX_CONTENT_BYTES, verifyCid } from "./cid";
+import type { MetadataStore } from "./store";
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const readBody = (req: http.IncomingMessage): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_CONTENT_BYTES) {
+        reject(new HttpError(413, `content is limited to ${MAX_CONTENT_BYTES} bytes`));
+        req.destroy();
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on("end", () => resolve(new Uint8Array(Buffer.concat(chunks))));
+    req.on("error", reject);
+  });
+
+// Local pinning stand-in with the gateway's read path: POST /ipfs pins the body and answers { cid },
+// GET /ipfs/<cid> serves it back. Content is checked against its CID both ways.
+export function createMetadataServer(store: MetadataStore): http.Server {
+  return http.createServer(async (req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    const parts = new URL(req.url ?? "/", "http://metadata").pathname.split("/").filter(Boolean);
+    try {
+      if (req.method === "OPTIONS") {
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+      if (parts[0] !== "ipfs" || parts.length > 2) throw new HttpError(404, `no route for ${req.url}`);
+      if (parts.length === 1) {
+        if (req.method !== "POST") throw new HttpError(405, "content is added with POST /ipfs");
+        const content = await readBody(req);
+        const cid = await store.put(content);
+        verifyCid(cid, content);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ cid }));
+        return;
+      }
+      if (req.method !== "GET") throw new HttpError(405, "content is read with GET /ipfs/<cid>");
+      if (!isCid(parts[1])) throw new HttpError(400, `"${parts[1]}" is not a raw sha2-256 CIDv1`);
+      let content: Uint8Array;
+      try {
+        content = await store.get(parts[1]);
+      } catch (e) {
+        throw new HttpError(404, `${parts[1]} not found`);
+      }
+      if (computeCid(content) !== parts[1]) throw new Error(`stored content of ${parts[1]} does not match its CID`);
+      res.writeHead(200, { "Content-Type": "application/octet-stream" });
+      res.end(content);
+    } catch (e: any) {
+      const status = e instanceof HttpError ? e.status : 500;
+      if (!(e instanceof HttpError)) console.error("Metadata server error:", e);
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: e instanceof HttpError ? e.message : "internal error" }));
+    }
+  });
+}
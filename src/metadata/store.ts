@@ -0,0 +1,70 @@
+// src/metadata/store.ts
+import fs from "fs";
+import path from "path";
+import { computeCid, isCid, verifyCid } from "./cid";
+import { decodeMarketDescription, encodeMarketDescription, MarketDescription } from "./description";
+
+// Where descriptions are pinned: a directory or the HTTP stand-in in development and tests, IPFS in production
+export interface MetadataStore {
+  // Stores the content and returns its CID
+  put(content: Uint8Array): Promise<string>;
+  // Content stored under the CID, which the caller still has to verify
+  get(cid: string): Promise<Uint8Array>;
+}
+
+const checkCid = (cid: string) => {
+  if (!isCid(cid)) throw new Error(`"${cid}" is not a raw sha2-256 CIDv1`);
+};
+
+// One file per CID; the name is checked before it is joined to the directory
+export function createFileStore(dir: string): MetadataStore {
+  fs.mkdirSync(dir, { recursive: true });
+  return {
+    async put(content) {
+      const cid = computeCid(content);
+      fs.writeFileSync(path.join(dir, cid), content);
+      return cid;
+    },
+    async get(cid) {
+      checkCid(cid);
+      const file = path.join(dir, cid);
+      if (!fs.existsSync(file)) throw new Error(`${cid} not found in ${dir}`);
+      return new Uint8Array(fs.readFileSync(file));
+    }
+  };
+}
+
+// Client for createMetadataServer, or any gateway that serves GET /ipfs/<cid>. Only the stand-in accepts POST /ipfs.
+export function createHttpStore(baseUrl: string): MetadataStore {
+  const base = baseUrl.replace(/\/+$/, "");
+  return {
+    async put(content) {
+      const res = await fetch(`${base}/ipfs`, {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: new Uint8Array(content)
+      });
+      if (!res.ok) throw new Error(`${base}/ipfs: ${res.status} ${await res.text()}`);
+      const { cid } = (await res.json()) as { cid: string };
+      verifyCid(cid, content);
+      return cid;
+    },
+    async get(cid) {
+      checkCid(cid);
+      const res = await fetch(`${base}/ipfs/${cid}`);
+      if (!res.ok) throw new Error(`${base}/ipfs/${cid}: ${res.status}`);
+      return new Uint8Array(await res.arrayBuffer());
+    }
+  };
+}
+
+export async function publishMarketDescription(store: MetadataStore, description: MarketDescription): Promise<string> {
+  return store.put(encodeMarketDescription(description));
+}
+
+// Rejects content that doesn't hash to the CID, whichever store served it
+export async function fetchMarketDescription(store: MetadataStore, cid: string): Promise<MarketDescription> {
+  const content = await store.get(cid);
+  verifyCid(cid, content);
+  return decodeMarketDescription(content);
+}
@@ -0,0 +1,102 @@
+// src/migration/adapterMigration.ts
+import { ethers } from "ethers";
+import type { MarketRegistry } from "../../types";
+
+// The legacy UniversalAdapter is only read from, so its getter is all we need
+export const ADAPTER_ABI = ["function getData(string key) view returns (bytes)"];
+
+export interface AdapterMarket {
+  key: string;
+  creator: string;
+  batchId: bigint;
+  // Original JSON blob, carried over byte for byte
+  data: string;
+}
+
+export type MigrationStatus = "imported" | "already-registered" | "skipped" | "failed";
+
+export interface MigrationEntry {
+  key: string;
+  status: MigrationStatus;
+  marketId: bigint | null;
+  detail: string;
+}
+
+export interface MigrationOptions {
+  dryRun?: boolean;
+}
+
+const entry = (key: string, status: MigrationStatus, detail: string, marketId: bigint | null = null): MigrationEntry => ({
+  key,
+  status,
+  marketId,
+  detail
+});
+
+export async function readAdapterKeys(adapter: ethers.Contract): Promise<string[]> {
+  const keysBytes: string = await adapter.getData("market_keys");
+  if (ethers.dataLength(keysBytes) === 0) return [];
+  const keys = JSON.parse(ethers.toUtf8String(keysBytes));
+  if (!Array.isArray(keys)) throw new Error("market_keys is not a JSON array");
+  // The read-modify-write writer could record the same key twice
+  return [...new Set(keys.map(String))];
+}
+
+export async function readAdapterMarket(adapter: ethers.Contract, key: string): Promise<AdapterMarket | MigrationEntry> {
+  const bytes: string = await adapter.getData(`market_${key}`);
+  if (ethers.dataLength(bytes) === 0) return entry(key, "skipped", "no blob stored for key");
+  let record: any;
+  try {
+    record = JSON.parse(ethers.toUtf8String(bytes));
+  } catch (e) {
+    return entry(key, "skipped", "blob is not valid JSON");
+  }
+  if (!record || !record.batchId) return entry(key, "skipped", "market has no on-chain batch");
+  if (typeof record.creator !== "string" || !ethers.isAddress(record.creator)) {
+    return entry(key, "skipped", "market has no valid creator address");
+  }
+  return { key, creator: ethers.getAddress(record.creator), batchId: BigInt(record.batchId), data: bytes };
+}
+
+// Imports adapter markets into the registry in key order. Safe to re-run: keys already in the registry are skipped.
+export async function migrateAdapterMarkets(
+  adapter: ethers.Contract,
+  registry: MarketRegistry,
+  options: MigrationOptions = {}
+): Promise<MigrationEntry[]> {
+  const results: MigrationEntry[] = [];
+  // Batches claimed during a dry run, which the registry itself never sees
+  const plannedBatches = new Set<bigint>();
+  for (const key of await readAdapterKeys(adapter)) {
+    try {
+      const market = await readAdapterMarket(adapter, key);
+      if (!("batchId" in market)) {
+        results.push(market);
+        continue;
+      }
+      if (await registry.isKeyRegistered(key)) {
+        results.push(entry(key, "already-registered", "key already in registry", await registry.marketIdByKey(key)));
+        continue;
+      }
+      if (options.dryRun) {
+        if (plannedBatches.has(market.batchId)) {
+          results.push(entry(key, "failed", `batch ${market.batchId} is already claimed by another market`));
+          continue;
+        }
+        plannedBatches.add(market.batchId);
+        results.push(entry(key, "imported", `would import batch ${market.batchId} for ${market.creator}`));
+        continue;
+      }
+      const receipt = await (await registry.importMarket(key, market.creator, market.batchId, market.data)).wait();
+      let marketId: bigint | null = null;
+      for (const log of receipt?.logs ?? []) {
+        const parsed = registry.interface.parseLog(log);
+        if (parsed?.name === "MarketRegistered") marketId = parsed.args.marketId as bigint;
+      }
+      results.push(entry(key, "imported", `batch ${market.batchId}`, marketId));
+    } catch (e: any) {
+      results.push(entry(key, "failed", e.shortMessage || e.message || String(e)));
+    }
+  }
+  return results;
+}
@@ -0,0 +1,2 @@
+// src/migration/index.ts
+export * from "./adapterMigration";
@@ -0,0 +1,53 @@
+// src/resolver/governorSource.ts
+import { ethers } from "ethers";
+import type { ProposalResult, ProposalSource } from "./types";
+
+// Subset of the OpenZeppelin IGovernor / GovernorCountingSimple ABI the resolver relies on
+export const GOVERNOR_ABI = [
+  "function state(uint256 proposalId) view returns (uint8)",
+  "function proposalVotes(uint256 proposalId) view returns (uint256 againstVotes, uint256 forVotes, uint256 abstainVotes)"
+];
+
+export enum GovernorProposalState {
+  Pending,
+  Active,
+  Canceled,
+  Defeated,
+  Succeeded,
+  Queued,
+  Expired,
+  Executed
+}
+
+export function outcomeFromGovernorState(proposalId: string, state: GovernorProposalState): ProposalResult {
+  const label = GovernorProposalState[state] ?? `Unknown(${state})`;
+  switch (state) {
+    case GovernorProposalState.Pending:
+    case GovernorProposalState.Active:
+      return { proposalId, final: false, outcome: null, detail: `proposal is ${label}` };
+    case GovernorProposalState.Succeeded:
+    case GovernorProposalState.Queued:
+    case GovernorProposalState.Executed:
+      return { proposalId, final: true, outcome: "yes", detail: `proposal ${label}` };
+    case GovernorProposalState.Defeated:
+      return { proposalId, final: true, outcome: "no", detail: `proposal ${label}` };
+    default:
+      // Canceled and Expired proposals never produced a DAO decision; leave them to an admin
+      return { proposalId, final: true, outcome: null, detail: `proposal ${label}` };
+  }
+}
+
+export function createGovernorSource(governorAddress: string, runner: ethers.ContractRunner): ProposalSource {
+  const governor = new ethers.Contract(governorAddress, GOVERNOR_ABI, runner);
+  return {
+    kind: "governor",
+    address: governorAddress,
+    async fetchResult(proposalId: string): Promise<ProposalResult> {
+      const state = Number(await governor.state(BigInt(proposalId))) as GovernorProposalState;
+      const result = outcomeFromGovernorState(proposalId, state);
+      if (!result.final) return result;
+      const [againstVotes, forVotes, abstainVotes] = await governor.proposalVotes(BigInt(proposalId));
+      return { ...result, detail: `${result.detail} (for ${forVotes}, against ${againstVotes}, abstain ${abstainVotes})` };
+    }
+  };
+}
@@ -0,0 +1,5 @@
+// src/resolver/index.ts
+export * from "./types";
+export * from "./governorSource";
+export * from "./snapshotSource";
+export * from "./resolver";
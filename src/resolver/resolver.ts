@@ -0,0 +1,94 @@
+// src/resolver/resolver.ts
+import { ethers } from "ethers";
+import type { DAOPredictMarketFHE } from "../../types";
+import type { ProposalSource, ResolutionBinding, ResolutionReport } from "./types";
+
+const OUTCOME_UNRESOLVED = 0n;
+
+// The proposal the batch's creator recorded with setBatchMetadata, or null when none was. The
+// resolver only settles batches on this record, so no batch can be resolved on another proposal.
+export async function readBinding(market: DAOPredictMarketFHE, batchId: bigint): Promise<ResolutionBinding | null> {
+  const metadata = await market.getBatchMetadata(batchId);
+  if (metadata.governor !== ethers.ZeroAddress) {
+    return { batchId, source: "governor", proposalId: metadata.proposalId.toString(), governor: metadata.governor };
+  }
+  if (metadata.snapshotId !== ethers.ZeroHash) {
+    return { batchId, source: "snapshot", proposalId: metadata.snapshotId, governor: null };
+  }
+  return null;
+}
+
+export async function resolveBatch(
+  market: DAOPredictMarketFHE,
+  batchId: bigint,
+  sources: Record<string, ProposalSource>
+): Promise<ResolutionReport> {
+  const binding = await readBinding(market, batchId);
+  const report: ResolutionReport = {
+    batchId,
+    source: binding?.source ?? "",
+    proposalId: binding?.proposalId ?? "",
+    status: "pending",
+    outcome: null,
+    requestId: null,
+    detail: ""
+  };
+  if (!binding) return { ...report, status: "failed", detail: "batch metadata names no proposal" };
+
+  const source = sources[binding.source];
+  if (!source) return { ...report, status: "failed", detail: `no ${binding.source} source configured` };
+  if (binding.governor && source.address?.toLowerCase() !== binding.governor.toLowerCase()) {
+    return { ...report, status: "failed", detail: `batch is bound to governor ${binding.governor}, not ${source.address}` };
+  }
+
+  if ((await market.batchOutcomes(batchId)) !== OUTCOME_UNRESOLVED) {
+    return { ...report, status: "already-resolved", detail: "batch already has an outcome" };
+  }
+  if ((await market.batchOutcomeCounts(batchId)) > 0n) {
+    return { ...report, status: "failed", detail: "multi-outcome batches cannot be settled by a yes/no proposal" };
+  }
+  if ((await market.scalarRanges(batchId)).bucketCount > 0n) {
+    return { ...report, status: "failed", detail: "scalar batches cannot be settled by a yes/no proposal" };
+  }
+
+  const result = await source.fetchResult(binding.proposalId);
+  if (!result.final) return { ...report, status: "pending", detail: result.detail };
+  if (result.outcome === null) return { ...report, status: "unresolvable", detail: result.detail };
+
+  if (await market.isBatchOpen(batchId)) {
+    await (await market.closeBatch(batchId)).wait();
+  }
+  const receipt = await (await market.resolveMarket(batchId, result.outcome === "yes")).wait();
+
+  let requestId: bigint | null = null;
+  for (const log of receipt?.logs ?? []) {
+    const parsed = market.interface.parseLog(log);
+    if (parsed?.name === "WinningPoolRequested") requestId = parsed.args.requestId as bigint;
+  }
+  return { ...report, status: "resolved", outcome: result.outcome, requestId, detail: result.detail };
+}
+
+// Batches are resolved one at a time so the owner's transactions don't race on nonces
+export async function resolveBatches(
+  market: DAOPredictMarketFHE,
+  batchIds: bigint[],
+  sources: Record<string, ProposalSource>
+): Promise<ResolutionReport[]> {
+  const reports: ResolutionReport[] = [];
+  for (const batchId of batchIds) {
+    try {
+      reports.push(await resolveBatch(market, batchId, sources));
+    } catch (e: any) {
+      reports.push({
+        batchId,
+        source: "",
+        proposalId: "",
+        status: "failed",
+        outcome: null,
+        requestId: null,
+        detail: e.shortMessage || e.message || String(e)
+      });
+    }
+  }
+  return reports;
+}
@@ -0,0 +1,82 @@
+// src/resolver/snapshotSource.ts
+import fs from "fs";
+import type { ProposalResult, ProposalSource } from "./types";
+
+// Shape of a proposal as returned by the Snapshot hub GraphQL API
+export interface SnapshotProposal {
+  id: string;
+  state: "pending" | "active" | "closed";
+  choices: string[];
+  scores: number[];
+  scores_total: number;
+  quorum?: number;
+}
+
+export type SnapshotLoader = (proposalId: string) => Promise<SnapshotProposal>;
+
+export const SNAPSHOT_HUB_GRAPHQL = "https://hub.snapshot.org/graphql";
+
+const YES_CHOICE = /^(yes|for|approve)$/i;
+const NO_CHOICE = /^(no|against|reject)$/i;
+
+const PROPOSAL_QUERY = `query Proposal($id: String!) {
+  proposal(id: $id) { id state choices scores scores_total quorum }
+}`;
+
+export function snapshotGraphqlLoader(endpoint = SNAPSHOT_HUB_GRAPHQL): SnapshotLoader {
+  return async (proposalId: string) => {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query: PROPOSAL_QUERY, variables: { id: proposalId } })
+    });
+    if (!response.ok) throw new Error(`Snapshot hub responded ${response.status} for ${proposalId}`);
+    const body = (await response.json()) as { data?: { proposal?: SnapshotProposal } };
+    if (!body.data?.proposal) throw new Error(`Snapshot proposal ${proposalId} not found`);
+    return body.data.proposal;
+  };
+}
+
+// Local stand-in: a JSON file holding an array of Snapshot-shaped proposals
+export function snapshotFileLoader(filePath: string): SnapshotLoader {
+  return async (proposalId: string) => {
+    const proposals: SnapshotProposal[] = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    const proposal = proposals.find(p => p.id === proposalId);
+    if (!proposal) throw new Error(`Snapshot proposal ${proposalId} not found in ${filePath}`);
+    return proposal;
+  };
+}
+
+export function outcomeFromSnapshotProposal(proposal: SnapshotProposal): ProposalResult {
+  const proposalId = proposal.id;
+  if (proposal.state !== "closed") {
+    return { proposalId, final: false, outcome: null, detail: `proposal is ${proposal.state}` };
+  }
+  let yesIndex = proposal.choices.findIndex(choice => YES_CHOICE.test(choice.trim()));
+  let noIndex = proposal.choices.findIndex(choice => NO_CHOICE.test(choice.trim()));
+  if (yesIndex === -1 && noIndex === -1 && proposal.choices.length === 2) {
+    // Basic two-option votes list the affirmative choice first
+    yesIndex = 0;
+    noIndex = 1;
+  }
+  if (yesIndex === -1 || noIndex === -1) {
+    return { proposalId, final: true, outcome: null, detail: `no yes/no choices in [${proposal.choices.join(", ")}]` };
+  }
+
+  const yesScore = proposal.scores[yesIndex] ?? 0;
+  const noScore = proposal.scores[noIndex] ?? 0;
+  const scores = `yes ${yesScore}, no ${noScore}, total ${proposal.scores_total}`;
+  if (proposal.quorum && proposal.scores_total < proposal.quorum) {
+    return { proposalId, final: true, outcome: "no", detail: `quorum ${proposal.quorum} not reached (${scores})` };
+  }
+  return { proposalId, final: true, outcome: yesScore > noScore ? "yes" : "no", detail: `proposal closed (${scores})` };
+}
+
+export function createSnapshotSource(loader: SnapshotLoader = snapshotGraphqlLoader()): ProposalSource {
+  return {
+    kind: "snapshot",
+    async fetchResult(proposalId: string): Promise<ProposalResult> {
+      return outcomeFromSnapshotProposal(await loader(proposalId));
+    }
+  };
+}
@@ -0,0 +1,40 @@
+// src/resolver/types.ts
+export type ProposalOutcome = "yes" | "no";
+
+export interface ProposalResult {
+  proposalId: string;
+  // True once the DAO vote can no longer change
+  final: boolean;
+  // Null while voting is still open, or when a final proposal has no yes/no answer (e.g. canceled)
+  outcome: ProposalOutcome | null;
+  detail: string;
+}
+
+export interface ProposalSource {
+  readonly kind: string;
+  // Governor contract the source reads, checked against the batch's metadata; unset for Snapshot
+  readonly address?: string;
+  fetchResult(proposalId: string): Promise<ProposalResult>;
+}
+
+// The proposal a batch settles on, as recorded in its on-chain metadata
+export interface ResolutionBinding {
+  batchId: bigint;
+  source: string;
+  proposalId: string;
+  // Governor contract of governor-bound batches
+  governor: string | null;
+}
+
+export type ResolutionStatus = "resolved" | "pending" | "unresolvable" | "already-resolved" | "failed";
+
+export interface ResolutionReport {
+  batchId: bigint;
+  source: string;
+  proposalId: string;
+  status: ResolutionStatus;
+  outcome: ProposalOutcome | null;
+  // Decryption request for the winning pool; null when the pool was revealed immediately
+  requestId: bigint | null;
+  detail: string;
+}
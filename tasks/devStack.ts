@@ -0,0 +1,100 @@
+// tasks/devStack.ts
+import path from "path";
+import { TASK_NODE, TASK_NODE_SERVER_READY } from "hardhat/builtin-tasks/task-names";
+import { subtask, task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { DAOPredictMarketFHE, MarketRegistry } from "../types";
+import { SAMPLE_MARKETS, seedSampleMarkets, writeFrontendConfig } from "../src/devstack";
+import { createIndexer, createIndexerServer, openIndexerDb } from "../src/indexer";
+import { createFileStore, createMetadataServer } from "../src/metadata";
+
+interface DevStackOptions {
+  seed: boolean;
+  indexerPort: number;
+  metadataPort: number;
+}
+
+// Set by dev-stack before it hands over to the built-in node task, which blocks until shutdown
+let devStack: DevStackOptions | null = null;
+
+async function startDevStack(hre: HardhatRuntimeEnvironment, rpcUrl: string, options: DevStackOptions) {
+  const [deployer] = await hre.ethers.getSigners();
+
+  const adapter = await hre.ethers.deployContract("MockUniversalAdapter");
+  await adapter.waitForDeployment();
+  const tally = await hre.ethers.deployContract("PredictionTally");
+  const market = (await hre.ethers.deployContract("DAOPredictMarketFHE", {
+    libraries: { PredictionTally: await tally.getAddress() }
+  })) as unknown as DAOPredictMarketFHE;
+  const deployment = await market.deploymentTransaction()!.wait();
+  const registry = (await hre.ethers.deployContract("MarketRegistry", [await market.getAddress()])) as unknown as MarketRegistry;
+  await registry.waitForDeployment();
+  console.log(`MockUniversalAdapter deployed at ${await adapter.getAddress()}`);
+  console.log(`DAOPredictMarketFHE deployed at ${await market.getAddress()}`);
+  console.log(`MarketRegistry deployed at ${await registry.getAddress()}`);
+
+  // Descriptions outlive the node in the cache, which is harmless as they are addressed by content
+  const metadataStore = createFileStore(path.join(hre.config.paths.cache, "metadata"));
+  const metadataUrl = `http://127.0.0.1:${options.metadataPort}`;
+  createMetadataServer(metadataStore).listen(options.metadataPort);
+  console.log(`Metadata store listening on ${metadataUrl}`);
+
+  if (options.seed) {
+    const seeded = await seedSampleMarkets(market, registry, metadataStore, SAMPLE_MARKETS);
+    console.log(`Seeded ${seeded.length} sample markets`);
+  }
+
+  let indexerUrl = "";
+  if (options.indexerPort > 0) {
+    const db = openIndexerDb(":memory:");
+    const indexer = createIndexer({ market, provider: hre.ethers.provider, db, startBlock: deployment!.blockNumber });
+    const server = createIndexerServer(db);
+    server.listen(options.indexerPort);
+    indexer.run(2000).catch(e => console.error("Indexer stopped:", e));
+    indexerUrl = `http://127.0.0.1:${options.indexerPort}`;
+    console.log(`Indexer API listening on ${indexerUrl}`);
+  }
+
+  const configPath = writeFrontendConfig({
+    networkName: "localhost",
+    displayName: "Localhost",
+    chainId: Number((await hre.ethers.provider.getNetwork()).chainId),
+    network: rpcUrl,
+    rpcUrls: [rpcUrl],
+    explorerUrl: "",
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    contractAddress: await adapter.getAddress(),
+    predictMarketAddress: await market.getAddress(),
+    registryAddress: await registry.getAddress(),
+    deployBlock: deployment!.blockNumber,
+    fheBackend: "hardhat-mock",
+    relayerUrl: "",
+    // Gateway chain the hardhat FHEVM mock signs decryptions for
+    gatewayChainId: 55815,
+    indexerUrl,
+    metadataBackend: "http",
+    metadataUrl,
+    metadataApiUrl: "",
+    deployer: deployer.address
+  });
+  console.log(`Wrote ${path.relative(hre.config.paths.root, configPath)}`);
+  console.log("Start the frontend with VITE_NETWORK=localhost npm run dev (in frontend/web)");
+}
+
+subtask(TASK_NODE_SERVER_READY).setAction(async (taskArgs, hre, runSuper) => {
+  await runSuper(taskArgs);
+  if (!devStack) return;
+  await startDevStack(hre, `http://${taskArgs.address}:${taskArgs.port}`, devStack);
+});
+
+task("dev-stack", "Starts a local FHEVM node, deploys and seeds the markets, and points the frontend at it")
+  .addOptionalParam("hostname", "Interface the node listens on", "127.0.0.1")
+  .addOptionalParam("port", "Node JSON-RPC port", 8545, types.int)
+  .addOptionalParam("indexerPort", "Serve the indexer API on this port (0 to skip)", 4000, types.int)
+  .addOptionalParam("metadataPort", "Serve the metadata store stand-in on this port", 4001, types.int)
+  .addFlag("noSeed", "Deploy without sample markets")
+  .setAction(async ({ hostname, port, indexerPort, metadataPort, noSeed }, hre) => {
+    if (hre.network.name !== "hardhat") throw new Error("dev-stack runs its own node; drop the --network flag");
+    devStack = { seed: !noSeed, indexerPort, metadataPort };
+    await hre.run(TASK_NODE, { hostname, port });
+  });
@@ -0,0 +1,30 @@
+// tasks/indexer.ts
+import { task, types } from "hardhat/config";
+import type { DAOPredictMarketFHE } from "../types";
+import { createIndexer, createIndexerServer, openIndexerDb } from "../src/indexer";
+
+task("run-indexer", "Indexes DAOPredictMarketFHE events into SQLite and serves them over HTTP")
+  .addParam("market", "DAOPredictMarketFHE address")
+  .addOptionalParam("db", "SQLite database file", "indexer.sqlite")
+  .addOptionalParam("port", "HTTP API port", 4000, types.int)
+  .addOptionalParam("startBlock", "First block to index", 0, types.int)
+  .addOptionalParam("confirmations", "Blocks to stay behind head", 0, types.int)
+  .addOptionalParam("poll", "Poll interval in milliseconds", 4000, types.int)
+  .setAction(async ({ market: marketAddress, db: dbPath, port, startBlock, confirmations, poll }, hre) => {
+    const market = (await hre.ethers.getContractAt("DAOPredictMarketFHE", marketAddress)) as unknown as DAOPredictMarketFHE;
+    const db = openIndexerDb(dbPath);
+    const indexer = createIndexer({ market, provider: hre.ethers.provider, db, startBlock, confirmations });
+    const server = createIndexerServer(db);
+    server.listen(port, () => console.log(`Indexer API listening on http://localhost:${port}`));
+
+    process.once("SIGINT", () => {
+      indexer.stop();
+      server.close();
+    });
+
+    await indexer.run(poll, result => {
+      if (result.rolledBackTo !== null) console.log(`Reorg detected, rolled back to block ${result.rolledBackTo}`);
+      if (result.events > 0) console.log(`Indexed ${result.events} events in blocks ${result.fromBlock}-${result.toBlock}`);
+    });
+    db.close();
+  });
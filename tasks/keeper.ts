@@ -0,0 +1,30 @@
+// tasks/keeper.ts
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import type { DAOPredictMarketFHE } from "../types";
+import { createKeeper, KeeperAuditEntry } from "../src/keeper";
+
+task("run-keeper", "Closes expired batches and requests the decryption of their tallies")
+  .addParam("market", "DAOPredictMarketFHE address")
+  .addOptionalParam("audit", "File the audit trail is appended to as JSON lines", undefined, types.string)
+  .addOptionalParam("poll", "Poll interval in milliseconds", 15000, types.int)
+  .addOptionalParam("maxAttempts", "Attempts per step before it is abandoned", 5, types.int)
+  .addOptionalParam("backoff", "Delay in milliseconds after the first failure, doubled on each retry", 5000, types.int)
+  .setAction(async ({ market: marketAddress, audit, poll, maxAttempts, backoff }, hre) => {
+    const [signer] = await hre.ethers.getSigners();
+    const market = (await hre.ethers.getContractAt("DAOPredictMarketFHE", marketAddress, signer)) as unknown as DAOPredictMarketFHE;
+    if (!(await market.isProvider(signer.address))) {
+      console.warn(`${signer.address} is not a registered provider; decryption requests will fail until it is added`);
+    }
+
+    const log = (entry: KeeperAuditEntry) => {
+      const line = JSON.stringify(entry);
+      console.log(line);
+      if (audit) fs.appendFileSync(audit, `${line}\n`);
+    };
+    const keeper = createKeeper({ market, maxAttempts, baseDelayMs: backoff, onAudit: log });
+
+    process.once("SIGINT", () => keeper.stop());
+    console.log(`Keeper watching ${marketAddress} as ${signer.address}`);
+    await keeper.run(poll, e => console.error("Keeper tick failed:", e));
+  });
@@ -0,0 +1,37 @@
+// tasks/migration.ts
+import { task } from "hardhat/config";
+import type { MarketRegistry } from "../types";
+import { ADAPTER_ABI, migrateAdapterMarkets } from "../src/migration";
+
+task("deploy-registry", "Deploys the MarketRegistry for a DAOPredictMarketFHE")
+  .addParam("market", "DAOPredictMarketFHE address")
+  .setAction(async ({ market }, hre) => {
+    const registry = await hre.ethers.deployContract("MarketRegistry", [market]);
+    await registry.waitForDeployment();
+    console.log(`MarketRegistry deployed at ${await registry.getAddress()}`);
+  });
+
+task("migrate-adapter-markets", "Imports market_<id> blobs from the UniversalAdapter into the MarketRegistry")
+  .addParam("adapter", "UniversalAdapter address")
+  .addParam("registry", "MarketRegistry address")
+  .addFlag("dryRun", "Report what would be imported without sending transactions")
+  .addFlag("finish", "Close the registry's import window once every market imported cleanly")
+  .setAction(async ({ adapter: adapterAddress, registry: registryAddress, dryRun, finish }, hre) => {
+    const [signer] = await hre.ethers.getSigners();
+    const adapter = new hre.ethers.Contract(adapterAddress, ADAPTER_ABI, signer);
+    const registry = (await hre.ethers.getContractAt("MarketRegistry", registryAddress, signer)) as unknown as MarketRegistry;
+
+    const results = await migrateAdapterMarkets(adapter, registry, { dryRun });
+    for (const result of results) {
+      const marketId = result.marketId === null ? "" : ` -> market ${result.marketId}`;
+      console.log(`${result.key}: ${result.status}${marketId} (${result.detail})`);
+    }
+
+    const failed = results.filter(result => result.status === "failed").length;
+    console.log(`${results.length} keys, ${failed} failed${dryRun ? " (dry run)" : ""}`);
+    if (finish && !dryRun) {
+      if (failed > 0) throw new Error("Not finishing migration while imports are failing");
+      await (await registry.finishMigration()).wait();
+      console.log("Registry import window closed");
+    }
+  });
@@ -0,0 +1,44 @@
+// tasks/resolver.ts
+import { task, types } from "hardhat/config";
+import type { DAOPredictMarketFHE } from "../types";
+import {
+  createGovernorSource,
+  createSnapshotSource,
+  ProposalSource,
+  resolveBatches,
+  snapshotFileLoader,
+  snapshotGraphqlLoader
+} from "../src/resolver";
+
+task("deploy-mock-governor", "Deploys the MockGovernor stand-in for offline resolution")
+  .addOptionalParam("name", "Governor name", "Mock DAO Governor")
+  .setAction(async ({ name }, hre) => {
+    const governor = await hre.ethers.deployContract("MockGovernor", [name]);
+    await governor.waitForDeployment();
+    console.log(`MockGovernor deployed at ${await governor.getAddress()}`);
+  });
+
+task("resolve-markets", "Resolves batches from the DAO proposals named in their on-chain metadata")
+  .addParam("market", "DAOPredictMarketFHE address")
+  .addParam("batches", "Comma-separated batch ids")
+  .addOptionalParam("governor", "Governor contract address for the governor source")
+  .addOptionalParam("snapshot", "Snapshot proposals JSON file, or a GraphQL endpoint URL", undefined, types.string)
+  .setAction(async ({ market: marketAddress, batches, governor, snapshot }, hre) => {
+    const [signer] = await hre.ethers.getSigners();
+    const market = (await hre.ethers.getContractAt("DAOPredictMarketFHE", marketAddress, signer)) as unknown as DAOPredictMarketFHE;
+
+    const sources: Record<string, ProposalSource> = {};
+    if (governor) sources.governor = createGovernorSource(governor, signer);
+    if (snapshot) {
+      const loader = /^https?:\/\//.test(snapshot) ? snapshotGraphqlLoader(snapshot) : snapshotFileLoader(snapshot);
+      sources.snapshot = createSnapshotSource(loader);
+    }
+
+    const batchIds = String(batches).split(",").map(id => BigInt(id.trim()));
+
+    const reports = await resolveBatches(market, batchIds, sources);
+    for (const report of reports) {
+      const requestId = report.requestId === null ? "" : ` request=${report.requestId}`;
+      console.log(`batch ${report.batchId} [${report.source}:${report.proposalId}] ${report.status}${report.outcome ? ` ${report.outcome}` : ""}${requestId} - ${report.detail}`);
+    }
+  });
@@ -0,0 +1,1225 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FhevmType, FhevmTypeEuint } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { DAOPredictMarketFHE, DAOPredictMarketFHE__factory, MockVotesToken, MockVotesToken__factory } from "../types";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+// Sorted-pair Merkle tree over double-hashed address leaves, as verified on-chain
+function allowlistTree(accounts: string[]) {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const leafOf = (account: string) => ethers.keccak256(ethers.keccak256(coder.encode(["address"], [account])));
+  const hashPair = (a: string, b: string) => ethers.solidityPackedKeccak256(["bytes32", "bytes32"], a < b ? [a, b] : [b, a]);
+  const layers = [accounts.map(leafOf)];
+  while (layers[layers.length - 1].length > 1) {
+    const level = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    layers.push(next);
+  }
+  return {
+    root: layers[layers.length - 1][0],
+    proof(account: string) {
+      const proof: string[] = [];
+      let index = layers[0].indexOf(leafOf(account));
+      for (const level of layers.slice(0, -1)) {
+        const sibling = index ^ 1;
+        if (sibling < level.length) proof.push(level[sibling]);
+        index >>= 1;
+      }
+      return proof;
+    },
+  };
+}
+
+async function deployFixture() {
+  const tally = await ethers.deployContract("PredictionTally");
+  const factory = (await ethers.getContractFactory("DAOPredictMarketFHE", {
+    libraries: { PredictionTally: await tally.getAddress() },
+  })) as DAOPredictMarketFHE__factory;
+  const market = (await factory.deploy()) as DAOPredictMarketFHE;
+  return { market, marketAddress: await market.getAddress() };
+}
+
+describe("DAOPredictMarketFHE", function () {
+  let signers: Signers;
+  let market: DAOPredictMarketFHE;
+  let marketAddress: string;
+
+  async function predict(signer: HardhatEthersSigner, batchId: bigint, choice: number, stake: bigint = 0n) {
+    const input = await fhevm.createEncryptedInput(marketAddress, signer.address).add32(choice).encrypt();
+    return market.connect(signer).submitPrediction(batchId, input.handles[0], input.inputProof, { value: stake });
+  }
+
+  // The mock relayer serves user decryptions one at a time
+  async function userDecryptAll(type: FhevmTypeEuint, handles: string[], signer: HardhatEthersSigner) {
+    const values: bigint[] = [];
+    for (const handle of handles) values.push(await fhevm.userDecryptEuint(type, handle, marketAddress, signer));
+    return values;
+  }
+
+  before(async function () {
+    const [owner, alice, bob] = await ethers.getSigners();
+    signers = { owner, alice, bob };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run against the FHEVM mock");
+      this.skip();
+    }
+    ({ market, marketAddress } = await deployFixture());
+  });
+
+  describe("providers", function () {
+    it("lets the owner add and remove providers", async function () {
+      await expect(market.addProvider(signers.alice.address))
+        .to.emit(market, "ProviderAdded")
+        .withArgs(signers.alice.address);
+      expect(await market.isProvider(signers.alice.address)).to.eq(true);
+
+      await expect(market.removeProvider(signers.alice.address))
+        .to.emit(market, "ProviderRemoved")
+        .withArgs(signers.alice.address);
+      expect(await market.isProvider(signers.alice.address)).to.eq(false);
+    });
+
+    it("rejects the zero address and unknown providers", async function () {
+      await expect(market.addProvider(ethers.ZeroAddress)).to.be.revertedWithCustomError(market, "InvalidArgument");
+      await expect(market.removeProvider(signers.bob.address)).to.be.revertedWithCustomError(market, "InvalidArgument");
+    });
+
+    it("restricts provider management to the owner", async function () {
+      await expect(market.connect(signers.alice).addProvider(signers.bob.address)).to.be.revertedWithCustomError(
+        market,
+        "NotOwner",
+      );
+    });
+  });
+
+  describe("pause", function () {
+    it("toggles paused and blocks batch opening", async function () {
+      await expect(market.setPaused(true)).to.emit(market, "PausedSet").withArgs(true);
+      await expect(market.setPaused(true)).to.be.revertedWithCustomError(market, "InvalidArgument");
+      await expect(market.openBatch()).to.be.revertedWithCustomError(market, "Paused");
+
+      await market.setPaused(false);
+      await expect(market.openBatch()).to.emit(market, "BatchOpened").withArgs(1n);
+    });
+
+    it("blocks predictions while paused", async function () {
+      await market.addProvider(signers.alice.address);
+      await market.openBatch();
+      await market.setPaused(true);
+      await expect(predict(signers.alice, 1n, 1)).to.be.revertedWithCustomError(market, "Paused");
+    });
+  });
+
+  describe("batches", function () {
+    it("opens sequential batches and closes them", async function () {
+      await expect(market.openBatch()).to.emit(market, "BatchOpened").withArgs(1n);
+      await expect(market.openBatch()).to.emit(market, "BatchOpened").withArgs(2n);
+      expect(await market.nextBatchId()).to.eq(3n);
+
+      await expect(market.closeBatch(1n)).to.emit(market, "BatchClosed").withArgs(1n);
+      expect(await market.isBatchOpen(1n)).to.eq(false);
+      expect(await market.isBatchOpen(2n)).to.eq(true);
+      await expect(market.closeBatch(1n)).to.be.revertedWithCustomError(market, "BatchNotOpen");
+    });
+
+    it("rejects predictions on closed or unknown batches", async function () {
+      await market.addProvider(signers.alice.address);
+      await expect(predict(signers.alice, 7n, 1)).to.be.revertedWithCustomError(market, "BatchClosedOrDoesNotExist");
+    });
+  });
+
+  describe("roles", function () {
+    let creatorRole: string;
+    let resolverRole: string;
+    let adminRole: string;
+
+    beforeEach(async function () {
+      [creatorRole, resolverRole, adminRole] = await Promise.all([
+        market.CREATOR_ROLE(),
+        market.RESOLVER_ROLE(),
+        market.DAO_ADMIN_ROLE(),
+      ]);
+    });
+
+    it("lets the owner appoint DAO admins who manage creators and resolvers", async function () {
+      await expect(market.connect(signers.alice).grantRole(adminRole, signers.alice.address)).to.be.revertedWithCustomError(
+        market,
+        "NotOwner",
+      );
+      await expect(market.connect(signers.alice).grantRole(creatorRole, signers.bob.address))
+        .to.be.revertedWithCustomError(market, "MissingRole")
+        .withArgs(adminRole, signers.alice.address);
+
+      await expect(market.grantRole(adminRole, signers.alice.address))
+        .to.emit(market, "RoleGranted")
+        .withArgs(adminRole, signers.alice.address, signers.owner.address);
+      expect(await market.isAdmin(signers.alice.address)).to.eq(true);
+      await market.connect(signers.alice).grantRole(creatorRole, signers.bob.address);
+      expect(await market.hasRole(creatorRole, signers.bob.address)).to.eq(true);
+
+      await expect(market.connect(signers.alice).revokeRole(creatorRole, signers.bob.address))
+        .to.emit(market, "RoleRevoked")
+        .withArgs(creatorRole, signers.bob.address, signers.alice.address);
+      await expect(market.revokeRole(creatorRole, signers.bob.address)).to.be.revertedWithCustomError(
+        market,
+        "InvalidArgument",
+      );
+      await expect(market.grantRole(ethers.id("UNKNOWN_ROLE"), signers.bob.address)).to.be.revertedWithCustomError(
+        market,
+        "InvalidArgument",
+      );
+    });
+
+    it("lets creators open and cancel their own batches only", async function () {
+      await expect(market.connect(signers.bob).openBatch()).to.be.revertedWithCustomError(market, "MissingRole");
+      await market.grantRole(creatorRole, signers.bob.address);
+      await market.grantRole(creatorRole, signers.alice.address);
+      await market.connect(signers.bob).openBatch();
+      await market.connect(signers.alice).openBatch();
+      expect(await market.batchCreators(1n)).to.eq(signers.bob.address);
+
+      await expect(market.connect(signers.alice).closeBatch(1n))
+        .to.be.revertedWithCustomError(market, "NotBatchCreator")
+        .withArgs(1n, signers.alice.address);
+      await expect(market.connect(signers.alice).cancelMarket(1n)).to.be.revertedWithCustomError(
+        market,
+        "NotBatchCreator",
+      );
+      await expect(market.connect(signers.bob).cancelMarket(1n))
+        .to.emit(market, "MarketCanceled")
+        .withArgs(1n, signers.bob.address);
+      expect(await market.isBatchOpen(1n)).to.eq(false);
+      expect(await market.batchOutcomes(1n)).to.eq(3n);
+      await expect(market.connect(signers.bob).cancelMarket(1n)).to.be.revertedWithCustomError(market, "AlreadyResolved");
+    });
+
+    it("reserves resolution for resolvers and admins", async function () {
+      await market.grantRole(creatorRole, signers.bob.address);
+      await market.connect(signers.bob).openBatch();
+      await market.connect(signers.bob).closeBatch(1n);
+      await expect(market.connect(signers.bob).resolveMarket(1n, true)).to.be.revertedWithCustomError(
+        market,
+        "MissingRole",
+      );
+
+      await market.grantRole(resolverRole, signers.alice.address);
+      await expect(market.connect(signers.alice).resolveMarket(1n, true)).to.emit(market, "MarketResolved");
+      await expect(market.connect(signers.alice).cancelMarket(1n)).to.be.revertedWithCustomError(
+        market,
+        "AlreadyResolved",
+      );
+    });
+
+    it("keeps resolvers from reconfiguring other creators' batches", async function () {
+      await market.grantRole(creatorRole, signers.bob.address);
+      await market.grantRole(resolverRole, signers.alice.address);
+      await market.connect(signers.bob).openBatch();
+      const start = BigInt(await time.latest()) + 60n;
+      const metadata = {
+        dao: ethers.id("dao"),
+        proposalChainId: 1n,
+        governor: signers.alice.address,
+        proposalId: 7n,
+        snapshotId: ethers.ZeroHash,
+        questionHash: ethers.id("Will it pass?"),
+        metadataURI: "",
+      };
+
+      await expect(market.connect(signers.alice).setBatchSchedule(1n, start, start + 3600n))
+        .to.be.revertedWithCustomError(market, "NotBatchCreator")
+        .withArgs(1n, signers.alice.address);
+      await expect(market.connect(signers.alice).setBatchMetadata(1n, metadata))
+        .to.be.revertedWithCustomError(market, "NotBatchCreator")
+        .withArgs(1n, signers.alice.address);
+      await expect(market.connect(signers.alice).setParticipationPolicy(1n, 0, ethers.ZeroAddress, 0, ethers.ZeroHash))
+        .to.be.revertedWithCustomError(market, "NotBatchCreator");
+      await market.connect(signers.bob).setBatchSchedule(1n, start, start + 3600n);
+
+      await expect(market.connect(signers.alice).cancelMarket(1n))
+        .to.emit(market, "MarketCanceled")
+        .withArgs(1n, signers.alice.address);
+    });
+  });
+
+  describe("submitPrediction", function () {
+    beforeEach(async function () {
+      await market.addProvider(signers.alice.address);
+      await market.addProvider(signers.bob.address);
+      await market.openBatch();
+    });
+
+    it("only accepts predictions from providers", async function () {
+      await market.removeProvider(signers.bob.address);
+      await expect(predict(signers.bob, 1n, 1)).to.be.revertedWithCustomError(market, "NotProvider");
+    });
+
+    it("aggregates encrypted yes and no votes", async function () {
+      await expect(predict(signers.alice, 1n, 1)).to.emit(market, "PredictionSubmitted");
+      await predict(signers.bob, 1n, 0);
+      await time.increase(60);
+      await predict(signers.alice, 1n, 5);
+
+      expect(await market.submissionsInBatch(1n)).to.eq(3n);
+      const yes = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await market.encryptedYesCounts(1n),
+        marketAddress,
+        signers.owner,
+      );
+      const no = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        await market.encryptedNoCounts(1n),
+        marketAddress,
+        signers.owner,
+      );
+      expect(yes).to.eq(2n);
+      expect(no).to.eq(1n);
+    });
+
+    it("lets submitters decrypt their own prediction", async function () {
+      const receipt = await (await predict(signers.alice, 1n, 1)).wait();
+      const event = receipt!.logs
+        .map((log) => market.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "PredictionSubmitted");
+      const handle = ethers.toBeHex(event!.args.encryptedPrediction, 32);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, marketAddress, signers.alice)).to.eq(1n);
+    });
+
+    it("enforces the submission cooldown", async function () {
+      await predict(signers.alice, 1n, 1);
+      await expect(predict(signers.alice, 1n, 1)).to.be.revertedWithCustomError(market, "CooldownActive");
+
+      await time.increase(60);
+      await expect(predict(signers.alice, 1n, 1)).to.emit(market, "PredictionSubmitted");
+    });
+
+    it("applies cooldown changes made by the owner", async function () {
+      await expect(market.setCooldownSeconds(0)).to.emit(market, "CooldownSecondsSet").withArgs(60n, 0n);
+      await expect(market.setCooldownSeconds(0)).to.be.revertedWithCustomError(market, "InvalidArgument");
+
+      await predict(signers.alice, 1n, 1);
+      await expect(predict(signers.alice, 1n, 0)).to.emit(market, "PredictionSubmitted");
+    });
+  });
+
+  describe("decryption", function () {
+    beforeEach(async function () {
+      await market.addProvider(signers.alice.address);
+      await market.addProvider(signers.bob.address);
+      await market.openBatch();
+      await predict(signers.alice, 1n, 1);
+      await predict(signers.bob, 1n, 0);
+    });
+
+    async function requestDecryption(batchId: bigint, signer = signers.alice): Promise<bigint> {
+      const receipt = await (await market.connect(signer).requestBatchResultDecryption(batchId)).wait();
+      const event = receipt!.logs
+        .map((log) => market.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "DecryptionRequested");
+      return event!.args.requestId as bigint;
+    }
+
+    it("requires the batch to be closed with submissions", async function () {
+      await expect(market.connect(signers.alice).requestBatchResultDecryption(1n)).to.be.revertedWithCustomError(
+        market,
+        "BatchNotOpen",
+      );
+
+      await market.openBatch();
+      await market.closeBatch(2n);
+      await expect(market.connect(signers.alice).requestBatchResultDecryption(2n)).to.be.revertedWithCustomError(
+        market,
+        "InvalidArgument",
+      );
+    });
+
+    it("publishes the decrypted totals through the oracle callback", async function () {
+      await market.closeBatch(1n);
+      const requestId = await requestDecryption(1n);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await market.queryFilter(market.filters.DecryptionCompleted(requestId));
+      expect(events).to.have.length(1);
+      expect(events[0].args.batchId).to.eq(1n);
+      expect(events[0].args.totalYes).to.eq(1n);
+      expect(events[0].args.totalNo).to.eq(1n);
+      expect((await market.decryptionContexts(requestId)).processed).to.eq(true);
+    });
+
+    it("stores the decrypted totals for getBatchResult", async function () {
+      await market.closeBatch(1n);
+      expect((await market.getBatchResult(1n)).revealed).to.eq(false);
+      const requestId = await requestDecryption(1n);
+      await fhevm.awaitDecryptionOracle();
+
+      const result = await market.getBatchResult(1n);
+      expect(result.revealed).to.eq(true);
+      expect(result.requestId).to.eq(requestId);
+      expect(result.tallies).to.deep.eq([1n, 1n]);
+      expect(result.weights).to.deep.eq([]);
+      expect(result.scalarSum).to.eq(0n);
+    });
+
+    it("rejects replayed callbacks", async function () {
+      await market.closeBatch(1n);
+      const requestId = await requestDecryption(1n);
+      await fhevm.awaitDecryptionOracle();
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint32"], [1, 1]);
+      await expect(market.myCallback(requestId, cleartexts, "0x")).to.be.revertedWithCustomError(
+        market,
+        "ReplayDetected",
+      );
+    });
+
+    it("rejects callbacks whose ciphertexts do not match the request", async function () {
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint32"], [1, 1]);
+      await expect(market.myCallback(999n, cleartexts, "0x")).to.be.revertedWithCustomError(market, "StateMismatch");
+    });
+
+    it("blocks new requests while the latest one awaits the oracle", async function () {
+      await market.closeBatch(1n);
+      const requestId = await requestDecryption(1n);
+      const requestedAt = await time.latest();
+
+      expect(await market.latestDecryptionRequests(1n)).to.eq(requestId);
+      expect((await market.decryptionContexts(requestId)).expiresAt).to.eq(
+        BigInt(requestedAt) + (await market.DECRYPTION_TIMEOUT()),
+      );
+      await expect(market.connect(signers.bob).requestBatchResultDecryption(1n))
+        .to.be.revertedWithCustomError(market, "DecryptionPending")
+        .withArgs(1n, requestId);
+    });
+
+    it("replaces requests the oracle left unanswered past the timeout", async function () {
+      await market.closeBatch(1n);
+      // The oracle is not run, so this request is never answered
+      const staleId = await requestDecryption(1n);
+      await time.increase(await market.DECRYPTION_TIMEOUT());
+
+      const retry = market.connect(signers.bob).requestBatchResultDecryption(1n);
+      await expect(retry).to.emit(market, "DecryptionRequestExpired").withArgs(staleId, 1n);
+      const [requested] = await market.queryFilter(market.filters.DecryptionRequested(undefined, 1n), -1);
+      const requestId = requested.args.requestId;
+      expect(requestId).to.not.eq(staleId);
+      expect(await market.latestDecryptionRequests(1n)).to.eq(requestId);
+
+      // Both callbacks arrive; the stale one is dropped
+      await fhevm.awaitDecryptionOracle();
+      expect(await market.queryFilter(market.filters.DecryptionCompleted(staleId))).to.have.length(0);
+      expect(await market.queryFilter(market.filters.DecryptionCompleted(requestId))).to.have.length(1);
+      expect((await market.decryptionContexts(staleId)).processed).to.eq(false);
+      expect((await market.getBatchResult(1n)).requestId).to.eq(requestId);
+    });
+
+    it("enforces the decryption request cooldown", async function () {
+      await market.openBatch();
+      await time.increase(60);
+      await predict(signers.alice, 2n, 1);
+      await market.closeBatch(1n);
+      await market.closeBatch(2n);
+
+      await requestDecryption(1n);
+      await expect(market.connect(signers.alice).requestBatchResultDecryption(2n)).to.be.revertedWithCustomError(
+        market,
+        "CooldownActive",
+      );
+    });
+  });
+
+  describe("stakes and payouts", function () {
+    const stake = ethers.parseEther("1");
+
+    beforeEach(async function () {
+      await market.addProvider(signers.alice.address);
+      await market.addProvider(signers.bob.address);
+      await market.openBatch();
+    });
+
+    it("keeps per-side stakes encrypted and decryptable by the staker", async function () {
+      await expect(predict(signers.alice, 1n, 1, stake))
+        .to.emit(market, "StakePlaced")
+        .withArgs(signers.alice.address, 1n);
+      await predict(signers.bob, 1n, 0, stake * 3n);
+
+      expect(await market.batchPools(1n)).to.eq(stake * 4n);
+      const position = await market.positions(1n, signers.alice.address);
+      expect(position.deposit).to.eq(stake);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint128, position.yesStake, marketAddress, signers.alice),
+      ).to.eq(stake);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, position.noStake, marketAddress, signers.alice)).to.eq(0n);
+    });
+
+    it("only resolves closed batches once", async function () {
+      await expect(market.resolveMarket(1n, true)).to.be.revertedWithCustomError(market, "BatchNotOpen");
+      await market.closeBatch(1n);
+      await expect(market.connect(signers.alice).resolveMarket(1n, true))
+        .to.be.revertedWithCustomError(market, "MissingRole")
+        .withArgs(await market.RESOLVER_ROLE(), signers.alice.address);
+      await expect(market.resolveMarket(1n, true)).to.emit(market, "MarketResolved").withArgs(1n, true);
+      await expect(market.resolveMarket(1n, false)).to.be.revertedWithCustomError(market, "AlreadyResolved");
+    });
+
+    it("pays winners pro-rata from the whole pool", async function () {
+      await predict(signers.alice, 1n, 1, stake);
+      await predict(signers.bob, 1n, 0, stake * 3n);
+      await market.closeBatch(1n);
+
+      await expect(market.connect(signers.alice).claim(1n)).to.be.revertedWithCustomError(market, "NotResolved");
+      await market.resolveMarket(1n, true);
+      await fhevm.awaitDecryptionOracle();
+      expect(await market.winningPools(1n)).to.eq(stake);
+
+      await market.connect(signers.alice).claim(1n);
+      await market.connect(signers.bob).claim(1n);
+
+      const aliceBefore = await ethers.provider.getBalance(signers.alice.address);
+      const bobBefore = await ethers.provider.getBalance(signers.bob.address);
+      await fhevm.awaitDecryptionOracle();
+      await expect(market.connect(signers.alice).claim(1n)).to.be.revertedWithCustomError(market, "AlreadyClaimed");
+
+      expect((await ethers.provider.getBalance(signers.alice.address)) - aliceBefore).to.eq(stake * 4n);
+      expect(await ethers.provider.getBalance(signers.bob.address)).to.eq(bobBefore);
+      const payouts = await market.queryFilter(market.filters.PayoutClaimed(1n));
+      expect(payouts.map((e) => [e.args.claimant, e.args.amount])).to.deep.include.members([
+        [signers.alice.address, stake * 4n],
+        [signers.bob.address, 0n],
+      ]);
+    });
+
+    it("lets a claim be sent again once the oracle left it unanswered past the timeout", async function () {
+      await predict(signers.alice, 1n, 1, stake);
+      await predict(signers.bob, 1n, 0, stake);
+      await market.closeBatch(1n);
+      await market.resolveMarket(1n, true);
+      await fhevm.awaitDecryptionOracle();
+
+      // The oracle is not run, so this claim is never answered
+      await market.connect(signers.alice).claim(1n);
+      const staleId = await market.latestClaimRequests(1n, signers.alice.address);
+      expect((await market.positions(1n, signers.alice.address)).claimed).to.eq(false);
+      await expect(market.connect(signers.alice).claim(1n))
+        .to.be.revertedWithCustomError(market, "DecryptionPending")
+        .withArgs(1n, staleId);
+
+      await time.increase(await market.DECRYPTION_TIMEOUT());
+      await expect(market.connect(signers.alice).claim(1n)).to.emit(market, "ClaimRequested");
+      const requestId = await market.latestClaimRequests(1n, signers.alice.address);
+      expect(requestId).to.not.eq(staleId);
+
+      // Both callbacks arrive; only the latest request pays out
+      const before = await ethers.provider.getBalance(signers.alice.address);
+      await fhevm.awaitDecryptionOracle();
+      expect((await ethers.provider.getBalance(signers.alice.address)) - before).to.eq(stake * 2n);
+      expect(await market.queryFilter(market.filters.PayoutClaimed(1n, signers.alice.address))).to.have.length(1);
+      expect((await market.claimRequests(staleId)).processed).to.eq(false);
+      expect((await market.positions(1n, signers.alice.address)).claimed).to.eq(true);
+      await expect(market.connect(signers.alice).claim(1n)).to.be.revertedWithCustomError(market, "AlreadyClaimed");
+    });
+
+    it("refunds deposits when nobody backed the outcome", async function () {
+      await predict(signers.bob, 1n, 0, stake);
+      await market.closeBatch(1n);
+      await market.resolveMarket(1n, true);
+      await fhevm.awaitDecryptionOracle();
+      expect(await market.winningPools(1n)).to.eq(0n);
+
+      await expect(market.connect(signers.bob).claim(1n))
+        .to.emit(market, "PayoutClaimed")
+        .withArgs(1n, signers.bob.address, stake);
+      await expect(market.connect(signers.alice).claim(1n)).to.be.revertedWithCustomError(market, "NothingToClaim");
+    });
+
+    it("refunds every deposit when the market is canceled", async function () {
+      await predict(signers.alice, 1n, 1, stake);
+      await predict(signers.bob, 1n, 0, stake * 2n);
+      await market.cancelMarket(1n);
+
+      await expect(market.connect(signers.alice).claim(1n))
+        .to.emit(market, "PayoutClaimed")
+        .withArgs(1n, signers.alice.address, stake);
+      await expect(market.connect(signers.bob).claim(1n))
+        .to.emit(market, "PayoutClaimed")
+        .withArgs(1n, signers.bob.address, stake * 2n);
+      await expect(market.resolveMarket(1n, true)).to.be.revertedWithCustomError(market, "AlreadyResolved");
+    });
+  });
+
+  describe("multi-outcome markets", function () {
+    const stake = ethers.parseEther("1");
+
+    beforeEach(async function () {
+      await market.addProvider(signers.alice.address);
+      await market.addProvider(signers.bob.address);
+    });
+
+    it("declares between two and MAX_OUTCOMES outcomes", async function () {
+      await expect(market.openMultiOutcomeBatch(1)).to.be.revertedWithCustomError(market, "InvalidArgument");
+      await expect(market.openMultiOutcomeBatch((await market.MAX_OUTCOMES()) + 1n)).to.be.revertedWithCustomError(
+        market,
+        "InvalidArgument",
+      );
+      await expect(market.openMultiOutcomeBatch(3))
+        .to.emit(market, "BatchOpened")
+        .withArgs(1n)
+        .and.to.emit(market, "OutcomesDeclared")
+        .withArgs(1n, 3);
+      expect(await market.batchOutcomeCounts(1n)).to.eq(3);
+      expect(await market.batchCreators(1n)).to.eq(signers.owner.address);
+    });
+
+    it("tallies each encrypted choice and counts out-of-range ones for outcome 0", async function () {
+      await market.openMultiOutcomeBatch(3);
+      await predict(signers.alice, 1n, 2);
+      await predict(signers.bob, 1n, 2);
+      await time.increase(await market.cooldownSeconds());
+      await predict(signers.alice, 1n, 0);
+      await time.increase(await market.cooldownSeconds());
+      await predict(signers.alice, 1n, 7);
+
+      expect(await market.submissionsInBatch(1n)).to.eq(4n);
+      expect(
+        await userDecryptAll(FhevmType.euint32, await market.getOutcomeCounts(1n), signers.owner),
+      ).to.deep.eq([2n, 0n, 2n]);
+    });
+
+    it("books the stake of an out-of-range choice on outcome 0 so it can be won back", async function () {
+      await market.openMultiOutcomeBatch(3);
+      await predict(signers.alice, 1n, 3, stake);
+      await predict(signers.bob, 1n, 2, stake);
+
+      expect(
+        await userDecryptAll(FhevmType.euint32, await market.getOutcomeCounts(1n), signers.owner),
+      ).to.deep.eq([1n, 0n, 1n]);
+      expect(
+        await userDecryptAll(FhevmType.euint128, await market.getOutcomeStakes(1n, signers.alice.address), signers.alice),
+      ).to.deep.eq([stake, 0n, 0n]);
+
+      await market.closeBatch(1n);
+      await market.resolveMultiOutcomeMarket(1n, 0);
+      await fhevm.awaitDecryptionOracle();
+      expect(await market.winningPools(1n)).to.eq(stake);
+
+      await market.connect(signers.alice).claim(1n);
+      await fhevm.awaitDecryptionOracle();
+      const payouts = await market.queryFilter(market.filters.PayoutClaimed(1n, signers.alice.address));
+      expect(payouts.map((e) => e.args.amount)).to.deep.eq([stake * 2n]);
+    });
+
+    it("publishes every outcome tally through the oracle callback", async function () {
+      await market.openMultiOutcomeBatch(4);
+      await predict(signers.alice, 1n, 3);
+      await predict(signers.bob, 1n, 1);
+      await market.closeBatch(1n);
+
+      await market.connect(signers.alice).requestBatchResultDecryption(1n);
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await market.queryFilter(market.filters.OutcomeTalliesDecrypted(undefined, 1n));
+      expect(events).to.have.length(1);
+      expect(events[0].args.tallies).to.deep.eq([0n, 1n, 0n, 1n]);
+      expect(await market.queryFilter(market.filters.DecryptionCompleted())).to.have.length(0);
+      expect((await market.getBatchResult(1n)).tallies).to.deep.eq([0n, 1n, 0n, 1n]);
+    });
+
+    it("resolves to an outcome index and pays its backers", async function () {
+      await market.openMultiOutcomeBatch(3);
+      await predict(signers.alice, 1n, 1, stake);
+      await predict(signers.bob, 1n, 2, stake * 2n);
+      await market.closeBatch(1n);
+
+      expect(
+        await userDecryptAll(FhevmType.euint128, await market.getOutcomeStakes(1n, signers.bob.address), signers.bob),
+      ).to.deep.eq([0n, 0n, stake * 2n]);
+
+      await expect(market.resolveMarket(1n, true)).to.be.revertedWithCustomError(market, "InvalidArgument");
+      await expect(market.resolveMultiOutcomeMarket(1n, 3)).to.be.revertedWithCustomError(market, "InvalidArgument");
+      await expect(market.resolveMultiOutcomeMarket(1n, 1))
+        .to.emit(market, "MarketResolvedToOutcome")
+        .withArgs(1n, 1);
+      expect(await market.batchOutcomes(1n)).to.eq(4n);
+      await expect(market.resolveMultiOutcomeMarket(1n, 2)).to.be.revertedWithCustomError(market, "AlreadyResolved");
+      await fhevm.awaitDecryptionOracle();
+      expect(await market.winningPools(1n)).to.eq(stake);
+
+      await market.connect(signers.alice).claim(1n);
+      await market.connect(signers.bob).claim(1n);
+      await fhevm.awaitDecryptionOracle();
+
+      const payouts = await market.queryFilter(market.filters.PayoutClaimed(1n));
+      expect(payouts.map((e) => [e.args.claimant, e.args.amount])).to.deep.include.members([
+        [signers.alice.address, stake * 3n],
+        [signers.bob.address, 0n],
+      ]);
+    });
+
+    it("rejects outcome resolution on binary batches", async function () {
+      await market.openBatch();
+      await market.closeBatch(1n);
+      await expect(market.resolveMultiOutcomeMarket(1n, 0)).to.be.revertedWithCustomError(market, "InvalidArgument");
+    });
+  });
+
+  describe("scalar markets", function () {
+    beforeEach(async function () {
+      await market.addProvider(signers.alice.address);
+      await market.addProvider(signers.bob.address);
+    });
+
+    it("declares a bounded range split into buckets", async function () {
+      await expect(market.openScalarBatch(100, 100, 2)).to.be.revertedWithCustomError(market, "InvalidArgument");
+      await expect(market.openScalarBatch(0, 100, 1)).to.be.revertedWithCustomError(market, "InvalidArgument");
+      await expect(market.openScalarBatch(0, 2, 4)).to.be.revertedWithCustomError(market, "InvalidArgument");
+      await expect(market.openScalarBatch(0, 100, (await market.MAX_SCALAR_BUCKETS()) + 1n)).to.be.revertedWithCustomError(
+        market,
+        "InvalidArgument",
+      );
+      await expect(market.openScalarBatch(0, 99, 4))
+        .to.emit(market, "BatchOpened")
+        .withArgs(1n)
+        .and.to.emit(market, "ScalarRangeDeclared")
+        .withArgs(1n, 0, 99, 4);
+      expect(await market.getScalarBucketBounds(1n)).to.deep.eq([0n, 25n, 50n, 75n]);
+      expect(await market.batchOutcomeCounts(1n)).to.eq(0);
+    });
+
+    it("sums clamped estimates and buckets them", async function () {
+      await market.openScalarBatch(0, 99, 4);
+      await predict(signers.alice, 1n, 30);
+      await predict(signers.bob, 1n, 49);
+      await time.increase(await market.cooldownSeconds());
+      await predict(signers.alice, 1n, 500); // Clamped to 99
+
+      const [sum] = await userDecryptAll(FhevmType.euint64, [await market.getScalarSum(1n)], signers.owner);
+      expect(sum).to.eq(30n + 49n + 99n);
+      expect(
+        await userDecryptAll(FhevmType.euint32, await market.getScalarHistogram(1n), signers.owner),
+      ).to.deep.eq([0n, 2n, 0n, 1n]);
+    });
+
+    it("rejects stakes on scalar batches", async function () {
+      await market.openScalarBatch(0, 99, 4);
+      await expect(predict(signers.alice, 1n, 10, ethers.parseEther("1"))).to.be.revertedWithCustomError(
+        market,
+        "InvalidArgument",
+      );
+    });
+
+    it("publishes the sum and histogram through the oracle callback", async function () {
+      await market.openScalarBatch(10, 19, 2);
+      await predict(signers.alice, 1n, 12);
+      await predict(signers.bob, 1n, 3); // Clamped to 10
+      await market.closeBatch(1n);
+
+      await market.connect(signers.alice).requestBatchResultDecryption(1n);
+      await fhevm.awaitDecryptionOracle();
+
+      const events = await market.queryFilter(market.filters.ScalarResultsDecrypted(undefined, 1n));
+      expect(events).to.have.length(1);
+      expect(events[0].args.sum).to.eq(22n);
+      expect(events[0].args.histogram).to.deep.eq([2n, 0n]);
+      const result = await market.getBatchResult(1n);
+      expect([result.scalarSum, result.tallies]).to.deep.eq([22n, [2n, 0n]]);
+    });
+
+    it("resolves to the realised value", async function () {
+      await market.openScalarBatch(0, 99, 4);
+      await predict(signers.alice, 1n, 30);
+      await expect(market.resolveScalarMarket(1n, 42)).to.be.revertedWithCustomError(market, "BatchNotOpen");
+      await market.closeBatch(1n);
+
+      await expect(market.resolveMarket(1n, true)).to.be.revertedWithCustomError(market, "InvalidArgument");
+      await expect(market.resolveScalarMarket(1n, 42)).to.emit(market, "MarketResolvedToValue").withArgs(1n, 42);
+      expect(await market.batchOutcomes(1n)).to.eq(5n);
+      expect(await market.resolvedValues(1n)).to.eq(42);
+      await expect(market.resolveScalarMarket(1n, 43)).to.be.revertedWithCustomError(market, "AlreadyResolved");
+
+      await market.openBatch();
+      await market.closeBatch(2n);
+      await expect(market.resolveScalarMarket(2n, 1)).to.be.revertedWithCustomError(market, "InvalidArgument");
+    });
+  });
+
+  describe("weighted predictions", function () {
+    const TOKEN_BALANCE = 1;
+    const PAST_VOTES = 2;
+    const unit = ethers.parseEther("1");
+    let token: MockVotesToken;
+    let tokenAddress: string;
+    let snapshot: number;
+
+    beforeEach(async function () {
+      await market.addProvider(signers.alice.address);
+      await market.addProvider(signers.bob.address);
+      const factory = (await ethers.getContractFactory("MockVotesToken")) as MockVotesToken__factory;
+      token = await factory.deploy("Governance", "GOV");
+      tokenAddress = await token.getAddress();
+      await token.mint(signers.alice.address, unit * 300n);
+      await token.mint(signers.bob.address, unit * 20n);
+      snapshot = await ethers.provider.getBlockNumber();
+    });
+
+    it("configures weighting on open batches before their first prediction", async function () {
+      await market.openBatch();
+      await expect(market.configureWeighting(1n, 0, tokenAddress, snapshot, unit)).to.be.revertedWithCustomError(
+        market,
+        "InvalidArgument",
+      );
+      await expect(market.configureWeighting(1n, PAST_VOTES, tokenAddress, snapshot + 100, unit)).to.be.revertedWithCustomError(
+        market,
+        "InvalidArgument",
+      );
+      await expect(
+        market.connect(signers.alice).configureWeighting(1n, PAST_VOTES, tokenAddress, snapshot, unit),
+      ).to.be.revertedWithCustomError(market, "NotBatchCreator");
+      await expect(market.configureWeighting(1n, PAST_VOTES, tokenAddress, snapshot, unit))
+        .to.emit(market, "WeightingConfigured")
+        .withArgs(1n, PAST_VOTES, tokenAddress, snapshot, unit);
+      await expect(market.configureWeighting(1n, TOKEN_BALANCE, tokenAddress, 0, unit)).to.be.revertedWithCustomError(
+        market,
+        "InvalidArgument",
+      );
+
+      await market.openBatch();
+      await predict(signers.alice, 2n, 1);
+      await expect(market.configureWeighting(2n, PAST_VOTES, tokenAddress, snapshot, unit)).to.be.revertedWithCustomError(
+        market,
+        "InvalidArgument",
+      );
+
+      await market.openScalarBatch(0, 10, 2);
+      await expect(market.configureWeighting(3n, PAST_VOTES, tokenAddress, snapshot, unit)).to.be.revertedWithCustomError(
+        market,
+        "InvalidArgument",
+      );
+    });
+
+    it("weights yes/no tallies by voting power at the snapshot", async function () {
+      await market.openBatch();
+      await market.configureWeighting(1n, PAST_VOTES, tokenAddress, snapshot, unit);
+      // Tokens received after the snapshot carry no weight
+      await token.mint(signers.bob.address, unit * 1000n);
+      await predict(signers.alice, 1n, 1);
+      await predict(signers.bob, 1n, 0);
+
+      expect(
+        await userDecryptAll(
+          FhevmType.euint64,
+          [await market.encryptedYesWeights(1n), await market.encryptedNoWeights(1n)],
+          signers.owner,
+        ),
+      ).to.deep.eq([300n, 20n]);
+      expect(
+        await userDecryptAll(
+          FhevmType.euint32,
+          [await market.encryptedYesCounts(1n), await market.encryptedNoCounts(1n)],
+          signers.owner,
+        ),
+      ).to.deep.eq([1n, 1n]);
+    });
+
+    it("rejects weighting by the live token balance", async function () {
+      await market.openBatch();
+      await expect(market.configureWeighting(1n, TOKEN_BALANCE, tokenAddress, 0, unit)).to.be.revertedWithCustomError(
+        market,
+        "InvalidArgument",
+      );
+      expect((await market.batchWeightings(1n)).source).to.eq(0n);
+    });
+
+    it("weights multi-outcome tallies by voting power at the snapshot", async function () {
+      await market.openMultiOutcomeBatch(3);
+      await market.configureWeighting(1n, PAST_VOTES, tokenAddress, snapshot, unit);
+      // Moving tokens after the snapshot does not let them count twice
+      await token.connect(signers.alice).transfer(signers.bob.address, unit * 300n);
+      await predict(signers.alice, 1n, 2);
+      await predict(signers.bob, 1n, 2);
+
+      expect(await userDecryptAll(FhevmType.euint64, await market.getOutcomeWeights(1n), signers.owner)).to.deep.eq([
+        0n,
+        0n,
+        320n,
+      ]);
+    });
+
+    it("publishes weighted totals alongside the counts", async function () {
+      await market.openBatch();
+      await market.configureWeighting(1n, PAST_VOTES, tokenAddress, snapshot, unit);
+      await predict(signers.alice, 1n, 1);
+      await predict(signers.bob, 1n, 1);
+      await market.closeBatch(1n);
+
+      await market.connect(signers.alice).requestBatchResultDecryption(1n);
+      await fhevm.awaitDecryptionOracle();
+
+      const [completed] = await market.queryFilter(market.filters.DecryptionCompleted(undefined, 1n));
+      expect([completed.args.totalYes, completed.args.totalNo]).to.deep.eq([2n, 0n]);
+      const [weighted] = await market.queryFilter(market.filters.WeightedTalliesDecrypted(undefined, 1n));
+      expect(weighted.args.weights).to.deep.eq([320n, 0n]);
+      expect((await market.getBatchResult(1n)).weights).to.deep.eq([320n, 0n]);
+    });
+  });
+
+  describe("participation", function () {
+    const PROVIDERS_ONLY = 0;
+    const OPEN = 1;
+    const TOKEN_GATED = 2;
+    const ALLOWLIST = 3;
+
+    async function predictWithProof(signer: HardhatEthersSigner, batchId: bigint, choice: number, proof: string[]) {
+      const input = await fhevm.createEncryptedInput(marketAddress, signer.address).add32(choice).encrypt();
+      return market.connect(signer).submitPredictionWithProof(batchId, input.handles[0], input.inputProof, proof);
+    }
+
+    beforeEach(async function () {
+      await market.openBatch();
+    });
+
+    it("keeps batches provider-only until a policy is set", async function () {
+      expect((await market.participationPolicies(1n)).mode).to.eq(PROVIDERS_ONLY);
+      await expect(predict(signers.alice, 1n, 1)).to.be.revertedWithCustomError(market, "NotProvider");
+
+      await expect(market.setParticipationPolicy(1n, OPEN, ethers.ZeroAddress, 0, ethers.ZeroHash))
+        .to.emit(market, "ParticipationPolicySet")
+        .withArgs(1n, OPEN, ethers.ZeroAddress, 0, ethers.ZeroHash);
+      await predict(signers.alice, 1n, 1);
+      expect(await market.hasPredicted(1n, signers.alice.address)).to.eq(true);
+
+      await time.increase(60);
+      await expect(predict(signers.alice, 1n, 0))
+        .to.be.revertedWithCustomError(market, "AlreadyPredicted")
+        .withArgs(1n, signers.alice.address);
+    });
+
+    it("validates policies and locks them after the first prediction", async function () {
+      await expect(
+        market.setParticipationPolicy(1n, TOKEN_GATED, ethers.ZeroAddress, 1, ethers.ZeroHash),
+      ).to.be.revertedWithCustomError(market, "InvalidArgument");
+      await expect(
+        market.setParticipationPolicy(1n, ALLOWLIST, ethers.ZeroAddress, 0, ethers.ZeroHash),
+      ).to.be.revertedWithCustomError(market, "InvalidArgument");
+      await expect(
+        market.connect(signers.alice).setParticipationPolicy(1n, OPEN, ethers.ZeroAddress, 0, ethers.ZeroHash),
+      ).to.be.revertedWithCustomError(market, "NotBatchCreator");
+
+      await market.setParticipationPolicy(1n, OPEN, ethers.ZeroAddress, 0, ethers.ZeroHash);
+      await predict(signers.alice, 1n, 1);
+      await expect(
+        market.setParticipationPolicy(1n, PROVIDERS_ONLY, ethers.ZeroAddress, 0, ethers.ZeroHash),
+      ).to.be.revertedWithCustomError(market, "InvalidArgument");
+
+      await market.closeBatch(1n);
+      await expect(
+        market.setParticipationPolicy(1n, OPEN, ethers.ZeroAddress, 0, ethers.ZeroHash),
+      ).to.be.revertedWithCustomError(market, "BatchNotOpen");
+    });
+
+    it("gates predictions on a minimum token balance", async function () {
+      const factory = (await ethers.getContractFactory("MockVotesToken")) as MockVotesToken__factory;
+      const token = await factory.deploy("Governance", "GOV");
+      await token.mint(signers.alice.address, 100n);
+      await token.mint(signers.bob.address, 99n);
+      await market.setParticipationPolicy(1n, TOKEN_GATED, await token.getAddress(), 100n, ethers.ZeroHash);
+
+      expect(await market.canPredict(1n, signers.alice.address, [])).to.eq(true);
+      expect(await market.canPredict(1n, signers.bob.address, [])).to.eq(false);
+      await predict(signers.alice, 1n, 1);
+      await expect(predict(signers.bob, 1n, 1))
+        .to.be.revertedWithCustomError(market, "NotEligible")
+        .withArgs(1n, signers.bob.address);
+      expect(await market.canPredict(1n, signers.alice.address, [])).to.eq(false);
+    });
+
+    it("admits allowlisted addresses that prove membership", async function () {
+      const [, , , carol, dave] = await ethers.getSigners();
+      const tree = allowlistTree([signers.alice.address, carol.address, dave.address]);
+      await market.setParticipationPolicy(1n, ALLOWLIST, ethers.ZeroAddress, 0, tree.root);
+
+      expect(await market.canPredict(1n, dave.address, tree.proof(dave.address))).to.eq(true);
+      await predictWithProof(signers.alice, 1n, 1, tree.proof(signers.alice.address));
+      await predictWithProof(dave, 1n, 0, tree.proof(dave.address));
+      await expect(predictWithProof(signers.bob, 1n, 1, tree.proof(carol.address))).to.be.revertedWithCustomError(
+        market,
+        "NotEligible",
+      );
+      await expect(predict(carol, 1n, 1)).to.be.revertedWithCustomError(market, "NotEligible");
+
+      expect(
+        await userDecryptAll(
+          FhevmType.euint32,
+          [await market.encryptedYesCounts(1n), await market.encryptedNoCounts(1n)],
+          signers.owner,
+        ),
+      ).to.deep.eq([1n, 1n]);
+    });
+  });
+
+  describe("schedules", function () {
+    beforeEach(async function () {
+      await market.addProvider(signers.alice.address);
+      await market.addProvider(signers.bob.address);
+      await market.openBatch();
+    });
+
+    it("schedules open batches before their first prediction", async function () {
+      const now = BigInt(await time.latest());
+      await expect(market.setBatchSchedule(1n, now + 100n, now + 100n)).to.be.revertedWithCustomError(
+        market,
+        "InvalidArgument",
+      );
+      await expect(market.setBatchSchedule(1n, 0, now)).to.be.revertedWithCustomError(market, "InvalidArgument");
+      await expect(market.connect(signers.alice).setBatchSchedule(1n, 0, now + 100n)).to.be.revertedWithCustomError(
+        market,
+        "NotBatchCreator",
+      );
+      await expect(market.setBatchSchedule(1n, 0, now + 100n))
+        .to.emit(market, "BatchScheduled")
+        .withArgs(1n, 0, now + 100n);
+      expect(await market.batchSchedules(1n)).to.deep.eq([0n, now + 100n]);
+
+      await predict(signers.alice, 1n, 1);
+      await expect(market.setBatchSchedule(1n, 0, now + 200n)).to.be.revertedWithCustomError(market, "InvalidArgument");
+    });
+
+    it("only accepts predictions inside the window", async function () {
+      const now = BigInt(await time.latest());
+      await market.setBatchSchedule(1n, now + 100n, now + 1000n);
+      await expect(predict(signers.alice, 1n, 1))
+        .to.be.revertedWithCustomError(market, "BatchNotStarted")
+        .withArgs(1n);
+      expect(await market.canPredict(1n, signers.alice.address, [])).to.eq(false);
+
+      await time.increaseTo(now + 100n);
+      expect(await market.canPredict(1n, signers.alice.address, [])).to.eq(true);
+      await predict(signers.alice, 1n, 1);
+
+      await time.increaseTo(now + 1000n);
+      expect(await market.canPredict(1n, signers.bob.address, [])).to.eq(false);
+      await expect(predict(signers.bob, 1n, 0)).to.be.revertedWithCustomError(market, "BatchExpired").withArgs(1n);
+      await expect(market.connect(signers.alice).revokePrediction(1n)).to.be.revertedWithCustomError(
+        market,
+        "BatchExpired",
+      );
+    });
+
+    it("lets anyone close a batch after its end time", async function () {
+      const now = BigInt(await time.latest());
+      await market.setBatchSchedule(1n, 0, now + 100n);
+      await expect(market.connect(signers.bob).closeBatch(1n)).to.be.revertedWithCustomError(market, "NotBatchCreator");
+
+      await time.increaseTo(now + 100n);
+      await expect(market.connect(signers.bob).closeBatch(1n)).to.emit(market, "BatchClosed").withArgs(1n);
+      await expect(market.connect(signers.bob).closeBatch(1n)).to.be.revertedWithCustomError(market, "BatchNotOpen");
+    });
+  });
+
+  describe("metadata", function () {
+    const governor = "0x408ED6354d4973f66138C91495F2f2FCbd8724C3";
+    const metadata = {
+      dao: ethers.encodeBytes32String("uniswap.eth"),
+      proposalChainId: 1n,
+      governor,
+      proposalId: 62n,
+      snapshotId: ethers.ZeroHash,
+      questionHash: ethers.id("Will the fee switch proposal pass?"),
+      metadataURI: "ipfs://bafkreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy",
+    };
+
+    beforeEach(async function () {
+      await market.addProvider(signers.alice.address);
+      await market.openBatch();
+    });
+
+    it("links open batches to their proposal before the first prediction", async function () {
+      expect((await market.getBatchMetadata(1n)).dao).to.eq(ethers.ZeroHash);
+      await expect(market.connect(signers.alice).setBatchMetadata(1n, metadata)).to.be.revertedWithCustomError(
+        market,
+        "NotBatchCreator",
+      );
+      await expect(market.setBatchMetadata(1n, metadata))
+        .to.emit(market, "BatchMetadataSet")
+        .withArgs(1n, metadata.dao, 1n, governor, 62n, ethers.ZeroHash, metadata.questionHash, metadata.metadataURI);
+
+      const stored = await market.getBatchMetadata(1n);
+      expect(ethers.decodeBytes32String(stored.dao)).to.eq("uniswap.eth");
+      expect([stored.governor, stored.proposalId, stored.questionHash]).to.deep.eq([
+        governor,
+        62n,
+        metadata.questionHash,
+      ]);
+      expect(stored.metadataURI).to.eq(metadata.metadataURI);
+
+      await predict(signers.alice, 1n, 1);
+      await expect(market.setBatchMetadata(1n, metadata)).to.be.revertedWithCustomError(market, "InvalidArgument");
+      await market.closeBatch(1n);
+      await expect(market.setBatchMetadata(1n, metadata)).to.be.revertedWithCustomError(market, "BatchNotOpen");
+    });
+
+    it("requires a DAO, a question and exactly one proposal reference", async function () {
+      const snapshotId = ethers.id("snapshot proposal");
+      for (const invalid of [
+        { ...metadata, dao: ethers.ZeroHash },
+        { ...metadata, questionHash: ethers.ZeroHash },
+        { ...metadata, governor: ethers.ZeroAddress },
+        { ...metadata, snapshotId },
+      ]) {
+        await expect(market.setBatchMetadata(1n, invalid)).to.be.revertedWithCustomError(market, "InvalidArgument");
+      }
+
+      const snapshot = { ...metadata, governor: ethers.ZeroAddress, proposalId: 0n, snapshotId };
+      await market.setBatchMetadata(1n, snapshot);
+      expect((await market.getBatchMetadata(1n)).snapshotId).to.eq(snapshotId);
+    });
+  });
+
+  describe("changing predictions", function () {
+    const stake = ethers.parseEther("1");
+
+    async function update(signer: HardhatEthersSigner, batchId: bigint, choice: number) {
+      const input = await fhevm.createEncryptedInput(marketAddress, signer.address).add32(choice).encrypt();
+      return market.connect(signer).updatePrediction(batchId, input.handles[0], input.inputProof);
+    }
+
+    beforeEach(async function () {
+      await market.addProvider(signers.alice.address);
+      await market.addProvider(signers.bob.address);
+    });
+
+    it("moves an updated prediction and its stake to the new side", async function () {
+      await market.openBatch();
+      await predict(signers.alice, 1n, 1, stake);
+      await predict(signers.bob, 1n, 0);
+      await time.increase(60);
+
+      await expect(update(signers.alice, 1n, 0)).to.emit(market, "PredictionUpdated");
+      expect(await market.submissionsInBatch(1n)).to.eq(2n);
+      expect(
+        await userDecryptAll(
+          FhevmType.euint32,
+          [await market.encryptedYesCounts(1n), await market.encryptedNoCounts(1n)],
+          signers.owner,
+        ),
+      ).to.deep.eq([0n, 2n]);
+
+      const position = await market.positions(1n, signers.alice.address);
+      expect(position.deposit).to.eq(stake);
+      expect(
+        await userDecryptAll(FhevmType.euint128, [position.yesStake, position.noStake], signers.alice),
+      ).to.deep.eq([0n, stake]);
+      const [current] = await userDecryptAll(
+        FhevmType.euint32,
+        [await market.getCurrentPrediction(1n, signers.alice.address)],
+        signers.alice,
+      );
+      expect(current).to.eq(0n);
+    });
+
+    it("refunds a revoked prediction and lets the caller predict again", async function () {
+      await market.openBatch();
+      await market.setParticipationPolicy(1n, 1, ethers.ZeroAddress, 0, ethers.ZeroHash);
+      await predict(signers.alice, 1n, 1, stake);
+      await time.increase(60);
+
+      const balanceBefore = await ethers.provider.getBalance(signers.alice.address);
+      const receipt = await (await market.connect(signers.alice).revokePrediction(1n)).wait();
+      expect(await ethers.provider.getBalance(signers.alice.address)).to.eq(
+        balanceBefore + stake - receipt!.gasUsed * receipt!.gasPrice,
+      );
+      const revoked = await market.queryFilter(market.filters.PredictionRevoked(signers.alice.address, 1n));
+      expect(revoked[0].args.refund).to.eq(stake);
+      expect(await market.batchPools(1n)).to.eq(0n);
+      expect(await market.submissionsInBatch(1n)).to.eq(0n);
+      expect(await market.hasPredicted(1n, signers.alice.address)).to.eq(false);
+      expect(await market.getCurrentPrediction(1n, signers.alice.address)).to.eq(ethers.ZeroHash);
+
+      await time.increase(60);
+      await predict(signers.alice, 1n, 0);
+      expect(
+        await userDecryptAll(
+          FhevmType.euint32,
+          [await market.encryptedYesCounts(1n), await market.encryptedNoCounts(1n)],
+          signers.owner,
+        ),
+      ).to.deep.eq([0n, 1n]);
+    });
+
+    it("keeps the batch configuration locked after every prediction was revoked", async function () {
+      await market.openBatch();
+      await predict(signers.alice, 1n, 1);
+      await time.increase(60);
+      await market.connect(signers.alice).revokePrediction(1n);
+      expect(await market.submissionsInBatch(1n)).to.eq(0n);
+      expect(await market.hasReceivedPredictions(1n)).to.eq(true);
+
+      const token = await (
+        (await ethers.getContractFactory("MockVotesToken")) as MockVotesToken__factory
+      ).deploy("Governance", "GOV");
+      await expect(
+        market.configureWeighting(1n, 2, await token.getAddress(), 0, ethers.parseEther("1")),
+      ).to.be.revertedWithCustomError(market, "InvalidArgument");
+      await expect(market.setParticipationPolicy(1n, 1, ethers.ZeroAddress, 0, ethers.ZeroHash)).to.be.revertedWithCustomError(
+        market,
+        "InvalidArgument",
+      );
+      await expect(market.setBatchSchedule(1n, 0, (await time.latest()) + 3600)).to.be.revertedWithCustomError(
+        market,
+        "InvalidArgument",
+      );
+    });
+
+    it("only changes an active prediction while the batch is open", async function () {
+      await market.openBatch();
+      await expect(update(signers.alice, 1n, 1))
+        .to.be.revertedWithCustomError(market, "NoPrediction")
+        .withArgs(1n, signers.alice.address);
+      await expect(market.connect(signers.bob).revokePrediction(1n)).to.be.revertedWithCustomError(
+        market,
+        "NoPrediction",
+      );
+
+      await predict(signers.alice, 1n, 1);
+      await market.closeBatch(1n);
+      await time.increase(60);
+      await expect(update(signers.alice, 1n, 0)).to.be.revertedWithCustomError(market, "BatchClosedOrDoesNotExist");
+      await expect(market.connect(signers.alice).revokePrediction(1n)).to.be.revertedWithCustomError(
+        market,
+        "BatchClosedOrDoesNotExist",
+      );
+    });
+
+    it("retracts multi-outcome choices and scalar estimates", async function () {
+      await market.openMultiOutcomeBatch(3);
+      await market.openScalarBatch(0, 99, 4);
+      await predict(signers.alice, 1n, 2, stake);
+      await predict(signers.bob, 2n, 30);
+      await time.increase(60);
+      await update(signers.alice, 1n, 0);
+      await update(signers.bob, 2n, 80);
+
+      expect(
+        await userDecryptAll(FhevmType.euint32, await market.getOutcomeCounts(1n), signers.owner),
+      ).to.deep.eq([1n, 0n, 0n]);
+      expect(
+        await userDecryptAll(FhevmType.euint128, await market.getOutcomeStakes(1n, signers.alice.address), signers.alice),
+      ).to.deep.eq([stake, 0n, 0n]);
+      const [sum] = await userDecryptAll(FhevmType.euint64, [await market.getScalarSum(2n)], signers.owner);
+      expect(sum).to.eq(80n);
+      expect(
+        await userDecryptAll(FhevmType.euint32, await market.getScalarHistogram(2n), signers.owner),
+      ).to.deep.eq([0n, 0n, 0n, 1n]);
+    });
+  });
+});
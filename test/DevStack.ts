@@ -0,0 +1,102 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "hardhat";
+import { DAOPredictMarketFHE, DAOPredictMarketFHE__factory, MarketRegistry, MarketRegistry__factory } from "../types";
+import { frontendConfigPath, SAMPLE_MARKETS, seedSampleMarkets, writeFrontendConfig } from "../src/devstack";
+import { createFileStore, fetchMarketDescription, MetadataStore } from "../src/metadata";
+
+describe("Dev stack", function () {
+  let owner: HardhatEthersSigner;
+  let market: DAOPredictMarketFHE;
+  let registry: MarketRegistry;
+  let metadataDir: string;
+  let store: MetadataStore;
+
+  before(async function () {
+    [owner] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const tally = await ethers.deployContract("PredictionTally");
+    market = await (
+      (await ethers.getContractFactory("DAOPredictMarketFHE", {
+        libraries: { PredictionTally: await tally.getAddress() },
+      })) as DAOPredictMarketFHE__factory
+    ).deploy();
+    registry = await ((await ethers.getContractFactory("MarketRegistry")) as MarketRegistry__factory).deploy(
+      await market.getAddress(),
+    );
+    metadataDir = fs.mkdtempSync(path.join(os.tmpdir(), "devstack-metadata-"));
+    store = createFileStore(metadataDir);
+  });
+
+  afterEach(function () {
+    fs.rmSync(metadataDir, { recursive: true });
+  });
+
+  it("opens and registers one batch per sample market", async function () {
+    const seeded = await seedSampleMarkets(market, registry, store);
+
+    expect(seeded.map((entry) => entry.key)).to.deep.eq(SAMPLE_MARKETS.map((sample) => sample.key));
+    expect(await registry.marketCount()).to.eq(SAMPLE_MARKETS.length);
+    for (const entry of seeded) {
+      expect(await market.isBatchOpen(entry.batchId)).to.eq(true);
+      const stored = await registry.getMarket(entry.marketId);
+      expect(stored.batchId).to.eq(entry.batchId);
+      expect(ethers.toUtf8String(stored.data)).to.eq(entry.cid);
+      const description = await fetchMarketDescription(store, entry.cid);
+      expect(description.creator).to.eq(owner.address);
+      expect(description.batchId).to.eq(entry.batchId.toString());
+      expect((await market.batchSchedules(entry.batchId)).endTime).to.eq(BigInt(description.endTime));
+      const metadata = await market.getBatchMetadata(entry.batchId);
+      expect(metadata.questionHash).to.eq(ethers.id(description.proposalTitle));
+      expect(metadata.snapshotId).to.eq(ethers.id(entry.key));
+      expect(metadata.metadataURI).to.eq(`ipfs://${entry.cid}`);
+    }
+  });
+
+  it("skips sample markets that are already registered", async function () {
+    await seedSampleMarkets(market, registry, store, SAMPLE_MARKETS.slice(0, 1));
+    const seeded = await seedSampleMarkets(market, registry, store);
+
+    expect(seeded.map((entry) => entry.key)).to.deep.eq(SAMPLE_MARKETS.slice(1).map((sample) => sample.key));
+    expect(await registry.marketCount()).to.eq(SAMPLE_MARKETS.length);
+  });
+
+  it("writes network configs next to the Sepolia config.json", function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "devstack-"));
+    expect(frontendConfigPath("sepolia", dir)).to.eq(path.join(dir, "config.json"));
+
+    const configPath = writeFrontendConfig(
+      {
+        networkName: "localhost",
+        displayName: "Localhost",
+        chainId: 31337,
+        network: "http://127.0.0.1:8545",
+        rpcUrls: ["http://127.0.0.1:8545"],
+        explorerUrl: "",
+        nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+        contractAddress: ethers.ZeroAddress,
+        predictMarketAddress: ethers.ZeroAddress,
+        registryAddress: ethers.ZeroAddress,
+        deployBlock: 0,
+        fheBackend: "hardhat-mock",
+        relayerUrl: "",
+        gatewayChainId: 55815,
+        indexerUrl: "",
+        metadataBackend: "http",
+        metadataUrl: "",
+        metadataApiUrl: "",
+        deployer: owner.address,
+      },
+      dir,
+    );
+
+    expect(configPath).to.eq(path.join(dir, "config.localhost.json"));
+    expect(JSON.parse(fs.readFileSync(configPath, "utf-8")).chainId).to.eq(31337);
+    fs.rmSync(dir, { recursive: true });
+  });
+});
@@ -0,0 +1,295 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { AddressInfo } from "net";
+import { ethers, fhevm } from "hardhat";
+import { DAOPredictMarketFHE, DAOPredictMarketFHE__factory, MockVotesToken__factory } from "../types";
+import {
+  createIndexer,
+  createIndexerServer,
+  IndexedBatch,
+  IndexerDb,
+  listBatches,
+  listDecryptions,
+  listPredictions,
+  MarketIndexer,
+  openIndexerDb,
+  Page
+} from "../src/indexer";
+
+describe("Market indexer", function () {
+  let owner: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let market: DAOPredictMarketFHE;
+  let db: IndexerDb;
+  let indexer: MarketIndexer;
+
+  async function predict(batchId: bigint, choice: number) {
+    const input = await fhevm.createEncryptedInput(await market.getAddress(), alice.address).add32(choice).encrypt();
+    await market.connect(alice).submitPrediction(batchId, input.handles[0], input.inputProof);
+    await time.increase(await market.cooldownSeconds());
+  }
+
+  before(async function () {
+    [owner, alice] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run against the FHEVM mock");
+      this.skip();
+    }
+    const tally = await ethers.deployContract("PredictionTally");
+    market = await (
+      (await ethers.getContractFactory("DAOPredictMarketFHE", {
+        libraries: { PredictionTally: await tally.getAddress() }
+      })) as DAOPredictMarketFHE__factory
+    ).deploy();
+    const deployment = await market.deploymentTransaction()!.wait();
+    await market.addProvider(alice.address);
+    db = openIndexerDb(":memory:");
+    indexer = createIndexer({ market, provider: ethers.provider, db, startBlock: deployment!.blockNumber, maxBlockRange: 5 });
+  });
+
+  afterEach(function () {
+    db?.close();
+  });
+
+  async function syncToHead() {
+    const head = await ethers.provider.getBlockNumber();
+    while (indexer.lastIndexedBlock() < head) await indexer.syncOnce();
+  }
+
+  it("indexes the batch lifecycle across block ranges", async function () {
+    await market.openBatch();
+    await predict(1n, 1);
+    await predict(1n, 0);
+    await market.closeBatch(1);
+    await market.connect(alice).requestBatchResultDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+    await market.resolveMarket(1, true);
+    await market.openBatch();
+    await syncToHead();
+
+    const page = listBatches(db, { offset: 0, limit: 10 });
+    expect(page.total).to.eq(2);
+    expect(page.items.map(b => b.batchId)).to.deep.eq([2, 1]);
+    const [open, closed] = page.items;
+    expect(open.isOpen).to.eq(true);
+    expect(closed.isOpen).to.eq(false);
+    expect(closed.submissions).to.eq(2);
+    expect(closed.creator).to.eq(owner.address.toLowerCase());
+    expect([open.outcome, closed.outcome]).to.deep.eq(["unresolved", "yes"]);
+    expect(closed.latestDecryption?.totalYes).to.eq("1");
+    expect(closed.latestDecryption?.totalNo).to.eq("1");
+
+    const predictions = listPredictions(db, { offset: 0, limit: 1, user: alice.address });
+    expect(predictions.total).to.eq(2);
+    expect(predictions.items).to.have.length(1);
+  });
+
+  it("marks decryption requests that expired unanswered", async function () {
+    await market.openBatch();
+    await predict(1n, 1);
+    await market.closeBatch(1);
+    await market.connect(alice).requestBatchResultDecryption(1);
+    await time.increase(await market.DECRYPTION_TIMEOUT());
+    await market.connect(alice).requestBatchResultDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+    await syncToHead();
+
+    const [latest, expired] = listDecryptions(db, { offset: 0, limit: 10, batchId: 1 }).items;
+    expect(latest.expiredBlock).to.eq(null);
+    expect(latest.totalYes).to.eq("1");
+    expect(expired.expiredBlock).to.eq(latest.requestedBlock);
+    expect(expired.completedBlock).to.eq(null);
+  });
+
+  it("indexes declared outcomes, tallies and the winning outcome of multi-outcome batches", async function () {
+    await market.openMultiOutcomeBatch(3);
+    await predict(1n, 2);
+    await predict(1n, 2);
+    await market.closeBatch(1);
+    await market.connect(alice).requestBatchResultDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+    await market.resolveMultiOutcomeMarket(1, 2);
+    await syncToHead();
+
+    const [batch] = listBatches(db, { offset: 0, limit: 10 }).items;
+    expect([batch.outcomeCount, batch.outcome, batch.winningOutcome]).to.deep.eq([3, "option", 2]);
+    expect(batch.latestDecryption?.tallies).to.deep.eq(["0", "0", "2"]);
+    expect(batch.latestDecryption?.totalYes).to.eq(null);
+  });
+
+  it("indexes the range, decrypted histogram and resolved value of scalar batches", async function () {
+    await market.openScalarBatch(0, 99, 2);
+    await predict(1n, 20);
+    await predict(1n, 80);
+    await market.closeBatch(1);
+    await market.connect(alice).requestBatchResultDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+    await market.resolveScalarMarket(1, 64);
+    await syncToHead();
+
+    const [batch] = listBatches(db, { offset: 0, limit: 10 }).items;
+    expect(batch.scalarRange).to.deep.eq({ lowerBound: 0, upperBound: 99, bucketCount: 2 });
+    expect([batch.outcome, batch.resolvedValue]).to.deep.eq(["value", 64]);
+    expect(batch.latestDecryption?.scalarSum).to.eq("100");
+    expect(batch.latestDecryption?.tallies).to.deep.eq(["1", "1"]);
+  });
+
+  it("indexes the weighting and weighted totals of weighted batches", async function () {
+    const token = await ((await ethers.getContractFactory("MockVotesToken")) as MockVotesToken__factory).deploy("Governance", "GOV");
+    await token.mint(alice.address, ethers.parseEther("12"));
+    const snapshot = await ethers.provider.getBlockNumber();
+    await market.openBatch();
+    await market.configureWeighting(1, 2, await token.getAddress(), snapshot, ethers.parseEther("1"));
+    await predict(1n, 1);
+    await market.closeBatch(1);
+    await market.connect(alice).requestBatchResultDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+    await syncToHead();
+
+    const [batch] = listBatches(db, { offset: 0, limit: 10 }).items;
+    expect(batch.weighting).to.deep.eq({
+      source: "votes",
+      token: (await token.getAddress()).toLowerCase(),
+      snapshot: String(snapshot),
+      unit: ethers.parseEther("1").toString()
+    });
+    expect(batch.latestDecryption?.totalYes).to.eq("1");
+    expect(batch.latestDecryption?.weights).to.deep.eq(["12", "0"]);
+  });
+
+  it("indexes the participation policy of each batch", async function () {
+    const token = await ((await ethers.getContractFactory("MockVotesToken")) as MockVotesToken__factory).deploy("Governance", "GOV");
+    const root = ethers.keccak256(ethers.toUtf8Bytes("allowlist"));
+    await market.openBatch();
+    await market.openBatch();
+    await market.setParticipationPolicy(1, 2, await token.getAddress(), 5, ethers.ZeroHash);
+    await market.setParticipationPolicy(2, 3, ethers.ZeroAddress, 0, root);
+    await market.openBatch();
+    await syncToHead();
+
+    const [providers, allowlist, gated] = listBatches(db, { offset: 0, limit: 10 }).items;
+    expect(providers.participation).to.deep.eq({ mode: "providers", token: null, minBalance: null, allowlistRoot: null });
+    expect(allowlist.participation).to.deep.eq({ mode: "allowlist", token: null, minBalance: null, allowlistRoot: root });
+    expect(gated.participation).to.deep.eq({
+      mode: "token",
+      token: (await token.getAddress()).toLowerCase(),
+      minBalance: "5",
+      allowlistRoot: null
+    });
+  });
+
+  it("indexes the schedule of time-bounded batches", async function () {
+    await market.openBatch();
+    await market.openBatch();
+    const endTime = (await time.latest()) + 3600;
+    await market.setBatchSchedule(2, 0, endTime);
+    await syncToHead();
+
+    const [scheduled, unscheduled] = listBatches(db, { offset: 0, limit: 10 }).items;
+    expect(scheduled.schedule).to.deep.eq({ startTime: 0, endTime });
+    expect(unscheduled.schedule).to.eq(null);
+  });
+
+  it("indexes the proposal each batch is linked to", async function () {
+    await market.openBatch();
+    await market.openBatch();
+    const snapshotId = ethers.id("snapshot proposal");
+    await market.setBatchMetadata(2, {
+      dao: ethers.encodeBytes32String("gitcoindao.eth"),
+      proposalChainId: 1,
+      governor: ethers.ZeroAddress,
+      proposalId: 0,
+      snapshotId,
+      questionHash: ethers.id("Fund a third grants round?"),
+      metadataURI: "ipfs://grants-round"
+    });
+    await syncToHead();
+
+    const [linked, unlinked] = listBatches(db, { offset: 0, limit: 10 }).items;
+    expect(linked.metadata).to.deep.eq({
+      dao: ethers.encodeBytes32String("gitcoindao.eth"),
+      proposalChainId: "1",
+      governor: null,
+      proposalId: null,
+      snapshotId,
+      questionHash: ethers.id("Fund a third grants round?"),
+      metadataURI: "ipfs://grants-round"
+    });
+    expect(unlinked.metadata).to.eq(null);
+  });
+
+  it("records updated and revoked predictions without counting them as submissions", async function () {
+    await market.openBatch();
+    await predict(1n, 1);
+    const input = await fhevm.createEncryptedInput(await market.getAddress(), alice.address).add32(0).encrypt();
+    await market.connect(alice).updatePrediction(1n, input.handles[0], input.inputProof);
+    await time.increase(await market.cooldownSeconds());
+    await syncToHead();
+    expect(listBatches(db, { offset: 0, limit: 10 }).items[0].submissions).to.eq(1);
+
+    await market.connect(alice).revokePrediction(1n);
+    await syncToHead();
+    const [batch] = listBatches(db, { offset: 0, limit: 10 }).items;
+    expect(batch.submissions).to.eq(0);
+    const predictions = listPredictions(db, { offset: 0, limit: 10, batchId: 1 });
+    expect(predictions.items.map(p => p.kind)).to.deep.eq(["revoked", "updated", "submitted"]);
+    expect(predictions.items[0].encryptedPrediction).to.eq(ethers.ZeroHash);
+  });
+
+  it("rolls back events from blocks that were reorganised away", async function () {
+    await market.openBatch();
+    const endTime = (await time.latest()) + 3600;
+    await market.setBatchSchedule(1, 0, endTime);
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    // Settings sent again inside the range that is reorganised away
+    await market.setBatchSchedule(1, 0, endTime + 60);
+    await market.setParticipationPolicy(1, 1, ethers.ZeroAddress, 0, ethers.ZeroHash);
+    await predict(1n, 1);
+    await market.cancelMarket(1);
+    await syncToHead();
+    const [canceled] = listBatches(db, { offset: 0, limit: 10 }).items;
+    expect([canceled.submissions, canceled.outcome, canceled.isOpen]).to.deep.eq([1, "canceled", false]);
+    expect([canceled.schedule?.endTime, canceled.participation.mode]).to.deep.eq([endTime + 60, "open"]);
+
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await market.openBatch();
+    await market.openBatch();
+    await market.openBatch();
+
+    const result = await indexer.syncOnce();
+    expect(result.rolledBackTo).to.be.a("number");
+    await syncToHead();
+
+    const batches = listBatches(db, { offset: 0, limit: 10 });
+    expect(batches.items.map(b => b.batchId)).to.deep.eq([4, 3, 2, 1]);
+    expect(batches.items[3].isOpen).to.eq(true);
+    expect(batches.items[3].submissions).to.eq(0);
+    expect(batches.items[3].outcome).to.eq("unresolved");
+    expect(batches.items[3].schedule).to.deep.eq({ startTime: 0, endTime });
+    expect(batches.items[3].participation.mode).to.eq("providers");
+  });
+
+  it("serves paginated batches over HTTP", async function () {
+    for (let i = 0; i < 3; i++) await market.openBatch();
+    await syncToHead();
+
+    const server = createIndexerServer(db);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    try {
+      const page = (await (await fetch(`${base}/batches?limit=2&offset=1`)).json()) as Page<IndexedBatch>;
+      expect(page.total).to.eq(3);
+      expect(page.items.map(b => b.batchId)).to.deep.eq([2, 1]);
+
+      expect((await fetch(`${base}/batches/9`)).status).to.eq(404);
+      expect((await fetch(`${base}/batches?limit=1000`)).status).to.eq(400);
+      expect(await (await fetch(`${base}/status`)).json()).to.deep.eq({ lastBlock: indexer.lastIndexedBlock() });
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,144 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { DAOPredictMarketFHE, DAOPredictMarketFHE__factory } from "../types";
+import { createKeeper, KeeperAuditEntry } from "../src/keeper";
+
+describe("Market keeper", function () {
+  let alice: HardhatEthersSigner;
+  let keeperSigner: HardhatEthersSigner;
+  let market: DAOPredictMarketFHE;
+
+  // Opens a batch ending in `duration` seconds, with one prediction from alice unless `empty`
+  async function openScheduledBatch(duration: number, empty = false): Promise<bigint> {
+    await market.openBatch();
+    const batchId = (await market.nextBatchId()) - 1n;
+    await market.setBatchSchedule(batchId, 0, (await time.latest()) + duration);
+    if (!empty) {
+      const input = await fhevm.createEncryptedInput(await market.getAddress(), alice.address).add32(1).encrypt();
+      await market.connect(alice).submitPrediction(batchId, input.handles[0], input.inputProof);
+      await time.increase(await market.cooldownSeconds());
+    }
+    return batchId;
+  }
+
+  const summary = (entries: KeeperAuditEntry[]) => entries.map(entry => `${entry.action} ${entry.batchId} ${entry.status}`);
+
+  before(async function () {
+    [, alice, keeperSigner] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run against the FHEVM mock");
+      this.skip();
+    }
+    const tally = await ethers.deployContract("PredictionTally");
+    market = await (
+      (await ethers.getContractFactory("DAOPredictMarketFHE", {
+        libraries: { PredictionTally: await tally.getAddress() }
+      })) as DAOPredictMarketFHE__factory
+    ).deploy();
+    await market.addProvider(alice.address);
+    await market.addProvider(keeperSigner.address);
+  });
+
+  it("closes expired batches and requests the decryption of their tallies", async function () {
+    const batchId = await openScheduledBatch(3600);
+    await market.openBatch();
+    const keeper = createKeeper({ market: market.connect(keeperSigner) });
+
+    expect(await keeper.tickOnce()).to.deep.eq([]);
+
+    await time.increase(3600);
+    const entries = await keeper.tickOnce();
+    expect(summary(entries)).to.deep.eq(["close-batch 1 succeeded", "request-decryption 1 succeeded"]);
+    expect(await market.isBatchOpen(batchId)).to.eq(false);
+    expect(await market.isBatchOpen(2n)).to.eq(true);
+
+    await expect(fhevm.awaitDecryptionOracle()).to.not.be.rejected;
+    const [completed] = await market.queryFilter(market.filters.DecryptionCompleted(BigInt(entries[1].requestId!)));
+    expect(completed.args.totalYes).to.eq(1n);
+
+    expect(await keeper.tickOnce()).to.deep.eq([]);
+  });
+
+  it("requests decryption again when the oracle lets a request expire", async function () {
+    const batchId = await openScheduledBatch(3600);
+    const keeper = createKeeper({ market: market.connect(keeperSigner) });
+
+    await time.increase(3600);
+    const [, requested] = await keeper.tickOnce();
+    expect(await keeper.tickOnce()).to.deep.eq([]);
+
+    // The oracle never answers, so the request expires
+    await time.increase(await market.DECRYPTION_TIMEOUT());
+    const [retried] = await keeper.tickOnce();
+    expect(retried).to.include({ action: "request-decryption", status: "succeeded", detail: `replaces expired request ${requested.requestId}` });
+    expect(await market.latestDecryptionRequests(batchId)).to.eq(BigInt(retried.requestId!));
+
+    await expect(fhevm.awaitDecryptionOracle()).to.not.be.rejected;
+    expect((await market.getBatchResult(batchId)).requestId).to.eq(BigInt(retried.requestId!));
+    expect(await keeper.tickOnce()).to.deep.eq([]);
+  });
+
+  it("closes expired batches without predictions but has nothing to decrypt", async function () {
+    await openScheduledBatch(3600, true);
+    const keeper = createKeeper({ market: market.connect(keeperSigner) });
+
+    await time.increase(3600);
+    expect(summary(await keeper.tickOnce())).to.deep.eq(["close-batch 1 succeeded"]);
+    expect(await keeper.tickOnce()).to.deep.eq([]);
+  });
+
+  it("defers decryption requests until the cooldown has passed", async function () {
+    await openScheduledBatch(3600);
+    await openScheduledBatch(3600);
+    const keeper = createKeeper({ market: market.connect(keeperSigner) });
+
+    await time.increase(3600);
+    expect(summary(await keeper.tickOnce())).to.deep.eq([
+      "close-batch 1 succeeded",
+      "request-decryption 1 succeeded",
+      "close-batch 2 succeeded",
+      "request-decryption 2 deferred"
+    ]);
+    expect(await keeper.tickOnce()).to.deep.eq([]);
+
+    await time.increase(await market.cooldownSeconds());
+    expect(summary(await keeper.tickOnce())).to.deep.eq(["request-decryption 2 succeeded"]);
+  });
+
+  it("retries failed steps and abandons them after maxAttempts", async function () {
+    await openScheduledBatch(3600);
+    await market.removeProvider(keeperSigner.address);
+    const audited: KeeperAuditEntry[] = [];
+    const keeper = createKeeper({ market: market.connect(keeperSigner), maxAttempts: 2, baseDelayMs: 0, onAudit: entry => audited.push(entry) });
+
+    await time.increase(3600);
+    const [, failed] = await keeper.tickOnce();
+    expect(failed).to.include({ action: "request-decryption", status: "failed", attempt: 1 });
+    expect(failed.detail).to.match(/^NotProvider/);
+
+    const [abandoned] = await keeper.tickOnce();
+    expect(abandoned).to.include({ status: "abandoned", attempt: 2 });
+    expect(await keeper.tickOnce()).to.deep.eq([]);
+    expect(summary(audited)).to.deep.eq([
+      "close-batch 1 succeeded",
+      "request-decryption 1 failed",
+      "request-decryption 1 abandoned"
+    ]);
+  });
+
+  it("waits out the backoff before retrying", async function () {
+    await openScheduledBatch(3600);
+    await market.removeProvider(keeperSigner.address);
+    const keeper = createKeeper({ market: market.connect(keeperSigner), baseDelayMs: 60_000 });
+
+    await time.increase(3600);
+    expect(summary(await keeper.tickOnce())).to.deep.eq(["close-batch 1 succeeded", "request-decryption 1 failed"]);
+    await market.addProvider(keeperSigner.address);
+    expect(await keeper.tickOnce()).to.deep.eq([]);
+  });
+});
@@ -0,0 +1,86 @@
+import { expect } from "chai";
+import fs from "fs";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { ethers } from "ethers";
+import {
+  canonicalJson,
+  computeCid,
+  createFileStore,
+  createHttpStore,
+  createMarketDescription,
+  createMetadataServer,
+  encodeMarketDescription,
+  fetchMarketDescription,
+  MetadataStore,
+  publishMarketDescription
+} from "../src/metadata";
+
+describe("Market metadata", function () {
+  let dir: string;
+  let store: MetadataStore;
+
+  const description = createMarketDescription({
+    daoName: "Uniswap",
+    proposalTitle: "Diversify 10% of the treasury into stablecoins",
+    category: "Treasury",
+    creator: ethers.ZeroAddress,
+    batchId: "1",
+    endTime: 1700000000,
+    outcomes: ["Yes", "No", "Abstain"]
+  });
+
+  beforeEach(function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "metadata-"));
+    store = createFileStore(dir);
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it("computes the CIDs ipfs add reports for raw leaves", function () {
+    expect(computeCid(new Uint8Array())).to.eq("bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku");
+    expect(computeCid(ethers.toUtf8Bytes("hello world"))).to.eq(
+      "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e"
+    );
+  });
+
+  it("encodes equal descriptions to the same bytes whatever their key order", function () {
+    expect(canonicalJson({ b: [2, { d: 1, c: undefined }], a: "x" })).to.eq('{"a":"x","b":[2,{"d":1}]}');
+    const reordered = Object.fromEntries(Object.entries(description).reverse());
+    expect(computeCid(ethers.toUtf8Bytes(canonicalJson(reordered)))).to.eq(computeCid(encodeMarketDescription(description)));
+  });
+
+  it("publishes descriptions and fetches them back by CID", async function () {
+    const cid = await publishMarketDescription(store, description);
+
+    expect(cid).to.eq(computeCid(encodeMarketDescription(description)));
+    expect(await fetchMarketDescription(store, cid)).to.deep.eq(description);
+  });
+
+  it("rejects content that does not match its CID", async function () {
+    const cid = await publishMarketDescription(store, description);
+    fs.writeFileSync(path.join(dir, cid), encodeMarketDescription({ ...description, proposalTitle: "Something else" }));
+
+    await expect(fetchMarketDescription(store, cid)).to.be.rejectedWith(`content does not match CID ${cid}`);
+    await expect(store.get("../secrets")).to.be.rejectedWith("is not a raw sha2-256 CIDv1");
+  });
+
+  it("serves the store over the HTTP stand-in", async function () {
+    const server = createMetadataServer(store);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    try {
+      const cid = await publishMarketDescription(createHttpStore(base), description);
+      expect(fs.existsSync(path.join(dir, cid))).to.eq(true);
+      expect(await fetchMarketDescription(createHttpStore(base), cid)).to.deep.eq(description);
+
+      expect((await fetch(`${base}/ipfs/${computeCid(new Uint8Array())}`)).status).to.eq(404);
+      expect((await fetch(`${base}/ipfs/not-a-cid`)).status).to.eq(400);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  DAOPredictMarketFHE,
+  DAOPredictMarketFHE__factory,
+  MarketRegistry,
+  MarketRegistry__factory,
+  MockUniversalAdapter,
+  MockUniversalAdapter__factory
+} from "../types";
+import { ADAPTER_ABI, migrateAdapterMarkets } from "../src/migration";
+
+const blob = (value: object) => ethers.toUtf8Bytes(JSON.stringify(value));
+
+describe("MarketRegistry", function () {
+  let owner: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let market: DAOPredictMarketFHE;
+  let registry: MarketRegistry;
+
+  before(async function () {
+    [owner, alice] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const tally = await ethers.deployContract("PredictionTally");
+    market = await (
+      (await ethers.getContractFactory("DAOPredictMarketFHE", {
+        libraries: { PredictionTally: await tally.getAddress() }
+      })) as DAOPredictMarketFHE__factory
+    ).deploy();
+    registry = await ((await ethers.getContractFactory("MarketRegistry")) as MarketRegistry__factory).deploy(
+      await market.getAddress()
+    );
+    for (let i = 0; i < 3; i++) await market.openBatch();
+  });
+
+  describe("registration", function () {
+    it("appends markets with sequential ids and pages through them", async function () {
+      await expect(registry.registerMarket("a", 1, blob({ daoName: "A" })))
+        .to.emit(registry, "MarketRegistered")
+        .withArgs(0, 1, owner.address, "a");
+      await registry.registerMarket("b", 2, blob({ daoName: "B" }));
+      await registry.registerMarket("c", 3, blob({ daoName: "C" }));
+
+      expect(await registry.marketCount()).to.eq(3n);
+      const page = await registry.getMarkets(1, 5);
+      expect(page.map(m => m.key)).to.deep.eq(["b", "c"]);
+      expect(page.map(m => m.marketId)).to.deep.eq([1n, 2n]);
+      expect(await registry.getMarkets(3, 5)).to.have.length(0);
+      expect(await registry.marketIdByKey("c")).to.eq(2n);
+      expect(await registry.marketIdByBatch(2)).to.eq(1n);
+    });
+
+    it("rejects duplicate keys, reused batches and unknown batches", async function () {
+      await registry.registerMarket("a", 1, "0x");
+      await expect(registry.registerMarket("a", 2, "0x")).to.be.revertedWithCustomError(registry, "DuplicateMarket");
+      await expect(registry.registerMarket("b", 1, "0x")).to.be.revertedWithCustomError(registry, "DuplicateMarket");
+      await expect(registry.registerMarket("b", 4, "0x")).to.be.revertedWithCustomError(registry, "NotBatchCreator");
+      await expect(registry.registerMarket("", 2, "0x")).to.be.revertedWithCustomError(registry, "InvalidArgument");
+    });
+
+    it("only lets the batch creator register a batch", async function () {
+      await expect(registry.connect(alice).registerMarket("a", 1, "0x"))
+        .to.be.revertedWithCustomError(registry, "NotBatchCreator")
+        .withArgs(1, alice.address);
+      await market.grantRole(await market.CREATOR_ROLE(), alice.address);
+      await market.connect(alice).openBatch();
+      await expect(registry.connect(alice).registerMarket("a", 4, "0x"))
+        .to.emit(registry, "MarketRegistered")
+        .withArgs(0, 4, alice.address, "a");
+    });
+
+    it("lets the creator or registry owner update market data", async function () {
+      await registry.importMarket("a", alice.address, 1, blob({ status: "active" }));
+      await expect(registry.connect(alice).updateMarketData(0, blob({ status: "settled" })))
+        .to.emit(registry, "MarketDataUpdated")
+        .withArgs(0, alice.address);
+      const [, , bob] = await ethers.getSigners();
+      await expect(registry.connect(bob).updateMarketData(0, "0x")).to.be.revertedWithCustomError(registry, "NotCreator");
+      await market.grantRole(await market.DAO_ADMIN_ROLE(), bob.address);
+      await registry.connect(bob).updateMarketData(0, blob({ status: "settled" }));
+      await expect(registry.updateMarketData(5, "0x")).to.be.revertedWithCustomError(registry, "MarketNotFound");
+      expect(JSON.parse(ethers.toUtf8String((await registry.getMarket(0)).data))).to.deep.eq({ status: "settled" });
+    });
+  });
+
+  describe("adapter migration", function () {
+    let adapter: MockUniversalAdapter;
+
+    beforeEach(async function () {
+      adapter = await ((await ethers.getContractFactory("MockUniversalAdapter")) as MockUniversalAdapter__factory).deploy();
+      await adapter.setData("market_1", blob({ daoName: "A", batchId: "1", creator: alice.address, status: "active" }));
+      await adapter.setData("market_2", blob({ daoName: "Legacy", creator: alice.address }));
+      await adapter.setData("market_3", ethers.toUtf8Bytes("{not json"));
+      await adapter.setData("market_4", blob({ daoName: "B", batchId: "2", creator: owner.address, status: "settled" }));
+      await adapter.setData("market_5", blob({ daoName: "Dup", batchId: "2", creator: owner.address }));
+      await adapter.setData("market_keys", blob(["1", "2", "3", "4", "4", "5", "6"]));
+    });
+
+    const migrate = (dryRun = false) =>
+      migrateAdapterMarkets(new ethers.Contract(adapter.target as string, ADAPTER_ABI, owner), registry, { dryRun });
+
+    it("imports blobs with batches, keeping creators and original bytes", async function () {
+      const results = await migrate();
+      expect(results.map(r => [r.key, r.status])).to.deep.eq([
+        ["1", "imported"],
+        ["2", "skipped"],
+        ["3", "skipped"],
+        ["4", "imported"],
+        ["5", "failed"],
+        ["6", "skipped"]
+      ]);
+      expect(results[3].marketId).to.eq(1n);
+
+      const [first, second] = await registry.getMarkets(0, 10);
+      expect(first.creator).to.eq(alice.address);
+      expect(first.data).to.eq(await adapter.getData("market_1"));
+      expect(second.batchId).to.eq(2n);
+    });
+
+    it("is idempotent and supports dry runs", async function () {
+      const dryRun = await migrate(true);
+      expect(dryRun.map(r => r.status)).to.deep.eq(["imported", "skipped", "skipped", "imported", "failed", "skipped"]);
+      expect(await registry.marketCount()).to.eq(0n);
+
+      await migrate();
+      const rerun = await migrate();
+      expect(rerun.find(r => r.key === "1")?.status).to.eq("already-registered");
+      expect(await registry.marketCount()).to.eq(2n);
+    });
+
+    it("closes the import window once migration is finished", async function () {
+      await registry.finishMigration();
+      await expect(registry.importMarket("x", alice.address, 1, "0x")).to.be.revertedWithCustomError(
+        registry,
+        "MigrationClosed"
+      );
+      await expect(registry.connect(alice).finishMigration()).to.be.revertedWithCustomError(registry, "NotOwner");
+    });
+  });
+});
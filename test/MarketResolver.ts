@@ -0,0 +1,200 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { DAOPredictMarketFHE, DAOPredictMarketFHE__factory, MockGovernor, MockGovernor__factory } from "../types";
+import {
+  createGovernorSource,
+  createSnapshotSource,
+  outcomeFromSnapshotProposal,
+  ProposalSource,
+  resolveBatch,
+  readBinding,
+  resolveBatches,
+  SnapshotProposal
+} from "../src/resolver";
+
+const VOTING_PERIOD = 3600;
+const FOR = 1;
+const AGAINST = 0;
+
+describe("Market resolver", function () {
+  let owner: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let market: DAOPredictMarketFHE;
+  let governor: MockGovernor;
+  let sources: Record<string, ProposalSource>;
+  let snapshotProposals: SnapshotProposal[];
+
+  // Records the proposal the batch settles on, as its creator does before the first prediction
+  async function bindBatch(batchId: bigint, proposal: { governor?: string; proposalId?: bigint; snapshotId?: string }) {
+    await market.setBatchMetadata(batchId, {
+      dao: ethers.id("Test DAO"),
+      proposalChainId: (await ethers.provider.getNetwork()).chainId,
+      governor: proposal.governor ?? ethers.ZeroAddress,
+      proposalId: proposal.proposalId ?? 0n,
+      snapshotId: proposal.snapshotId ?? ethers.ZeroHash,
+      questionHash: ethers.id("Will the proposal pass?"),
+      metadataURI: "",
+    });
+  }
+
+  async function openStakedBatch(proposal: Parameters<typeof bindBatch>[1]): Promise<bigint> {
+    await market.openBatch();
+    const batchId = (await market.nextBatchId()) - 1n;
+    await bindBatch(batchId, proposal);
+    const marketAddress = await market.getAddress();
+    const input = await fhevm.createEncryptedInput(marketAddress, alice.address).add32(1).encrypt();
+    await market.connect(alice).submitPrediction(batchId, input.handles[0], input.inputProof, { value: ethers.parseEther("1") });
+    await time.increase(await market.cooldownSeconds());
+    return batchId;
+  }
+
+  before(async function () {
+    [owner, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run against the FHEVM mock");
+      this.skip();
+    }
+    const tally = await ethers.deployContract("PredictionTally");
+    market = await (
+      (await ethers.getContractFactory("DAOPredictMarketFHE", {
+        libraries: { PredictionTally: await tally.getAddress() }
+      })) as DAOPredictMarketFHE__factory
+    ).deploy();
+    governor = await ((await ethers.getContractFactory("MockGovernor")) as MockGovernor__factory).deploy("Test DAO");
+    await market.addProvider(alice.address);
+
+    snapshotProposals = [];
+    sources = {
+      governor: createGovernorSource(await governor.getAddress(), owner),
+      snapshot: createSnapshotSource(async id => {
+        const proposal = snapshotProposals.find(p => p.id === id);
+        if (!proposal) throw new Error(`unknown proposal ${id}`);
+        return proposal;
+      })
+    };
+  });
+
+  describe("governor source", function () {
+    it("waits for voting to end, then resolves the batch from the tally", async function () {
+      const batchId = await openStakedBatch({ governor: await governor.getAddress(), proposalId: 7n });
+      await governor.propose(7, VOTING_PERIOD, "Fund the grants program");
+      await governor.connect(alice).castVote(7, FOR);
+      await governor.connect(bob).castVote(7, FOR);
+      await governor.castVote(7, AGAINST);
+
+      const pending = await resolveBatch(market, batchId, sources);
+      expect(pending.status).to.eq("pending");
+      expect(await market.isBatchOpen(batchId)).to.eq(true);
+
+      await time.increase(VOTING_PERIOD + 1);
+      const report = await resolveBatch(market, batchId, sources);
+      expect(report.status).to.eq("resolved");
+      expect(report.outcome).to.eq("yes");
+      expect([report.source, report.proposalId]).to.deep.eq(["governor", "7"]);
+      expect(report.requestId).to.be.a("bigint");
+      expect(await market.isBatchOpen(batchId)).to.eq(false);
+      expect(await market.batchOutcomes(batchId)).to.eq(1n);
+
+      await fhevm.awaitDecryptionOracle();
+      expect(await market.winningPools(batchId)).to.eq(ethers.parseEther("1"));
+
+      const again = await resolveBatch(market, batchId, sources);
+      expect(again.status).to.eq("already-resolved");
+    });
+
+    it("resolves defeated proposals as no and leaves canceled ones to an admin", async function () {
+      const governorAddress = await governor.getAddress();
+      const defeatedBatch = await openStakedBatch({ governor: governorAddress, proposalId: 1n });
+      const canceledBatch = await openStakedBatch({ governor: governorAddress, proposalId: 2n });
+      await governor.propose(1, VOTING_PERIOD, "Defeated");
+      await governor.propose(2, VOTING_PERIOD, "Canceled");
+      await governor.castVote(1, AGAINST);
+      await governor.cancel(2);
+      await time.increase(VOTING_PERIOD + 1);
+
+      const reports = await resolveBatches(market, [defeatedBatch, canceledBatch, 99n], sources);
+      expect(reports.map(r => r.status)).to.deep.eq(["resolved", "unresolvable", "failed"]);
+      expect(reports[0].outcome).to.eq("no");
+      expect(await market.batchOutcomes(defeatedBatch)).to.eq(2n);
+      expect(await market.batchOutcomes(canceledBatch)).to.eq(0n);
+    });
+
+    it("refuses to settle multi-outcome batches from a yes/no proposal", async function () {
+      await market.openMultiOutcomeBatch(3);
+      const batchId = (await market.nextBatchId()) - 1n;
+      await bindBatch(batchId, { governor: await governor.getAddress(), proposalId: 1n });
+      await governor.propose(1, VOTING_PERIOD, "Binary");
+      await time.increase(VOTING_PERIOD + 1);
+
+      const report = await resolveBatch(market, batchId, sources);
+      expect(report.status).to.eq("failed");
+      expect(await market.isBatchOpen(batchId)).to.eq(true);
+    });
+
+    it("refuses to settle scalar batches from a yes/no proposal", async function () {
+      await market.openScalarBatch(0, 100, 4);
+      const batchId = (await market.nextBatchId()) - 1n;
+      await bindBatch(batchId, { governor: await governor.getAddress(), proposalId: 1n });
+      await governor.propose(1, VOTING_PERIOD, "Binary");
+      await time.increase(VOTING_PERIOD + 1);
+
+      const report = await resolveBatch(market, batchId, sources);
+      expect(report.status).to.eq("failed");
+      expect(await market.isBatchOpen(batchId)).to.eq(true);
+    });
+
+    it("only settles a batch on the proposal in its metadata", async function () {
+      const otherGovernor = await ((await ethers.getContractFactory("MockGovernor")) as MockGovernor__factory).deploy(
+        "Other DAO",
+      );
+      const boundElsewhere = await openStakedBatch({ governor: await otherGovernor.getAddress(), proposalId: 7n });
+      await market.openBatch();
+      const unbound = (await market.nextBatchId()) - 1n;
+      await governor.propose(7, VOTING_PERIOD, "Fund the grants program");
+      await governor.castVote(7, FOR);
+      await time.increase(VOTING_PERIOD + 1);
+
+      expect(await readBinding(market, unbound)).to.eq(null);
+      const reports = await resolveBatches(market, [boundElsewhere, unbound], sources);
+      expect(reports.map(r => r.status)).to.deep.eq(["failed", "failed"]);
+      expect(reports[0].detail).to.contain(await otherGovernor.getAddress());
+      expect(await market.batchOutcomes(boundElsewhere)).to.eq(0n);
+      expect(await market.batchOutcomes(unbound)).to.eq(0n);
+    });
+  });
+
+  describe("snapshot source", function () {
+    it("resolves closed proposals by comparing the yes and no scores", async function () {
+      const snapshotId = ethers.id("snapshot proposal");
+      const batchId = await openStakedBatch({ snapshotId });
+      snapshotProposals.push({
+        id: snapshotId,
+        state: "active",
+        choices: ["For", "Against", "Abstain"],
+        scores: [10, 30, 5],
+        scores_total: 45
+      });
+      expect(await readBinding(market, batchId)).to.deep.eq({ batchId, source: "snapshot", proposalId: snapshotId, governor: null });
+      expect((await resolveBatch(market, batchId, sources)).status).to.eq("pending");
+
+      snapshotProposals[0].state = "closed";
+      const report = await resolveBatch(market, batchId, sources);
+      expect(report.status).to.eq("resolved");
+      expect(report.outcome).to.eq("no");
+      expect(await market.batchOutcomes(batchId)).to.eq(2n);
+    });
+
+    it("treats missed quorum as no and rejects proposals without yes/no choices", function () {
+      const base = { id: "q", state: "closed" as const, choices: ["Yes", "No"], scores: [9, 1], scores_total: 10 };
+      expect(outcomeFromSnapshotProposal(base).outcome).to.eq("yes");
+      expect(outcomeFromSnapshotProposal({ ...base, quorum: 100 }).outcome).to.eq("no");
+      expect(outcomeFromSnapshotProposal({ ...base, choices: ["Alice", "Bob", "Carol"], scores: [1, 2, 3] }).outcome).to.eq(null);
+    });
+  });
+});
@@ -0,0 +1,2936 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace DAOPredictMarketFHE {
+  export type BatchMetadataStruct = {
+    dao: BytesLike;
+    proposalChainId: BigNumberish;
+    governor: AddressLike;
+    proposalId: BigNumberish;
+    snapshotId: BytesLike;
+    questionHash: BytesLike;
+    metadataURI: string;
+  };
+
+  export type BatchMetadataStructOutput = [
+    dao: string,
+    proposalChainId: bigint,
+    governor: string,
+    proposalId: bigint,
+    snapshotId: string,
+    questionHash: string,
+    metadataURI: string
+  ] & {
+    dao: string;
+    proposalChainId: bigint;
+    governor: string;
+    proposalId: bigint;
+    snapshotId: string;
+    questionHash: string;
+    metadataURI: string;
+  };
+
+  export type BatchResultStruct = {
+    revealed: boolean;
+    requestId: BigNumberish;
+    tallies: BigNumberish[];
+    weights: BigNumberish[];
+    scalarSum: BigNumberish;
+  };
+
+  export type BatchResultStructOutput = [
+    revealed: boolean,
+    requestId: bigint,
+    tallies: bigint[],
+    weights: bigint[],
+    scalarSum: bigint
+  ] & {
+    revealed: boolean;
+    requestId: bigint;
+    tallies: bigint[];
+    weights: bigint[];
+    scalarSum: bigint;
+  };
+}
+
+export interface DAOPredictMarketFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "CREATOR_ROLE"
+      | "DAO_ADMIN_ROLE"
+      | "DECRYPTION_TIMEOUT"
+      | "MAX_OUTCOMES"
+      | "MAX_SCALAR_BUCKETS"
+      | "RESOLVER_ROLE"
+      | "addProvider"
+      | "batchCreators"
+      | "batchOutcomeCounts"
+      | "batchOutcomes"
+      | "batchPools"
+      | "batchSchedules"
+      | "batchWeightings"
+      | "canPredict"
+      | "cancelMarket"
+      | "claim"
+      | "claimCallback"
+      | "claimRequests"
+      | "closeBatch"
+      | "configureWeighting"
+      | "cooldownSeconds"
+      | "decryptionContexts"
+      | "encryptedNoCounts"
+      | "encryptedNoStakes"
+      | "encryptedNoWeights"
+      | "encryptedYesCounts"
+      | "encryptedYesStakes"
+      | "encryptedYesWeights"
+      | "getBatchMetadata"
+      | "getBatchResult"
+      | "getCurrentPrediction"
+      | "getOutcomeCounts"
+      | "getOutcomeStakes"
+      | "getOutcomeWeights"
+      | "getScalarBucketBounds"
+      | "getScalarHistogram"
+      | "getScalarSum"
+      | "grantRole"
+      | "hasPredicted"
+      | "hasReceivedPredictions"
+      | "hasRole"
+      | "isAdmin"
+      | "isBatchOpen"
+      | "isProvider"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "latestClaimRequests"
+      | "latestDecryptionRequests"
+      | "myCallback"
+      | "nextBatchId"
+      | "openBatch"
+      | "openMultiOutcomeBatch"
+      | "openScalarBatch"
+      | "owner"
+      | "participationPolicies"
+      | "paused"
+      | "positions"
+      | "protocolId"
+      | "removeProvider"
+      | "requestBatchResultDecryption"
+      | "resolveMarket"
+      | "resolveMultiOutcomeMarket"
+      | "resolveScalarMarket"
+      | "resolvedValues"
+      | "revokePrediction"
+      | "revokeRole"
+      | "scalarRanges"
+      | "setBatchMetadata"
+      | "setBatchSchedule"
+      | "setCooldownSeconds"
+      | "setParticipationPolicy"
+      | "setPaused"
+      | "submissionsInBatch"
+      | "submitPrediction"
+      | "submitPredictionWithProof"
+      | "updatePrediction"
+      | "winningOutcomes"
+      | "winningPoolCallback"
+      | "winningPoolRequests"
+      | "winningPoolRevealed"
+      | "winningPools"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchClosed"
+      | "BatchMetadataSet"
+      | "BatchOpened"
+      | "BatchScheduled"
+      | "ClaimRequested"
+      | "CooldownSecondsSet"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequestExpired"
+      | "DecryptionRequested"
+      | "MarketCanceled"
+      | "MarketResolved"
+      | "MarketResolvedToOutcome"
+      | "MarketResolvedToValue"
+      | "OutcomeTalliesDecrypted"
+      | "OutcomesDeclared"
+      | "ParticipationPolicySet"
+      | "PausedSet"
+      | "PayoutClaimed"
+      | "PredictionRevoked"
+      | "PredictionSubmitted"
+      | "PredictionUpdated"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "ScalarRangeDeclared"
+      | "ScalarResultsDecrypted"
+      | "StakePlaced"
+      | "WeightedTalliesDecrypted"
+      | "WeightingConfigured"
+      | "WinningPoolRequested"
+      | "WinningPoolRevealed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "CREATOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DAO_ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DECRYPTION_TIMEOUT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_OUTCOMES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_SCALAR_BUCKETS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "RESOLVER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchCreators",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchOutcomeCounts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchOutcomes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchPools",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchSchedules",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchWeightings",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "canPredict",
+    values: [BigNumberish, AddressLike, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelMarket",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "claim", values: [BigNumberish]): string;
+  encodeFunctionData(
+    functionFragment: "claimCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimRequests",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "configureWeighting",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      AddressLike,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedNoCounts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedNoStakes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedNoWeights",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedYesCounts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedYesStakes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedYesWeights",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchMetadata",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchResult",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCurrentPrediction",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOutcomeCounts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOutcomeStakes",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getOutcomeWeights",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getScalarBucketBounds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getScalarHistogram",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getScalarSum",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasPredicted",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasReceivedPredictions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAdmin",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isBatchOpen",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "latestClaimRequests",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "latestDecryptionRequests",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nextBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "openBatch", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "openMultiOutcomeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openScalarBatch",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "participationPolicies",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "positions",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchResultDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resolveMarket",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resolveMultiOutcomeMarket",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resolveScalarMarket",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resolvedValues",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokePrediction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scalarRanges",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBatchMetadata",
+    values: [BigNumberish, DAOPredictMarketFHE.BatchMetadataStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBatchSchedule",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setParticipationPolicy",
+    values: [BigNumberish, BigNumberish, AddressLike, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "setPaused", values: [boolean]): string;
+  encodeFunctionData(
+    functionFragment: "submissionsInBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitPrediction",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitPredictionWithProof",
+    values: [BigNumberish, BytesLike, BytesLike, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updatePrediction",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winningOutcomes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winningPoolCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winningPoolRequests",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winningPoolRevealed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "winningPools",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "CREATOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DAO_ADMIN_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DECRYPTION_TIMEOUT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_OUTCOMES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_SCALAR_BUCKETS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "RESOLVER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchCreators",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchOutcomeCounts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchOutcomes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchPools", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "batchSchedules",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchWeightings",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "canPredict", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelMarket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "claim", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimRequests",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "configureWeighting",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedNoCounts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedNoStakes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedNoWeights",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedYesCounts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedYesStakes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedYesWeights",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchMetadata",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCurrentPrediction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOutcomeCounts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOutcomeStakes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getOutcomeWeights",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getScalarBucketBounds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getScalarHistogram",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getScalarSum",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hasPredicted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasReceivedPredictions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isAdmin", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isBatchOpen",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "latestClaimRequests",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "latestDecryptionRequests",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "nextBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "openMultiOutcomeBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "openScalarBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "participationPolicies",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "positions", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchResultDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resolveMarket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resolveMultiOutcomeMarket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resolveScalarMarket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resolvedValues",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokePrediction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "scalarRanges",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setBatchMetadata",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setBatchSchedule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setParticipationPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPaused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "submissionsInBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitPrediction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitPredictionWithProof",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updatePrediction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "winningOutcomes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "winningPoolCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "winningPoolRequests",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "winningPoolRevealed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "winningPools",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchMetadataSetEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    dao: BytesLike,
+    proposalChainId: BigNumberish,
+    governor: AddressLike,
+    proposalId: BigNumberish,
+    snapshotId: BytesLike,
+    questionHash: BytesLike,
+    metadataURI: string
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    dao: string,
+    proposalChainId: bigint,
+    governor: string,
+    proposalId: bigint,
+    snapshotId: string,
+    questionHash: string,
+    metadataURI: string
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    dao: string;
+    proposalChainId: bigint;
+    governor: string;
+    proposalId: bigint;
+    snapshotId: string;
+    questionHash: string;
+    metadataURI: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchScheduledEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    startTime: BigNumberish,
+    endTime: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    startTime: bigint,
+    endTime: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    startTime: bigint;
+    endTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ClaimRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    claimant: AddressLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    claimant: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    claimant: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsSetEvent {
+  export type InputTuple = [
+    oldCooldownSeconds: BigNumberish,
+    newCooldownSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldCooldownSeconds: bigint,
+    newCooldownSeconds: bigint
+  ];
+  export interface OutputObject {
+    oldCooldownSeconds: bigint;
+    newCooldownSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    totalYes: BigNumberish,
+    totalNo: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    totalYes: bigint,
+    totalNo: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    totalYes: bigint;
+    totalNo: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestExpiredEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MarketCanceledEvent {
+  export type InputTuple = [batchId: BigNumberish, canceledBy: AddressLike];
+  export type OutputTuple = [batchId: bigint, canceledBy: string];
+  export interface OutputObject {
+    batchId: bigint;
+    canceledBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MarketResolvedEvent {
+  export type InputTuple = [batchId: BigNumberish, outcomeYes: boolean];
+  export type OutputTuple = [batchId: bigint, outcomeYes: boolean];
+  export interface OutputObject {
+    batchId: bigint;
+    outcomeYes: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MarketResolvedToOutcomeEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    winningOutcome: BigNumberish
+  ];
+  export type OutputTuple = [batchId: bigint, winningOutcome: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    winningOutcome: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MarketResolvedToValueEvent {
+  export type InputTuple = [batchId: BigNumberish, value: BigNumberish];
+  export type OutputTuple = [batchId: bigint, value: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    value: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OutcomeTalliesDecryptedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    tallies: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    tallies: bigint[]
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    tallies: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OutcomesDeclaredEvent {
+  export type InputTuple = [batchId: BigNumberish, outcomeCount: BigNumberish];
+  export type OutputTuple = [batchId: bigint, outcomeCount: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    outcomeCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ParticipationPolicySetEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    mode: BigNumberish,
+    token: AddressLike,
+    minBalance: BigNumberish,
+    allowlistRoot: BytesLike
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    mode: bigint,
+    token: string,
+    minBalance: bigint,
+    allowlistRoot: string
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    mode: bigint;
+    token: string;
+    minBalance: bigint;
+    allowlistRoot: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedSetEvent {
+  export type InputTuple = [paused: boolean];
+  export type OutputTuple = [paused: boolean];
+  export interface OutputObject {
+    paused: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PayoutClaimedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    claimant: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [batchId: bigint, claimant: string, amount: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    claimant: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PredictionRevokedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    batchId: BigNumberish,
+    refund: BigNumberish
+  ];
+  export type OutputTuple = [user: string, batchId: bigint, refund: bigint];
+  export interface OutputObject {
+    user: string;
+    batchId: bigint;
+    refund: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PredictionSubmittedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    batchId: BigNumberish,
+    encryptedPrediction: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    batchId: bigint,
+    encryptedPrediction: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    batchId: bigint;
+    encryptedPrediction: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PredictionUpdatedEvent {
+  export type InputTuple = [
+    user: AddressLike,
+    batchId: BigNumberish,
+    encryptedPrediction: BigNumberish
+  ];
+  export type OutputTuple = [
+    user: string,
+    batchId: bigint,
+    encryptedPrediction: bigint
+  ];
+  export interface OutputObject {
+    user: string;
+    batchId: bigint;
+    encryptedPrediction: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScalarRangeDeclaredEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    lowerBound: BigNumberish,
+    upperBound: BigNumberish,
+    bucketCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    lowerBound: bigint,
+    upperBound: bigint,
+    bucketCount: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    lowerBound: bigint;
+    upperBound: bigint;
+    bucketCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScalarResultsDecryptedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    sum: BigNumberish,
+    histogram: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    sum: bigint,
+    histogram: bigint[]
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    sum: bigint;
+    histogram: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakePlacedEvent {
+  export type InputTuple = [user: AddressLike, batchId: BigNumberish];
+  export type OutputTuple = [user: string, batchId: bigint];
+  export interface OutputObject {
+    user: string;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WeightedTalliesDecryptedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    weights: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    weights: bigint[]
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    weights: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WeightingConfiguredEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    source: BigNumberish,
+    token: AddressLike,
+    snapshot: BigNumberish,
+    unit: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    source: bigint,
+    token: string,
+    snapshot: bigint,
+    unit: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    source: bigint;
+    token: string;
+    snapshot: bigint;
+    unit: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WinningPoolRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WinningPoolRevealedEvent {
+  export type InputTuple = [batchId: BigNumberish, winningPool: BigNumberish];
+  export type OutputTuple = [batchId: bigint, winningPool: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    winningPool: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface DAOPredictMarketFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): DAOPredictMarketFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: DAOPredictMarketFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  CREATOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  DAO_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  DECRYPTION_TIMEOUT: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_OUTCOMES: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_SCALAR_BUCKETS: TypedContractMethod<[], [bigint], "view">;
+
+  RESOLVER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  batchCreators: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  batchOutcomeCounts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  batchOutcomes: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  batchPools: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  batchSchedules: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { startTime: bigint; endTime: bigint }],
+    "view"
+  >;
+
+  batchWeightings: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, bigint] & {
+        source: bigint;
+        token: string;
+        snapshot: bigint;
+        unit: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  canPredict: TypedContractMethod<
+    [batchId: BigNumberish, account: AddressLike, allowlistProof: BytesLike[]],
+    [boolean],
+    "view"
+  >;
+
+  cancelMarket: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claim: TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+
+  claimCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  claimRequests: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, bigint] & {
+        batchId: bigint;
+        claimant: string;
+        processed: boolean;
+        expiresAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  closeBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  configureWeighting: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      source: BigNumberish,
+      token: AddressLike,
+      snapshot: BigNumberish,
+      unit: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, bigint] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+        expiresAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  encryptedNoCounts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedNoStakes: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedNoWeights: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedYesCounts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedYesStakes: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  encryptedYesWeights: TypedContractMethod<
+    [arg0: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getBatchMetadata: TypedContractMethod<
+    [batchId: BigNumberish],
+    [DAOPredictMarketFHE.BatchMetadataStructOutput],
+    "view"
+  >;
+
+  getBatchResult: TypedContractMethod<
+    [batchId: BigNumberish],
+    [DAOPredictMarketFHE.BatchResultStructOutput],
+    "view"
+  >;
+
+  getCurrentPrediction: TypedContractMethod<
+    [batchId: BigNumberish, account: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getOutcomeCounts: TypedContractMethod<
+    [batchId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getOutcomeStakes: TypedContractMethod<
+    [batchId: BigNumberish, account: AddressLike],
+    [string[]],
+    "view"
+  >;
+
+  getOutcomeWeights: TypedContractMethod<
+    [batchId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getScalarBucketBounds: TypedContractMethod<
+    [batchId: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getScalarHistogram: TypedContractMethod<
+    [batchId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getScalarSum: TypedContractMethod<[batchId: BigNumberish], [string], "view">;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasPredicted: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hasReceivedPredictions: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  hasRole: TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isAdmin: TypedContractMethod<[account: AddressLike], [boolean], "view">;
+
+  isBatchOpen: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  isProvider: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  latestClaimRequests: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  latestDecryptionRequests: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  nextBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  openBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  openMultiOutcomeBatch: TypedContractMethod<
+    [outcomeCount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  openScalarBatch: TypedContractMethod<
+    [
+      lowerBound: BigNumberish,
+      upperBound: BigNumberish,
+      bucketCount: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  participationPolicies: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, string] & {
+        mode: bigint;
+        token: string;
+        minBalance: bigint;
+        allowlistRoot: string;
+      }
+    ],
+    "view"
+  >;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  positions: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [string, string, bigint, boolean] & {
+        yesStake: string;
+        noStake: string;
+        deposit: bigint;
+        claimed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestBatchResultDecryption: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  resolveMarket: TypedContractMethod<
+    [batchId: BigNumberish, outcomeYes: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  resolveMultiOutcomeMarket: TypedContractMethod<
+    [batchId: BigNumberish, winningOutcome: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  resolveScalarMarket: TypedContractMethod<
+    [batchId: BigNumberish, value: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  resolvedValues: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  revokePrediction: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  scalarRanges: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        lowerBound: bigint;
+        upperBound: bigint;
+        bucketCount: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  setBatchMetadata: TypedContractMethod<
+    [batchId: BigNumberish, metadata: DAOPredictMarketFHE.BatchMetadataStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  setBatchSchedule: TypedContractMethod<
+    [batchId: BigNumberish, startTime: BigNumberish, endTime: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setParticipationPolicy: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      mode: BigNumberish,
+      token: AddressLike,
+      minBalance: BigNumberish,
+      allowlistRoot: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaused: TypedContractMethod<[shouldPause: boolean], [void], "nonpayable">;
+
+  submissionsInBatch: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  submitPrediction: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedPrediction: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
+
+  submitPredictionWithProof: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedPrediction: BytesLike,
+      inputProof: BytesLike,
+      allowlistProof: BytesLike[]
+    ],
+    [void],
+    "payable"
+  >;
+
+  updatePrediction: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedPrediction: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  winningOutcomes: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  winningPoolCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  winningPoolRequests: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  winningPoolRevealed: TypedContractMethod<
+    [arg0: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  winningPools: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "CREATOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "DAO_ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "DECRYPTION_TIMEOUT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_OUTCOMES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SCALAR_BUCKETS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "RESOLVER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchCreators"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "batchOutcomeCounts"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchOutcomes"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchPools"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchSchedules"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { startTime: bigint; endTime: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batchWeightings"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, bigint] & {
+        source: bigint;
+        token: string;
+        snapshot: bigint;
+        unit: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "canPredict"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, account: AddressLike, allowlistProof: BytesLike[]],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancelMarket"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claim"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "claimRequests"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, bigint] & {
+        batchId: bigint;
+        claimant: string;
+        processed: boolean;
+        expiresAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "configureWeighting"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      source: BigNumberish,
+      token: AddressLike,
+      snapshot: BigNumberish,
+      unit: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, bigint] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+        expiresAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "encryptedNoCounts"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedNoStakes"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedNoWeights"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedYesCounts"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedYesStakes"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "encryptedYesWeights"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getBatchMetadata"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [DAOPredictMarketFHE.BatchMetadataStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBatchResult"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [DAOPredictMarketFHE.BatchResultStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCurrentPrediction"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, account: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOutcomeCounts"
+  ): TypedContractMethod<[batchId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getOutcomeStakes"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, account: AddressLike],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getOutcomeWeights"
+  ): TypedContractMethod<[batchId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getScalarBucketBounds"
+  ): TypedContractMethod<[batchId: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getScalarHistogram"
+  ): TypedContractMethod<[batchId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getScalarSum"
+  ): TypedContractMethod<[batchId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasPredicted"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasReceivedPredictions"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [arg0: BytesLike, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAdmin"
+  ): TypedContractMethod<[account: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isBatchOpen"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "latestClaimRequests"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "latestDecryptionRequests"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "nextBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "openMultiOutcomeBatch"
+  ): TypedContractMethod<[outcomeCount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "openScalarBatch"
+  ): TypedContractMethod<
+    [
+      lowerBound: BigNumberish,
+      upperBound: BigNumberish,
+      bucketCount: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "participationPolicies"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, string] & {
+        mode: bigint;
+        token: string;
+        minBalance: bigint;
+        allowlistRoot: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "positions"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [string, string, bigint, boolean] & {
+        yesStake: string;
+        noStake: string;
+        deposit: bigint;
+        claimed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestBatchResultDecryption"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "resolveMarket"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, outcomeYes: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "resolveMultiOutcomeMarket"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, winningOutcome: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "resolveScalarMarket"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, value: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "resolvedValues"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "revokePrediction"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "scalarRanges"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        lowerBound: bigint;
+        upperBound: bigint;
+        bucketCount: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "setBatchMetadata"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, metadata: DAOPredictMarketFHE.BatchMetadataStruct],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setBatchSchedule"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, startTime: BigNumberish, endTime: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setParticipationPolicy"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      mode: BigNumberish,
+      token: AddressLike,
+      minBalance: BigNumberish,
+      allowlistRoot: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPaused"
+  ): TypedContractMethod<[shouldPause: boolean], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submissionsInBatch"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "submitPrediction"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedPrediction: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "submitPredictionWithProof"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedPrediction: BytesLike,
+      inputProof: BytesLike,
+      allowlistProof: BytesLike[]
+    ],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "updatePrediction"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedPrediction: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "winningOutcomes"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "winningPoolCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "winningPoolRequests"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "winningPoolRevealed"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "winningPools"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchMetadataSet"
+  ): TypedContractEvent<
+    BatchMetadataSetEvent.InputTuple,
+    BatchMetadataSetEvent.OutputTuple,
+    BatchMetadataSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchScheduled"
+  ): TypedContractEvent<
+    BatchScheduledEvent.InputTuple,
+    BatchScheduledEvent.OutputTuple,
+    BatchScheduledEvent.OutputObject
+  >;
+  getEvent(
+    key: "ClaimRequested"
+  ): TypedContractEvent<
+    ClaimRequestedEvent.InputTuple,
+    ClaimRequestedEvent.OutputTuple,
+    ClaimRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsSet"
+  ): TypedContractEvent<
+    CooldownSecondsSetEvent.InputTuple,
+    CooldownSecondsSetEvent.OutputTuple,
+    CooldownSecondsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequestExpired"
+  ): TypedContractEvent<
+    DecryptionRequestExpiredEvent.InputTuple,
+    DecryptionRequestExpiredEvent.OutputTuple,
+    DecryptionRequestExpiredEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MarketCanceled"
+  ): TypedContractEvent<
+    MarketCanceledEvent.InputTuple,
+    MarketCanceledEvent.OutputTuple,
+    MarketCanceledEvent.OutputObject
+  >;
+  getEvent(
+    key: "MarketResolved"
+  ): TypedContractEvent<
+    MarketResolvedEvent.InputTuple,
+    MarketResolvedEvent.OutputTuple,
+    MarketResolvedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MarketResolvedToOutcome"
+  ): TypedContractEvent<
+    MarketResolvedToOutcomeEvent.InputTuple,
+    MarketResolvedToOutcomeEvent.OutputTuple,
+    MarketResolvedToOutcomeEvent.OutputObject
+  >;
+  getEvent(
+    key: "MarketResolvedToValue"
+  ): TypedContractEvent<
+    MarketResolvedToValueEvent.InputTuple,
+    MarketResolvedToValueEvent.OutputTuple,
+    MarketResolvedToValueEvent.OutputObject
+  >;
+  getEvent(
+    key: "OutcomeTalliesDecrypted"
+  ): TypedContractEvent<
+    OutcomeTalliesDecryptedEvent.InputTuple,
+    OutcomeTalliesDecryptedEvent.OutputTuple,
+    OutcomeTalliesDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OutcomesDeclared"
+  ): TypedContractEvent<
+    OutcomesDeclaredEvent.InputTuple,
+    OutcomesDeclaredEvent.OutputTuple,
+    OutcomesDeclaredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ParticipationPolicySet"
+  ): TypedContractEvent<
+    ParticipationPolicySetEvent.InputTuple,
+    ParticipationPolicySetEvent.OutputTuple,
+    ParticipationPolicySetEvent.OutputObject
+  >;
+  getEvent(
+    key: "PausedSet"
+  ): TypedContractEvent<
+    PausedSetEvent.InputTuple,
+    PausedSetEvent.OutputTuple,
+    PausedSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "PayoutClaimed"
+  ): TypedContractEvent<
+    PayoutClaimedEvent.InputTuple,
+    PayoutClaimedEvent.OutputTuple,
+    PayoutClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PredictionRevoked"
+  ): TypedContractEvent<
+    PredictionRevokedEvent.InputTuple,
+    PredictionRevokedEvent.OutputTuple,
+    PredictionRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PredictionSubmitted"
+  ): TypedContractEvent<
+    PredictionSubmittedEvent.InputTuple,
+    PredictionSubmittedEvent.OutputTuple,
+    PredictionSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PredictionUpdated"
+  ): TypedContractEvent<
+    PredictionUpdatedEvent.InputTuple,
+    PredictionUpdatedEvent.OutputTuple,
+    PredictionUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScalarRangeDeclared"
+  ): TypedContractEvent<
+    ScalarRangeDeclaredEvent.InputTuple,
+    ScalarRangeDeclaredEvent.OutputTuple,
+    ScalarRangeDeclaredEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScalarResultsDecrypted"
+  ): TypedContractEvent<
+    ScalarResultsDecryptedEvent.InputTuple,
+    ScalarResultsDecryptedEvent.OutputTuple,
+    ScalarResultsDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakePlaced"
+  ): TypedContractEvent<
+    StakePlacedEvent.InputTuple,
+    StakePlacedEvent.OutputTuple,
+    StakePlacedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WeightedTalliesDecrypted"
+  ): TypedContractEvent<
+    WeightedTalliesDecryptedEvent.InputTuple,
+    WeightedTalliesDecryptedEvent.OutputTuple,
+    WeightedTalliesDecryptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WeightingConfigured"
+  ): TypedContractEvent<
+    WeightingConfiguredEvent.InputTuple,
+    WeightingConfiguredEvent.OutputTuple,
+    WeightingConfiguredEvent.OutputObject
+  >;
+  getEvent(
+    key: "WinningPoolRequested"
+  ): TypedContractEvent<
+    WinningPoolRequestedEvent.InputTuple,
+    WinningPoolRequestedEvent.OutputTuple,
+    WinningPoolRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WinningPoolRevealed"
+  ): TypedContractEvent<
+    WinningPoolRevealedEvent.InputTuple,
+    WinningPoolRevealedEvent.OutputTuple,
+    WinningPoolRevealedEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchClosed(uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchMetadataSet(uint256,bytes32,uint256,address,uint256,bytes32,bytes32,string)": TypedContractEvent<
+      BatchMetadataSetEvent.InputTuple,
+      BatchMetadataSetEvent.OutputTuple,
+      BatchMetadataSetEvent.OutputObject
+    >;
+    BatchMetadataSet: TypedContractEvent<
+      BatchMetadataSetEvent.InputTuple,
+      BatchMetadataSetEvent.OutputTuple,
+      BatchMetadataSetEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "BatchScheduled(uint256,uint64,uint64)": TypedContractEvent<
+      BatchScheduledEvent.InputTuple,
+      BatchScheduledEvent.OutputTuple,
+      BatchScheduledEvent.OutputObject
+    >;
+    BatchScheduled: TypedContractEvent<
+      BatchScheduledEvent.InputTuple,
+      BatchScheduledEvent.OutputTuple,
+      BatchScheduledEvent.OutputObject
+    >;
+
+    "ClaimRequested(uint256,uint256,address)": TypedContractEvent<
+      ClaimRequestedEvent.InputTuple,
+      ClaimRequestedEvent.OutputTuple,
+      ClaimRequestedEvent.OutputObject
+    >;
+    ClaimRequested: TypedContractEvent<
+      ClaimRequestedEvent.InputTuple,
+      ClaimRequestedEvent.OutputTuple,
+      ClaimRequestedEvent.OutputObject
+    >;
+
+    "CooldownSecondsSet(uint256,uint256)": TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+    CooldownSecondsSet: TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequestExpired(uint256,uint256)": TypedContractEvent<
+      DecryptionRequestExpiredEvent.InputTuple,
+      DecryptionRequestExpiredEvent.OutputTuple,
+      DecryptionRequestExpiredEvent.OutputObject
+    >;
+    DecryptionRequestExpired: TypedContractEvent<
+      DecryptionRequestExpiredEvent.InputTuple,
+      DecryptionRequestExpiredEvent.OutputTuple,
+      DecryptionRequestExpiredEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "MarketCanceled(uint256,address)": TypedContractEvent<
+      MarketCanceledEvent.InputTuple,
+      MarketCanceledEvent.OutputTuple,
+      MarketCanceledEvent.OutputObject
+    >;
+    MarketCanceled: TypedContractEvent<
+      MarketCanceledEvent.InputTuple,
+      MarketCanceledEvent.OutputTuple,
+      MarketCanceledEvent.OutputObject
+    >;
+
+    "MarketResolved(uint256,bool)": TypedContractEvent<
+      MarketResolvedEvent.InputTuple,
+      MarketResolvedEvent.OutputTuple,
+      MarketResolvedEvent.OutputObject
+    >;
+    MarketResolved: TypedContractEvent<
+      MarketResolvedEvent.InputTuple,
+      MarketResolvedEvent.OutputTuple,
+      MarketResolvedEvent.OutputObject
+    >;
+
+    "MarketResolvedToOutcome(uint256,uint8)": TypedContractEvent<
+      MarketResolvedToOutcomeEvent.InputTuple,
+      MarketResolvedToOutcomeEvent.OutputTuple,
+      MarketResolvedToOutcomeEvent.OutputObject
+    >;
+    MarketResolvedToOutcome: TypedContractEvent<
+      MarketResolvedToOutcomeEvent.InputTuple,
+      MarketResolvedToOutcomeEvent.OutputTuple,
+      MarketResolvedToOutcomeEvent.OutputObject
+    >;
+
+    "MarketResolvedToValue(uint256,uint32)": TypedContractEvent<
+      MarketResolvedToValueEvent.InputTuple,
+      MarketResolvedToValueEvent.OutputTuple,
+      MarketResolvedToValueEvent.OutputObject
+    >;
+    MarketResolvedToValue: TypedContractEvent<
+      MarketResolvedToValueEvent.InputTuple,
+      MarketResolvedToValueEvent.OutputTuple,
+      MarketResolvedToValueEvent.OutputObject
+    >;
+
+    "OutcomeTalliesDecrypted(uint256,uint256,uint256[])": TypedContractEvent<
+      OutcomeTalliesDecryptedEvent.InputTuple,
+      OutcomeTalliesDecryptedEvent.OutputTuple,
+      OutcomeTalliesDecryptedEvent.OutputObject
+    >;
+    OutcomeTalliesDecrypted: TypedContractEvent<
+      OutcomeTalliesDecryptedEvent.InputTuple,
+      OutcomeTalliesDecryptedEvent.OutputTuple,
+      OutcomeTalliesDecryptedEvent.OutputObject
+    >;
+
+    "OutcomesDeclared(uint256,uint8)": TypedContractEvent<
+      OutcomesDeclaredEvent.InputTuple,
+      OutcomesDeclaredEvent.OutputTuple,
+      OutcomesDeclaredEvent.OutputObject
+    >;
+    OutcomesDeclared: TypedContractEvent<
+      OutcomesDeclaredEvent.InputTuple,
+      OutcomesDeclaredEvent.OutputTuple,
+      OutcomesDeclaredEvent.OutputObject
+    >;
+
+    "ParticipationPolicySet(uint256,uint8,address,uint256,bytes32)": TypedContractEvent<
+      ParticipationPolicySetEvent.InputTuple,
+      ParticipationPolicySetEvent.OutputTuple,
+      ParticipationPolicySetEvent.OutputObject
+    >;
+    ParticipationPolicySet: TypedContractEvent<
+      ParticipationPolicySetEvent.InputTuple,
+      ParticipationPolicySetEvent.OutputTuple,
+      ParticipationPolicySetEvent.OutputObject
+    >;
+
+    "PausedSet(bool)": TypedContractEvent<
+      PausedSetEvent.InputTuple,
+      PausedSetEvent.OutputTuple,
+      PausedSetEvent.OutputObject
+    >;
+    PausedSet: TypedContractEvent<
+      PausedSetEvent.InputTuple,
+      PausedSetEvent.OutputTuple,
+      PausedSetEvent.OutputObject
+    >;
+
+    "PayoutClaimed(uint256,address,uint256)": TypedContractEvent<
+      PayoutClaimedEvent.InputTuple,
+      PayoutClaimedEvent.OutputTuple,
+      PayoutClaimedEvent.OutputObject
+    >;
+    PayoutClaimed: TypedContractEvent<
+      PayoutClaimedEvent.InputTuple,
+      PayoutClaimedEvent.OutputTuple,
+      PayoutClaimedEvent.OutputObject
+    >;
+
+    "PredictionRevoked(address,uint256,uint256)": TypedContractEvent<
+      PredictionRevokedEvent.InputTuple,
+      PredictionRevokedEvent.OutputTuple,
+      PredictionRevokedEvent.OutputObject
+    >;
+    PredictionRevoked: TypedContractEvent<
+      PredictionRevokedEvent.InputTuple,
+      PredictionRevokedEvent.OutputTuple,
+      PredictionRevokedEvent.OutputObject
+    >;
+
+    "PredictionSubmitted(address,uint256,uint256)": TypedContractEvent<
+      PredictionSubmittedEvent.InputTuple,
+      PredictionSubmittedEvent.OutputTuple,
+      PredictionSubmittedEvent.OutputObject
+    >;
+    PredictionSubmitted: TypedContractEvent<
+      PredictionSubmittedEvent.InputTuple,
+      PredictionSubmittedEvent.OutputTuple,
+      PredictionSubmittedEvent.OutputObject
+    >;
+
+    "PredictionUpdated(address,uint256,uint256)": TypedContractEvent<
+      PredictionUpdatedEvent.InputTuple,
+      PredictionUpdatedEvent.OutputTuple,
+      PredictionUpdatedEvent.OutputObject
+    >;
+    PredictionUpdated: TypedContractEvent<
+      PredictionUpdatedEvent.InputTuple,
+      PredictionUpdatedEvent.OutputTuple,
+      PredictionUpdatedEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "ScalarRangeDeclared(uint256,uint32,uint32,uint8)": TypedContractEvent<
+      ScalarRangeDeclaredEvent.InputTuple,
+      ScalarRangeDeclaredEvent.OutputTuple,
+      ScalarRangeDeclaredEvent.OutputObject
+    >;
+    ScalarRangeDeclared: TypedContractEvent<
+      ScalarRangeDeclaredEvent.InputTuple,
+      ScalarRangeDeclaredEvent.OutputTuple,
+      ScalarRangeDeclaredEvent.OutputObject
+    >;
+
+    "ScalarResultsDecrypted(uint256,uint256,uint256,uint256[])": TypedContractEvent<
+      ScalarResultsDecryptedEvent.InputTuple,
+      ScalarResultsDecryptedEvent.OutputTuple,
+      ScalarResultsDecryptedEvent.OutputObject
+    >;
+    ScalarResultsDecrypted: TypedContractEvent<
+      ScalarResultsDecryptedEvent.InputTuple,
+      ScalarResultsDecryptedEvent.OutputTuple,
+      ScalarResultsDecryptedEvent.OutputObject
+    >;
+
+    "StakePlaced(address,uint256)": TypedContractEvent<
+      StakePlacedEvent.InputTuple,
+      StakePlacedEvent.OutputTuple,
+      StakePlacedEvent.OutputObject
+    >;
+    StakePlaced: TypedContractEvent<
+      StakePlacedEvent.InputTuple,
+      StakePlacedEvent.OutputTuple,
+      StakePlacedEvent.OutputObject
+    >;
+
+    "WeightedTalliesDecrypted(uint256,uint256,uint256[])": TypedContractEvent<
+      WeightedTalliesDecryptedEvent.InputTuple,
+      WeightedTalliesDecryptedEvent.OutputTuple,
+      WeightedTalliesDecryptedEvent.OutputObject
+    >;
+    WeightedTalliesDecrypted: TypedContractEvent<
+      WeightedTalliesDecryptedEvent.InputTuple,
+      WeightedTalliesDecryptedEvent.OutputTuple,
+      WeightedTalliesDecryptedEvent.OutputObject
+    >;
+
+    "WeightingConfigured(uint256,uint8,address,uint256,uint256)": TypedContractEvent<
+      WeightingConfiguredEvent.InputTuple,
+      WeightingConfiguredEvent.OutputTuple,
+      WeightingConfiguredEvent.OutputObject
+    >;
+    WeightingConfigured: TypedContractEvent<
+      WeightingConfiguredEvent.InputTuple,
+      WeightingConfiguredEvent.OutputTuple,
+      WeightingConfiguredEvent.OutputObject
+    >;
+
+    "WinningPoolRequested(uint256,uint256)": TypedContractEvent<
+      WinningPoolRequestedEvent.InputTuple,
+      WinningPoolRequestedEvent.OutputTuple,
+      WinningPoolRequestedEvent.OutputObject
+    >;
+    WinningPoolRequested: TypedContractEvent<
+      WinningPoolRequestedEvent.InputTuple,
+      WinningPoolRequestedEvent.OutputTuple,
+      WinningPoolRequestedEvent.OutputObject
+    >;
+
+    "WinningPoolRevealed(uint256,uint256)": TypedContractEvent<
+      WinningPoolRevealedEvent.InputTuple,
+      WinningPoolRevealedEvent.OutputTuple,
+      WinningPoolRevealedEvent.OutputObject
+    >;
+    WinningPoolRevealed: TypedContractEvent<
+      WinningPoolRevealedEvent.InputTuple,
+      WinningPoolRevealedEvent.OutputTuple,
+      WinningPoolRevealedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { DAOPredictMarketFHE } from "./DAOPredictMarketFHE";
+export type { IWeightToken } from "./IWeightToken";
@@ -0,0 +1,436 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace MarketRegistry {
+  export type MarketStruct = {
+    marketId: BigNumberish;
+    key: string;
+    creator: AddressLike;
+    batchId: BigNumberish;
+    createdAt: BigNumberish;
+    data: BytesLike;
+  };
+
+  export type MarketStructOutput = [
+    marketId: bigint,
+    key: string,
+    creator: string,
+    batchId: bigint,
+    createdAt: bigint,
+    data: string
+  ] & {
+    marketId: bigint;
+    key: string;
+    creator: string;
+    batchId: bigint;
+    createdAt: bigint;
+    data: string;
+  };
+}
+
+export interface MarketRegistryInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "finishMigration"
+      | "getMarket"
+      | "getMarkets"
+      | "importMarket"
+      | "isKeyRegistered"
+      | "marketCount"
+      | "marketIdByBatch"
+      | "marketIdByKey"
+      | "migrationOpen"
+      | "owner"
+      | "predictMarket"
+      | "registerMarket"
+      | "updateMarketData"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "MarketDataUpdated"
+      | "MarketRegistered"
+      | "MigrationFinished"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "finishMigration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMarket",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMarkets",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "importMarket",
+    values: [string, AddressLike, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isKeyRegistered",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "marketCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "marketIdByBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "marketIdByKey",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "migrationOpen",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "predictMarket",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerMarket",
+    values: [string, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateMarketData",
+    values: [BigNumberish, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "finishMigration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getMarket", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getMarkets", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "importMarket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isKeyRegistered",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "marketCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "marketIdByBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "marketIdByKey",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "migrationOpen",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "predictMarket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerMarket",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateMarketData",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace MarketDataUpdatedEvent {
+  export type InputTuple = [marketId: BigNumberish, updater: AddressLike];
+  export type OutputTuple = [marketId: bigint, updater: string];
+  export interface OutputObject {
+    marketId: bigint;
+    updater: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MarketRegisteredEvent {
+  export type InputTuple = [
+    marketId: BigNumberish,
+    batchId: BigNumberish,
+    creator: AddressLike,
+    key: string
+  ];
+  export type OutputTuple = [
+    marketId: bigint,
+    batchId: bigint,
+    creator: string,
+    key: string
+  ];
+  export interface OutputObject {
+    marketId: bigint;
+    batchId: bigint;
+    creator: string;
+    key: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MigrationFinishedEvent {
+  export type InputTuple = [marketCount: BigNumberish];
+  export type OutputTuple = [marketCount: bigint];
+  export interface OutputObject {
+    marketCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface MarketRegistry extends BaseContract {
+  connect(runner?: ContractRunner | null): MarketRegistry;
+  waitForDeployment(): Promise<this>;
+
+  interface: MarketRegistryInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  finishMigration: TypedContractMethod<[], [void], "nonpayable">;
+
+  getMarket: TypedContractMethod<
+    [marketId: BigNumberish],
+    [MarketRegistry.MarketStructOutput],
+    "view"
+  >;
+
+  getMarkets: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [MarketRegistry.MarketStructOutput[]],
+    "view"
+  >;
+
+  importMarket: TypedContractMethod<
+    [key: string, creator: AddressLike, batchId: BigNumberish, data: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  isKeyRegistered: TypedContractMethod<[key: string], [boolean], "view">;
+
+  marketCount: TypedContractMethod<[], [bigint], "view">;
+
+  marketIdByBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  marketIdByKey: TypedContractMethod<[key: string], [bigint], "view">;
+
+  migrationOpen: TypedContractMethod<[], [boolean], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  predictMarket: TypedContractMethod<[], [string], "view">;
+
+  registerMarket: TypedContractMethod<
+    [key: string, batchId: BigNumberish, data: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  updateMarketData: TypedContractMethod<
+    [marketId: BigNumberish, data: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "finishMigration"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getMarket"
+  ): TypedContractMethod<
+    [marketId: BigNumberish],
+    [MarketRegistry.MarketStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getMarkets"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [MarketRegistry.MarketStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "importMarket"
+  ): TypedContractMethod<
+    [key: string, creator: AddressLike, batchId: BigNumberish, data: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "isKeyRegistered"
+  ): TypedContractMethod<[key: string], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "marketCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "marketIdByBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "marketIdByKey"
+  ): TypedContractMethod<[key: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "migrationOpen"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "predictMarket"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "registerMarket"
+  ): TypedContractMethod<
+    [key: string, batchId: BigNumberish, data: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateMarketData"
+  ): TypedContractMethod<
+    [marketId: BigNumberish, data: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "MarketDataUpdated"
+  ): TypedContractEvent<
+    MarketDataUpdatedEvent.InputTuple,
+    MarketDataUpdatedEvent.OutputTuple,
+    MarketDataUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MarketRegistered"
+  ): TypedContractEvent<
+    MarketRegisteredEvent.InputTuple,
+    MarketRegisteredEvent.OutputTuple,
+    MarketRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "MigrationFinished"
+  ): TypedContractEvent<
+    MigrationFinishedEvent.InputTuple,
+    MigrationFinishedEvent.OutputTuple,
+    MigrationFinishedEvent.OutputObject
+  >;
+
+  filters: {
+    "MarketDataUpdated(uint256,address)": TypedContractEvent<
+      MarketDataUpdatedEvent.InputTuple,
+      MarketDataUpdatedEvent.OutputTuple,
+      MarketDataUpdatedEvent.OutputObject
+    >;
+    MarketDataUpdated: TypedContractEvent<
+      MarketDataUpdatedEvent.InputTuple,
+      MarketDataUpdatedEvent.OutputTuple,
+      MarketDataUpdatedEvent.OutputObject
+    >;
+
+    "MarketRegistered(uint256,uint256,address,string)": TypedContractEvent<
+      MarketRegisteredEvent.InputTuple,
+      MarketRegisteredEvent.OutputTuple,
+      MarketRegisteredEvent.OutputObject
+    >;
+    MarketRegistered: TypedContractEvent<
+      MarketRegisteredEvent.InputTuple,
+      MarketRegisteredEvent.OutputTuple,
+      MarketRegisteredEvent.OutputObject
+    >;
+
+    "MigrationFinished(uint256)": TypedContractEvent<
+      MigrationFinishedEvent.InputTuple,
+      MigrationFinishedEvent.OutputTuple,
+      MigrationFinishedEvent.OutputObject
+    >;
+    MigrationFinished: TypedContractEvent<
+      MigrationFinishedEvent.InputTuple,
+      MigrationFinishedEvent.OutputTuple,
+      MigrationFinishedEvent.OutputObject
+    >;
+  };
+}
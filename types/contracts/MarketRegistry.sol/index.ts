@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { IPredictMarketBatches } from "./IPredictMarketBatches";
+export type { MarketRegistry } from "./MarketRegistry";
@@ -1,4 +1,10 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as daoPredictMarketSol from "./DAO_Predict_Market.sol";
+export type { daoPredictMarketSol };
+import type * as marketRegistrySol from "./MarketRegistry.sol";
+export type { marketRegistrySol };
+import type * as mocks from "./mocks";
+export type { mocks };
+export type { PredictionTally } from "./PredictionTally";
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { MockGovernor } from "./MockGovernor";
+export type { MockUniversalAdapter } from "./MockUniversalAdapter";
+export type { MockVotesToken } from "./MockVotesToken";
@@ -0,0 +1,2761 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  DAOPredictMarketFHE,
+  DAOPredictMarketFHEInterface,
+} from "../../../contracts/DAO_Predict_Market.sol/DAOPredictMarketFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyClaimed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "AlreadyPredicted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyResolved",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchClosedOrDoesNotExist",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchExpired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotOpen",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchNotStarted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidArgument",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "MissingRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "NoPrediction",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "NotBatchCreator",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "NotEligible",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotResolved",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NothingToClaim",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Paused",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "dao",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "proposalChainId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "governor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "snapshotId",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "questionHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "metadataURI",
+        type: "string",
+      },
+    ],
+    name: "BatchMetadataSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "startTime",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "endTime",
+        type: "uint64",
+      },
+    ],
+    name: "BatchScheduled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "claimant",
+        type: "address",
+      },
+    ],
+    name: "ClaimRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalYes",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalNo",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequestExpired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "canceledBy",
+        type: "address",
+      },
+    ],
+    name: "MarketCanceled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "outcomeYes",
+        type: "bool",
+      },
+    ],
+    name: "MarketResolved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "winningOutcome",
+        type: "uint8",
+      },
+    ],
+    name: "MarketResolvedToOutcome",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "value",
+        type: "uint32",
+      },
+    ],
+    name: "MarketResolvedToValue",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "tallies",
+        type: "uint256[]",
+      },
+    ],
+    name: "OutcomeTalliesDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "outcomeCount",
+        type: "uint8",
+      },
+    ],
+    name: "OutcomesDeclared",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum DAOPredictMarketFHE.Participation",
+        name: "mode",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "minBalance",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "allowlistRoot",
+        type: "bytes32",
+      },
+    ],
+    name: "ParticipationPolicySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "paused",
+        type: "bool",
+      },
+    ],
+    name: "PausedSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "claimant",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PayoutClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "refund",
+        type: "uint256",
+      },
+    ],
+    name: "PredictionRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "encryptedPrediction",
+        type: "uint256",
+      },
+    ],
+    name: "PredictionSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "encryptedPrediction",
+        type: "uint256",
+      },
+    ],
+    name: "PredictionUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "lowerBound",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "upperBound",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "bucketCount",
+        type: "uint8",
+      },
+    ],
+    name: "ScalarRangeDeclared",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "sum",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "histogram",
+        type: "uint256[]",
+      },
+    ],
+    name: "ScalarResultsDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "StakePlaced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "weights",
+        type: "uint256[]",
+      },
+    ],
+    name: "WeightedTalliesDecrypted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum DAOPredictMarketFHE.WeightSource",
+        name: "source",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "snapshot",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "unit",
+        type: "uint256",
+      },
+    ],
+    name: "WeightingConfigured",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "WinningPoolRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "winningPool",
+        type: "uint256",
+      },
+    ],
+    name: "WinningPoolRevealed",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "CREATOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DAO_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "DECRYPTION_TIMEOUT",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_OUTCOMES",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_SCALAR_BUCKETS",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "RESOLVER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchCreators",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchOutcomeCounts",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchOutcomes",
+    outputs: [
+      {
+        internalType: "enum DAOPredictMarketFHE.Outcome",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchPools",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchSchedules",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "startTime",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "endTime",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchWeightings",
+    outputs: [
+      {
+        internalType: "enum DAOPredictMarketFHE.WeightSource",
+        name: "source",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "snapshot",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "unit",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "allowlistProof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "canPredict",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelMarket",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "claim",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "claimCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "claimRequests",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "claimant",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "expiresAt",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum DAOPredictMarketFHE.WeightSource",
+        name: "source",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "snapshot",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "unit",
+        type: "uint256",
+      },
+    ],
+    name: "configureWeighting",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "expiresAt",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedNoCounts",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedNoStakes",
+    outputs: [
+      {
+        internalType: "euint128",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedNoWeights",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedYesCounts",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedYesStakes",
+    outputs: [
+      {
+        internalType: "euint128",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedYesWeights",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchMetadata",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "dao",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "proposalChainId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "governor",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "proposalId",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes32",
+            name: "snapshotId",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32",
+            name: "questionHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "metadataURI",
+            type: "string",
+          },
+        ],
+        internalType: "struct DAOPredictMarketFHE.BatchMetadata",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchResult",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "revealed",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "requestId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256[]",
+            name: "tallies",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256[]",
+            name: "weights",
+            type: "uint256[]",
+          },
+          {
+            internalType: "uint256",
+            name: "scalarSum",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct DAOPredictMarketFHE.BatchResult",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "getCurrentPrediction",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getOutcomeCounts",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "getOutcomeStakes",
+    outputs: [
+      {
+        internalType: "euint128[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getOutcomeWeights",
+    outputs: [
+      {
+        internalType: "euint64[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getScalarBucketBounds",
+    outputs: [
+      {
+        internalType: "uint32[]",
+        name: "bounds",
+        type: "uint32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getScalarHistogram",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getScalarSum",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasPredicted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "hasReceivedPredictions",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isAdmin",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "isBatchOpen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "latestClaimRequests",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "latestDecryptionRequests",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "nextBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "outcomeCount",
+        type: "uint8",
+      },
+    ],
+    name: "openMultiOutcomeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "lowerBound",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "upperBound",
+        type: "uint32",
+      },
+      {
+        internalType: "uint8",
+        name: "bucketCount",
+        type: "uint8",
+      },
+    ],
+    name: "openScalarBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "participationPolicies",
+    outputs: [
+      {
+        internalType: "enum DAOPredictMarketFHE.Participation",
+        name: "mode",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "minBalance",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "allowlistRoot",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "positions",
+    outputs: [
+      {
+        internalType: "euint128",
+        name: "yesStake",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint128",
+        name: "noStake",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "deposit",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "claimed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchResultDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "outcomeYes",
+        type: "bool",
+      },
+    ],
+    name: "resolveMarket",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "winningOutcome",
+        type: "uint8",
+      },
+    ],
+    name: "resolveMultiOutcomeMarket",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "value",
+        type: "uint32",
+      },
+    ],
+    name: "resolveScalarMarket",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "resolvedValues",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "revokePrediction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "scalarRanges",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "lowerBound",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "upperBound",
+        type: "uint32",
+      },
+      {
+        internalType: "uint8",
+        name: "bucketCount",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "dao",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "proposalChainId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "governor",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "proposalId",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes32",
+            name: "snapshotId",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32",
+            name: "questionHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "metadataURI",
+            type: "string",
+          },
+        ],
+        internalType: "struct DAOPredictMarketFHE.BatchMetadata",
+        name: "metadata",
+        type: "tuple",
+      },
+    ],
+    name: "setBatchMetadata",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "startTime",
+        type: "uint64",
+      },
+      {
+        internalType: "uint64",
+        name: "endTime",
+        type: "uint64",
+      },
+    ],
+    name: "setBatchSchedule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum DAOPredictMarketFHE.Participation",
+        name: "mode",
+        type: "uint8",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "minBalance",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "allowlistRoot",
+        type: "bytes32",
+      },
+    ],
+    name: "setParticipationPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "shouldPause",
+        type: "bool",
+      },
+    ],
+    name: "setPaused",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "submissionsInBatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedPrediction",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitPrediction",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedPrediction",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "allowlistProof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "submitPredictionWithProof",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedPrediction",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updatePrediction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "winningOutcomes",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "winningPoolCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "winningPoolRequests",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "winningPoolRevealed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "winningPools",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346200016f575f60606200001762000173565b82815282602082015282604082015201526200003262000173565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970390828254161790556001602b5533906029541617602955603c602a55604051615dfb9081620001a88239f35b5f80fd5b60405190608082016001600160401b038111838210176200019357604052565b634e487b7160e01b5f52604160045260245ffdfe6080604052600480361015610012575f80fd5b5f3560e01c80627112c814612efa57806304c7a7cd14612e9b578063088dbf4c14612dfb5780630aac87e714612cca5780630eb3b41414612ca15780630ed1503414612afa578063124bd04b14612ae3578063136040eb14612a2657806315fc9eaf14612a0f57806316c38b3c146129795780631fc42c90146129505780632015ac0a1461283157806324d7806c1461280e5780632c8022e1146127275780632f2ff15d1461268057806334ef2c8214612617578063379607f5146125ee5780633dec457b146125c557806340ed32cd1461257c578063436e86cd14612550578063452e8baf1461252757806346a12319146124ff57806346e2577a1461248b5780634ee88cda1461246257806352d87b35146122ed57806357bde446146121c45780635a94a0791461218c5780635c975abb146121675780635d8b2ca2146121385780635ee0d3471461210a5780636774621114611f7e5780636b074a0714611f425780636cd0dfa414611b3e5780636e30bc9e14611b225780636fd24f2114611abc578063719ecd2f146118f457806375afa7b7146118cc57806376365025146118a357806376656f181461185f57806378fab260146118385780637b5b1157146117c05780637c16cd9e146116c35780637fa74014146115ca57806382726bec1461157f5780638462a7f81461156257806385d6b426146115195780638a355a57146114895780638aeda25a146114625780638da5cb5b1461143a57806391d14854146113f15780639573bd38146113ad5780639797210d146112f25780639912627f1461115b5780639ca3abcf14611132578063a15137c514611101578063a4365476146110c9578063a7604d6614611085578063a769962d14610575578063ab2d350c14611029578063adfe309e14610d3f578063b1734f8514610cca578063b25aa5f314610c78578063b27ad2dc146109a2578063b65e89411461094b578063b66d36db14610922578063b8221bc414610905578063c0ef2950146108dc578063c3322985146108ae578063c900c47e14610880578063c9f5d29614610857578063cc90171714610754578063d14dd2f21461071a578063d2c411d314610689578063d385014d1461062d578063d547741f14610596578063da1f12ab1461057a578063dc73d16414610575578063e10c655c1461051e578063e31e0ee5146104f2578063e3a97fad146104025763e684d71814610394575f80fd5b346103fe5760403660031901126103fe576103ad6130ec565b90355f52600c60205260405f209060018060a01b03165f52602052608060405f2080549060018101549060ff6003600283015492015416916040519384526020840152604083015215156060820152f35b5f80fd5b50346103fe5761041136613376565b919060ff60299594955460a01c166104e157335f52600160205261043c60405f2054602a549061350e565b42106104d0579061045c610462926104543388614e5a565b9436916131ff565b906153db565b9182156104c15750600101546104859060401c6001600160801b03168284615060565b335f5260016020524260405f20556040519081527f3b025111cedb03fa78f23e75e7b721b54d9cca0008215d00d6ddc25c4ef3d4e560203392a3005b60405163a9cb9e0d60e01b8152fd5b60405163aa9a98df60e01b81528490fd5b6040516313d0ff5960e31b81528490fd5b50346103fe5760203660031901126103fe57355f526016602052602060ff60405f205416604051908152f35b50346103fe5760203660031901126103fe57355f52602560205260405f20546001600160401b03610571604051928284938260401c169116836001600160401b0391821681529116602082015260400190565b0390f35b613413565b346103fe575f3660031901126103fe5760206040516127118152f35b50346103fe5760403660031901126103fe578035906105b36130ec565b906105bd83614d11565b825f52601360205260405f209160018060a01b031691825f5260205260ff60405f205416156104c15750815f52601360205260405f20815f5260205260405f2060ff19815416905533917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a4005b50346103fe5760203660031901126103fe57355f526011602052608060405f206001600160401b036001825492015460405192835260018060a01b038116602084015260ff8160a01c161515604084015260a81c166060820152f35b50346103fe5760203660031901126103fe578035906106a782615221565b1561070c575b815f52600360205260ff60405f205416156106fd5750805f52600360205260405f2060ff1981541690557f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d35085875f80a2005b60405163f84b8daf60e01b8152fd5b6107158261451f565b6106ad565b346103fe575f3660031901126103fe5760206040517f9729b62c1a280a968a683045fd5bbd60b97be4a6b7b0a5b624c9bbc54d6f3b598152f35b50346103fe5760203660031901126103fe5780359060ff82168092036103fe5761077d33613d48565b1580610832575b6108085760ff60295460a01c166107f9576002821080156107ef575b6104c157507f7373b40dd0fc6639009c7c16fb44a2bc7c591c4e1fd6759ccc6af5b0d480572860206107d061460e565b92835f526015825260405f208160ff19825416179055604051908152a2005b50600882116107a0565b6040516313d0ff5960e31b8152fd5b6044905f80516020615d0f833981519152604051916301d4003760e61b8352820152336024820152fd5b50335f9081525f80516020615d6f833981519152602052604090205460ff1615610784565b50346103fe5760203660031901126103fe57355f526006602052602060405f2054604051908152f35b50346103fe5760203660031901126103fe57355f526007602052602060ff60405f2054166040519015158152f35b50346103fe5760203660031901126103fe57355f526003602052602060ff60405f2054166040519015158152f35b50346103fe5760203660031901126103fe57355f526009602052602060405f2054604051908152f35b346103fe575f3660031901126103fe576020602a54604051908152f35b50346103fe5760203660031901126103fe57355f526010602052602060405f2054604051908152f35b50346103fe5760203660031901126103fe57355f526008602052608060405f206001600160401b038154916002600182015491015490604051938452602084015260ff81161515604084015260081c166060820152f35b5060803660031901126103fe5780356001600160401b036044358181116103fe576109d09036908501613349565b916064359081116103fe576109eb6109f2913690870161343b565b36916143ab565b9060ff60295460a01c16610c6757335f5260209160018352610a1b60405f2054602a549061350e565b4210610c5657610a2a856154cc565b845f526022835260405f209060ff82541687811015610c4357610bcc575050335f525f825260ff60405f20541615610bbb57610a8d610a95915b855f526023845260405f20335f52845260405f209460ff199560018782541617905536916131ff565b6024356153db565b918215610baa576001600160801b03943486106104c157341515908180610b9b575b6104c15750610aec7f1adf2f5dd35a2da881dc68ca4d293ab5f8c12b143741836d06e273a5dbf58c5394959634168688614eb4565b610b34575b845f526006825260405f20610b068154614600565b9055845f5260078252600160405f2091825416179055335f52600181524260405f20556040519283523392a3005b845f52600c825260405f20335f528252600260405f2001610b5634825461350e565b9055845f52600b825260405f20610b6e34825461350e565b905584337f42e75ba273da6a39a9ad913a85a7b0ee22f00522cf3470037869802d096c65155f80a3610af1565b50610ba5866145e9565b610ab7565b60405163a9cb9e0d60e01b81528590fd5b604051631a40715960e11b81528590fd5b855f526023845260405f20335f52845260ff60405f205416610c2857610bf391339061524e565b15610c0457610a8d610a9591610a64565b5050604051636fc842cf60e01b8152928392610c249250339184016134ab565b0390fd5b604051631ff01bd360e21b815280610c243389838c016134ab565b602188634e487b7160e01b5f525260245ffd5b60405163aa9a98df60e01b81528690fd5b6040516313d0ff5960e31b81528590fd5b50346103fe5760603660031901126103fe57610c926130ec565b604435906001600160401b0382116103fe57602092610cb7610cc0933690830161343b565b929091356143f9565b6040519015158152f35b50346103fe5760209060206003193601126103fe57355f52601d60205260405f20906040519081602084549182815201935f5260205f20915f905b828210610d285761057185610d1c818903826131c3565b604051918291826132cc565b835486529485019460019384019390910190610d05565b50346103fe576003196040368201126103fe57813590602435926001600160401b03918285116103fe5760e09085360301126103fe57610d7e836144bd565b610d878361457e565b83810135938415801561101d575b61100d576001600160a01b03610dad60448301614365565b16156084820135151461100d57835f526020926027845260405f20908682556001602484013560018401556002830160018060a01b03610def60448701614365565b82546001600160a01b03191691161790556064840135600384015560848401358584015560a48401356005840155610e2c60c48501868601614379565b928311610ffa57610e40600685015461432d565b601f8111610fbe575b505f91601f8411600114610f2857509260068360a49460e097947f8924883a12b17357b86ccee4187cea056e98e27dff494067cb007fe48ca2d93a9a99975f92610f1d575b50508160011b915f199060031b1c1916179101555b610ebf610eb260448301614365565b938260c481019101614379565b9283926040519788966024830135885260018060a01b03169087015260648101356040870152608481013560608701520135608085015260c060a08501528160c0850152848401375f828201840152601f01601f19168101030190a3005b013590505f80610e8e565b91600685015f52875f20925f905b601f1986168210610fa757505060018460e097947f8924883a12b17357b86ccee4187cea056e98e27dff494067cb007fe48ca2d93a9a99979460069460a498601f19811610610f8e575b505050811b01910155610ea3565b01355f19600384901b60f8161c191690555f8080610f80565b838301358555938401939189019190890190610f36565b610fea90600686015f52885f20601f860160051c8101918a8710610ff0575b601f0160051c01906135df565b5f610e49565b9091508190610fdd565b604186634e487b7160e01b5f525260245ffd5b5060405163a9cb9e0d60e01b8152fd5b5060a481013515610d95565b50346103fe5760203660031901126103fe57355f52601e602052608060405f208054906002600182015491015490604051926110688460ff831661342e565b60081c6001600160a01b0316602084015260408301526060820152f35b50346103fe5760403660031901126103fe5761109f6130ec565b90355f52602460205260405f209060018060a01b03165f52602052602060405f2054604051908152f35b346103fe5760203660031901126103fe576001600160a01b036110ea6130d6565b165f526001602052602060405f2054604051908152f35b50346103fe5760203660031901126103fe57355f526014602052602060018060a01b0360405f205416604051908152f35b50346103fe5760203660031901126103fe57355f52601f602052602060405f2054604051908152f35b50346103fe57602090816003193601126103fe57606060c060405161117f8161317a565b5f81525f858201525f60408201525f838201525f60808201525f60a0820152015280355f526027825260405f2090604051906111ba8261317a565b8254825260019260018101549185840192835260018060a01b0390816002840154169160408601928352600384015491606087019283528401549260808701938452600660058601549560a089019687520195604051968a5f9a8254926112208461432d565b808c5293600181169081156112cf5750600114611292575b5050505061124c87610571999a03886131c3565b60c08901968752604051998a99818b5251908a0152516040890152511660608701525160808601525160a08501525160c08401525160e0808401526101008301906133ee565b5f908152828120929c5092915b8284106112bc5750505087019098019761124c8a61057189611238565b8054848c018e0152928c0192810161129f565b60ff1916848d015250505090151560051b880101985061124c8a61057189611238565b50346103fe5760403660031901126103fe5761130c6130ec565b90355f526020906019825260405f209060018060a01b03165f52815260405f20604051908183825491828152019081925f52845f20905f5b8682821061139957868661135a828803836131c3565b60405192839281840190828552518091526040840192915f5b82811061138257505050500390f35b835185528695509381019392810192600101611373565b835485529093019260019283019201611344565b50346103fe5760403660031901126103fe576113c76130ec565b90355f52601260205260405f209060018060a01b03165f52602052602060405f2054604051908152f35b50346103fe5760403660031901126103fe5761140b6130ec565b90355f52601360205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b346103fe575f3660031901126103fe576029546040516001600160a01b039091168152602090f35b346103fe575f3660031901126103fe5760206040515f80516020615d0f8339815191528152f35b50346103fe5760203660031901126103fe576114a36130d6565b6029546001600160a01b03919082163303611508571690815f525f60205260ff60405f205416156104c15750805f525f60205260405f2060ff1981541690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2005b6040516330cd747160e01b81528390fd5b50346103fe5760403660031901126103fe576115336130ec565b90355f52602360205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b346103fe575f3660031901126103fe576020602b54604051908152f35b50346103fe5760203660031901126103fe5780355f52600d60205260ff60405f2054166040519060068110156115b757602092508152f35b602183634e487b7160e01b5f525260245ffd5b50346103fe5760403660031901126103fe578035906115e7613102565b906115f133613d48565b158061169e575b6116745761160583614695565b61160e836145e9565b156104c1575060207f0e6ca62489abca121ed46eb58a0fd575ba6fe48843c06a11fdadafa481b1f02b91835f52600d825260405f20600560ff19825416179055601b825263ffffffff60405f209116908163ffffffff19825416179055604051908152a2005b6044905f80516020615cef833981519152604051916301d4003760e61b8352820152336024820152fd5b50335f9081525f80516020615d4f833981519152602052604090205460ff16156115f8565b50346103fe5760203660031901126103fe578035906116e18261451f565b811580156117b4575b6104c157815f52600d60205260ff60405f20541660068110156117a1576117925750805f52600360205260405f20805460ff8116611760575b82600d60205260405f20600360ff1982541617905533907fd5c5c8ff488568ff47b5a30839b419d9e1416740f18f53a00d7839afb5d75c165f80a3005b60ff19169055807f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d35085875f80a25f80611723565b6040516336ab81e160e11b8152fd5b602182634e487b7160e01b5f525260245ffd5b50602b548210156116ea565b50346103fe5760203660031901126103fe576029548135906001600160a01b0316330361182857602a54918282146104c1577f2631e03375b3a2b2f48c9fecd1497fcb155d672fb020c3ab415c14bbabb18a736040848480602a5582519182526020820152a1005b506040516330cd747160e01b8152fd5b346103fe575f3660031901126103fe5760206040515f80516020615cef8339815191528152f35b50346103fe5760203660031901126103fe57355f52601a60205260405f205463ffffffff90610571604051928260ff859460401c1691808260201c169116846133ac565b50346103fe5760203660031901126103fe57355f526028602052602060405f2054604051908152f35b50346103fe5760203660031901126103fe57355f5260208052602060405f2054604051908152f35b50346103fe576020806003193601126103fe5781359060ff60295460a01c16611aab57335f526001815261192f60405f2054602a549061350e565b4210611a9a576001600160801b039161198783600161194e3385614e5a565b015460401c1693825f526024845260405f20335f52845260405f206001600160401b0360018254920154928360401c169216908461554f565b805f526024825260405f20335f5282525f6001604082208281550155805f526023825260405f20335f52825260405f2060ff198154169055805f526006825260405f2080548015611a87575f19019055335f52600182524260405f20558215159182611a46575b7f01f00c6c827ebcecf9aa61160122a9c19dcd1a00e1d0155a304dab399721841b604051918583523392a3611a1f57005b5f80808093335af1611a2f6142fe565b5015611a3757005b6040516312171d8360e31b8152fd5b815f52600c815260405f20335f528152600260405f2001611a688582546134ed565b9055815f52600b815260405f20611a808582546134ed565b90556119ee565b601186634e487b7160e01b5f525260245ffd5b60405163aa9a98df60e01b81528390fd5b6040516313d0ff5960e31b81528390fd5b50346103fe57602090816003193601126103fe57611ada9035614213565b90604051918183928301818452825180915281604085019301915f5b828110611b0557505050500390f35b835163ffffffff1685528695509381019392810192600101611af6565b346103fe575f3660031901126103fe576020604051610e108152f35b50346103fe576020806003193601126103fe57813590335f525f815260ff60405f20541615611f315760ff60295460a01c16611aab57335f5260028152611b8c60405f2054602a549061350e565b4210611a9a57815f526003815260ff60405f205416611f2057815f526006815260405f205415611f0f57611bbf8261495b565b90815115611efe57825f526028815260405f2054805f526008825260405f208481541480611eef575b611e8f575b5050611bf882614a9d565b935f945f80516020615dcf83398151915280549460018060a01b03805f80516020615daf8339815191525416803b156103fe575f6040518092637d6e912360e11b82528989830152818381611c50602482018a6135f5565b03925af18015611e8457611e71575b5088905f80516020615d8f8339815191525416803b15611e6d57816040518092633263b83b60e01b82528a8983015260606024830152818381611ca5606482018a6135f5565b63124bd04b60e01b604483015203925af18015611e6257611e4a575b508690525f80516020615ccf8339815191528086526040892054611e39578689528552604088208151916001600160401b0395868411611e2657600160401b8411611e26575086908254848455808510611dfe575b5001908952858920985b828110611dec57505050600294959650611d3a8154614600565b905583611d48834216613de8565b9160405190611d5682613115565b88825285820190815260408201945f86526060830194168452875f526008865260405f209151825551600182015501915115159060ff68ffffffffffffffff008454925160081b169216906001600160481b03191617179055835f52602881528260405f2055335f52524260405f20557f81bca54e6c48c44ec959a5581796be73005cbde51156a29bae607f52e9baa16c5f80a3005b81518a82015590860190600101611d20565b838c5284838d2091820191015b818110611e185750611d16565b5f8155899350600101611e0b565b634e487b7160e01b8b526041905260248afd5b604051633f06d22b60e01b81528590fd5b611e5390613195565b611e5e57875f611cc1565b8780fd5b6040513d84823e3d90fd5b5080fd5b611e7c919950613195565b5f975f611c5f565b6040513d5f823e3d90fd5b6002015460081c6001600160401b03164210611ed25783907f38c133cdf790f1f4a3d5cd90a0297f480930f47e951abb2ae55f1a2f4936cc5e5f80a35f80611bed565b846044918560405192634fa0612360e11b84528301526024820152fd5b5060ff60028201541615611be8565b60405163a9cb9e0d60e01b81528490fd5b60405163a9cb9e0d60e01b81528390fd5b60405163f84b8daf60e01b81528390fd5b604051631a40715960e11b81528390fd5b346103fe5760203660031901126103fe576001600160a01b03611f636130d6565b165f525f602052602060ff60405f2054166040519015158152f35b50611f8836613376565b9190604051916020928381018181106001600160401b038211176120f7576040525f815260ff60295460a01c166120e657335f5260018452611fd160405f2054602a549061350e565b42106120d557611fe0866154cc565b855f526022845260405f209060ff825416888110156120c257612054575050335f525f835260ff60405f205416156120435761045c610a95925b865f526023855260405f20335f52855260405f209560ff199660018882541617905536916131ff565b604051631a40715960e11b81528690fd5b865f526023855260405f20335f52855260ff60405f2054166120a75761207b91339061524e565b1561208c5761045c610a959261201a565b604051636fc842cf60e01b815280610c243388838b016134ab565b604051631ff01bd360e21b815280610c24338a838d016134ab565b602189634e487b7160e01b5f525260245ffd5b60405163aa9a98df60e01b81528790fd5b6040516313d0ff5960e31b81528790fd5b604188634e487b7160e01b5f525260245ffd5b50346103fe5760203660031901126103fe57355f52600f602052602060ff60405f2054166040519015158152f35b50346103fe5760203660031901126103fe57355f52601b602052602063ffffffff60405f205416604051908152f35b346103fe575f3660031901126103fe57602060ff60295460a01c166040519015158152f35b346103fe5760203660031901126103fe576001600160a01b036121ad6130d6565b165f526002602052602060405f2054604051908152f35b50346103fe5760403660031901126103fe578035602435801515928382036103fe576121ef33613d48565b15806122c8575b6116745761220383614695565b825f52601560205260ff60405f2054166104c157612220836145e9565b6104c15781156122c15760015b835f52600d60205260405f209160068210156122ae575060206122999585937f4927fe38919783250023d27e65a3e56b6b5c3e49364e51674a41ef08d62460d99360ff80198354169116179055604051908152a21561229b57805f52600960205260405f2054906146f2565b005b805f52600a60205260405f2054906146f2565b602190634e487b7160e01b5f525260245ffd5b600261222d565b50335f9081525f80516020615d4f833981519152602052604090205460ff16156121f6565b50346103fe5760a03660031901126103fe57803560243591808310156103fe576123156130c0565b9260643591608435612326856144bd565b61232f8561457e565b60028314938480612449575b611f0f5760038414968780612441575b611efe57851561243957945b1561243157955b1561242957945b6040519161237283613115565b838352602083019060018060a01b0380961682526040840192835260608401978852865f52602260205260405f20935190808210156122ae5750916123ec867f641ff74dfa031c4e6ed5a4057797f82d53d972d099be9adae3a53274b01bd62498999360029560ff80198954169116178755511685613486565b51600184015551910155835f52602260205261242460405f2092835460081c1692600260018201549101549060405194859485613307565b0390a2005b505f94612365565b505f9561235e565b505f94612357565b50821561234b565b506001600160a01b038716158061233b5750801561233b565b50346103fe5760203660031901126103fe57355f52600e602052602060405f2054604051908152f35b50346103fe5760203660031901126103fe576124a56130d6565b6029546001600160a01b0391908216330361150857169081156104c15750805f525f60205260405f20600160ff198254161790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b50346103fe5760203660031901126103fe5780355f52602052602060405f2054604051908152f35b50346103fe5760203660031901126103fe57355f526005602052602060405f2054604051908152f35b50346103fe5760203660031901126103fe57355f526015602052602060ff60405f205416604051908152f35b50346103fe5760203660031901126103fe57355f52602260205260405f2080546105716002600184015493015460405193849360ff60018060a01b038260081c16911685613307565b50346103fe5760203660031901126103fe57355f52601c602052602060405f2054604051908152f35b50346103fe5760203660031901126103fe5760ff60295460a01c166107f9576122999035613e01565b50346103fe5760209060206003193601126103fe57355f52601760205260405f20906040519081602084549182815201935f5260205f20915f905b8282106126695761057185610d1c818903826131c3565b835486529485019460019384019390910190612652565b50346103fe5760403660031901126103fe5780359061269d6130ec565b6126a683614d11565b6001600160a01b03169081158015612707575b6104c15750815f52601360205260405f20815f5260205260405f20600160ff1982541617905533917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4005b50825f52601360205260405f20825f5260205260ff60405f2054166126b9565b50346103fe57602090816003193601126103fe575f608060405161274a8161315f565b828152828582015260606040820152606080820152015280355f526026825260405f20906128036040519261277e8461315f565b60ff815416151584526127f06001820154938686019485526127a260028401613d9a565b90604087019182526127b660038501613d9a565b936060880194855201549460808701958652604051978897818952511515908801525160408701525160a0606087015260c0860190613299565b9051848203601f19016080860152613299565b905160a08301520390f35b346103fe5760203660031901126103fe576020610cc061282c6130d6565b613d48565b50346103fe5760603660031901126103fe5780356001600160401b036024358181168082036103fe5760443592808416908185036103fe57612872866144bd565b61287b8661457e565b818310801590612946575b61293557604051926040840184811083821117612922577fdb294f39ccaf98d3d1c6107dd35e56da0a28671587d3382184e89a100f544120979850604052835260208301918252865f52602560205260405f209251168254916001600160401b0360401b905160401b169160018060801b03191617179055612424604051928392836001600160401b0391821681529116602082015260400190565b604189634e487b7160e01b5f525260245ffd5b60405163a9cb9e0d60e01b81528790fd5b5042821115612886565b50346103fe5760203660031901126103fe57355f52600b602052602060405f2054604051908152f35b50346103fe5760203660031901126103fe578035908115158092036103fe57602954906001600160a01b0382163303612a00578260ff8360a01c161515146104c15760ff60a01b19821660a084901b60ff60a01b16176029556040518381527f40db37ff5c0bdc2c427fbb2078c8f24afea940abac0e3c23bb4ea3bf2da2b21290602090a1005b6040516330cd747160e01b8152fd5b346103fe57612299612a2036613253565b91613c35565b50346103fe57612a3536613253565b929190815f526020916010835260405f20549384156104c157845f52600f845260ff60405f205416612ad457507f3785eca7c4ec89e29c04371043074a62fa9240e3e0f6eb9a7e4815e4db6acb35939482612a8f92614ad4565b80516001600160801b0391612aaa9181018401908401613c16565b16835f52600e82528060405f2055600f825260405f20600160ff19825416179055604051908152a2005b60405163faf8ed4f60e01b8152fd5b346103fe57612299612af436613253565b91613646565b50346103fe5760603660031901126103fe5763ffffffff8135818116908181036103fe57612b26613102565b916044359460ff86168087036103fe57612b3f33613d48565b1580612c7c575b612c525760ff60295460a01c16612c425785851691828410156104c157600282108015612c38575b6104c157612b7c84846134ed565b60018101809111612c255782116104c15750917f8090f9d6bf807247b897601a6707ffc73973ec8bb42ac4aa033a4e9844f7c43b95969161242493612bbf61460e565b9860405193612bcd85613144565b84526020840192835260408401918252895f52601a60205260405f2093511667ffffffff000000008454935160201b169160ff60401b905160401b16926001600160481b0319161717179055604051938493846133ac565b601182634e487b7160e01b5f525260245ffd5b5060088211612b6e565b506040516313d0ff5960e31b8152fd5b6040516301d4003760e61b81525f80516020615d0f83398151915281840152336024820152604490fd5b50335f9081525f80516020615d6f833981519152602052604090205460ff1615612b46565b50346103fe5760203660031901126103fe57355f52600a602052602060405f2054604051908152f35b50346103fe5760403660031901126103fe57803560243560ff81168082036103fe57612cf533613d48565b1580612dd6575b612dac57612d0983614695565b825f52601560205260ff60405f205416811015611efe577f1d09ae6b88e25e3a8d9a109782a65e4aa510d3f17922bb42783f0f0ec7e8a4586020849261229996845f52600d835260405f2060ff199182825416179055601683528160405f2091825416179055604051908152a2815f52601860205260405f2090815415155f14612da357612d96916134c4565b90549060031b1c906146f2565b50505f906146f2565b6040516301d4003760e61b81525f80516020615cef83398151915281860152336024820152604490fd5b50335f9081525f80516020615d4f833981519152602052604090205460ff1615612cfc565b50346103fe57602090816003193601126103fe57355f526021815260405f20604051908183825491828152019081925f52845f20905f5b86828210612e87578686612e48828803836131c3565b60405192839281840190828552518091526040840192915f5b828110612e7057505050500390f35b835185528695509381019392810192600101612e61565b835485529093019260019283019201612e32565b50346103fe575f3660031901126103fe57612eb533613d48565b1580612ed5575b6108085760ff60295460a01c166107f95761229961460e565b50335f9081525f80516020615d6f833981519152602052604090205460ff1615612ebc565b50346103fe5760a03660031901126103fe57602435813560038210156103fe57612f226130c0565b91608435606435612f32846144bd565b612f3b8461457e565b612f44846145cc565b80156130b1575b61308757600283148015906130a0575b8015613098575b61308757604051630748d63560e31b81526001600160a01b039586169560209182808280612f9388308f840161346b565b03818c5afa918261305e575b5050612fb65760405163a9cb9e0d60e01b81528890fd5b8760405191612fc483613115565b86835283830190898252604084019186835260608501938885528a5f52601e875260405f2095519060038210156122ae57509261303c60029360609a9896937f8d62c037adefd4ccdc8a58b640ec6b2573b79b35bea781fb7179b4dd9f88b9279c9a989660ff80198954169116178755511685613486565b51600184015551910155613053604051809561342e565b8301526040820152a3005b813d8311613080575b61307181836131c3565b810103126103fe57825f612f9f565b503d613067565b60405163a9cb9e0d60e01b81528690fd5b508115612f62565b506001600160a01b03851615612f5b565b506130bb846145e9565b612f4b565b604435906001600160a01b03821682036103fe57565b600435906001600160a01b03821682036103fe57565b602435906001600160a01b03821682036103fe57565b6024359063ffffffff821682036103fe57565b608081019081106001600160401b0382111761313057604052565b634e487b7160e01b5f52604160045260245ffd5b606081019081106001600160401b0382111761313057604052565b60a081019081106001600160401b0382111761313057604052565b60e081019081106001600160401b0382111761313057604052565b6001600160401b03811161313057604052565b604081019081106001600160401b0382111761313057604052565b90601f801991011681019081106001600160401b0382111761313057604052565b6001600160401b03811161313057601f01601f191660200190565b92919261320b826131e4565b9161321960405193846131c3565b8294818452818301116103fe578281602093845f960137010152565b9080601f830112156103fe57816020613250933591016131ff565b90565b60606003198201126103fe57600435916001600160401b036024358181116103fe578361328291600401613235565b926044359182116103fe5761325091600401613235565b9081518082526020808093019301915f5b8281106132b8575050505090565b8351855293810193928101926001016132aa565b60209060206040818301928281528551809452019301915f5b8281106132f3575050505090565b8351855293810193928101926001016132e5565b90919493926080820195600484101561333557606093835260018060a01b0316602083015260408201520152565b634e487b7160e01b5f52602160045260245ffd5b9181601f840112156103fe578235916001600160401b0383116103fe57602083818601950101116103fe57565b60606003198201126103fe576004359160243591604435906001600160401b0382116103fe576133a891600401613349565b9091565b63ffffffff91821681529116602082015260ff909116604082015260600190565b5f5b8381106133de5750505f910152565b81810151838201526020016133cf565b90602091613407815180928185528580860191016133cd565b601f01601f1916010190565b346103fe575f3660031901126103fe57602060405160088152f35b9060038210156133355752565b9181601f840112156103fe578235916001600160401b0383116103fe576020808501948460051b0101116103fe57565b6001600160a01b039091168152602081019190915260400190565b8054610100600160a81b03191660089290921b610100600160a81b0316919091179055565b9081526001600160a01b03909116602082015260400190565b80548210156134d9575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b919082039182116134fa57565b634e487b7160e01b5f52601160045260245ffd5b919082018092116134fa57565b6001600160401b0381116131305760051b60200190565b60209081818403126103fe578051906001600160401b0382116103fe57019180601f840112156103fe5782516135678161351b565b9361357560405195866131c3565b818552838086019260051b8201019283116103fe578301905b82821061359c575050505090565b8151815290830190830161358e565b8051156134d95760200190565b80518210156134d95760209160051b010190565b818102929181159184041417156134fa57565b8181106135ea575050565b5f81556001016135df565b9081518082526020808093019301915f5b828110613614575050505090565b835185529381019392810192600101613606565b8115613632570490565b634e487b7160e01b5f52601260045260245ffd5b9091815f52600860205260405f20600281019060ff825416613c045761366c815461495b565b92835115613bf25761367d84614a9d565b600183015403613bf25781545f5260286020528460405f205403613804576136a6908686614ad4565b549360ff1991600183825416179055845f526026602052600160405f209285828501558354161782556136d8856145e9565b613a09576136e5856145cc565b15613a0257825160011c925b6136fc8482516134ed565b5f604051808093633ec89bf160e11b82526080600483015261372160848301886133ee565b90846024840152604483015260206064830152038173__$0103cdff1ccd82bf41b05e7984f410b95b$__5af4908115611e84575f916139e8575b5080516001600160401b03811161313057600160401b81116131305760028501548160028701558082106139c9575b5081879160208a9401600288015f5260205f205f5b8381106139af575050505f8481526015602052604090205460ff1615905061395c576137fa7f75ce7736723f53fbc13ab05691c21c6f2b68559e4b2be7e75cc2e380069937a7916040519182916020835260208301906135f5565b0390a35b8361380c575b505050505050565b5f9161381c8561383f93516134ed565b604051633ec89bf160e11b815260806004820152958693849360848501906133ee565b916024840152604483015260406064830152038173__$0103cdff1ccd82bf41b05e7984f410b95b$__5af4918215611e84575f92613935575b506003018151906001600160401b03821161313057600160401b8211613130578054828255808310613919575b5060208301905f5260205f205f5b83811061390557505050506138f77f5b1b383408b5a4c2476b5b848c099c8c34cc6f26caf66ed1378e80558bec8ac6916040519182916020835260208301906135f5565b0390a35f8080808080613804565b6001906020845194019381840155016138b3565b61392f90825f528360205f2091820191016135df565b5f6138a5565b6003919250613955903d805f833e61394d81836131c3565b810190613532565b9190613878565b80925061396991506135ab565b51908051600110156134d9577f60a5261a8de6f00d7bf40f51cf2b023425bc668db5e9bc89db8c104706efbc3160408993818a94015182519182526020820152a36137fe565b8251828201558c96508b955060209092019160010161379f565b6139e290600287015f528260205f2091820191016135df565b5f61378a565b6139fc91503d805f833e61394d81836131c3565b5f61375b565b5f926136f1565b919073__$0103cdff1ccd82bf41b05e7984f410b95b$__9060405191633ec89bf160e11b948584526004936080858201525f8180613a4a60848201866133ee565b83602483015260016044830152604060648301520381865af48015611e8457613a7a915f91613bd8575b506135ab565b5194515f19810196908711613bc55791613aac915f9360405198899485938493845260808a85015260848401906133ee565b906001602484015260448301526020606483015203915af4938415611e84575f94613ba6575b508083836002930155018351916001600160401b038311613b9357600160401b8311613b9357508054828255808310613b77575b5060208401905f5260205f205f5b838110613b635750505050907f89cf825c395f1f0e4ec1234064af70ea176be373b6ad91bef90ee57d6541ff8f91613b5e60405192839283526040602084015260408301906135f5565b0390a3565b600190602084519401938184015501613b14565b613b8d90825f528360205f2091820191016135df565b5f613b06565b604190634e487b7160e01b5f525260245ffd5b6002919450613bbe903d805f833e61394d81836131c3565b9390613ad2565b601185634e487b7160e01b5f525260245ffd5b613bec91503d805f833e61394d81836131c3565b5f613a74565b6040516313b304fb60e21b8152600490fd5b60405163faf8ed4f60e01b8152600490fd5b908160209103126103fe57516001600160801b03811681036103fe5790565b805f5260209060118252604092835f2092600184019485549360018060a01b0394858116908115613d375760a01c60ff16613d265786545f5260128452825f20905f52835280825f205403613d1c57613d0384613c9b613d1a9a613d1197600e95614ad4565b885460ff60a01b198116600160a01b178a5588545f908152600c87528581209189168152908652849020600301805460ff1916600117905580516001600160801b0391613cee9181018701908701613c16565b16965496875f52600b8552835f2054906135cc565b92865f52525f205490613628565b92541690614cab565b565b5050505050505050565b825163faf8ed4f60e01b8152600490fd5b835163a9cb9e0d60e01b8152600490fd5b6029546001600160a01b0391821691168114908115613d65575090565b5f9081527fd3c94b2fb2b645cfffd78c79474f9f5ca92e77f919146b0c8e2c870874b8c5ec602052604090205460ff16919050565b90604051918281549182825260209260208301915f5260205f20935f905b828210613dce57505050613d1a925003836131c3565b855484526001958601958895509381019390910190613db8565b90610e106001600160401b03809316019182116134fa57565b90815f526020600d815260409260ff845f205416600681101561333557600314801580806141fe575b6141ed57825f52600c8452855f20335f528452855f20600381019182549160ff83166141dc57600201549384156141cb57906141b9575b6141a057505050805f5260128252835f20335f528252835f205493845f5260118352805f209260019560018501549460018060a01b03958533888316149283614195575b50508161417f575b506141625750815193613ebf856131a8565b6001855281850182368237613ed43386614dc6565b613edd876135ab565b525f5f80516020615dcf83398151915290815497845f80516020615daf8339815191525416803b156103fe575f88518092637d6e912360e11b8252896004830152818381613f2e60248201896135f5565b03925af1801561415857614145575b50845f80516020615d8f8339815191525416803b15614141578288518092633263b83b60e01b82528c600483015260606024830152818381613f8260648201896135f5565b6315fc9eaf60e01b604483015203925af1801561413757908391614123575b508990525f80516020615ccf833981519152808752878320546141125789835286528682209051916001600160401b03948584116140fe57600160401b84116140fe5782548484558085106140d7575b50918152868120905b8381106140c65750505050869798506140168197969754614600565b9055614023814216613de8565b84519261402f84613115565b878452600185850194338652878101945f86526060820194168452885f5260118752875f20905181550193511683549260ff60a01b9051151560a01b16916001600160401b0360a81b905160a81b169262ffffff60e81b161717179055835f5260128152815f2090335f52525f205533917f5dcb8afe8091c7151b47650185c87f87dcb34ff3b42c39c5f39b546f89f82cd85f80a4565b825182820155918701918c01613ffa565b8383528d858a852092830192015b8281106140f3575050613ff1565b5f8155018e906140e5565b634e487b7160e01b82526041600452602482fd5b8751633f06d22b60e01b8152600490fd5b61412c90613195565b611e6d57815f613fa1565b88513d85823e3d90fd5b8280fd5b614150919250613195565b5f905f613f3d565b88513d5f823e3d90fd5b83604491845191634fa0612360e11b835260048301526024820152fd5b6001600160401b03915060a81c1642105f613ead565b54149150855f613ea5565b60ff19166001179055929350613d1a9291503390614cab565b50835f52600e8552865f205415613e61565b88516312d37ee560e31b8152600490fd5b8851630c8d9eab60e31b8152600490fd5b8551639f4a648960e01b8152600490fd5b50825f52600f845260ff865f20541615613e2a565b5f52601a60205260405f20906040519161422c83613144565b549163ffffffff90818416815260ff6020820194838160201c16865260401c16604082019281845261425d8261351b565b9161426b60405193846131c3565b80835261427a601f199161351b565b01366020840137614293818397511682855116906134ed565b92600194600185018095116134fa57859460ff6142b292511690613628565b905f945b6142c257505050505050565b83518510156142f957858095846142e6818551166142e087856135cc565b9061350e565b166142f182886135b8565b5201946142b6565b613804565b3d15614328573d9061430f826131e4565b9161431d60405193846131c3565b82523d5f602084013e565b606090565b90600182811c9216801561435b575b602083101461434757565b634e487b7160e01b5f52602260045260245ffd5b91607f169161433c565b356001600160a01b03811681036103fe5790565b903590601e19813603018212156103fe57018035906001600160401b0382116103fe576020019181360383136103fe57565b92916143b68261351b565b916143c460405193846131c3565b829481845260208094019160051b81019283116103fe57905b8282106143ea5750505050565b813581529083019083016143dd565b9192825f52602260205260405f2092600360205260ff60405f2054161580156144a2575b8015614493575b61448a5760ff84541660048110156133355715159081614461575b5061445957613250936144539136916143ab565b9161524e565b505050505f90565b90505f52602360205260405f2060018060a01b0383165f5260205260ff60405f2054165f61443f565b50505050505f90565b5061449d81615221565b614424565b5060256020526001600160401b0360405f205416421061441d565b805f52601460205260018060a01b0360405f2054163314158061450f575b80614507575b6144e85750565b60405163944911f760e01b8152908190610c24903390600484016134ab565b5060016144e1565b5061451933613d48565b156144db565b805f52601460205260018060a01b0360405f2054163314158061456e575b80614549576144e85750565b50335f9081525f80516020615d4f833981519152602052604090205460ff16156144e1565b5061457833613d48565b1561453d565b805f52600360205260ff60405f205416156145ba575f52600760205260ff60405f2054166145a857565b60405163a9cb9e0d60e01b8152600490fd5b60405163f84b8daf60e01b8152600490fd5b5f52601e60205260ff60405f205416600381101561333557151590565b5f52601a60205260ff60405f205460401c16151590565b5f1981146134fa5760010190565b602b5490815f52600360205260ff60405f2054166145a857815f52600360205260405f20600160ff1982541617905560066020525f6040812055601460205260405f203360018060a01b031982541617905561466b602b54614600565b602b55817fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee25f80a2565b801580156146e6575b6145a857805f52600360205260ff60405f2054166145ba575f52600d60205260ff60405f2054166006811015613335576146d457565b6040516336ab81e160e11b8152600490fd5b50602b5481101561469e565b90801561490c5760408051614706816131a8565b600190600181526020918282019483368737614721836135ab565b525f945f80516020615dcf8339815191529283549660018060a01b03805f80516020615daf8339815191525416803b156103fe575f89518092637d6e912360e11b82528a600483015281838161477a602482018b6135f5565b03925af18015614902576148ef575b505f80516020615d8f8339815191525416803b15611e6d578188518092633263b83b60e01b82528b6004830152606060248301528183816147cd606482018a6135f5565b63136040eb60e01b604483015203925af180156148e5579082916148ce575b508890525f80516020615ccf833981519152808752878220546141125788825286528681209151926001600160401b0384116140fe57600160401b84116140fe5782548484558085106148a7575b5090899796959493928152858120905b838110614893575050505050908161486460109354614600565b9055845f52525f20557f16bc7c68da37759e841ad9fa9d162d99b5640f17e630931221f5192ef3be6cdd5f80a3565b8251818301558a985091860191840161484a565b838352858589852092830192015b8281106148c357505061483a565b5f81550186906148b5565b6148d790613195565b6148e257805f6147ec565b80fd5b88513d84823e3d90fd5b6148fa919250613195565b5f905f614789565b89513d5f823e3d90fd5b50805f52600e6020525f6040812055600f60205260405f20600160ff198254161790557f3785eca7c4ec89e29c04371043074a62fa9240e3e0f6eb9a7e4815e4db6acb3560206040515f8152a2565b614964816145e9565b90805f526020916015835260ff60405f2054161515614982836145cc565b9160405193635fee8c6960e11b855260048086015260056024860152601f604486015285606486015260176084860152602160a4860152601c60c4860152601d60e4860152610104850152151561012484015261014483015215156101648201525f816101848173__$0103cdff1ccd82bf41b05e7984f410b95b$__5af4918215611e84575f92614a1257505090565b9091503d805f843e614a2481846131c3565b82019181818403126103fe578051906001600160401b0382116103fe57019180601f840112156103fe578251614a598161351b565b93614a6760405195866131c3565b818552838086019260051b8201019283116103fe578301905b828210614a8e575050505090565b81518152908301908301614a80565b604051614ace81614aba60208201946040865260608301906135f5565b30604083015203601f1981018352826131c3565b51902090565b9190825f525f80516020615ccf83398151915291602091838352604093845f205415614c9a57855f528352835f209084518083868295549384815201905f52865f20925f5b88828210614c8457505050614b30925003836131c3565b8051808501908186116134fa5786018091116134fa57614bd15f8694614b7f89614be49681519681614b6b89935180928d80870191016133cd565b8201908a82015203888101875201856131c3565b614bf360018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b87526060600488015260648701906135f5565b60031993848783030160248801526133ee565b918483030160448501526133ee565b03925af1918215614c7a575f92614c43575b505015614c3357507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b90809250813d8311614c73575b614c5a81836131c3565b810103126103fe575180151581036103fe575f80614c05565b503d614c50565b83513d5f823e3d90fd5b8554845260019586019588955093019201614b19565b845163d66ca67560e01b8152600490fd5b9082614cea575b6040519283526001600160a01b0316917fe97cee5a4c0549d3fdc81e322b718ddf0aeb3418ec87dce4f9a7fb28d117c31290602090a3565b5f80808086855af1614cfa6142fe565b50614cb2576040516312171d8360e31b8152600490fd5b7f9729b62c1a280a968a683045fd5bbd60b97be4a6b7b0a5b624c9bbc54d6f3b5990808203614d625750506029546001600160a01b03163303614d5057565b6040516330cd747160e01b8152600490fd5b5f80516020615d0f8339815191528114908115614daf575b50156145a857614d8933613d48565b15614d915750565b604490604051906301d4003760e61b82526004820152336024820152fd5b5f80516020615cef8339815191529150145f614d7a565b805f52602091600d835260409060ff825f2054169260068410156133355760048414614e1c575f908152600c85528281206001600160a01b039092168152935290912090600103614e15575490565b6001015490565b9250906016614e509460ff93855f5260198252835f209060018060a01b03165f528152825f20945f52525f205416906134c4565b90549060031b1c90565b9190614e65836154cc565b825f52602460205260405f2060018060a01b0382165f5260205260405f209260ff600185015460c01c1615614e98575050565b610c24604051928392634daf852f60e01b8452600484016134ab565b805f5260209260248452604092835f20335f528552801561504257614ed8836145cc565b15615039575f838152601e8652849020805460018201548651630748d63560e31b8152918891839160081c6001600160a01b03169082908190614f1f90336004840161346b565b03915afa90811561502f575f91615001575b50614f43906002600193015490613628565b6001600160401b039081811115614ffb57505b915b614f64848483886158af565b614f6e3082615b67565b614f783382615b67565b855190614f8482613115565b8152868101966001600160401b03809416885286820194838060801b0316855260608201958387525f5260248152865f2090335f5252855f20905181550194511690845493600160401b600160c01b039151901b169160ff60c01b9051151560c01b169266ffffffffffffff60c81b161717179055565b16614f56565b90508681813d8311615028575b61501881836131c3565b810103126103fe57516001614f31565b503d61500e565b86513d5f823e3d90fd5b60015f91614f58565b50505f90815260248352818120338252909252812081815560010155565b805f5260209260248452604092835f20335f528552835f209460018654960154916150a46001600160401b039360018060801b0398858a838b1c169216908861554f565b8015615201576150b3856145cc565b156151f7576150f591855f52601e8152865f208160018060a01b03825460081c166001830154908a518080988194630748d63560e31b8352336004840161346b565b03915afa938415614158579085915f956151c2575b50600194600261511c92015490613628565b818111156151bc57505b975b615134868a858a6158af565b61513e3084615b67565b6151483384615b67565b87519261515484613115565b835284828401991689528783019516855260608201958387525f5260248152865f2090335f5252855f20905181550194511690845493600160401b600160c01b039151901b169160ff60c01b9051151560c01b169266ffffffffffffff60c81b161717179055565b16615126565b945090508184813d81116151f0575b6151db81836131c3565b810103126103fe57925192849061511c61510a565b503d6151d1565b6001915f97615128565b505f93845260248152848420338552905250509081208181556001015550565b5f5260256020526001600160401b0360405f205460401c168015159081615246575090565b905042101590565b90815460ff81169060048210156133355781156153b95760028214615339575060031461527d57505050600190565b604080516001600160a01b03909216602080840191825280845294959394926152a5816131a8565b51902081518381019182528381526152bc816131a8565b519020925f935b8651851015615329576001906152d986896135b8565b518082101561530757845190868201928352858201528481526152fb81613144565b5190205b9401936152c3565b908451908682019283528582015284815261532181613144565b5190206152ff565b9492509450506002915001541490565b6040516370a0823160e01b81526001600160a01b0393841660048201529450602092859250602491839160089190911c165afa918215611e84575f92615384575b5060010154111590565b9091506020813d6020116153b1575b816153a0602093836131c3565b810103126103fe575190600161537a565b3d9150615393565b50506001600160a01b03165f9081526020819052604090205460ff1692915050565b602061542b9260018060a01b0392835f80516020615d2f8339815191525416905f60405180978195829463196d0b9b60e01b845260048401523360248401526080604484015260848301906133ee565b6004606483015203925af1918215611e84575f92615498575b505f80516020615daf8339815191525416803b156103fe575f6040518092630f8e573b60e21b825281838161547d3389600484016134ab565b03925af18015611e845761548f575090565b61325090613195565b9091506020813d6020116154c4575b816154b4602093836131c3565b810103126103fe5751905f615444565b3d91506154a7565b805f52600360205260ff60405f2054161561553d57805f5260256020526001600160401b0360405f20541642106155255761550681615221565b61550d5750565b60249060405190631459edf160e11b82526004820152fd5b602490604051906355032a2560e01b82526004820152fd5b6040516344678c9d60e11b8152600490fd5b9192909261555c836145e9565b6157bc575f8381526015602090815260408083205490959483036001600160801b03169491939092036001600160401b03169160ff161561566157601573__$0103cdff1ccd82bf41b05e7984f410b95b$__93825f525260ff855f205416926155c4826145cc565b6029546001600160a01b031690823b156103fe575f966101849589519a8b988997636208efb360e01b8952601760048a0152602160248a0152601860448a0152601960648a0152608489015260a488015260c487015263ffffffff60e487015261010486015261012485015215156101448401526101648301525af4908115615658575061564f5750565b613d1a90613195565b513d5f823e3d90fd5b906156708296939495966145cc565b60018060a01b03602954169187519463780b1ca760e11b865260048087015260056024870152601f604487015286606487015260096084870152600a60a48701528460c487015260e486015263ffffffff61010486015261012485015285610144850152151561016484015261018483015284826101a48173__$0103cdff1ccd82bf41b05e7984f410b95b$__5af49384156157b2575f925f9561577c575b5061571c575b5050505050565b6157729461576a93615740925f52600c8152815f2090335f52525f20918254615bbb565b815561575160018201938454615bbb565b835561575f81543090615b67565b61576a308454615b67565b339054615b67565b5f80808080615715565b86809296508194503d83116157ab575b61579681836131c3565b810103126103fe57828251920151935f61570f565b503d61578c565b85513d5f823e3d90fd5b50509073__$0103cdff1ccd82bf41b05e7984f410b95b$__906157de83614213565b90835f52602090601a60205263ffffffff948560405f205460201c169060018060a01b036029541693863b156103fe57949392919096604051978896638659d72160e01b8852610104880191601c60048a0152601d60248a0152604489015261010060648901528651809252602061012489019701925f905b83821061589257505050505092849283925f9795608485015260a4840152600160c484015260e483015203915af48015611e845761564f5750565b8451811689528b9950978201979382019360019190910190615857565b919290926158bc836145e9565b615a7557825f526020906015825260409360ff855f20541615155f146159a257601573__$0103cdff1ccd82bf41b05e7984f410b95b$__93825f525260ff855f20541692615909826145cc565b6029546001600160a01b031690823b156103fe575f966001600160401b03610184968a519b8c998a98636208efb360e01b8a52601760048b0152602160248b0152601860448b0152601960648b015260848a015260a489015260c4880152600160e48801521661010486015260018060801b031661012485015215156101448401526101648301525af4908115615658575061564f5750565b906159b18296939495966145cc565b602954875163780b1ca760e11b815260048082015260056024820152601f60448201526064810187905260096084820152600a60a482015260c4810185905260e481019590955260016101048601526001600160401b03929092166101248501526001600160801b0390951661014484018190529415156101648401526001600160a01b031661018483015284826101a48173__$0103cdff1ccd82bf41b05e7984f410b95b$__5af49384156157b2575f925f9561577c575061571c575050505050565b50509073__$0103cdff1ccd82bf41b05e7984f410b95b$__90615a9783614213565b90835f52602090601a60205263ffffffff948560405f205460201c169060018060a01b036029541693863b156103fe57949392919096604051978896638659d72160e01b8852610104880191601c60048a0152601d60248a0152604489015261010060648901528651809252602061012489019701925f905b838210615b4a57505050505092849283925f9795608485015260a48401528660c484015260e483015203915af48015611e845761564f5750565b8451811689528b9950978201979382019360019190910190615b10565b5f80516020615daf833981519152546001600160a01b031691823b156103fe57615baa925f9283604051809681958294635ca4b5b160e11b8452600484016134ab565b03925af18015611e845761564f5750565b80159182615c7557809192615c65575b15615c53575b602090606460018060a01b035f80516020615d2f8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115611e84575f91615c24575090565b90506020813d602011615c4b575b81615c3f602093836131c3565b810103126103fe575190565b3d9150615c32565b506020615c5e615c7b565b9050615bd1565b9150615c6f615c7b565b91615bcb565b91505090565b5f80516020615d2f83398151915254604051639cd07acb60e01b81525f60048201819052600660248301529091602091839160449183916001600160a01b03165af1908115611e84575f91615c2457509056fe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0192a19c77d2ea87c7f81d50c74403cb2f401780f3ad919571121efe2bdb427eb1828634d95e775031b9ff576b159a8509d3053581a8c9c4d7d86899e0afcd882f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701c343afc5f42c13c726a4565076c3584b8ead7bc2ad4c493acfc24a8e7fc69e46e37a692492cf04ff962509ed957d0335b4bd4b391069162b0b919d28a71d8b519e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00a164736f6c6343000818000a";
+
+type DAOPredictMarketFHEConstructorParams =
+  | [linkLibraryAddresses: DAOPredictMarketFHELibraryAddresses, signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: DAOPredictMarketFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => {
+  return (
+    typeof xs[0] === "string" ||
+    (Array.isArray as (arg: any) => arg is readonly any[])(xs[0]) ||
+    "_isInterface" in xs[0]
+  );
+};
+
+export class DAOPredictMarketFHE__factory extends ContractFactory {
+  constructor(...args: DAOPredictMarketFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      const [linkLibraryAddresses, signer] = args;
+      super(
+        _abi,
+        DAOPredictMarketFHE__factory.linkBytecode(linkLibraryAddresses),
+        signer
+      );
+    }
+  }
+
+  static linkBytecode(
+    linkLibraryAddresses: DAOPredictMarketFHELibraryAddresses
+  ): string {
+    let linkedBytecode = _bytecode;
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$0103cdff1ccd82bf41b05e7984f410b95b\\$__", "g"),
+      linkLibraryAddresses["contracts/PredictionTally.sol:PredictionTally"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    return linkedBytecode;
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      DAOPredictMarketFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): DAOPredictMarketFHE__factory {
+    return super.connect(runner) as DAOPredictMarketFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): DAOPredictMarketFHEInterface {
+    return new Interface(_abi) as DAOPredictMarketFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): DAOPredictMarketFHE {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as DAOPredictMarketFHE;
+  }
+}
+
+export interface DAOPredictMarketFHELibraryAddresses {
+  ["contracts/PredictionTally.sol:PredictionTally"]: string;
+}
@@ -0,0 +1,68 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IWeightToken,
+  IWeightTokenInterface,
+} from "../../../contracts/DAO_Predict_Market.sol/IWeightToken";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timepoint",
+        type: "uint256",
+      },
+    ],
+    name: "getPastVotes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class IWeightToken__factory {
+  static readonly abi = _abi;
+  static createInterface(): IWeightTokenInterface {
+    return new Interface(_abi) as IWeightTokenInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IWeightToken {
+    return new Contract(address, _abi, runner) as unknown as IWeightToken;
+  }
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { DAOPredictMarketFHE__factory } from "./DAOPredictMarketFHE__factory";
+export { IWeightToken__factory } from "./IWeightToken__factory";
@@ -0,0 +1,80 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IPredictMarketBatches,
+  IPredictMarketBatchesInterface,
+} from "../../../contracts/MarketRegistry.sol/IPredictMarketBatches";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "batchCreators",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isAdmin",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "nextBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class IPredictMarketBatches__factory {
+  static readonly abi = _abi;
+  static createInterface(): IPredictMarketBatchesInterface {
+    return new Interface(_abi) as IPredictMarketBatchesInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IPredictMarketBatches {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as IPredictMarketBatches;
+  }
+}
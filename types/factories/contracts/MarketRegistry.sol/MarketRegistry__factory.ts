@@ -0,0 +1,500 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MarketRegistry,
+  MarketRegistryInterface,
+} from "../../../contracts/MarketRegistry.sol/MarketRegistry";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "predictMarketAddress",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "DuplicateMarket",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidArgument",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MarketNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MigrationClosed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "NotBatchCreator",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotCreator",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "updater",
+        type: "address",
+      },
+    ],
+    name: "MarketDataUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "MarketRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "marketCount",
+        type: "uint256",
+      },
+    ],
+    name: "MigrationFinished",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "finishMigration",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+    ],
+    name: "getMarket",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "marketId",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "key",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint64",
+            name: "createdAt",
+            type: "uint64",
+          },
+          {
+            internalType: "bytes",
+            name: "data",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct MarketRegistry.Market",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getMarkets",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "marketId",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "key",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint64",
+            name: "createdAt",
+            type: "uint64",
+          },
+          {
+            internalType: "bytes",
+            name: "data",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct MarketRegistry.Market[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "importMarket",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "isKeyRegistered",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "marketCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "marketIdByBatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+    ],
+    name: "marketIdByKey",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "migrationOpen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "predictMarket",
+    outputs: [
+      {
+        internalType: "contract IPredictMarketBatches",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "registerMarket",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "marketId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "updateMarketData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0346100b057601f6111a238819003918201601f19168301916001600160401b038311848410176100b4578084926020946040528339810103126100b057516001600160a01b038116908190036100b0575f5490801561009e576080526001600160a81b0319163317600160a01b175f556040516110d990816100c982396080518181816102ea015281816104da0152818161072b015261104e0152f35b60405163a9cb9e0d60e01b8152600490fd5b5f80fd5b634e487b7160e01b5f52604160045260245ffdfe6080604090808252600480361015610015575f80fd5b5f3560e01c9182632f14f393146107c4575081633ace7d07146105865781634a8df1ac146104635781636b77ba3f146103e157816379046d05146103195781637e09f0aa146102d657816380968d481461025957816388d761f2146101d4578163890633bc1461017f5781638da5cb5b1461015857816398c8bece14610133578163eb44fdd3146100d0575063ec979082146100af575f80fd5b346100cc575f3660031901126100cc576020906001549051908152f35b5f80fd5b82346100cc5760203660031901126100cc578135916100ed610a62565b50600154831015610125575061010e610108610121936108ff565b50610b44565b9051918291602083526020830190610879565b0390f35b90516307db1be560e41b8152fd5b82346100cc575f3660031901126100cc5760209060ff5f5460a01c1690519015158152f35b82346100cc575f3660031901126100cc575f5490516001600160a01b039091168152602090f35b82346100cc5760203660031901126100cc578135916001600160401b0383116100cc576101b46101bb9160209436910161080e565b3691610a06565b8281519101205f5260028252805f205415159051908152f35b82346100cc575f3660031901126100cc575f54916001600160a01b038316330361024b5760ff8360a01c161561023e5760ff60a01b1983165f5560015482519081527ffd12b66403ca83ff459784fbade27efa054cbc049c48d4d5d836a1f7d2de0f8490602090a1005b9051624b605f60e21b8152fd5b90516330cd747160e01b8152fd5b9050346100cc57816003193601126100cc57610279906024359035610bc7565b81519060208083016020845282518091526020858501958260051b8601019301915f955b8287106102aa5785850386f35b9091929382806102c6600193603f198a82030186528851610879565b960192019601959291909261029d565b82346100cc575f3660031901126100cc57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b82346100cc5760803660031901126100cc576001600160401b039180358381116100cc5761034a903690830161080e565b6001600160a01b036024358181169691949092918784036100cc576064359081116100cc5761037c903690830161080e565b9790955f5490811633036103d15760a01c60ff16156103c357156103b55750916103ae93916020969360443592610cc1565b9051908152f35b855163a9cb9e0d60e01b8152fd5b508551624b605f60e21b8152fd5b87516330cd747160e01b81528390fd5b82346100cc5760203660031901126100cc5781356001600160401b0381116100cc576101b4610413913690850161080e565b602081519101205f526002602052805f2054908115610454575f198201918211610441576020925051908152f35b601183634e487b7160e01b5f525260245ffd5b516307db1be560e41b81529050fd5b9050346100cc5760603660031901126100cc576001600160401b039080358281116100cc57610495903690830161080e565b9290602435916044359081116100cc576104b2903690850161080e565b865163a15137c560e01b815280860185905290959194906001600160a01b03906020816024817f000000000000000000000000000000000000000000000000000000000000000086165afa90811561057c575f91610541575b50163303610524576020876103ae88888833888a610cc1565b865163944911f760e01b8152908101849052336024820152604490fd5b90506020813d602011610574575b8161055c6020938361095e565b810103126100cc575181811681036100cc575f61050b565b3d915061054f565b89513d5f823e3d90fd5b9050346100cc57816003193601126100cc578035906001600160401b03906024358281116100cc576105bb903690830161080e565b916001956001548610156107b7576105d2866108ff565b506002810154909190336001600160a01b03918216141590816107a8575b8161070c575b506106fd57506005019383116106ea575061061b82610615855461097f565b856109b7565b5f94601f8311600114610682575061064c92939482915f92610677575b50508160011b915f199060031b1c19161790565b90555b33907f47b93e2c8b3787c63bc335e4404332c016f7ee701b0bcf2206cb6ce14d2701a85f80a3005b013590505f80610638565b90601f19831695845f5260209260205f20935f915b8983106106d357505050836001959697106106ba575b505050811b01905561064f565b01355f19600384901b60f8161c191690555f80806106ad565b848401358655948501949281019291810191610697565b604190634e487b7160e01b5f525260245ffd5b516393687c0b60e01b81529050fd5b8251630935e01b60e21b815233868201529150602090829060249082907f0000000000000000000000000000000000000000000000000000000000000000165afa90811561079e575f91610763575b50155f6105f6565b90506020813d602011610796575b8161077e6020938361095e565b810103126100cc575180151581036100cc575f61075b565b3d9150610771565b82513d5f823e3d90fd5b8091505f5416331415906105f0565b516307db1be560e41b8152fd5b83346100cc5760203660031901126100cc5782355f526003602052805f205491821561080057505f198201918211610441576020925051908152f35b6307db1be560e41b81528390fd5b9181601f840112156100cc578235916001600160401b0383116100cc57602083818601950101116100cc57565b91908251928382525f5b848110610865575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201610845565b6108db918151815260a061089c602084015160c0602085015260c084019061083b565b92600180831b036040820151166040840152606081015160608401526001600160401b03608082015116608084015201519060a081840391015261083b565b90565b919082039182116108eb57565b634e487b7160e01b5f52601160045260245ffd5b60015481101561091b5760015f52600660205f20910201905f90565b634e487b7160e01b5f52603260045260245ffd5b60c081019081106001600160401b0382111761094a57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f801991011681019081106001600160401b0382111761094a57604052565b90600182811c921680156109ad575b602083101461099957565b634e487b7160e01b5f52602260045260245ffd5b91607f169161098e565b601f82116109c457505050565b5f5260205f20906020601f840160051c830193106109fc575b601f0160051c01905b8181106109f1575050565b5f81556001016109e6565b90915081906109dd565b9291926001600160401b03821161094a5760405191610a2f601f8201601f19166020018461095e565b8294818452818301116100cc578281602093845f960137010152565b6001600160401b03811161094a5760051b60200190565b60405190610a6f8261092f565b606060a0835f81528260208201525f60408201525f838201525f60808201520152565b919082018092116108eb57565b805182101561091b5760209160051b010190565b80545f9392610ac18261097f565b918282526020936001916001811690815f14610b255750600114610ae7575b5050505050565b90939495505f92919252835f2092845f945b838610610b1157505050500101905f80808080610ae0565b805485870183015294019385908201610af9565b60ff19168685015250505090151560051b010191505f80808080610ae0565b90600560a0604051610b558161092f565b610bc3819580548352604051610b7981610b728160018601610ab3565b038261095e565b6020840152600180851b036002820154166040840152600381015460608401526001600160401b036004820154166080840152610bbc6040518096819301610ab3565b038461095e565b0152565b91906001906001549081851015610c9a5781610be38287610a92565b1115610c8a57505b610bf584826108de565b93610bff85610a4b565b94610c0d604051968761095e565b808652610c1c601f1991610a4b565b015f5b818110610c7357505084815b838110610c39575050505050565b80610c6c610c4787936108ff565b50610c5b610c5587856108de565b91610b44565b610c658287610a9f565b5284610a9f565b5001610c2b565b602090610c7e610a62565b82828a01015201610c1f565b610c95915084610a92565b610beb565b5050509050604051602081018181106001600160401b0382111761094a576040525f815290565b9093949184156110265783158015611038575b61102657610ce3368684610a06565b6020815191012092835f52600260205260405f205415801590611011575b610fff57610d586001549760405192610d198461092f565b898452610d27368a88610a06565b60208501526001600160a01b038516604085015260608401889052426001600160401b031660808501523691610a06565b60a0820152600160401b87101561094a5760018701600155610d79876108ff565b610fec578151815560208201518051906001600160401b03821161094a57610db182610da8600186015461097f565b600186016109b7565b602090601f8311600114610f7b578260059360a09593610de5935f92610f0c5750508160011b915f199060031b1c19161790565b60018201555b60028101600180851b03604086015116600180861b031982541617905560608401516003820155600481016001600160401b036080860151166001600160401b0319825416179055019101518051906001600160401b03821161094a57610e5682610615855461097f565b602090601f8311600114610f1757610e8492915f9183610f0c5750508160011b915f199060031b1c19161790565b90555b6001860186116108eb5760407fdff9542aab8d5fab61c74e85bb119d6566e6111e6ce7464806ca52d1e8535f0d92869288955f52600260205260018601835f2055865f52600360205260018601835f2055825193849260208452816020850152848401375f8289018401526001600160a01b031696601f01601f19168101030190a490565b015190505f80610638565b90601f19831691845f5260205f20925f5b818110610f635750908460019594939210610f4b575b505050811b019055610e87565b01515f1960f88460031b161c191690555f8080610f3e565b92936020600181928786015181550195019301610f28565b90600184015f5260205f20915f5b601f1985168110610fd457509260a0949260019260059583601f19811610610fbc575b505050811b016001820155610deb565b01515f1960f88460031b161c191690555f8080610fac565b91926020600181928685015181550194019201610f89565b634e487b7160e01b5f525f60045260245ffd5b6040516376ebe0a360e11b8152600490fd5b50845f52600360205260405f20541515610d01565b60405163a9cb9e0d60e01b8152600490fd5b5060405163108c54ff60e31b81526020816004817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa9081156110c1575f9161108f575b50841015610cd4565b90506020813d6020116110b9575b816110aa6020938361095e565b810103126100cc57515f611086565b3d915061109d565b6040513d5f823e3d90fdfea164736f6c6343000818000a";
+
+type MarketRegistryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MarketRegistryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MarketRegistry__factory extends ContractFactory {
+  constructor(...args: MarketRegistryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    predictMarketAddress: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(predictMarketAddress, overrides || {});
+  }
+  override deploy(
+    predictMarketAddress: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(predictMarketAddress, overrides || {}) as Promise<
+      MarketRegistry & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MarketRegistry__factory {
+    return super.connect(runner) as MarketRegistry__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MarketRegistryInterface {
+    return new Interface(_abi) as MarketRegistryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MarketRegistry {
+    return new Contract(address, _abi, runner) as unknown as MarketRegistry;
+  }
+}
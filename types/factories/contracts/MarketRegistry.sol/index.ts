@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { IPredictMarketBatches__factory } from "./IPredictMarketBatches__factory";
+export { MarketRegistry__factory } from "./MarketRegistry__factory";
@@ -0,0 +1,106 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  PredictionTally,
+  PredictionTallyInterface,
+} from "../../contracts/PredictionTally";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "DecryptionFailed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "bits",
+        type: "uint256",
+      },
+    ],
+    name: "decodeWords",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "words",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080806040523461001c57611ae990816100218239308160070152f35b5f80fdfe6080604052307f0000000000000000000000000000000000000000000000000000000000000000146004361015610034575f80fd5b5f3560e01c80636208efb314610e445780637d9137e214610c9a5780638659d7211461053d578063bfdd18d2146104a95763f016394e14610073575f80fd5b61043c576101a036600319011261043c576101043563ffffffff8116810361043c57610124356001600160401b038116810361043c57610144356001600160801b038116810361043c576100c561134c565b90610184356001600160a01b038116900361043c575f9081938293602060018060a01b035f80516020611abd8339815191525416604460405180978193639cd07acb60e01b835260016004840152600460248401525af1938415610448575f94610475575b5060e43593808515610465575b15610453575b602090606460018060a01b035f80516020611abd8339815191525416965f6040519889948593631391547f60e01b8552600485015260248401528160448401525af1938415610448575f9461040c575b506101f16101a263ffffffff6040991661178c565b6101cb6101ad61170b565b9160c4355f526004356020526101d18b5f20546101cb85848c611973565b906116d7565b60c4355f526004356020528b5f20556024356020528a5f20549288611973565b60c4355f52602435602052875f205560043560205261021330885f2054611a19565b60c4355f5260243560205261022b30885f2054611a19565b60c4355f5260043560205261024661018435885f2054611a19565b60c4355f5260243560205261026161018435885f2054611a19565b610332575b506001600160801b038116610284575b505082519182526020820152f35b9092506102b7915061029e906001600160801b0316611881565b6102a66118d4565b6102b1818386611973565b93611973565b60c4355f526084356020526102cf82845f20546116fb565b60c4355f52608435602052835f205560a4356020526102f181845f20546116fb565b60c4355f5260a435602052835f205560843560205261031330845f2054611a19565b60c4355f5260a43560205261032b30845f2054611a19565b5f80610276565b6103476001600160401b0361039692166117db565b61037061035261182e565b9160c4355f52604435602052610376895f205461037085848a611973565b906116eb565b60c4355f52604435602052895f2055606435602052885f20549286611973565b60c4355f52606435602052855f20556044356020526103b830865f2054611a19565b60c4355f526064356020526103d030865f2054611a19565b60c4355f526044356020526103eb61018435865f2054611a19565b60c4355f5260643560205261040661018435865f2054611a19565b5f610266565b9693506020873d602011610440575b816104286020938361135c565b8101031261043c57955192956101f161018d565b5f80fd5b3d915061041b565b6040513d5f823e3d90fd5b50602061045e61170b565b905061013d565b945061046f61170b565b94610137565b9093506020813d6020116104a1575b816104916020938361135c565b8101031261043c5751925f61012a565b3d9150610484565b61018036600319011261043c5761012435801515810361043c576104f9906104cf61133c565b6104d761134c565b916101043560e43560c43560a435608435606435604435602435600435611443565b604051809160208083016020845282518091526020604085019301915f5b82811061052657505050500390f35b835185528695509381019392810192600101610517565b5061043c5761010036600319011261043c576064356001600160401b03811161043c573660238201121561043c5780600401356105798161137d565b91610587604051938461135c565b8183526024602084019260051b8201019036821161043c57602401915b818310610c7d578360843563ffffffff8116810361043c5760a43560c435151560c4350361043c5760e4356001600160a01b038116900361043c5763ffffffff6105ed84611394565b51168115610c69575b5f80516020611abd83398151915254604051630d8c635960e21b815260048101939093526024830191909152600160f81b6044830152602090829060649082905f906001600160a01b03165af1908115610448575f91610c33575b5063ffffffff916020918015610c21575b5f80516020611abd833981519152546040516304559f7160e01b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115610448575f91610bef575b505f80516020611abd833981519152546040516307227b9160e21b8152600481018390526005602482015290602090829060449082905f906001600160a01b03165af1908115610448575f91610bbd575b506044355f5260043560205260405f20549081155f14610afd5761075091505b6044355f526004356020528060405f20556107473082611a19565b60e43590611a19565b6044355f5260243560205260405f209160c4355f14610af65763ffffffff5b5f925f5b8351811015610af45780610aee575f80516020611abd83398151915254604051639cd07acb60e01b8152600160048201525f602482018190529091602091839160449183916001600160a01b03165af1908115610448575f91610abc575b505b80600183018311610aa857855160018401106108a6575b509061080f60019261080163ffffffff871661178c565b61080961170b565b91611973565b875482036108625761082190886113de565b61085c610842610831838a6113c9565b919054916003923091841b1c611a19565b61084c838a6113c9565b60e4929192359254911b1c611a19565b01610773565b61087c90610870838a6113c9565b90549060031b1c611676565b61089f610889838a6113c9565b819391549060031b91821b915f19901b19161790565b9055610821565b9195505063ffffffff6108bc60018701866113b5565b51169482958315610a94575b5f80516020611abd83398151915254604051631391547f60e01b815260048101989098526024880191909152600160f81b6044880152602090879060649082905f906001600160a01b03165af1958615610448575f96610a60575b505f80516020611abd83398151915254604051630f51ccfb60e41b81526004810188905290602090829060249082905f906001600160a01b03165af1908115610448575f91610a2e575b50808315610a1e575b15610a0c575b602090606460018060a01b035f80516020611abd8339815191525416945f604051968794859363d99882d560e01b8552600485015260248401528160448401525af1918215610448575f926109d6575b509061080f6107ea565b91506020823d602011610a04575b816109f16020938361135c565b8101031261043c5790519061080f6109cc565b3d91506109e4565b506020610a17611927565b905061097c565b9250610a28611927565b92610976565b90506020813d602011610a58575b81610a496020938361135c565b8101031261043c57518861096d565b3d9150610a3c565b9095506020813d602011610a8c575b81610a7c6020938361135c565b8101031261043c57519487610923565b3d9150610a6f565b95506020610aa061170b565b9690506108c8565b634e487b7160e01b5f52601160045260245ffd5b90506020813d602011610ae6575b81610ad76020938361135c565b8101031261043c5751876107d1565b3d9150610aca565b846107d3565b005b600161076f565b60c43515610bab578015610b99575b602090606460018060a01b035f80516020611abd8339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af18015610448575f90610b65575b610750915061072c565b506020813d602011610b91575b81610b7f6020938361135c565b8101031261043c576107509051610b5b565b3d9150610b72565b506020610ba461182e565b9050610b0c565b610bb890610750926116ae565b61072c565b90506020813d602011610be7575b81610bd86020938361135c565b8101031261043c57518361070c565b3d9150610bcb565b90506020813d602011610c19575b81610c0a6020938361135c565b8101031261043c5751826106bb565b3d9150610bfd565b506064610c2c61170b565b9050610662565b90506020813d602011610c61575b81610c4e6020938361135c565b8101031261043c575163ffffffff610651565b3d9150610c41565b90506020610c7561170b565b9190506105f6565b823563ffffffff8116810361043c578152602092830192016105a4565b608036600319011261043c576004356001600160401b0380821161043c573660238301121561043c5781600401356024918111610e3057602091601f199160405194610ced8585601f850116018761135c565b8186523683838301011161043c57815f928487930183890137860101528351938135604435610d1c8183611404565b6005978160051b91808304891490151715610e0b5710610e1e5785918793610d438361137d565b95610d51604051978861135c565b838752610d5d8461137d565b87860198013689375f9160019660016064351b945f198601958611945b878110610dbc578b8b8b8b6040519281840190828552518091526040840194915f5b828110610da95785870386f35b8351875295810195928101928401610d9c565b610dcc81839d9b9d9c9a9c611404565b8c8101809111610e0b5780841b908082048d1490151715610e0b5784015186610e0b5790878d9216610dfe828c6113b5565b52019a989a999799610d7a565b85634e487b7160e01b5f5260116004525ffd5b60405163fdf70a8160e01b8152600490fd5b50634e487b7160e01b5f9081526041600452fd5b5061043c5761018036600319011261043c5760a43560ff8116810361043c5760e4359063ffffffff8216820361043c57610104356001600160401b038116810361043c57610124356001600160801b038116810361043c57610ea461133c565b90610164356001600160a01b038116900361043c5760c4358015611328575b5f80516020611abd83398151915254604051637210768160e01b8152600481019290925260ff86166024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af18015610448575f906112f4575b610f359150610f2b61170b565b9060c43590611973565b906084355f5260043560205260405f2093610f5260ff871661137d565b93610f60604051958661135c565b60ff8716808652601f1990610f749061137d565b013660208701375f5b60ff881660ff821610156110d8575f908586156110c6575b5f80516020611abd8339815191525460405163f77f3f1d60e01b8152600481019290925260ff83166024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af18015610448575f90611091575b60ff925081600191611006858095168b6113b5565b526110278c61080163ffffffff61101f8588168e6113b5565b51921661178c565b8a548285160361106f5761103b908b6113de565b61106661104b610831838d6113c9565b611055838d6113c9565b610164929192359254911b1c611a19565b01169050610f7d565b61107d90610870838d6113c9565b61108a610889838d6113c9565b905561103b565b506020823d6020116110be575b816110ab6020938361135c565b8101031261043c57905160ff9190610ff1565b3d915061109e565b5060206110d161170b565b9050610f95565b5090849161120d575b506001600160801b0382166110f257005b6084355f5260443560205260405f2060643560205260405f20335f5260205261112660405f209360018060801b0316611881565b61112e6118d4565b915f5b8451811015610af45780611152858561114c6001958a6113b5565b51611973565b835482036111eb5761116481856113de565b875482036111bd5761117690886113de565b6111b761118661083183866113c9565b61119f611193848b6113c9565b30915490841b1c611a19565b6111a9838a6113c9565b919091339254911b1c611a19565b01611131565b6111d7906111cb838a6113c9565b90549060031b1c611a93565b6111e4610889838a6113c9565b9055611176565b6111f9816111cb84876113c9565b61120661088984876113c9565b9055611164565b91906084355f526024356020526112306001600160401b0360405f2094166117db565b61123861182e565b915f5b81518110156112e857611253848461114c84866113b5565b90808754145f146112b857865491600160401b8310156112a4576112816108898460018096018b558a6113c9565b90555b61129e611294610831838a6113c9565b611055838a6113c9565b0161123b565b634e487b7160e01b5f52604160045260245ffd5b6112d46001926112c8838a6113c9565b90549060031b1c6116ae565b6112e1610889838a6113c9565b9055611284565b509293505050826110e1565b506020813d602011611320575b8161130e6020938361135c565b8101031261043c57610f359051610f1e565b3d9150611301565b505f602061133461170b565b915050610ec3565b6101443590811515820361043c57565b6101643590811515820361043c57565b90601f801991011681019081106001600160401b038211176112a457604052565b6001600160401b0381116112a45760051b60200190565b8051156113a15760200190565b634e487b7160e01b5f52603260045260245ffd5b80518210156113a15760209160051b010190565b80548210156113a1575f5260205f2001905f90565b805490600160401b8210156112a45781610889916001611400940181556113c9565b9055565b91908201809211610aa857565b9061141b8261137d565b611428604051918261135c565b8281528092611439601f199161137d565b0190602036910137565b9b9a9493929899919590979660609a6115e0575050611522575050825f52602093888552604096875f2054158015611514575b611509575081156114fd5761148f60ff60045b16611411565b98845f528552865f20546114a28a611394565b52835f528452855f20548851600110156113a157868901526114c6575b5050505050565b815f528252835f20548651600210156113a15760608701525f52525f20548251600310156113a15760808301525f808080806114bf565b61148f60ff6002611489565b985050505050505050565b50818652875f205415611476565b955095509596505090505f5260205260405f209060205260405f2090825f146115d35780548060011b9080820460021490151715610aa85761156690929192611411565b925f918354925b83811061157c57505050505090565b808361158a600193886113c9565b919054600392831b1c61159d848b6113b5565b526115aa575b500161156d565b6115b482856113c9565b9054911b1c6115cc6115c68388611404565b896113b5565b525f6115a3565b6115668154929192611411565b97509897505050505050809495505f5260205260405f20805491821561166e575060019260018301808411610aa85761161890611411565b945f5260205260405f205461162c85611394565b525f5b82811061163d575050505090565b61164781836113c9565b9190549185820190818311610aa85786936116679160031b1c91886113b5565b520161162f565b935050505090565b9061168d9180156116a0575b8115611690576119c5565b90565b905061169a61170b565b906119c5565b506116a961170b565b611682565b9061168d9180156116c9575b816119c557905061169a61182e565b506116d261182e565b6116ba565b80156116e7579061168d91611676565b5090565b80156116e7579061168d916116ae565b80156116e7579061168d91611a93565b5f80516020611abd83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610448575f9161175d575090565b90506020813d602011611784575b816117786020938361135c565b8101031261043c575190565b3d915061176b565b60205f91604460018060a01b035f80516020611abd8339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af1908115610448575f9161175d575090565b5f80516020611abd83398151915254604051639cd07acb60e01b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115610448575f9161175d575090565b5f80516020611abd83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610448575f9161175d575090565b5f80516020611abd83398151915254604051639cd07acb60e01b8152600481019290925260066024830152602090829060449082905f906001600160a01b03165af1908115610448575f9161175d575090565b5f80516020611abd83398151915254604051639cd07acb60e01b81525f60048201819052600660248301529091602091839160449183916001600160a01b03165af1908115610448575f9161175d575090565b5f602060018060a01b035f80516020611abd8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610448575f9161175d575090565b9060646020925f60018060a01b035f80516020611abd83398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115610448575f9161175d575090565b90602090606460018060a01b035f80516020611abd8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610448575f9161175d575090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b0392908316803b1561043c575f92836044926040519687958694635ca4b5b160e11b865260048601521660248401525af1801561044857611a805750565b6001600160401b0381116112a457604052565b9061168d918015611aae575b816119c557905061169a6118d4565b50611ab76118d4565b611a9f56fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type PredictionTallyConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: PredictionTallyConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class PredictionTally__factory extends ContractFactory {
+  constructor(...args: PredictionTallyConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      PredictionTally & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): PredictionTally__factory {
+    return super.connect(runner) as PredictionTally__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): PredictionTallyInterface {
+    return new Interface(_abi) as PredictionTallyInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): PredictionTally {
+    return new Contract(address, _abi, runner) as unknown as PredictionTally;
+  }
+}
@@ -1,4 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as daoPredictMarketSol from "./DAO_Predict_Market.sol";
+export * as marketRegistrySol from "./MarketRegistry.sol";
+export * as mocks from "./mocks";
+export { PredictionTally__factory } from "./PredictionTally__factory";
@@ -0,0 +1,390 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockGovernor,
+  MockGovernorInterface,
+} from "../../../contracts/mocks/MockGovernor";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+    ],
+    name: "GovernorAlreadyCastVote",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "GovernorInvalidVoteType",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "GovernorNonexistentProposal",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum MockGovernor.ProposalState",
+        name: "current",
+        type: "uint8",
+      },
+    ],
+    name: "GovernorUnexpectedProposalState",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "ProposalCanceled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "voteEnd",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    name: "ProposalCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "ProposalExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "support",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "weight",
+        type: "uint256",
+      },
+    ],
+    name: "VoteCast",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "cancel",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "support",
+        type: "uint8",
+      },
+    ],
+    name: "castVote",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "execute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasVoted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "proposalDeadline",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "proposalVotes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "againstVotes",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "forVotes",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "abstainVotes",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "votingPeriod",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    name: "propose",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "state",
+    outputs: [
+      {
+        internalType: "enum MockGovernor.ProposalState",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346101e3576108f780380380610019816101e7565b928339810190602080828403126101e35781516001600160401b03928382116101e3570192601f908082860112156101e35784518481116101bb57601f1995610067828501881686016101e7565b928284528583830101116101e35784905f5b8381106101cf5750505f918301015280519384116101bb575f54926001938481811c911680156101b1575b8282101461019d5783811161015a575b50809285116001146100fa5750839450908392915f946100ef575b50501b915f199060031b1c1916175f555b6040516106ea908161020d8239f35b015192505f806100cf565b9294849081165f8052845f20945f905b888383106101405750505010610128575b505050811b015f556100e0565b01515f1960f88460031b161c191690555f808061011b565b85870151885590960195948501948793509081019061010a565b5f8052815f208480880160051c820192848910610194575b0160051c019085905b8281106101895750506100b4565b5f815501859061017b565b92508192610172565b634e487b7160e01b5f52602260045260245ffd5b90607f16906100a4565b634e487b7160e01b5f52604160045260245ffd5b818101830151858201840152869201610079565b5f80fd5b6040519190601f01601f191682016001600160401b038111838210176101bb5760405256fe608060409080825260049081361015610016575f80fd5b5f3560e01c90816306fdde03146104fe575080633e4f49e6146104d157806340e58ee514610465578063438596321461041c578063544ffc9c146103db578063567813881461025c5780639a22b4f514610150578063c01f9e37146101285763fe0d94c114610083575f80fd5b34610124576020366003190112610124578035916100a083610660565b6008811015610111578281036100ef5750825f5260016020525f200161010061ff00198254161790557f712ae1383f79ac853f8d882153778e0260ef8f03b504e2866e0593e04d2b291f5f80a2005b60449361010f92519363e8579bf960e01b8552840152602483019061063f565bfd5b602183634e487b7160e01b5f525260245ffd5b5f80fd5b50903461012457602036600319011261012457602091355f5260018252805f20549051908152f35b50346101245760603660031901126101245780359060443567ffffffffffffffff938482116101245736602383011215610124578183013594851161012457366024868401011161012457835f526001602052805f20546102315760243542019283421161021e575060247f85b1e5bd1e58840265c40582ff09f8cbfab823e041a824467b654a99b5156d399392868093875f52600160205285815f205580519586528060208701528501520160608301375f606085830101526060813395601f80199101168101030190a3005b601190634e487b7160e01b5f525260245ffd5b61010f915083610242604495610660565b915163e8579bf960e01b815293840152602483019061063f565b5034610124578160031936011261012457803591602492833560ff81168091036101245761028982610660565b9360088510156103c9576001948581036103a85750825f5260209560028752845f20335f52875260ff855f20541661039357835f5260028752845f20335f528752845f208660ff19825416179055835f5285875285855f2084155f14610342570190815492878401809411610331575050555b825190815283858201527f2c9deb38f462962eadbd85a9d3a4120503ee091f1582eaaa10aa8c6797651d29833392a351908152f35b601190634e487b7160e01b5f52525ffd5b9084036103625760020190815492878401809411610331575050556102fc565b600284036103835760030190815492878401809411610331575050556102fc565b85516303599be160e11b81528390fd5b908451906371c6af4960e01b82523390820152fd5b9061010f604492888688519463e8579bf960e01b865285015283019061063f565b60218691634e487b7160e01b5f52525ffd5b50903461012457602036600319011261012457606091355f526001602052805f20600181015491600360028301549201549181519384526020840152820152f35b5090346101245780600319360112610124576024356001600160a01b0381169081900361012457602092355f5260028352815f20905f52825260ff815f20541690519015158152f35b50346101245760203660031901126101245780359161048383610660565b600881101561011157600181036100ef5750825f5260016020525f2001600160ff198254161790557f789cf55be980739dad1d0699b93b58e806b51c9d96619bfa8fe0a28abaa7b30c5f80a2005b509034610124576020366003190112610124576104fc6104f360209335610660565b9151809261063f565bf35b828434610124575f366003190112610124575f925f546001948160011c60018316968715610635575b602093848310891461062257848697989984885291825f146106065750506001146105c9575b5050601f801994859203011682019482861067ffffffffffffffff8711176105b657509084929183855280845281519182828601525f5b8381106105a05750505f84830186015250601f01168101030190f35b8181018301518882018801528795508201610584565b604190634e487b7160e01b5f525260245ffd5b5f8080528481209594935091905b8183106105ee57505082829394500101868061054d565b855487840185015294850194869450918301916105d7565b925093505060ff191682850152151560051b830101868061054d565b602288634e487b7160e01b5f525260245ffd5b90607f1690610527565b90600882101561064c5752565b634e487b7160e01b5f52602160045260245ffd5b805f52600160205260405f209081549081156106c55750600482015460ff8160081c166106bd5760ff166106b6574211156106b05760016002820154910154105f146106ab57600490565b600390565b50600190565b5050600290565b505050600790565b60249060405190636ad0607560e01b82526004820152fdfea164736f6c6343000818000a";
+
+type MockGovernorConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockGovernorConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockGovernor__factory extends ContractFactory {
+  constructor(...args: MockGovernorConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name_: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(name_, overrides || {});
+  }
+  override deploy(
+    name_: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(name_, overrides || {}) as Promise<
+      MockGovernor & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockGovernor__factory {
+    return super.connect(runner) as MockGovernor__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockGovernorInterface {
+    return new Interface(_abi) as MockGovernorInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockGovernor {
+    return new Contract(address, _abi, runner) as unknown as MockGovernor;
+  }
+}
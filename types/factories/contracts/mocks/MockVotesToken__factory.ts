@@ -0,0 +1,320 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockVotesToken,
+  MockVotesTokenInterface,
+} from "../../../contracts/mocks/MockVotesToken";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "balance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "ERC20InsufficientBalance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "timepoint",
+        type: "uint256",
+      },
+      {
+        internalType: "uint48",
+        name: "clock",
+        type: "uint48",
+      },
+    ],
+    name: "ERC5805FutureLookup",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "clock",
+    outputs: [
+      {
+        internalType: "uint48",
+        name: "",
+        type: "uint48",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timepoint",
+        type: "uint256",
+      },
+    ],
+    name: "getPastVotes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "getVotes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "transfer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234620002ec5762000ac1803803806200001d81620002f0565b928339810190604081830312620002ec5780516001600160401b0390818111620002ec57836200004f91840162000316565b9160209384820151838111620002ec576200006b920162000316565b928251908282116200020a575f54916001948584811c94168015620002e1575b83851014620001eb578190601f948581116200028e575b5083908583116001146200022a575f926200021e575b50505f19600383901b1c191690851b175f555b84519283116200020a5783548481811c91168015620001ff575b82821014620001eb57828111620001a3575b50809183116001146200013f57508192935f9262000133575b50505f19600383901b1c191690821b1790555b60405161073a9081620003878239f35b015190505f8062000110565b90601f19831694845f52825f20925f905b8782106200018b5750508385961062000172575b505050811b01905562000123565b01515f1960f88460031b161c191690555f808062000164565b80878596829496860151815501950193019062000150565b845f52815f208380860160051c820192848710620001e1575b0160051c019085905b828110620001d5575050620000f7565b5f8155018590620001c5565b92508192620001bc565b634e487b7160e01b5f52602260045260245ffd5b90607f1690620000e5565b634e487b7160e01b5f52604160045260245ffd5b015190505f80620000b8565b90879350601f198316915f8052855f20925f5b878282106200027757505084116200025e575b505050811b015f55620000cb565b01515f1960f88460031b161c191690555f808062000250565b8385015186558b979095019493840193016200023d565b9091505f8052835f208580850160051c820192868610620002d7575b918991869594930160051c01915b828110620002c8575050620000a2565b5f8155859450899101620002b8565b92508192620002aa565b93607f16936200008b565b5f80fd5b6040519190601f01601f191682016001600160401b038111838210176200020a57604052565b919080601f84011215620002ec5782516001600160401b0381116200020a576020906200034c601f8201601f19168301620002f0565b92818452828287010111620002ec575f5b818110620003725750825f9394955001015290565b85810183015184820184015282016200035d56fe60806040908082526004361015610014575f80fd5b5f3560e01c90816306fdde03146103965750806318160ddd14610378578063313ce5671461035d5780633a46b1a81461032e57806340c10f19146102ad57806370a082311461016f57806391ddadf41461028b57806395d89b41146101a65780639ab24eb01461016f5763a9059cbb1461008c575f80fd5b3461016b578060031936011261016b576100a46104b1565b9060243591335f526003602052815f2054928084106101485780840393841161013457602093335f5260038552835f205561010360018060a01b03831692835f52845f206100f38482546105b6565b90556100fe336105c3565b6105c3565b82519081527fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef843392a35160018152f35b634e487b7160e01b5f52601160045260245ffd5b8360649184519163391434e360e21b835233600484015260248301526044820152fd5b5f80fd5b503461016b57602036600319011261016b576020906001600160a01b036101946104b1565b165f5260038252805f20549051908152f35b503461016b575f36600319011261016b5780515f9160018054908160011c9060018316928315610281575b602093848410811461026d5783875290811561024d5750600114610210575b5050506102028261020c940383610434565b519182918261046a565b0390f35b91945060015f52845f20915f925b82841061023a575050508261020c9461020292820101946101f0565b805486850188015292860192810161021e565b60ff1916868501525050151560051b83010192506102028261020c6101f0565b634e487b7160e01b5f52602260045260245ffd5b91607f16916101d1565b503461016b575f36600319011261016b576020905165ffffffffffff43168152f35b503461016b578060031936011261016b575f7fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60206102ea6104b1565b93602435906102fb826002546105b6565b60025561032760018060a01b03871696878752600385528287206103208582546105b6565b90556105c3565b51908152a3005b503461016b578060031936011261016b5760209061035661034d6104b1565b602435906104f0565b9051908152f35b503461016b575f36600319011261016b576020905160128152f35b503461016b575f36600319011261016b576020906002549051908152f35b90503461016b575f36600319011261016b575f915f5460018160011c906001831692831561042a575b602093848410811461026d5783875290811561024d57506001146103ef575050506102028261020c940383610434565b5f808052838120939650925b828410610417575050508261020c9461020292820101946101f0565b80548685018801529286019281016103fb565b91607f16916103bf565b90601f8019910116810190811067ffffffffffffffff82111761045657604052565b634e487b7160e01b5f52604160045260245ffd5b602080825282518183018190529093925f5b82811061049d57505060409293505f838284010152601f8019910116010190565b81810186015184820160400152850161047c565b600435906001600160a01b038216820361016b57565b80548210156104dc575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b65ffffffffffff9081431680841015610598575060018060a01b03165f52600490600460205260405f208054805b61052b5750505050505f90565b5f19810181811161058557858461054283866104c7565b505416111561056e5750801561055b575f19018061051e565b601184634e487b7160e01b5f525260245ffd5b935050905061057d92506104c7565b505460301c90565b601185634e487b7160e01b5f525260245ffd5b8360449160405191637669fc0f60e11b835260048301526024820152fd5b9190820180921161013457565b6001600160a01b03165f90815260046020818152604080842060039092529092205482546001600160d01b0391821693919080151580610706575b1561065157505080545f1981019290831161063e575061063c9291610622916104c7565b509065ffffffffffff82549181199060301b169116179055565b565b601190634e487b7160e01b5f525260245ffd5b60408051949695929365ffffffffffff9291860167ffffffffffffffff8111878210176106f357604052438316865260208601938452600160401b8210156106e057906106a3916001820181556104c7565b9490946106ce5751915165ffffffffffff9190921616911660301b65ffffffffffff19161790559050565b5f87634e487b7160e01b82525260245ffd5b604188634e487b7160e01b5f525260245ffd5b604189634e487b7160e01b5f525260245ffd5b505f1981018181116105855761072365ffffffffffff91856104c7565b50541643146105fe56fea164736f6c6343000818000a";
+
+type MockVotesTokenConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockVotesTokenConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockVotesToken__factory extends ContractFactory {
+  constructor(...args: MockVotesTokenConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name_: string,
+    symbol_: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(name_, symbol_, overrides || {});
+  }
+  override deploy(
+    name_: string,
+    symbol_: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(name_, symbol_, overrides || {}) as Promise<
+      MockVotesToken & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockVotesToken__factory {
+    return super.connect(runner) as MockVotesToken__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockVotesTokenInterface {
+    return new Interface(_abi) as MockVotesTokenInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockVotesToken {
+    return new Contract(address, _abi, runner) as unknown as MockVotesToken;
+  }
+}
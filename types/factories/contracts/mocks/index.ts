@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { MockGovernor__factory } from "./MockGovernor__factory";
+export { MockUniversalAdapter__factory } from "./MockUniversalAdapter__factory";
+export { MockVotesToken__factory } from "./MockVotesToken__factory";
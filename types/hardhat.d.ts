@@ -46,9 +46,37 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
     getContractFactory(
-      name: "UniversalAdapter",
+      name: "DAOPredictMarketFHE",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.UniversalAdapter__factory>;
+    ): Promise<Contracts.DAOPredictMarketFHE__factory>;
+    getContractFactory(
+      name: "IWeightToken",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IWeightToken__factory>;
+    getContractFactory(
+      name: "IPredictMarketBatches",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IPredictMarketBatches__factory>;
+    getContractFactory(
+      name: "MarketRegistry",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MarketRegistry__factory>;
+    getContractFactory(
+      name: "MockGovernor",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MockGovernor__factory>;
+    getContractFactory(
+      name: "MockUniversalAdapter",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MockUniversalAdapter__factory>;
+    getContractFactory(
+      name: "MockVotesToken",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MockVotesToken__factory>;
+    getContractFactory(
+      name: "PredictionTally",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.PredictionTally__factory>;
 
     getContractAt(
       name: "EthereumConfig",
@@ -91,10 +119,45 @@ declare module "hardhat/types/runtime" {
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
     getContractAt(
-      name: "UniversalAdapter",
+      name: "DAOPredictMarketFHE",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.DAOPredictMarketFHE>;
+    getContractAt(
+      name: "IWeightToken",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IWeightToken>;
+    getContractAt(
+      name: "IPredictMarketBatches",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IPredictMarketBatches>;
+    getContractAt(
+      name: "MarketRegistry",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MarketRegistry>;
+    getContractAt(
+      name: "MockGovernor",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MockGovernor>;
+    getContractAt(
+      name: "MockUniversalAdapter",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MockUniversalAdapter>;
+    getContractAt(
+      name: "MockVotesToken",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MockVotesToken>;
+    getContractAt(
+      name: "PredictionTally",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.PredictionTally>;
 
     deployContract(
       name: "EthereumConfig",
@@ -129,9 +192,37 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalAdapter",
+      name: "DAOPredictMarketFHE",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.DAOPredictMarketFHE>;
+    deployContract(
+      name: "IWeightToken",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IWeightToken>;
+    deployContract(
+      name: "IPredictMarketBatches",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IPredictMarketBatches>;
+    deployContract(
+      name: "MarketRegistry",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MarketRegistry>;
+    deployContract(
+      name: "MockGovernor",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockGovernor>;
+    deployContract(
+      name: "MockUniversalAdapter",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockUniversalAdapter>;
+    deployContract(
+      name: "MockVotesToken",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockVotesToken>;
+    deployContract(
+      name: "PredictionTally",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.PredictionTally>;
 
     deployContract(
       name: "EthereumConfig",
@@ -174,10 +265,45 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalAdapter",
+      name: "DAOPredictMarketFHE",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.DAOPredictMarketFHE>;
+    deployContract(
+      name: "IWeightToken",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IWeightToken>;
+    deployContract(
+      name: "IPredictMarketBatches",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IPredictMarketBatches>;
+    deployContract(
+      name: "MarketRegistry",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MarketRegistry>;
+    deployContract(
+      name: "MockGovernor",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockGovernor>;
+    deployContract(
+      name: "MockUniversalAdapter",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockUniversalAdapter>;
+    deployContract(
+      name: "MockVotesToken",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MockVotesToken>;
+    deployContract(
+      name: "PredictionTally",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.PredictionTally>;
 
     // default types
     getContractFactory(
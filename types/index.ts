@@ -22,5 +22,19 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { DAOPredictMarketFHE } from "./contracts/DAO_Predict_Market.sol/DAOPredictMarketFHE";
+export { DAOPredictMarketFHE__factory } from "./factories/contracts/DAO_Predict_Market.sol/DAOPredictMarketFHE__factory";
+export type { IWeightToken } from "./contracts/DAO_Predict_Market.sol/IWeightToken";
+export { IWeightToken__factory } from "./factories/contracts/DAO_Predict_Market.sol/IWeightToken__factory";
+export type { IPredictMarketBatches } from "./contracts/MarketRegistry.sol/IPredictMarketBatches";
+export { IPredictMarketBatches__factory } from "./factories/contracts/MarketRegistry.sol/IPredictMarketBatches__factory";
+export type { MarketRegistry } from "./contracts/MarketRegistry.sol/MarketRegistry";
+export { MarketRegistry__factory } from "./factories/contracts/MarketRegistry.sol/MarketRegistry__factory";
+export type { MockGovernor } from "./contracts/mocks/MockGovernor";
+export { MockGovernor__factory } from "./factories/contracts/mocks/MockGovernor__factory";
+export type { MockUniversalAdapter } from "./contracts/mocks/MockUniversalAdapter";
+export { MockUniversalAdapter__factory } from "./factories/contracts/mocks/MockUniversalAdapter__factory";
+export type { MockVotesToken } from "./contracts/mocks/MockVotesToken";
+export { MockVotesToken__factory } from "./factories/contracts/mocks/MockVotesToken__factory";
+export type { PredictionTally } from "./contracts/PredictionTally";
+export { PredictionTally__factory } from "./factories/contracts/PredictionTally__factory";